@@ -6,14 +6,17 @@ import { motion } from 'framer-motion';
 import { useInView } from 'react-intersection-observer';
 import CountUp from 'react-countup';
 import { TradeData } from '@/lib/database';
-import { NewsArticle } from '@/lib/api-client';
+import { ActivityAnomaly, CompanyHolder, CompanySummary, HoldingData, NewsArticle } from '@/lib/api-client';
 import { cachedApiClient, cachedAlpacaClient } from '@/lib/cached-api-client';
 import { 
   ArrowLeftIcon, 
   BuildingOfficeIcon, 
   ChartBarIcon, 
   NewspaperIcon,
-  UsersIcon
+  UsersIcon,
+  BriefcaseIcon,
+  UserGroupIcon,
+  PresentationChartLineIcon
 } from '@heroicons/react/24/outline';
 import { 
   TrendingUp, 
@@ -25,6 +28,15 @@ import {
 } from 'lucide-react';
 import TradingViewWidget from '@/components/TradingViewWidget';
 import TradesDisplay from '@/components/TradesDisplay';
+import HoldingsTable from '@/components/HoldingsTable';
+import InsiderOwnershipTable from '@/components/InsiderOwnershipTable';
+import AnomalyBadge from '@/components/AnomalyBadge';
+import CompanyActivitySummary from '@/components/CompanyActivitySummary';
+
+const SUMMARY_WINDOWS = [3, 6, 12];
+
+const formatUsd = (value: number): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0 }).format(value);
 
 interface MarketSnapshot {
   snapshot?: {
@@ -154,6 +166,93 @@ const StatsCard: React.FC<StatsCardProps> = ({
   );
 };
 
+// ============================================
+// Activity Stats Component
+// ============================================
+const ActivityStats: React.FC<{ summary: CompanySummary }> = ({ summary }) => {
+  const [windowMonths, setWindowMonths] = useState(12);
+  const activity = summary.windows.find((window) => window.window_months === windowMonths);
+
+  if (!activity) return null;
+
+  return (
+    <>
+      <div className="flex items-center gap-2 mb-4">
+        <span className="text-xs font-medium text-gray-600 uppercase tracking-wider mr-1">Open-market activity</span>
+        {SUMMARY_WINDOWS.map((months) => (
+          <button
+            key={months}
+            onClick={() => setWindowMonths(months)}
+            className={`px-3 py-1.5 text-xs font-semibold rounded-xl transition-all duration-200 ${
+              months === windowMonths
+                ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-sm'
+                : 'bg-white border border-gray-200/60 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {months}M
+          </button>
+        ))}
+      </div>
+      <motion.div
+        variants={{
+          hidden: { opacity: 0 },
+          show: {
+            opacity: 1,
+            transition: {
+              staggerChildren: 0.1,
+            },
+          },
+        }}
+        initial="hidden"
+        animate="show"
+        className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6"
+      >
+        {/* Net Buying */}
+        <StatsCard
+          label="Net Buying"
+          sublabel={`${activity.unique_buyers} buyers · ${activity.unique_sellers} sellers`}
+          value={activity.net_value}
+          icon={DollarSign}
+          color={activity.net_value >= 0 ? 'emerald' : 'red'}
+          delay={0}
+          isCurrency
+          showSign
+        />
+
+        {/* Buys */}
+        <StatsCard
+          label="Buys"
+          sublabel={formatUsd(activity.buy_value)}
+          value={activity.buy_count}
+          icon={TrendingUp}
+          color="emerald"
+          delay={0.1}
+        />
+
+        {/* Sells */}
+        <StatsCard
+          label="Sells"
+          sublabel={formatUsd(activity.sell_value)}
+          value={activity.sell_count}
+          icon={TrendingDown}
+          color="red"
+          delay={0.2}
+        />
+
+        {/* Cluster Events */}
+        <StatsCard
+          label="Cluster Events"
+          sublabel={`${activity.cluster_buys} buying · ${activity.cluster_sells} selling`}
+          value={activity.cluster_buys + activity.cluster_sells}
+          icon={Activity}
+          color="blue"
+          delay={0.3}
+        />
+      </motion.div>
+    </>
+  );
+};
+
 // eslint-disable-next-line max-lines-per-function
 export default function CompanyPageClient() {
   const params = useParams();
@@ -166,6 +265,10 @@ export default function CompanyPageClient() {
   const [error, setError] = useState<string | null>(null);
   const [snapshot, setSnapshot] = useState<MarketSnapshot | null>(null);
   const [news, setNews] = useState<NewsArticle[]>([]);
+  const [holdings, setHoldings] = useState<HoldingData[]>([]);
+  const [holders, setHolders] = useState<CompanyHolder[]>([]);
+  const [anomalies, setAnomalies] = useState<ActivityAnomaly[]>([]);
+  const [summary, setSummary] = useState<CompanySummary | null>(null);
 
   useEffect(() => {
     const fetchCompanyTrades = async () => {
@@ -191,6 +294,70 @@ export default function CompanyPageClient() {
     fetchCompanyTrades();
   }, [cik]);
 
+  // Fetch positions reported on Forms 3/4/5 without a transaction
+  useEffect(() => {
+    const fetchHoldings = async () => {
+      if (!cik) return;
+      
+      try {
+        const result = await cachedApiClient.getHoldingsByCompany(cik);
+        setHoldings(result);
+      } catch (err) {
+        console.error('Error fetching holdings:', err);
+      }
+    };
+
+    fetchHoldings();
+  }, [cik]);
+
+  // Fetch each insider's current position, rebuilt from their filings
+  useEffect(() => {
+    const fetchHolders = async () => {
+      if (!cik) return;
+
+      try {
+        const result = await cachedApiClient.getCompanyHolders(cik);
+        setHolders(result);
+      } catch (err) {
+        console.error('Error fetching insider holders:', err);
+      }
+    };
+
+    fetchHolders();
+  }, [cik]);
+
+  // Fetch the precomputed 3/6/12-month activity, largest trades and clusters
+  useEffect(() => {
+    const fetchSummary = async () => {
+      if (!cik) return;
+
+      try {
+        const result = await cachedApiClient.getCompanySummary(cik);
+        setSummary(result);
+      } catch (err) {
+        console.error('Error fetching company summary:', err);
+      }
+    };
+
+    fetchSummary();
+  }, [cik]);
+
+  // Fetch recent activity that is unusual for this company
+  useEffect(() => {
+    const fetchAnomalies = async () => {
+      if (!cik) return;
+
+      try {
+        const result = await cachedApiClient.getActivityAnomalies(90, { cik });
+        setAnomalies(result);
+      } catch (err) {
+        console.error('Error fetching activity anomalies:', err);
+      }
+    };
+
+    fetchAnomalies();
+  }, [cik]);
+
   // Fetch news when symbol is available
   useEffect(() => {
     const fetchNews = async () => {
@@ -223,44 +390,6 @@ export default function CompanyPageClient() {
     fetchSnapshot();
   }, [tradingSymbol]);
 
-  // Calculate insider activity statistics
-  // NOTE: Only count actual purchases (P+A) and sales (S+D), not grants/awards
-  const calculateInsiderStats = () => {
-    const recentTrades = trades.filter(trade => {
-      const tradeDate = new Date(trade.transaction_date);
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      return tradeDate >= thirtyDaysAgo;
-    });
-
-    // Only count actual open market purchases, not grants/awards
-    const actualBuys = trades.filter(t => 
-      t.transaction_code === 'P' && t.acquired_disposed_code === 'A'
-    );
-    
-    // Only count actual open market sales
-    const actualSells = trades.filter(t => 
-      t.transaction_code === 'S' && t.acquired_disposed_code === 'D'
-    );
-    
-    const totalBuyValue = actualBuys.reduce((sum, t) => sum + (t.transaction_value || 0), 0);
-    const totalSellValue = actualSells.reduce((sum, t) => sum + (t.transaction_value || 0), 0);
-    
-    const uniqueInsiders = new Set(trades.map(t => t.person_cik)).size;
-    
-    return {
-      recentTradesCount: recentTrades.length,
-      totalBuys: actualBuys.length,
-      totalSells: actualSells.length,
-      totalBuyValue,
-      totalSellValue,
-      netValue: totalBuyValue - totalSellValue,
-      uniqueInsiders,
-    };
-  };
-
-  const insiderStats = trades.length > 0 ? calculateInsiderStats() : null;
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white flex items-center justify-center">
@@ -434,69 +563,15 @@ export default function CompanyPageClient() {
                     ${tradingSymbol}
                   </span>
                 )}
+                {anomalies.map((anomaly) => (
+                  <AnomalyBadge key={anomaly.anomaly_id} anomaly={anomaly} className="py-1.5 text-sm shadow-sm" />
+                ))}
               </div>
             </div>
           </motion.div>
 
           {/* Key Metrics - Animated Stats */}
-          {insiderStats && (
-            <motion.div
-              variants={{
-                hidden: { opacity: 0 },
-                show: {
-                  opacity: 1,
-                  transition: {
-                    staggerChildren: 0.1,
-                  },
-                },
-              }}
-              initial="hidden"
-              animate="show"
-              className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6"
-            >
-              {/* Recent Activity */}
-              <StatsCard
-                label="Recent Trades"
-                sublabel="Last 30 days"
-                value={insiderStats.recentTradesCount}
-                icon={Activity}
-                color="blue"
-                delay={0}
-              />
-
-              {/* Total Buys */}
-              <StatsCard
-                label="Total Buys"
-                sublabel={new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0 }).format(insiderStats.totalBuyValue)}
-                value={insiderStats.totalBuys}
-                icon={TrendingUp}
-                color="emerald"
-                delay={0.1}
-              />
-
-              {/* Total Sells */}
-              <StatsCard
-                label="Total Sells"
-                sublabel={new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0 }).format(insiderStats.totalSellValue)}
-                value={insiderStats.totalSells}
-                icon={TrendingDown}
-                color="red"
-                delay={0.2}
-              />
-
-              {/* Net Sentiment */}
-              <StatsCard
-                label="Net Value"
-                sublabel={`${insiderStats.uniqueInsiders} Insiders`}
-                value={insiderStats.netValue}
-                icon={DollarSign}
-                color={insiderStats.netValue >= 0 ? 'emerald' : 'red'}
-                delay={0.3}
-                isCurrency
-                showSign
-              />
-            </motion.div>
-          )}
+          {summary && <ActivityStats summary={summary} />}
         </div>
       </section>
 
@@ -645,6 +720,43 @@ export default function CompanyPageClient() {
           </motion.section>
         )}
 
+        {/* Largest Trades and Cluster Events Section */}
+        {summary && (
+          <motion.section
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, amount: 0.2 }}
+            transition={{ duration: 0.7 }}
+          >
+            <div className="
+              bg-white/80 backdrop-blur-sm
+              border border-gray-200/60 
+              rounded-2xl 
+              shadow-sm hover:shadow-lg 
+              transition-all duration-300 
+              overflow-hidden
+            ">
+              <div className="px-4 sm:px-6 py-4 border-b border-gray-200/60 bg-gradient-to-r from-blue-50/50 to-indigo-50/30">
+                <div className="flex items-center gap-3">
+                  <PresentationChartLineIcon className="h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+                  <div>
+                    <h2 className="text-lg sm:text-xl font-bold text-gray-900">Activity Highlights</h2>
+                    <p className="text-xs sm:text-sm text-gray-600">Largest open-market trades and cluster signals of the last 12 months</p>
+                  </div>
+                </div>
+              </div>
+              <div className="p-4 sm:p-6">
+                <CompanyActivitySummary
+                  largestTrades={summary.largest_trades}
+                  clusters={summary.clusters}
+                  onTradeClick={(accessionNumber) => router.push(`/filing/${accessionNumber}`)}
+                  onInsiderClick={(personCik) => router.push(`/insider/${personCik.replace(/\.0$/, '')}`)}
+                />
+              </div>
+            </div>
+          </motion.section>
+        )}
+
         {/* Recent Insider Activity Section */}
         <motion.section
           initial={{ opacity: 0, y: 30 }}
@@ -699,6 +811,81 @@ export default function CompanyPageClient() {
           </div>
         </motion.section>
 
+        {/* Insider Ownership Section */}
+        {holders.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, amount: 0.2 }}
+            transition={{ duration: 0.7 }}
+          >
+            <div className="
+              bg-white/80 backdrop-blur-sm
+              border border-gray-200/60 
+              rounded-2xl 
+              shadow-sm hover:shadow-lg 
+              transition-all duration-300 
+              overflow-hidden
+            ">
+              <div className="px-4 sm:px-6 py-4 border-b border-gray-200/60 bg-gradient-to-r from-blue-50/50 to-indigo-50/30">
+                <div className="flex items-center gap-3">
+                  <UserGroupIcon className="h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+                  <div>
+                    <h2 className="text-lg sm:text-xl font-bold text-gray-900">Insider Ownership</h2>
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      {summary
+                        ? `${summary.holdings.insiders} insiders hold ${summary.holdings.total_shares.toLocaleString('en-US', { maximumFractionDigits: 0 })} shares as of their latest filings`
+                        : 'Shares each insider held as of their latest filing'}
+                    </p>
+                  </div>
+                </div>
+              </div>
+              <div className="p-4 sm:p-6">
+                <InsiderOwnershipTable
+                  holders={holders}
+                  onInsiderClick={(personCik) => router.push(`/insider/${personCik.replace(/\.0$/, '')}`)}
+                />
+              </div>
+            </div>
+          </motion.section>
+        )}
+
+        {/* Reported Holdings Section */}
+        {holdings.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, amount: 0.2 }}
+            transition={{ duration: 0.7 }}
+          >
+            <div className="
+              bg-white/80 backdrop-blur-sm
+              border border-gray-200/60 
+              rounded-2xl 
+              shadow-sm hover:shadow-lg 
+              transition-all duration-300 
+              overflow-hidden
+            ">
+              <div className="px-4 sm:px-6 py-4 border-b border-gray-200/60 bg-gradient-to-r from-blue-50/50 to-indigo-50/30">
+                <div className="flex items-center gap-3">
+                  <BriefcaseIcon className="h-5 w-5 sm:h-6 sm:w-6 text-blue-600" />
+                  <div>
+                    <h2 className="text-lg sm:text-xl font-bold text-gray-900">Reported Holdings</h2>
+                    <p className="text-xs sm:text-sm text-gray-600">Initial statements (Form 3) and holdings reported without a trade</p>
+                  </div>
+                </div>
+              </div>
+              <div className="p-4 sm:p-6">
+                <HoldingsTable
+                  holdings={holdings}
+                  context="company"
+                  onHoldingClick={(accessionNumber) => router.push(`/filing/${accessionNumber}`)}
+                />
+              </div>
+            </div>
+          </motion.section>
+        )}
+
         {/* Latest News Section */}
         {tradingSymbol && news.length > 0 && (
           <motion.section
@@ -0,0 +1,335 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ClusterSell } from '../../lib/database';
+import { cachedApiClient } from '../../lib/cached-api-client';
+import { Calendar, Users, DollarSign, TrendingDown, Percent, ChevronDown, ChevronUp } from 'lucide-react';
+import { ClickableCompany, ClickableInsider } from './ClickableLinks';
+import FilingLink from './FilingLink';
+
+/**
+ * Coordinated selling: two or more insiders making discretionary open-market
+ * sales around the same day. 10b5-1 plan sales and tax-withholding
+ * dispositions are excluded by the signal processor.
+ */
+export function ClusterSells() {
+  const [clusters, setClusters] = useState<ClusterSell[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [daysWindow, setDaysWindow] = useState(7);
+  const [expandedCards, setExpandedCards] = useState<Set<number>>(new Set());
+  const router = useRouter();
+
+  const toggleCard = (clusterId: number) => {
+    setExpandedCards(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(clusterId)) {
+        newSet.delete(clusterId);
+      } else {
+        newSet.add(clusterId);
+      }
+      return newSet;
+    });
+  };
+
+  useEffect(() => {
+    fetchClusterSells();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [daysWindow]);
+
+  const fetchClusterSells = async () => {
+    try {
+      setLoading(true);
+      const data = await cachedApiClient.getClusterSells(daysWindow);
+      setClusters(data);
+      setError(null);
+    } catch {
+      setError('Failed to fetch cluster sells');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatCurrencyCompact = (value: number) => {
+    if (value >= 1000000) {
+      return `$${(value / 1000000).toFixed(1)}M`;
+    } else if (value >= 1000) {
+      return `$${(value / 1000).toFixed(0)}K`;
+    }
+    return `$${value.toFixed(0)}`;
+  };
+
+  const formatNumber = (value: number) => {
+    return new Intl.NumberFormat('en-US').format(value);
+  };
+
+  const formatPercent = (value: number | null) => {
+    return value === null ? '—' : `${(value * 100).toFixed(0)}%`;
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const handleCompanyClick = (symbol?: string, cik?: string) => {
+    if (cik) {
+      router.push(`/company/${cik}`);
+    }
+  };
+
+  const handleInsiderClick = (cik?: string) => {
+    if (cik) {
+      router.push(`/insider?cik=${cik}`);
+    }
+  };
+
+  const getSignalLevel = (cluster: ClusterSell): { level: string; color: string } => {
+    if (cluster.signal_strength >= 75) {
+      return { level: 'Strong', color: 'bg-red-100 text-red-800' };
+    } else if (cluster.signal_strength >= 50) {
+      return { level: 'Moderate', color: 'bg-rose-100 text-rose-800' };
+    }
+    return { level: 'Weak', color: 'bg-gray-100 text-gray-700' };
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="border rounded-xl p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div className="space-y-2">
+                  <div className="h-5 bg-gray-200 rounded w-40"></div>
+                  <div className="h-3 bg-gray-200 rounded w-60"></div>
+                </div>
+                <div className="h-6 bg-gray-200 rounded w-24"></div>
+              </div>
+              <div className="h-16 bg-gray-200 rounded"></div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <div className="text-red-600 mb-2">❌ Error</div>
+          <p className="text-gray-600">{error}</p>
+          <button
+            onClick={fetchClusterSells}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 sm:gap-0 mb-4 sm:mb-6">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Cluster Sell Activity</h2>
+          <p className="text-xs sm:text-sm text-gray-500 mt-1">
+            Coordinated open-market selling outside 10b5-1 plans
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3">
+          <div className="flex items-center gap-2">
+            <label htmlFor="sell-days-window" className="text-xs sm:text-sm font-medium text-gray-700">
+              Time:
+            </label>
+            <select
+              id="sell-days-window"
+              value={daysWindow}
+              onChange={(e) => setDaysWindow(Number(e.target.value))}
+              className="flex-1 sm:flex-none border border-gray-300 rounded-lg px-2 sm:px-3 py-1.5 text-xs sm:text-sm bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value={1}>1 Day</option>
+              <option value={3}>3 Days</option>
+              <option value={7}>7 Days</option>
+              <option value={14}>14 Days</option>
+              <option value={30}>30 Days</option>
+            </select>
+          </div>
+          <button
+            onClick={fetchClusterSells}
+            className="px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-medium text-gray-700 hover:text-gray-900 border border-gray-300 rounded-lg bg-white hover:bg-gray-50 focus-visible:ring-2 focus-visible:ring-blue-500"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {clusters.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-gray-400 mb-2">👥</div>
+          <p className="text-gray-500">No cluster selling activity found</p>
+          <p className="text-xs text-gray-400 mt-1">
+            Try adjusting the time window to find patterns
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3 sm:space-y-6">
+          {clusters.map((cluster) => {
+            const signal = getSignalLevel(cluster);
+            const isExpanded = expandedCards.has(cluster.cluster_id);
+
+            return (
+              <div
+                key={cluster.cluster_id}
+                className="border border-gray-200 rounded-xl hover:shadow-lg transition-all bg-gradient-to-r from-white to-red-50 overflow-hidden"
+              >
+                <div className="p-4 sm:p-6">
+                  {/* Header */}
+                  <div className="flex justify-between items-start gap-3 mb-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-2">
+                        <TrendingDown className="h-4 w-4 sm:h-5 sm:w-5 text-red-600 flex-shrink-0" />
+                        <span className={`px-2 sm:px-3 py-0.5 sm:py-1 rounded-full text-[10px] sm:text-xs font-bold uppercase tracking-wide ${signal.color}`}>
+                          {signal.level} · {cluster.signal_strength}
+                        </span>
+                        {cluster.has_ceo_sell && (
+                          <span className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold bg-red-50 text-red-700 border border-red-200">
+                            CEO
+                          </span>
+                        )}
+                        {cluster.has_cfo_sell && (
+                          <span className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-semibold bg-red-50 text-red-700 border border-red-200">
+                            CFO
+                          </span>
+                        )}
+                      </div>
+                      <ClickableCompany
+                        name={cluster.issuer_name}
+                        symbol={cluster.trading_symbol}
+                        cik={cluster.issuer_cik}
+                        className="text-sm sm:text-xl font-bold text-gray-900 line-clamp-1"
+                        onClick={handleCompanyClick}
+                      />
+                      <div className="flex items-center gap-1 text-xs sm:text-sm text-gray-500 mt-1">
+                        <Calendar className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                        <span>{formatDate(cluster.transaction_date)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Cluster Summary */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-4 p-3 sm:p-4 bg-white rounded-xl border border-gray-100">
+                    <div className="text-center">
+                      <div className="flex items-center justify-center gap-1 mb-1">
+                        <Users className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-blue-600" />
+                        <span className="text-[10px] sm:text-xs text-gray-500 uppercase tracking-wide">Insiders</span>
+                      </div>
+                      <div className="text-lg sm:text-2xl font-bold text-blue-600">{cluster.total_insiders}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="flex items-center justify-center gap-1 mb-1">
+                        <TrendingDown className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-red-600" />
+                        <span className="text-[10px] sm:text-xs text-gray-500 uppercase tracking-wide">Shares Sold</span>
+                      </div>
+                      <div className="text-lg sm:text-2xl font-bold text-red-600">{formatNumber(cluster.total_shares)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="flex items-center justify-center gap-1 mb-1">
+                        <DollarSign className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-purple-600" />
+                        <span className="text-[10px] sm:text-xs text-gray-500 uppercase tracking-wide">Total Value</span>
+                      </div>
+                      <div className="text-lg sm:text-2xl font-bold text-purple-600">
+                        {formatCurrencyCompact(cluster.total_value)}
+                      </div>
+                    </div>
+                    <div className="text-center">
+                      <div className="flex items-center justify-center gap-1 mb-1">
+                        <Percent className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-gray-600" />
+                        <span className="text-[10px] sm:text-xs text-gray-500 uppercase tracking-wide">Avg of Holdings</span>
+                      </div>
+                      <div className="text-lg sm:text-2xl font-bold text-gray-700">
+                        {formatPercent(cluster.avg_pct_of_holdings)}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex justify-end mt-3">
+                    <button
+                      onClick={() => toggleCard(cluster.cluster_id)}
+                      className="flex items-center gap-1 text-xs sm:text-sm text-blue-600 font-medium hover:text-blue-700 active:text-blue-800 px-2 py-1 -mr-2 rounded"
+                    >
+                      {isExpanded ? (
+                        <>Hide sales <ChevronUp className="h-4 w-4" /></>
+                      ) : (
+                        <>Show {cluster.trades.length} sales <ChevronDown className="h-4 w-4" /></>
+                      )}
+                    </button>
+                  </div>
+
+                  {/* Individual Trades */}
+                  {isExpanded && (
+                    <div className="space-y-2 mt-2">
+                      {cluster.trades.map((trade) => (
+                        <div
+                          key={`${trade.accession_number}-${trade.person_cik}`}
+                          className="flex justify-between items-center gap-2 p-2.5 sm:p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                        >
+                          <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
+                            <div className="w-7 h-7 sm:w-8 sm:h-8 bg-red-100 rounded-full flex items-center justify-center shrink-0">
+                              <span className="text-[10px] sm:text-xs font-bold text-red-600">
+                                {trade.person_name.split(' ').map(n => n[0]).join('')}
+                              </span>
+                            </div>
+                            <div className="min-w-0 flex-1">
+                              <ClickableInsider
+                                name={trade.person_name}
+                                cik={trade.person_cik}
+                                title={trade.officer_title}
+                                onClick={handleInsiderClick}
+                                className="text-xs sm:text-sm truncate"
+                              />
+                              <div className="text-[10px] sm:text-xs text-gray-500 flex flex-wrap items-center gap-1">
+                                <span>Filed: </span>
+                                <FilingLink accessionNumber={trade.accession_number} filedAt={trade.filed_at} />
+                                {Boolean(trade.is_director) && <span className="ml-1 text-purple-600">• Director</span>}
+                                {Boolean(trade.is_officer) && <span className="ml-1 text-blue-600">• Officer</span>}
+                              </div>
+                            </div>
+                          </div>
+                          <div className="text-right shrink-0">
+                            <div className="text-xs sm:text-base font-semibold text-gray-900">
+                              {formatCurrency(trade.transaction_value)}
+                            </div>
+                            <div className="text-[10px] sm:text-xs text-gray-500">
+                              {formatNumber(trade.shares_transacted)} shares · {formatPercent(trade.pct_of_holdings)} of holdings
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useTranslations } from 'next-intl';
 import { TradeData } from '../../lib/database';
 import { PaginationMetadata } from '../../lib/api-client';
@@ -93,6 +93,16 @@ interface PersistedState {
   timestamp: number;
 }
 
+// A page fetched by cursor carries no page number or totals; keep the
+// current ones and take only whether there is a next page
+const cursorPagination = (current: PaginationMetadata, hasNextPage: boolean): PaginationMetadata => ({
+  ...current,
+  has_next_page: hasNextPage,
+  has_prev_page: true,
+  next_page: hasNextPage ? current.page + 1 : null,
+  prev_page: current.page - 1,
+});
+
 export function TradesList() {
   const t = useTranslations();
   const router = useRouter();
@@ -121,6 +131,8 @@ export function TradesList() {
   const [error, setError] = useState<string | null>(null);
   const [isNavigating, setIsNavigating] = useState(false);
   const [hasRestoredState, setHasRestoredState] = useState(false);
+  // Cursors of pages reached with "next", valid for the filters they came from
+  const cursorsRef = useRef<{ filterKey: string; byPage: Record<number, string> }>({ filterKey: '', byPage: {} });
   
   // Filter states
   const [q, setQ] = useState('');
@@ -331,16 +343,29 @@ export function TradesList() {
         min_shares: minShares ? Number(minShares) : undefined,
         start_date: dateFrom || undefined,
         end_date: dateTo || undefined,
-        page: pagination.page,
       };
-      
-      const response = await cachedApiClient.getLatestTradesWithPagination(pagination.limit, filterParams);
+
+      const filterKey = JSON.stringify(filterParams);
+      if (cursorsRef.current.filterKey !== filterKey) {
+        cursorsRef.current = { filterKey, byPage: {} };
+      }
+
+      // Pages reached with "next" are fetched by cursor; jumps fall back to page numbers
+      const cursor = pagination.page > 1 ? cursorsRef.current.byPage[pagination.page] : undefined;
+      const response = await cachedApiClient.getLatestTradesWithPagination(
+        pagination.limit,
+        cursor ? { ...filterParams, cursor, include_total: false } : { ...filterParams, page: pagination.page }
+      );
       
       console.info('API Response:', response);
       console.info('Pagination data:', response.pagination);
+
+      if (response.pagination.next_cursor) {
+        cursorsRef.current.byPage[pagination.page + 1] = response.pagination.next_cursor;
+      }
       
       setTrades(response.data);
-      setPagination(response.pagination);
+      setPagination(cursor ? cursorPagination(pagination, response.pagination.has_next_page) : response.pagination);
       setQueryInfo(response.query_info || { filters_applied: 0 });
       setError(null);
     } catch (err) {
@@ -0,0 +1,213 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ActivityAnomaly } from '../../lib/database';
+import { cachedApiClient } from '../../lib/cached-api-client';
+import { Calendar, Users, DollarSign, Activity, History } from 'lucide-react';
+import { ClickableCompany } from './ClickableLinks';
+import AnomalyBadge from '@/components/AnomalyBadge';
+
+/**
+ * Insider activity that is unusual for the company itself rather than large
+ * in absolute terms: the first open-market buy in three years, or a week of
+ * buying or selling far above the company's normal weekly volume.
+ */
+export function UnusualActivity() {
+  const [anomalies, setAnomalies] = useState<ActivityAnomaly[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [daysWindow, setDaysWindow] = useState(30);
+  const [direction, setDirection] = useState<'' | 'buy' | 'sell'>('');
+  const router = useRouter();
+
+  useEffect(() => {
+    fetchAnomalies();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [daysWindow, direction]);
+
+  const fetchAnomalies = async () => {
+    try {
+      setLoading(true);
+      const data = await cachedApiClient.getActivityAnomalies(daysWindow, direction ? { direction } : undefined);
+      setAnomalies(data);
+      setError(null);
+    } catch {
+      setError('Failed to fetch unusual activity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrencyCompact = (value: number) => {
+    if (value >= 1000000) {
+      return `$${(value / 1000000).toFixed(1)}M`;
+    } else if (value >= 1000) {
+      return `$${(value / 1000).toFixed(0)}K`;
+    }
+    return `$${value.toFixed(0)}`;
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const handleCompanyClick = (symbol?: string, cik?: string) => {
+    if (cik) {
+      router.push(`/company/${cik}`);
+    }
+  };
+
+  // What the week is compared against
+  const describeBaseline = (anomaly: ActivityAnomaly) => {
+    if (anomaly.anomaly_type === 'first_buy_in_years') {
+      return anomaly.last_prior_date
+        ? `Previous insider buy ${formatDate(anomaly.last_prior_date)}`
+        : 'No insider buys on record';
+    }
+    const years = (anomaly.baseline_weeks / 52).toFixed(1);
+    return `Usually ${formatCurrencyCompact(anomaly.baseline_avg_value ?? 0)} and ${(anomaly.baseline_avg_count ?? 0).toFixed(1)} trades a week (${years} yrs)`;
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="border rounded-xl p-6">
+              <div className="h-5 bg-gray-200 rounded-lg w-40 mb-3"></div>
+              <div className="h-3 bg-gray-200 rounded-lg w-60"></div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-12">
+          <div className="text-red-600 mb-2">❌ Error</div>
+          <p className="text-gray-600">{error}</p>
+          <button
+            onClick={fetchAnomalies}
+            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 sm:gap-0 mb-4 sm:mb-6">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Unusual Activity</h2>
+          <p className="text-xs sm:text-sm text-gray-500 mt-1">
+            Insider buying and selling far outside each company&apos;s own history
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3">
+          <select
+            aria-label="Direction"
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as '' | 'buy' | 'sell')}
+            className="border border-gray-300 rounded-lg px-2 sm:px-3 py-1.5 text-xs sm:text-sm bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          >
+            <option value="">Buys &amp; Sells</option>
+            <option value="buy">Buys</option>
+            <option value="sell">Sells</option>
+          </select>
+          <select
+            aria-label="Time window"
+            value={daysWindow}
+            onChange={(e) => setDaysWindow(Number(e.target.value))}
+            className="border border-gray-300 rounded-lg px-2 sm:px-3 py-1.5 text-xs sm:text-sm bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          >
+            <option value={7}>7 Days</option>
+            <option value={30}>30 Days</option>
+            <option value={90}>90 Days</option>
+          </select>
+          <button
+            onClick={fetchAnomalies}
+            className="px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-medium text-gray-700 hover:text-gray-900 border border-gray-300 rounded-lg bg-white hover:bg-gray-50 focus-visible:ring-2 focus-visible:ring-purple-500"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {anomalies.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-gray-400 mb-2">📈</div>
+          <p className="text-gray-500">No unusual insider activity found</p>
+          <p className="text-xs text-gray-400 mt-1">
+            Try a longer time window
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3 sm:space-y-4">
+          {anomalies.map((anomaly) => (
+            <div
+              key={anomaly.anomaly_id}
+              className="border border-gray-200 rounded-xl hover:shadow-lg transition-all bg-gradient-to-r from-white to-purple-50 p-4 sm:p-6"
+            >
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <AnomalyBadge anomaly={anomaly} className="mb-2" />
+                  <ClickableCompany
+                    name={anomaly.issuer_name}
+                    symbol={anomaly.trading_symbol}
+                    cik={anomaly.issuer_cik}
+                    className="text-sm sm:text-xl font-bold text-gray-900 line-clamp-1"
+                    onClick={handleCompanyClick}
+                  />
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs sm:text-sm text-gray-500 mt-1">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                      {formatDate(anomaly.window_start)} – {formatDate(anomaly.transaction_date)}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <History className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                      {describeBaseline(anomaly)}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 sm:gap-6 text-center shrink-0">
+                  <div>
+                    <div className="flex items-center justify-center gap-1 text-[10px] sm:text-xs text-gray-500 uppercase tracking-wide">
+                      <DollarSign className="h-3.5 w-3.5 text-purple-600" /> Value
+                    </div>
+                    <div className={`text-base sm:text-xl font-bold ${anomaly.direction === 'buy' ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrencyCompact(anomaly.total_value)}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-center gap-1 text-[10px] sm:text-xs text-gray-500 uppercase tracking-wide">
+                      <Activity className="h-3.5 w-3.5 text-purple-600" /> Trades
+                    </div>
+                    <div className="text-base sm:text-xl font-bold text-gray-900">{anomaly.trade_count}</div>
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-center gap-1 text-[10px] sm:text-xs text-gray-500 uppercase tracking-wide">
+                      <Users className="h-3.5 w-3.5 text-purple-600" /> Insiders
+                    </div>
+                    <div className="text-base sm:text-xl font-bold text-gray-900">{anomaly.total_insiders}</div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
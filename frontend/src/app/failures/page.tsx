@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { apiClient, type FailedFiling } from '@/lib/api-client';
+import { ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+type StatusFilter = 'all' | FailedFiling['status'];
+
+const STATUS_TABS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'failed', label: 'Retrying' },
+  { value: 'dead_letter', label: 'Dead-lettered' },
+];
+
+// Kept per tab session so the token is not persisted to disk
+const ADMIN_TOKEN_KEY = 'adminApiToken';
+
+const formatDateTime = (dateString: string | null) => {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Failure dashboard for the filing-processing queue: filings that failed
+ * (and are being retried) or exhausted their retries, with one-click requeue.
+ * Requeueing needs the API's admin token.
+ */
+export default function FailuresPage() {
+  const [filings, setFilings] = useState<FailedFiling[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [requeueing, setRequeueing] = useState<Set<string>>(new Set());
+  const [requeued, setRequeued] = useState<Set<string>>(new Set());
+  const [adminToken, setAdminToken] = useState('');
+
+  useEffect(() => {
+    setAdminToken(sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? '');
+  }, []);
+
+  const handleAdminTokenChange = (value: string) => {
+    setAdminToken(value);
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, value);
+  };
+
+  const fetchFailures = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await apiClient.getFailedFilings(statusFilter === 'all' ? undefined : statusFilter);
+      setFilings(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch failed filings');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchFailures();
+  }, [fetchFailures]);
+
+  const handleRequeue = async (accessionNumber: string) => {
+    if (!adminToken) {
+      setError('Enter the admin token to requeue filings');
+      return;
+    }
+    setError(null);
+    setRequeueing((prev) => new Set(prev).add(accessionNumber));
+    try {
+      await apiClient.requeueFiling(accessionNumber, adminToken);
+      setRequeued((prev) => new Set(prev).add(accessionNumber));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Requeue failed');
+    } finally {
+      setRequeueing((prev) => {
+        const next = new Set(prev);
+        next.delete(accessionNumber);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-20 sm:pt-24 pb-12">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-red-100 to-red-50 rounded-xl flex items-center justify-center">
+              <ExclamationTriangleIcon className="h-6 w-6 text-red-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-extrabold text-gray-900">Processing Failures</h1>
+              <p className="text-sm text-gray-600">Filings the processor could not store</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => handleAdminTokenChange(e.target.value)}
+              placeholder="Admin token"
+              autoComplete="off"
+              className="px-4 py-2 bg-white border border-gray-200/60 text-sm text-gray-700 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={fetchFailures}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-200/60 text-gray-700 text-sm font-medium rounded-xl shadow-sm hover:shadow-md transition-all duration-200 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setStatusFilter(tab.value)}
+              className={`px-4 py-2 text-sm font-medium rounded-xl transition-all duration-200 ${
+                statusFilter === tab.value
+                  ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-sm'
+                  : 'bg-white border border-gray-200/60 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200/60 text-red-700 text-sm rounded-xl p-4">{error}</div>
+        )}
+
+        <div className="bg-white/80 backdrop-blur-sm border border-gray-200/60 rounded-2xl shadow-sm overflow-hidden">
+          {loading ? (
+            <div className="flex justify-center py-16">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : filings.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-16">No failed filings.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Accession</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Error</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Failure</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-100">
+                  {filings.map((filing) => {
+                    const isRequeued = requeued.has(filing.accession_number);
+                    return (
+                      <tr key={filing.accession_number}>
+                        <td className="px-4 py-3 text-sm whitespace-nowrap">
+                          <Link
+                            href={`/filing/${filing.accession_number}`}
+                            className="font-mono text-blue-700 hover:text-blue-800"
+                          >
+                            {filing.accession_number}
+                          </Link>
+                          {filing.issuer_name && (
+                            <div className="text-xs text-gray-500">{filing.issuer_name}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span
+                            className={`inline-flex items-center px-2 py-0.5 rounded-lg text-xs font-medium ${
+                              filing.status === 'dead_letter' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                            }`}
+                          >
+                            {filing.status === 'dead_letter' ? 'Dead-lettered' : 'Retrying'}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700 max-w-md">
+                          {filing.error_class && <span className="font-semibold">{filing.error_class}: </span>}
+                          <span className="break-words">{filing.error_message || 'No error recorded'}</span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 text-right">{filing.attempts ?? '—'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                          {formatDateTime(filing.dead_lettered_at || filing.last_failed_at)}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => handleRequeue(filing.accession_number)}
+                            disabled={isRequeued || requeueing.has(filing.accession_number)}
+                            className="px-3 py-1.5 bg-gradient-to-r from-blue-600 to-blue-700 text-white text-xs font-semibold rounded-xl shadow-sm hover:shadow-md transition-all duration-200 disabled:opacity-50"
+                          >
+                            {isRequeued ? 'Requeued' : requeueing.has(filing.accession_number) ? 'Requeueing...' : 'Requeue'}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { useInView } from 'react-intersection-observer';
 import CountUp from 'react-countup';
 import { TradeData } from '@/lib/database';
 import { cachedApiClient } from '@/lib/cached-api-client';
-import type { FilingData } from '@/lib/api-client';
+import type { FilingData, FootnoteData, HoldingData } from '@/lib/api-client';
 import { 
   ArrowLeftIcon, 
   ArrowTopRightOnSquareIcon
@@ -25,6 +25,7 @@ import {
   Info
 } from 'lucide-react';
 import TransactionBadge, { getTransactionCategory } from '@/components/TransactionBadge';
+import HoldingsTable from '@/components/HoldingsTable';
 
 // ============================================
 // Stats Card Component
@@ -145,6 +146,8 @@ export default function FilingPageClient() {
   const accessionNumber = params.accessionNumber as string;
   const [trades, setTrades] = useState<TradeData[]>([]);
   const [filing, setFiling] = useState<FilingData | null>(null);
+  const [footnotes, setFootnotes] = useState<FootnoteData[]>([]);
+  const [holdings, setHoldings] = useState<HoldingData[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -203,6 +206,8 @@ export default function FilingPageClient() {
         
         setFiling(filingData.filing);
         setTrades(filingData.trades);
+        setHoldings(filingData.holdings || []);
+        setFootnotes(filingData.footnotes || []);
       } catch (err) {
         console.error('Failed to fetch filing data:', err);
         setError(err instanceof Error ? err.message : 'Failed to fetch filing data');
@@ -215,6 +220,8 @@ export default function FilingPageClient() {
       try {
         const filingData = await cachedApiClient.getFilingByAccessionNumber(accessionNumber);
         setFiling(filingData.filing);
+        setHoldings(filingData.holdings || []);
+        setFootnotes(filingData.footnotes || []);
         
         // Update trades if the API has more complete data
         if (filingData.trades?.length > 0) {
@@ -288,7 +295,7 @@ export default function FilingPageClient() {
     );
   }
 
-  if (error || trades.length === 0) {
+  if (error || (trades.length === 0 && holdings.length === 0)) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white flex items-center justify-center">
         <motion.div
@@ -324,11 +331,13 @@ export default function FilingPageClient() {
     );
   }
 
-  const primaryTrade = trades[0];
+  // A Form 3 has no transactions, only holdings, so fall back to those for filing details
+  const primaryTrade: TradeData | HoldingData = trades[0] || holdings[0];
   // Use filing metadata if available, otherwise calculate from trades
   const totalValue = filing ? filing.total_value : trades.reduce((sum, t) => sum + (t.transaction_value || 0), 0);
   const totalShares = filing ? filing.total_shares : trades.reduce((sum, t) => sum + (t.shares_transacted || 0), 0);
   const transactionCount = filing ? filing.transaction_count : trades.length;
+  const coReportingOwners = filing?.reporting_owners?.filter((owner) => !owner.is_primary_owner) || [];
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
@@ -396,7 +405,7 @@ export default function FilingPageClient() {
               {/* Title & Info */}
               <div className="flex-1">
                 <h1 className="text-3xl sm:text-4xl font-extrabold text-gray-900 mb-2">
-                  SEC Form 4 Filing
+                  SEC Form {primaryTrade.form_type}{filing?.is_amendment ? '/A' : ''} Filing
                 </h1>
                 <div className="flex flex-wrap items-center gap-3">
                   <span className="
@@ -454,6 +463,49 @@ export default function FilingPageClient() {
             )}
           </motion.div>
 
+          {/* Amendment chain notices */}
+          {(filing?.superseded_by_accession_number || filing?.amends_accession_number) && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.3 }}
+              className="
+                flex items-start gap-3
+                bg-white/80 backdrop-blur-sm
+                border border-blue-200/60
+                rounded-xl
+                p-4 mb-8
+                shadow-sm
+              "
+            >
+              <Info className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-gray-700 space-y-1">
+                {filing.superseded_by_accession_number && (
+                  <p>
+                    This filing was amended and its transactions are no longer counted.{' '}
+                    <button
+                      onClick={() => router.push(`/filing/${filing.superseded_by_accession_number}`)}
+                      className="font-semibold text-blue-700 hover:text-blue-800 underline"
+                    >
+                      View the latest version
+                    </button>
+                  </p>
+                )}
+                {filing.amends_accession_number && (
+                  <p>
+                    This amendment replaces filing{' '}
+                    <button
+                      onClick={() => router.push(`/filing/${filing.amends_accession_number}`)}
+                      className="font-mono font-semibold text-blue-700 hover:text-blue-800 underline"
+                    >
+                      {filing.amends_accession_number}
+                    </button>
+                  </p>
+                )}
+              </div>
+            </motion.div>
+          )}
+
           {/* Stats Cards */}
           <motion.div
             variants={{
@@ -638,6 +690,23 @@ export default function FilingPageClient() {
                     </span>
                   )}
                 </div>
+                {coReportingOwners.length > 0 && (
+                  <div className="pt-2">
+                    <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Joint Filers</p>
+                    <ul className="space-y-1">
+                      {coReportingOwners.map((owner) => (
+                        <li key={owner.cik}>
+                          <button
+                            onClick={() => router.push(`/insider?cik=${owner.cik}`)}
+                            className="text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+                          >
+                            {owner.name}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -667,8 +736,12 @@ export default function FilingPageClient() {
                   <p className="text-sm font-medium text-gray-900">{formatDateTime(primaryTrade.filed_at)}</p>
                 </div>
                 <div>
-                  <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Transaction Date</p>
-                  <p className="text-sm font-medium text-gray-900">{formatDate(primaryTrade.transaction_date)}</p>
+                  <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">
+                    {trades.length > 0 ? 'Transaction Date' : 'Holdings As Of'}
+                  </p>
+                  <p className="text-sm font-medium text-gray-900">
+                    {formatDate(trades.length > 0 ? trades[0].transaction_date : holdings[0].as_of_date)}
+                  </p>
                 </div>
               </div>
             </div>
@@ -676,157 +749,247 @@ export default function FilingPageClient() {
         </motion.section>
 
         {/* Transactions List */}
-        <motion.section
-          initial={{ opacity: 0, y: 30 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          viewport={{ once: true, amount: 0.2 }}
-          transition={{ duration: 0.7 }}
-        >
-          <div className="
-            bg-white/80 backdrop-blur-sm
-            border border-gray-200/60 
-            rounded-2xl 
-            shadow-sm hover:shadow-lg 
-            transition-all duration-300 
-            overflow-hidden
-          ">
-            <div className="px-6 py-4 border-b border-gray-200/60 bg-gradient-to-r from-blue-50/50 to-indigo-50/30">
-              <div className="flex items-center gap-3">
-                <FileText className="h-6 w-6 text-blue-600" />
-                <div>
-                  <h2 className="text-xl font-bold text-gray-900">Transactions in This Filing</h2>
-                  <p className="text-sm text-gray-600">{trades.length} {trades.length === 1 ? 'Transaction' : 'Transactions'}</p>
+        {trades.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, amount: 0.2 }}
+            transition={{ duration: 0.7 }}
+          >
+            <div className="
+              bg-white/80 backdrop-blur-sm
+              border border-gray-200/60 
+              rounded-2xl 
+              shadow-sm hover:shadow-lg 
+              transition-all duration-300 
+              overflow-hidden
+            ">
+              <div className="px-6 py-4 border-b border-gray-200/60 bg-gradient-to-r from-blue-50/50 to-indigo-50/30">
+                <div className="flex items-center gap-3">
+                  <FileText className="h-6 w-6 text-blue-600" />
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Transactions in This Filing</h2>
+                    <p className="text-sm text-gray-600">{trades.length} {trades.length === 1 ? 'Transaction' : 'Transactions'}</p>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <div className="p-6 space-y-6">
-              {trades.map((trade, index) => {
-                const categoryInfo = getTransactionCategory(trade.transaction_code, trade.acquired_disposed_code);
-                const isSignificant = categoryInfo.importance === 'high';
-                
-                return (
-                  <motion.div
-                    key={`${trade.transaction_id || index}`}
-                    initial={{ opacity: 0, x: -20 }}
-                    whileInView={{ opacity: 1, x: 0 }}
-                    viewport={{ once: true }}
-                    transition={{ duration: 0.5, delay: index * 0.05 }}
-                    className={`
-                      rounded-xl p-6 
-                      border transition-all duration-300 
-                      hover:shadow-md hover:-translate-y-0.5
-                      ${isSignificant 
-                        ? 'bg-gradient-to-br from-blue-50/50 to-indigo-50/30 border-blue-200/60' 
-                        : 'bg-white border-gray-200/60'
-                      }
-                    `}
-                  >
-                    {/* Transaction Header */}
-                    <div className="flex flex-col sm:flex-row items-start justify-between gap-4 mb-4">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-3 mb-2 flex-wrap">
-                          <h3 className="text-lg font-bold text-gray-900">
-                            {trade.security_title}
-                          </h3>
-                          <TransactionBadge
-                            transactionCode={trade.transaction_code}
-                            acquiredDisposedCode={trade.acquired_disposed_code}
-                            transactionDescription={trade.transaction_description}
-                            is10b51Plan={trade.is_10b5_1_plan}
-                            size="md"
-                            showIcon={true}
-                          />
+              <div className="p-6 space-y-6">
+                {trades.map((trade, index) => {
+                  const categoryInfo = getTransactionCategory(trade.transaction_code, trade.acquired_disposed_code);
+                  const isSignificant = categoryInfo.importance === 'high';
+                  const tradeFootnotes = footnotes.filter((footnote) => trade.footnote_ids?.includes(footnote.id));
+                  const isDerivative = trade.transaction_type === 'derivative';
+                  
+                  return (
+                    <motion.div
+                      key={`${trade.transaction_id || index}`}
+                      initial={{ opacity: 0, x: -20 }}
+                      whileInView={{ opacity: 1, x: 0 }}
+                      viewport={{ once: true }}
+                      transition={{ duration: 0.5, delay: index * 0.05 }}
+                      className={`
+                        rounded-xl p-6 
+                        border transition-all duration-300 
+                        hover:shadow-md hover:-translate-y-0.5
+                        ${isSignificant 
+                          ? 'bg-gradient-to-br from-blue-50/50 to-indigo-50/30 border-blue-200/60' 
+                          : 'bg-white border-gray-200/60'
+                        }
+                      `}
+                    >
+                      {/* Transaction Header */}
+                      <div className="flex flex-col sm:flex-row items-start justify-between gap-4 mb-4">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-3 mb-2 flex-wrap">
+                            <h3 className="text-lg font-bold text-gray-900">
+                              {trade.security_title}
+                            </h3>
+                            <TransactionBadge
+                              transactionCode={trade.transaction_code}
+                              acquiredDisposedCode={trade.acquired_disposed_code}
+                              transactionDescription={trade.transaction_description}
+                              is10b51Plan={trade.is_10b5_1_plan}
+                              size="md"
+                              showIcon={true}
+                            />
+                          </div>
+                          <p className="text-sm text-gray-600">{trade.transaction_description}</p>
                         </div>
-                        <p className="text-sm text-gray-600">{trade.transaction_description}</p>
                       </div>
-                    </div>
-
-                    {/* Category Info */}
-                    <div className={`
-                      rounded-xl p-4 mb-4 border
-                      ${isSignificant 
-                        ? 'bg-blue-50/50 border-blue-200/60' 
-                        : 'bg-gray-50 border-gray-200/60'
-                      }
-                    `}>
-                      <div className="flex items-start gap-3">
-                        <div className={`
-                          w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0
-                          ${isSignificant ? 'bg-blue-600' : 'bg-gray-600'}
-                        `}>
-                          <Info className="h-5 w-5 text-white" />
+
+                      {/* Category Info */}
+                      <div className={`
+                        rounded-xl p-4 mb-4 border
+                        ${isSignificant 
+                          ? 'bg-blue-50/50 border-blue-200/60' 
+                          : 'bg-gray-50 border-gray-200/60'
+                        }
+                      `}>
+                        <div className="flex items-start gap-3">
+                          <div className={`
+                            w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0
+                            ${isSignificant ? 'bg-blue-600' : 'bg-gray-600'}
+                          `}>
+                            <Info className="h-5 w-5 text-white" />
+                          </div>
+                          <div>
+                            <p className={`font-bold text-sm mb-1 ${
+                              isSignificant ? 'text-blue-900' : 'text-gray-900'
+                            }`}>
+                              {categoryInfo.label}
+                            </p>
+                            <p className={`text-sm ${
+                              isSignificant ? 'text-blue-800' : 'text-gray-700'
+                            }`}>
+                              {categoryInfo.description}
+                            </p>
+                            <span className={`
+                              inline-block mt-2 px-2.5 py-1 rounded-full text-xs font-bold uppercase
+                              ${isSignificant 
+                                ? 'bg-blue-600 text-white' 
+                                : 'bg-gray-600 text-white'
+                              }
+                            `}>
+                              {categoryInfo.importance} Importance
+                            </span>
+                          </div>
                         </div>
-                        <div>
-                          <p className={`font-bold text-sm mb-1 ${
-                            isSignificant ? 'text-blue-900' : 'text-gray-900'
-                          }`}>
-                            {categoryInfo.label}
+                      </div>
+
+                      {/* Transaction Details */}
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                        <div className="bg-white/50 rounded-lg p-3">
+                          <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">
+                            {isDerivative ? 'Units' : 'Shares'}
                           </p>
-                          <p className={`text-sm ${
-                            isSignificant ? 'text-blue-800' : 'text-gray-700'
-                          }`}>
-                            {categoryInfo.description}
+                          <p className="text-lg font-extrabold text-gray-900">{formatShares(trade.shares_transacted)}</p>
+                        </div>
+                        <div className="bg-white/50 rounded-lg p-3">
+                          <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">
+                            {isDerivative ? 'Price/Unit' : 'Price/Share'}
                           </p>
-                          <span className={`
-                            inline-block mt-2 px-2.5 py-1 rounded-full text-xs font-bold uppercase
-                            ${isSignificant 
-                              ? 'bg-blue-600 text-white' 
-                              : 'bg-gray-600 text-white'
-                            }
-                          `}>
-                            {categoryInfo.importance} Importance
-                          </span>
+                          <p className="text-lg font-extrabold text-gray-900">
+                            {trade.price_per_share !== null ? `$${trade.price_per_share.toFixed(2)}` : 'N/A'}
+                          </p>
+                        </div>
+                        <div className="bg-white/50 rounded-lg p-3">
+                          <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Total Value</p>
+                          <p className="text-lg font-extrabold text-gray-900">{formatCurrency(trade.transaction_value)}</p>
+                        </div>
+                        <div className="bg-white/50 rounded-lg p-3">
+                          <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Shares After</p>
+                          <p className="text-lg font-extrabold text-gray-900">{formatShares(trade.shares_owned_following)}</p>
                         </div>
                       </div>
-                    </div>
 
-                    {/* Transaction Details */}
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-                      <div className="bg-white/50 rounded-lg p-3">
-                        <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Shares</p>
-                        <p className="text-lg font-extrabold text-gray-900">{formatShares(trade.shares_transacted)}</p>
-                      </div>
-                      <div className="bg-white/50 rounded-lg p-3">
-                        <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Price/Share</p>
-                        <p className="text-lg font-extrabold text-gray-900">
-                          {trade.price_per_share !== null ? `$${trade.price_per_share.toFixed(2)}` : 'N/A'}
-                        </p>
-                      </div>
-                      <div className="bg-white/50 rounded-lg p-3">
-                        <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Total Value</p>
-                        <p className="text-lg font-extrabold text-gray-900">{formatCurrency(trade.transaction_value)}</p>
-                      </div>
-                      <div className="bg-white/50 rounded-lg p-3">
-                        <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Shares After</p>
-                        <p className="text-lg font-extrabold text-gray-900">{formatShares(trade.shares_owned_following)}</p>
-                      </div>
-                    </div>
-
-                    {/* Additional Info */}
-                    <div className="pt-4 border-t border-gray-200/60">
-                      <div className="flex flex-wrap gap-4 text-sm">
-                        <div className="flex items-center gap-2">
-                          <Shield className="w-4 h-4 text-gray-500" />
-                          <span className="text-gray-600">Ownership:</span>
-                          <span className="font-semibold text-gray-900">
-                            {trade.direct_or_indirect === 'D' ? 'Direct' : 'Indirect'}
-                          </span>
+                      {/* Derivative terms (options, RSUs, warrants) */}
+                      {isDerivative && (
+                        <div className="rounded-xl p-4 mb-4 bg-purple-50/50 border border-purple-200/60">
+                          <p className="text-xs text-purple-700 uppercase tracking-wider font-bold mb-3">Derivative Terms</p>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                            <div>
+                              <p className="text-xs text-gray-500 mb-1">Exercise Price</p>
+                              <p className="font-semibold text-gray-900">
+                                {trade.exercise_price ? `$${trade.exercise_price.toFixed(2)}` : 'None'}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-gray-500 mb-1">Exercisable</p>
+                              <p className="font-semibold text-gray-900">
+                                {trade.exercise_date ? formatDate(trade.exercise_date) : '—'}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-gray-500 mb-1">Expires</p>
+                              <p className="font-semibold text-gray-900">
+                                {trade.expiration_date ? formatDate(trade.expiration_date) : '—'}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-gray-500 mb-1">Underlying</p>
+                              <p className="font-semibold text-gray-900">
+                                {trade.underlying_security_shares
+                                  ? `${formatShares(trade.underlying_security_shares)} ${trade.underlying_security_title || 'shares'}`
+                                  : trade.underlying_security_title || '—'}
+                              </p>
+                            </div>
+                          </div>
                         </div>
-                        {trade.is_10b5_1_plan && (
+                      )}
+
+                      {/* Additional Info */}
+                      <div className="pt-4 border-t border-gray-200/60">
+                        <div className="flex flex-wrap gap-4 text-sm">
                           <div className="flex items-center gap-2">
-                            <CheckCircle className="w-4 h-4 text-emerald-600" />
-                            <span className="font-semibold text-emerald-700">10b5-1 Plan</span>
+                            <Shield className="w-4 h-4 text-gray-500" />
+                            <span className="text-gray-600">Ownership:</span>
+                            <span className="font-semibold text-gray-900">
+                              {trade.direct_or_indirect === 'D' ? 'Direct' : 'Indirect'}
+                            </span>
                           </div>
-                        )}
+                          {trade.is_10b5_1_plan && (
+                            <div className="flex items-center gap-2">
+                              <CheckCircle className="w-4 h-4 text-emerald-600" />
+                              <span className="font-semibold text-emerald-700">10b5-1 Plan</span>
+                            </div>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  </motion.div>
-                );
-              })}
+
+                      {/* Footnotes referenced by this transaction */}
+                      {tradeFootnotes.length > 0 && (
+                        <div className="mt-4 bg-gray-50 rounded-xl p-4 border border-gray-200/60">
+                          <p className="text-xs text-gray-500 uppercase tracking-wider mb-2">Footnotes</p>
+                          <ul className="space-y-2">
+                            {tradeFootnotes.map((footnote) => (
+                              <li key={footnote.id} className="flex items-start gap-2 text-sm text-gray-700">
+                                <span className="font-semibold text-blue-700 flex-shrink-0">({footnote.id})</span>
+                                <span>{footnote.text}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </motion.div>
+                  );
+                })}
+              </div>
             </div>
-          </div>
-        </motion.section>
+          </motion.section>
+        )}
+
+        {/* Holdings reported without a transaction */}
+        {holdings.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, amount: 0.2 }}
+            transition={{ duration: 0.7 }}
+          >
+            <div className="
+              bg-white/80 backdrop-blur-sm
+              border border-gray-200/60 
+              rounded-2xl 
+              shadow-sm hover:shadow-lg 
+              transition-all duration-300 
+              overflow-hidden
+            ">
+              <div className="px-6 py-4 border-b border-gray-200/60 bg-gradient-to-r from-blue-50/50 to-indigo-50/30">
+                <div className="flex items-center gap-3">
+                  <Building className="h-6 w-6 text-blue-600" />
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">Reported Holdings</h2>
+                    <p className="text-sm text-gray-600">{holdings.length} {holdings.length === 1 ? 'Position' : 'Positions'}</p>
+                  </div>
+                </div>
+              </div>
+              <div className="p-6">
+                <HoldingsTable holdings={holdings} context="company" />
+              </div>
+            </div>
+          </motion.section>
+        )}
 
         {/* Educational Footer */}
         <motion.section
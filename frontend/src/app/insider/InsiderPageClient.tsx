@@ -3,10 +3,14 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { TradeData } from '@/lib/database';
+import { HoldingData, InsiderPositionTimeline, InsiderStats } from '@/lib/api-client';
 import { cachedApiClient } from '@/lib/cached-api-client';
 import { ArrowLeftIcon, UserIcon } from '@heroicons/react/24/outline';
 import HistoricalImportButton from '@/components/HistoricalImportButton';
 import TradesDisplay from '@/components/TradesDisplay';
+import HoldingsTable from '@/components/HoldingsTable';
+import InsiderTrackRecord from '@/components/InsiderTrackRecord';
+import PositionChart from '@/components/PositionChart';
 
 export default function InsiderPageClient() {
   const params = useParams();
@@ -16,6 +20,9 @@ export default function InsiderPageClient() {
   const routeCik = (params?.cik as string) || '';
   const cik = (queryCik || routeCik).replace(/\.0$/, '');
   const [trades, setTrades] = useState<TradeData[]>([]);
+  const [holdings, setHoldings] = useState<HoldingData[]>([]);
+  const [stats, setStats] = useState<InsiderStats | null>(null);
+  const [positions, setPositions] = useState<InsiderPositionTimeline[]>([]);
   const [insiderName, setInsiderName] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -25,11 +32,23 @@ export default function InsiderPageClient() {
       if (!cik) return;
       try {
         setLoading(true);
-        const result = await cachedApiClient.getTradesByInsider(cik, undefined, 100);
+        const [result, holdingsResult, statsResult, positionsResult] = await Promise.all([
+          cachedApiClient.getTradesByInsider(cik, undefined, 100),
+          cachedApiClient.getHoldingsByInsider(cik),
+          // Stats and positions are optional; the page still works without them
+          cachedApiClient.getInsiderStats(cik).catch(() => null),
+          cachedApiClient.getInsiderPositions(cik).catch(() => []),
+        ]);
         setTrades(result);
+        setHoldings(holdingsResult);
+        setStats(statsResult);
+        setPositions(positionsResult);
 
+        // Insiders with only a Form 3 on file have no trades to take the name from
         if (result.length > 0) {
           setInsiderName(result[0].person_name);
+        } else if (holdingsResult.length > 0) {
+          setInsiderName(holdingsResult[0].person_name);
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to fetch insider trades');
@@ -125,6 +144,29 @@ export default function InsiderPageClient() {
             </div>
           </div>
         </div>
+        {stats && (
+          <div className="bg-white rounded-lg shadow mb-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">Track Record</h2>
+            </div>
+            <div className="p-6">
+              <InsiderTrackRecord
+                stats={stats}
+                onCompanyClick={(issuerCik) => router.push(`/company/${issuerCik.replace(/\.0$/, '')}`)}
+              />
+            </div>
+          </div>
+        )}
+        {positions.length > 0 && (
+          <div className="bg-white rounded-lg shadow mb-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">Positions</h2>
+            </div>
+            <div className="p-6">
+              <PositionChart positions={positions} />
+            </div>
+          </div>
+        )}
         <div className="bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-gray-200">
             <h2 className="text-xl font-semibold text-gray-900">
@@ -145,6 +187,22 @@ export default function InsiderPageClient() {
             />
           </div>
         </div>
+        {holdings.length > 0 && (
+          <div className="bg-white rounded-lg shadow mt-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Reported Holdings ({holdings.length})
+              </h2>
+            </div>
+            <div className="p-6">
+              <HoldingsTable
+                holdings={holdings}
+                context="insider"
+                onHoldingClick={(accessionNumber) => router.push(`/filing/${accessionNumber}`)}
+              />
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -5,11 +5,13 @@ import { useTranslations } from 'next-intl';
 import { TradesList } from './components/TradesList';
 import { ImportantTrades } from './components/ImportantTrades';
 import { ClusterBuys } from './components/ClusterBuys';
+import { ClusterSells } from './components/ClusterSells';
+import { UnusualActivity } from './components/UnusualActivity';
 import { TrendingUp, AlertTriangle, Users } from 'lucide-react';
 
 export default function SECAnalyzer() {
   const t = useTranslations();
-  const [activeTab, setActiveTab] = useState<'latest' | 'important' | 'clusters'>('latest');
+  const [activeTab, setActiveTab] = useState<'latest' | 'important' | 'clusters' | 'clusterSells' | 'anomalies'>('latest');
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -93,6 +95,26 @@ export default function SECAnalyzer() {
             >
               {t('tabs.clusterBuys')}
             </button>
+            <button
+              onClick={() => setActiveTab('clusterSells')}
+              className={`py-3 px-4 border-b-2 font-bold text-sm transition-all duration-200 rounded-t-xl ${
+                activeTab === 'clusterSells'
+                  ? 'border-red-500 text-red-600 bg-gradient-to-t from-red-50/50 to-transparent'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {t('tabs.clusterSells')}
+            </button>
+            <button
+              onClick={() => setActiveTab('anomalies')}
+              className={`py-3 px-4 border-b-2 font-bold text-sm transition-all duration-200 rounded-t-xl ${
+                activeTab === 'anomalies'
+                  ? 'border-purple-500 text-purple-600 bg-gradient-to-t from-purple-50/50 to-transparent'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {t('tabs.unusualActivity')}
+            </button>
           </nav>
         </div>
 
@@ -101,6 +123,8 @@ export default function SECAnalyzer() {
           {activeTab === 'latest' && <TradesList />}
           {activeTab === 'important' && <ImportantTrades />}
           {activeTab === 'clusters' && <ClusterBuys />}
+          {activeTab === 'clusterSells' && <ClusterSells />}
+          {activeTab === 'anomalies' && <UnusualActivity />}
         </div>
       </div>
     </div>
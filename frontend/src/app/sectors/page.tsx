@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { cachedApiClient } from '@/lib/cached-api-client';
+import { type SectorCompany, type SectorDetail, type SectorSummary } from '@/lib/api-client';
+import SectorHeatmap, { formatValue, type HeatmapBasis } from '@/components/SectorHeatmap';
+import { ArrowPathIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+
+const WINDOW_TABS = [
+  { value: 3, label: '3 Months' },
+  { value: 6, label: '6 Months' },
+  { value: 12, label: '12 Months' },
+];
+
+const BASIS_TABS: { value: HeatmapBasis; label: string }[] = [
+  { value: 'value', label: 'Net Value' },
+  { value: 'breadth', label: 'Breadth' },
+];
+
+interface CompanyListProps {
+  title: string;
+  companies: SectorCompany[];
+  onSelect: (cik: string) => void;
+}
+
+const CompanyList = ({ title, companies, onSelect }: CompanyListProps) => (
+  <div>
+    <h3 className="text-sm font-semibold text-gray-900 mb-2">{title}</h3>
+    {companies.length === 0 ? (
+      <p className="text-sm text-gray-500 py-4">None in this window.</p>
+    ) : (
+      <ul className="divide-y divide-gray-100">
+        {companies.map((company) => (
+          <li
+            key={company.issuer_cik}
+            onClick={() => onSelect(company.issuer_cik)}
+            className="flex items-center justify-between gap-3 py-2 cursor-pointer hover:bg-blue-50/50 transition-colors"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">
+                {company.trading_symbol ? `${company.trading_symbol} · ` : ''}
+                {company.issuer_name}
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                {[company.industry, `${company.buy_count} buys · ${company.sell_count} sells`].filter(Boolean).join(' · ')}
+              </div>
+            </div>
+            <span className={`text-sm font-semibold shrink-0 ${company.net_value >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {company.net_value > 0 ? '+' : ''}
+              {formatValue(company.net_value)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Insider buying and selling rolled up by sector, to spot sector-wide
+ * accumulation, with a breakdown by industry for the selected sector
+ */
+export default function SectorsPage() {
+  const router = useRouter();
+  const [sectors, setSectors] = useState<SectorSummary[]>([]);
+  const [months, setMonths] = useState(3);
+  const [basis, setBasis] = useState<HeatmapBasis>('value');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [detail, setDetail] = useState<SectorDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSectors = useCallback(async (forceRefresh = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await cachedApiClient.getSectors(months, undefined, { forceRefresh });
+      setSectors(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sector activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [months]);
+
+  useEffect(() => {
+    fetchSectors();
+  }, [fetchSectors]);
+
+  useEffect(() => {
+    if (!selected) {
+      setDetail(null);
+      return;
+    }
+
+    const fetchDetail = async () => {
+      try {
+        const result = await cachedApiClient.getSectorDetail(selected, months);
+        setDetail(result);
+      } catch (err) {
+        console.error('Error fetching sector detail:', err);
+        setDetail(null);
+      }
+    };
+
+    fetchDetail();
+  }, [selected, months]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-20 sm:pt-24 pb-12">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-blue-100 to-blue-50 rounded-xl flex items-center justify-center">
+              <Squares2X2Icon className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-extrabold text-gray-900">Sector Heatmap</h1>
+              <p className="text-sm text-gray-600">Open-market insider buying against selling, by sector</p>
+            </div>
+          </div>
+          <button
+            onClick={() => fetchSectors(true)}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-200/60 text-gray-700 text-sm font-medium rounded-xl shadow-sm hover:shadow-md transition-all duration-200 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex gap-2">
+            {WINDOW_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setMonths(tab.value)}
+                className={`px-4 py-2 text-sm font-medium rounded-xl transition-all duration-200 ${
+                  months === tab.value
+                    ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-sm'
+                    : 'bg-white border border-gray-200/60 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+            {BASIS_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setBasis(tab.value)}
+                title={tab.value === 'breadth' ? 'Share of active companies with net insider buying' : 'Net dollar value bought'}
+                className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition-all duration-200 ${
+                  basis === tab.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200/60 text-red-700 text-sm rounded-xl p-4">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : sectors.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-16">No sector activity recorded yet.</p>
+        ) : (
+          <>
+            <SectorHeatmap
+              sectors={sectors}
+              basis={basis}
+              selected={selected}
+              onSelect={(sector) => setSelected(sector === selected ? null : sector)}
+            />
+
+            {detail && (
+              <div className="mt-6 bg-white/80 backdrop-blur-sm border border-gray-200/60 rounded-2xl shadow-sm p-4 sm:p-6">
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+                  <h2 className="text-lg sm:text-xl font-bold text-gray-900">{detail.sector}</h2>
+                  <span className="text-sm text-gray-600">
+                    {detail.active_issuers} of {detail.issuers} companies active · {detail.cluster_buys} cluster buys ·{' '}
+                    {detail.cluster_sells} cluster sells
+                  </span>
+                </div>
+
+                <div className="overflow-x-auto mb-6">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Industry</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Companies</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Buys / Sells</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net Value</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-100">
+                      {detail.industries.map((industry) => (
+                        <tr key={industry.industry ?? 'unclassified'}>
+                          <td className="px-4 py-3 text-sm text-gray-900">{industry.industry ?? 'Unclassified'}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 text-right">{industry.active_issuers}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 text-right whitespace-nowrap">
+                            {industry.buy_count} / {industry.sell_count}
+                          </td>
+                          <td
+                            className={`px-4 py-3 text-sm text-right font-semibold whitespace-nowrap ${
+                              industry.net_value >= 0 ? 'text-green-700' : 'text-red-700'
+                            }`}
+                          >
+                            {industry.net_value > 0 ? '+' : ''}
+                            {formatValue(industry.net_value)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <CompanyList
+                    title="Most Net Buying"
+                    companies={detail.top_buyers}
+                    onSelect={(cik) => router.push(`/company/${cik.replace(/\.0$/, '')}`)}
+                  />
+                  <CompanyList
+                    title="Most Net Selling"
+                    companies={detail.top_sellers}
+                    onSelect={(cik) => router.push(`/company/${cik.replace(/\.0$/, '')}`)}
+                  />
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
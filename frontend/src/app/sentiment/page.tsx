@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { cachedApiClient } from '@/lib/cached-api-client';
+import { type MetricsGranularity, type SentimentPeriod } from '@/lib/api-client';
+import SentimentChart, { type SentimentBasis } from '@/components/SentimentChart';
+import { ArrowPathIcon, PresentationChartLineIcon } from '@heroicons/react/24/outline';
+
+const GRANULARITY_TABS: { value: MetricsGranularity; label: string; range: string }[] = [
+  { value: 'day', label: 'Daily', range: 'Last 90 days' },
+  { value: 'week', label: 'Weekly', range: 'Last 12 months' },
+  { value: 'month', label: 'Monthly', range: 'Last 3 years' },
+];
+
+const BASIS_TABS: { value: SentimentBasis; label: string }[] = [
+  { value: 'value', label: 'Dollar Value' },
+  { value: 'count', label: 'Trade Count' },
+];
+
+const formatRatio = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `${value.toFixed(2)}×`;
+
+const formatValue = (value: number) => {
+  if (value >= 1_000_000_000) return `$${(value / 1_000_000_000).toFixed(1)}B`;
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `$${(value / 1_000).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+/**
+ * Market-wide insider sentiment: how much insiders are buying relative to
+ * selling across all companies, from the daily signal_history aggregates
+ */
+export default function SentimentPage() {
+  const [history, setHistory] = useState<SentimentPeriod[]>([]);
+  const [granularity, setGranularity] = useState<MetricsGranularity>('day');
+  const [basis, setBasis] = useState<SentimentBasis>('value');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async (forceRefresh = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await cachedApiClient.getMetricsHistory(granularity, undefined, { forceRefresh });
+      setHistory(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sentiment history');
+    } finally {
+      setLoading(false);
+    }
+  }, [granularity]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const ratioKey = basis === 'value' ? 'buy_sell_ratio' : 'buy_sell_count_ratio';
+  const latest = history[history.length - 1];
+  const windows = Object.keys(latest?.moving_averages ?? {});
+  const shortAverage = windows.length > 0 ? latest?.moving_averages[windows[0]]?.[ratioKey] : null;
+  const longAverage = windows.length > 1 ? latest?.moving_averages[windows[windows.length - 1]]?.[ratioKey] : null;
+  const totals = history.reduce(
+    (sum, period) => ({
+      buys: sum.buys + period.total_insider_buys,
+      sells: sum.sells + period.total_insider_sells,
+      buyValue: sum.buyValue + period.total_buy_value,
+      sellValue: sum.sellValue + period.total_sell_value,
+    }),
+    { buys: 0, sells: 0, buyValue: 0, sellValue: 0 }
+  );
+
+  // Short average against the long one: is buying picking up or fading?
+  const trend =
+    shortAverage === null || shortAverage === undefined || !longAverage
+      ? null
+      : shortAverage / longAverage - 1;
+
+  const tiles = [
+    {
+      label: `${windows[0]?.replace('ma_', '') ?? ''}-${granularity} Average Ratio`,
+      value: formatRatio(shortAverage),
+      detail: 'Buys per sell, recent',
+    },
+    {
+      label: `${windows[windows.length - 1]?.replace('ma_', '') ?? ''}-${granularity} Average Ratio`,
+      value: formatRatio(longAverage),
+      detail: 'Buys per sell, baseline',
+    },
+    {
+      label: 'Trend',
+      value: trend === null ? '—' : trend >= 0 ? 'More buying' : 'Less buying',
+      detail: trend === null ? 'Not enough history' : `${trend >= 0 ? '+' : ''}${(trend * 100).toFixed(0)}% vs baseline`,
+      tone: trend === null ? 'text-gray-900' : trend >= 0 ? 'text-green-700' : 'text-red-700',
+    },
+    {
+      label: 'Open-Market Trades',
+      value: `${totals.buys.toLocaleString()} / ${totals.sells.toLocaleString()}`,
+      detail: `${formatValue(totals.buyValue)} bought · ${formatValue(totals.sellValue)} sold`,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-20 sm:pt-24 pb-12">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-blue-100 to-blue-50 rounded-xl flex items-center justify-center">
+              <PresentationChartLineIcon className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-extrabold text-gray-900">Insider Sentiment</h1>
+              <p className="text-sm text-gray-600">Open-market insider buying against selling, across all companies</p>
+            </div>
+          </div>
+          <button
+            onClick={() => fetchHistory(true)}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-200/60 text-gray-700 text-sm font-medium rounded-xl shadow-sm hover:shadow-md transition-all duration-200 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex gap-2">
+            {GRANULARITY_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setGranularity(tab.value)}
+                title={tab.range}
+                className={`px-4 py-2 text-sm font-medium rounded-xl transition-all duration-200 ${
+                  granularity === tab.value
+                    ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-sm'
+                    : 'bg-white border border-gray-200/60 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1 p-1 bg-gray-100 rounded-xl">
+            {BASIS_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setBasis(tab.value)}
+                className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition-all duration-200 ${
+                  basis === tab.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200/60 text-red-700 text-sm rounded-xl p-4">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-16">No sentiment history recorded yet.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+              {tiles.map((tile) => (
+                <div key={tile.label} className="bg-white rounded-xl border border-gray-200/60 shadow-sm p-4">
+                  <div className="text-xs font-medium text-gray-500 uppercase tracking-wider">{tile.label}</div>
+                  <div className={`text-xl font-semibold mt-1 ${tile.tone ?? 'text-gray-900'}`}>{tile.value}</div>
+                  <div className="text-xs text-gray-600 mt-1">{tile.detail}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm border border-gray-200/60 rounded-2xl shadow-sm p-4 sm:p-6">
+              <SentimentChart history={history} granularity={granularity} basis={basis} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
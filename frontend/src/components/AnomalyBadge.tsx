@@ -0,0 +1,37 @@
+'use client';
+
+import { ActivityAnomaly } from '@/lib/api-client';
+
+interface AnomalyBadgeProps {
+  anomaly: ActivityAnomaly;
+  className?: string;
+}
+
+const formatZ = (value: number | null): string => (value === null ? '' : ` ${value.toFixed(1)}σ`);
+
+/**
+ * Short label for an activity anomaly, e.g. "First buy in 3+ yrs" or
+ * "Sell volume 6.2σ"
+ */
+export const anomalyLabel = (anomaly: ActivityAnomaly): string => {
+  const side = anomaly.direction === 'buy' ? 'Buy' : 'Sell';
+  if (anomaly.anomaly_type === 'first_buy_in_years') return 'First buy in 3+ yrs';
+  if (anomaly.anomaly_type === 'volume_spike') return `${side} volume${formatZ(anomaly.value_z_score)}`;
+  return `${side} frequency${formatZ(anomaly.count_z_score)}`;
+};
+
+/**
+ * Pill marking insider activity that is unusual for the issuer. Purple is
+ * reserved for this signal; the direction shows as a green or red dot.
+ */
+export default function AnomalyBadge({ anomaly, className = '' }: AnomalyBadgeProps) {
+  return (
+    <span
+      title={`Unusual insider ${anomaly.direction === 'buy' ? 'buying' : 'selling'} for this company, week ending ${anomaly.transaction_date}`}
+      className={`inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800 border border-purple-200 ${className}`}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${anomaly.direction === 'buy' ? 'bg-green-500' : 'bg-red-500'}`} />
+      {anomalyLabel(anomaly)}
+    </span>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { CompanySummaryCluster, CompanySummaryTrade } from '@/lib/api-client';
+
+interface CompanyActivitySummaryProps {
+  largestTrades: CompanySummaryTrade[];
+  clusters: CompanySummaryCluster[];
+  onTradeClick?: (accessionNumber: string) => void;
+  onInsiderClick?: (cik: string) => void;
+}
+
+const formatCurrency = (value: number): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: value >= 1_000_000 ? 'compact' : 'standard',
+    maximumFractionDigits: value >= 1_000_000 ? 1 : 0,
+  }).format(value);
+
+const formatDate = (dateString: string): string =>
+  new Date(`${dateString.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const directionBadge = (direction: 'buy' | 'sell') =>
+  direction === 'buy'
+    ? 'bg-emerald-100 text-emerald-800'
+    : 'bg-red-100 text-red-800';
+
+/**
+ * A company's largest open-market insider trades and cluster signals of the
+ * last 12 months, side by side
+ */
+export default function CompanyActivitySummary({
+  largestTrades,
+  clusters,
+  onTradeClick,
+  onInsiderClick,
+}: CompanyActivitySummaryProps) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Largest Trades</h3>
+        {largestTrades.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No open-market trades in the last 12 months.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {largestTrades.map((trade) => (
+              <li
+                key={`${trade.accession_number}-${trade.person_cik}-${trade.transaction_value}`}
+                onClick={() => onTradeClick?.(trade.accession_number)}
+                className={`flex items-center justify-between gap-3 py-3 ${
+                  onTradeClick ? 'cursor-pointer hover:bg-blue-50/50 transition-colors' : ''
+                }`}
+              >
+                <div className="min-w-0">
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onInsiderClick?.(trade.person_cik);
+                    }}
+                    className="text-sm font-medium text-gray-900 hover:text-blue-600 truncate"
+                  >
+                    {trade.person_name}
+                  </button>
+                  <div className="text-xs text-gray-500 truncate">
+                    {[trade.officer_title, formatDate(trade.transaction_date), trade.is_10b5_1_plan ? '10b5-1 plan' : null]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-sm font-semibold text-gray-900">{formatCurrency(trade.transaction_value)}</span>
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${directionBadge(trade.direction)}`}>
+                    {trade.direction === 'buy' ? 'Buy' : 'Sell'}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Cluster Events</h3>
+        {clusters.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No cluster buying or selling in the last 12 months.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {clusters.map((cluster) => (
+              <li key={`${cluster.direction}-${cluster.cluster_id}`} className="flex items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900">
+                    {cluster.total_insiders} insiders {cluster.direction === 'buy' ? 'bought' : 'sold'}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(cluster.transaction_date)} · Strength {cluster.signal_strength}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-sm font-semibold text-gray-900">{formatCurrency(cluster.total_value)}</span>
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${directionBadge(cluster.direction)}`}>
+                    {cluster.direction === 'buy' ? 'Cluster Buy' : 'Cluster Sell'}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { HoldingData } from '@/lib/api-client';
+
+interface HoldingsTableProps {
+  holdings: HoldingData[];
+  context: 'insider' | 'company';
+  emptyMessage?: string;
+  onHoldingClick?: (accessionNumber: string) => void;
+}
+
+const formatShares = (value: number | null): string => {
+  if (value === null || value === undefined) return '—';
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+};
+
+const formatDate = (dateString: string | null): string => {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+const formBadgeClasses: Record<string, string> = {
+  '3': 'bg-blue-100 text-blue-800',
+  '4': 'bg-indigo-100 text-indigo-800',
+  '5': 'bg-purple-100 text-purple-800',
+};
+
+/**
+ * Positions reported on Forms 3, 4 and 5 without an accompanying transaction,
+ * e.g. an insider's initial holdings when they join a company.
+ */
+export default function HoldingsTable({
+  holdings,
+  context,
+  emptyMessage = 'No reported holdings found.',
+  onHoldingClick,
+}: HoldingsTableProps) {
+  if (holdings.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">As Of</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Form</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {context === 'insider' ? 'Company' : 'Insider'}
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Security</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Shares</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ownership</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-100">
+          {holdings.map((holding) => {
+            const isDerivative = holding.holding_type === 'derivative';
+            return (
+              <tr
+                key={holding.holding_id}
+                onClick={() => onHoldingClick?.(holding.accession_number)}
+                className={`transition-colors ${onHoldingClick ? 'cursor-pointer hover:bg-blue-50/50' : ''}`}
+              >
+                <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                  {formatDate(holding.as_of_date)}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded-lg text-xs font-medium ${
+                      formBadgeClasses[holding.form_type] || 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    Form {holding.form_type}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-900">
+                  {context === 'insider' ? (
+                    <div>
+                      <div className="font-medium">{holding.issuer_name}</div>
+                      {holding.trading_symbol && (
+                        <div className="text-xs text-gray-500 font-mono">{holding.trading_symbol}</div>
+                      )}
+                    </div>
+                  ) : (
+                    <div>
+                      <div className="font-medium">{holding.person_name}</div>
+                      {holding.officer_title && (
+                        <div className="text-xs text-gray-500">{holding.officer_title}</div>
+                      )}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  <div>{holding.security_title}</div>
+                  {isDerivative && (
+                    <div className="text-xs text-gray-500">
+                      {holding.underlying_security_shares !== null &&
+                        `${formatShares(holding.underlying_security_shares)} underlying`}
+                      {holding.exercise_price !== null && ` @ $${holding.exercise_price.toFixed(2)}`}
+                      {holding.expiration_date && ` · exp. ${formatDate(holding.expiration_date)}`}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-900 text-right font-medium whitespace-nowrap">
+                  {formatShares(holding.shares_owned)}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  {holding.direct_or_indirect === 'I' ? 'Indirect' : 'Direct'}
+                  {holding.nature_of_ownership && (
+                    <div className="text-xs text-gray-500">{holding.nature_of_ownership}</div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { CompanyHolder } from '@/lib/api-client';
+
+interface InsiderOwnershipTableProps {
+  holders: CompanyHolder[];
+  emptyMessage?: string;
+  onInsiderClick?: (cik: string) => void;
+}
+
+const formatShares = (shares: number): string =>
+  shares === 0 ? '—' : shares.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+const formatDate = (dateString: string): string =>
+  new Date(`${dateString.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const roleLabel = (holder: CompanyHolder): string => {
+  const roles = [
+    holder.is_officer ? holder.officer_title || 'Officer' : null,
+    holder.is_director ? 'Director' : null,
+    holder.is_ten_percent_owner ? '10% Owner' : null,
+  ];
+  return roles.filter(Boolean).join(' · ') || 'Insider';
+};
+
+/**
+ * A company's insiders and the stock each holds as of their latest filing,
+ * directly and through trusts, family members or entities
+ */
+export default function InsiderOwnershipTable({
+  holders,
+  emptyMessage = 'No insider positions on file.',
+  onInsiderClick,
+}: InsiderOwnershipTableProps) {
+  if (holders.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Insider</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Direct</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Indirect</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total Shares</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Filing</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-100">
+          {holders.map((holder) => {
+            const indirect = holder.positions.filter(
+              (position) => position.direct_or_indirect === 'I' && position.current_shares > 0
+            );
+            return (
+              <tr
+                key={holder.person_cik}
+                onClick={() => onInsiderClick?.(holder.person_cik)}
+                className={`transition-colors ${onInsiderClick ? 'cursor-pointer hover:bg-blue-50/50' : ''}`}
+              >
+                <td className="px-4 py-3 text-sm text-gray-900">
+                  <div className="font-medium">{holder.person_name}</div>
+                  <div className="text-xs text-gray-500">{roleLabel(holder)}</div>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700 text-right whitespace-nowrap">
+                  {formatShares(holder.direct_shares)}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700 text-right">
+                  <div className="whitespace-nowrap">{formatShares(holder.indirect_shares)}</div>
+                  {indirect.length > 0 && (
+                    <div className="text-xs text-gray-500">
+                      {indirect.map((position) => position.nature_of_ownership || 'Indirect').join(', ')}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-900 text-right font-semibold whitespace-nowrap">
+                  {formatShares(holder.total_shares)}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                  {formatDate(holder.last_reported)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { InsiderStats } from '@/lib/api-client';
+
+interface InsiderTrackRecordProps {
+  stats: InsiderStats;
+  onCompanyClick?: (issuerCik: string) => void;
+}
+
+const formatPercent = (value: number | null): string => {
+  if (value === null || value === undefined) return '—';
+  const percent = value * 100;
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+};
+
+const formatValue = (value: number): string => {
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `$${(value / 1_000).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+const formatDate = (dateString: string | null): string => {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+const returnClass = (value: number | null): string => {
+  if (value === null || value === undefined) return 'text-gray-400';
+  return value >= 0 ? 'text-green-700' : 'text-red-700';
+};
+
+const reliabilityBadge = (score: number | null): { label: string; classes: string } => {
+  if (score === null) return { label: 'Not enough data', classes: 'bg-gray-100 text-gray-700' };
+  if (score >= 70) return { label: 'Strong', classes: 'bg-green-100 text-green-800' };
+  if (score >= 60) return { label: 'Good', classes: 'bg-blue-100 text-blue-800' };
+  if (score >= 40) return { label: 'Average', classes: 'bg-amber-100 text-amber-800' };
+  return { label: 'Weak', classes: 'bg-red-100 text-red-800' };
+};
+
+/**
+ * How an insider's open-market buys have done against SPY, how long they
+ * tend to hold before selling, and the companies they trade.
+ */
+export default function InsiderTrackRecord({ stats, onCompanyClick }: InsiderTrackRecordProps) {
+  const record = stats.track_record;
+
+  if (!record) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-6">
+        No open-market trades on record for this insider yet.
+      </p>
+    );
+  }
+
+  const badge = reliabilityBadge(record.buys_with_returns > 0 ? record.reliability_score : null);
+  const tiles = [
+    { label: 'Open-Market Buys', value: record.open_market_buys.toLocaleString(), detail: formatValue(record.buy_value) },
+    { label: 'Open-Market Sells', value: record.open_market_sells.toLocaleString(), detail: formatValue(record.sell_value) },
+    {
+      label: 'Hit Rate vs SPY (60d)',
+      value: record.hit_rate === null ? '—' : `${Math.round(record.hit_rate * 100)}%`,
+      detail: `${record.hits} of ${record.buys_with_returns} measured buys`,
+    },
+    {
+      label: 'Avg Return After Buys',
+      value: formatPercent(record.avg_return_60d),
+      detail: `${formatPercent(record.avg_excess_60d)} vs SPY · 20d ${formatPercent(record.avg_return_20d)}`,
+    },
+    {
+      label: 'Avg Holding Period',
+      value: record.avg_holding_days === null ? '—' : `${Math.round(record.avg_holding_days)} days`,
+      detail:
+        record.pct_sold_within_6m === null
+          ? `${record.buys_sold} buys later sold`
+          : `${Math.round(record.pct_sold_within_6m * 100)}% of buys sold within 6 months`,
+    },
+    {
+      label: 'Companies Traded',
+      value: record.companies_traded.toLocaleString(),
+      detail: `${formatDate(record.first_trade_date)} – ${formatDate(record.last_trade_date)}`,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">Reliability</span>
+        <span className="text-2xl font-bold text-gray-900">
+          {record.buys_with_returns > 0 ? record.reliability_score : '—'}
+        </span>
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${badge.classes}`}>
+          {badge.label}
+        </span>
+        <span className="text-xs text-gray-500">
+          Hit rate smoothed toward 50 for short records · updated {formatDate(record.updated_at)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="bg-gradient-to-br from-blue-50 to-white rounded-xl border border-blue-100 p-4">
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wider">{tile.label}</div>
+            <div className="text-xl font-semibold text-gray-900 mt-1">{tile.value}</div>
+            <div className="text-xs text-gray-600 mt-1">{tile.detail}</div>
+          </div>
+        ))}
+      </div>
+
+      {stats.recent_buys.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Recent Buys</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Company</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">20d</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">60d</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">vs SPY</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-100">
+                {stats.recent_buys.map((buy) => (
+                  <tr key={`${buy.signal_date}-${buy.issuer_cik}`}>
+                    <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">{formatDate(buy.signal_date)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      <span className="font-mono text-xs text-blue-700 mr-2">{buy.trading_symbol}</span>
+                      {buy.issuer_name}
+                    </td>
+                    <td className={`px-4 py-2 text-sm text-right ${returnClass(buy.return_20d)}`}>{formatPercent(buy.return_20d)}</td>
+                    <td className={`px-4 py-2 text-sm text-right ${returnClass(buy.return_60d)}`}>{formatPercent(buy.return_60d)}</td>
+                    <td className={`px-4 py-2 text-sm text-right font-medium ${returnClass(buy.excess_60d)}`}>{formatPercent(buy.excess_60d)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {stats.companies.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Companies Traded</h3>
+          <div className="flex flex-wrap gap-2">
+            {stats.companies.map((company) => (
+              <button
+                key={company.issuer_cik}
+                onClick={() => onCompanyClick?.(company.issuer_cik)}
+                className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-gray-200 text-sm hover:bg-blue-50 hover:border-blue-200 transition-colors"
+              >
+                <span className="font-medium text-gray-900">{company.trading_symbol || company.issuer_name}</span>
+                <span className="text-xs text-green-700">{company.buys} buys</span>
+                <span className="text-xs text-red-700">{company.sells} sells</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { usePathname } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { LanguageSwitcher } from './LanguageSwitcher';
 import { UserMenu } from './UserMenu';
+import { SearchTypeahead } from './SearchTypeahead';
 import {
   HomeIcon,
   MagnifyingGlassIcon,
@@ -15,6 +16,8 @@ import {
   XMarkIcon,
   ChartBarIcon,
   AcademicCapIcon,
+  PresentationChartLineIcon,
+  Squares2X2Icon,
 } from '@heroicons/react/24/outline';
 import {
   HomeIcon as HomeIconSolid,
@@ -22,6 +25,8 @@ import {
   BellIcon as BellIconSolid,
   BookmarkIcon as BookmarkIconSolid,
   AcademicCapIcon as AcademicCapIconSolid,
+  PresentationChartLineIcon as PresentationChartLineIconSolid,
+  Squares2X2Icon as Squares2X2IconSolid,
 } from '@heroicons/react/24/solid';
 
 export function Navigation() {
@@ -37,6 +42,20 @@ export function Navigation() {
       iconSolid: HomeIconSolid,
       description: t('nav.homeDescription')
     },
+    { 
+      name: t('nav.sentiment'), 
+      href: '/sentiment', 
+      icon: PresentationChartLineIcon, 
+      iconSolid: PresentationChartLineIconSolid,
+      description: t('nav.sentimentDescription')
+    },
+    { 
+      name: t('nav.sectors'), 
+      href: '/sectors', 
+      icon: Squares2X2Icon, 
+      iconSolid: Squares2X2IconSolid,
+      description: t('nav.sectorsDescription')
+    },
     { 
       name: t('nav.explore'), 
       href: '/explore', 
@@ -131,6 +150,8 @@ export function Navigation() {
 
             {/* Right Side Actions */}
             <div className="flex items-center gap-2 sm:gap-3">
+              <SearchTypeahead className="hidden lg:block w-56" />
+
               <div className="hidden sm:block">
                 <LanguageSwitcher />
               </div>
@@ -199,6 +220,8 @@ export function Navigation() {
 
               {/* Navigation Links */}
               <div className="flex-1 overflow-y-auto p-4">
+                <SearchTypeahead className="mb-4" onNavigate={() => setMobileMenuOpen(false)} />
+
                 <nav className="space-y-2">
                   {navigation.map((item) => {
                     const Icon = isActive(item.href) ? item.iconSolid : item.icon;
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { InsiderPositionTimeline } from '@/lib/api-client';
+
+interface PositionChartProps {
+  positions: InsiderPositionTimeline[];
+}
+
+const LINE_COLORS = ['#2563eb', '#9333ea', '#10b981', '#f59e0b', '#64748b'];
+
+const formatShares = (shares: unknown): string =>
+  typeof shares === 'number' ? shares.toLocaleString('en-US', { maximumFractionDigits: 0 }) : '—';
+
+const formatAxisShares = (shares: number): string => {
+  if (shares >= 1_000_000) return `${(shares / 1_000_000).toFixed(1)}M`;
+  if (shares >= 1_000) return `${(shares / 1_000).toFixed(0)}K`;
+  return `${shares}`;
+};
+
+const positionLabel = (position: InsiderPositionTimeline): string =>
+  position.direct_or_indirect === 'I'
+    ? `Indirect${position.nature_of_ownership ? ` (${position.nature_of_ownership})` : ''}`
+    : 'Direct';
+
+/**
+ * Shares an insider held over time in one company, a step line per
+ * position (direct, and each kind of indirect ownership). Options and other
+ * derivatives are left out; their counts are not shares of stock.
+ */
+export default function PositionChart({ positions }: PositionChartProps) {
+  const stock = positions.filter((position) => position.security_type === 'non_derivative');
+  const issuers = [...new Map(stock.map((position) => [position.issuer_cik, position])).values()];
+  const [selectedCik, setSelectedCik] = useState<string | null>(null);
+
+  if (stock.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">No stock positions on file.</p>;
+  }
+
+  const issuerCik = selectedCik ?? issuers[0].issuer_cik;
+  const lines = stock.filter((position) => position.issuer_cik === issuerCik);
+
+  // One row per date, carrying each position's last reported shares forward
+  const dates = [...new Set(lines.flatMap((position) => position.history.map((point) => point.date)))].sort();
+  const chartRows = dates.map((date) => {
+    const row: Record<string, string | number | null> = { date };
+    lines.forEach((position, index) => {
+      const reported = position.history.filter((point) => point.date <= date);
+      row[`p${index}`] = reported.length > 0 ? reported[reported.length - 1].shares : null;
+    });
+    return row;
+  });
+
+  return (
+    <div>
+      {issuers.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {issuers.map((issuer) => (
+            <button
+              key={issuer.issuer_cik}
+              onClick={() => setSelectedCik(issuer.issuer_cik)}
+              className={`px-3 py-1.5 text-xs font-semibold rounded-xl transition-all duration-200 ${
+                issuer.issuer_cik === issuerCik
+                  ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-sm'
+                  : 'bg-white border border-gray-200/60 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {issuer.trading_symbol || issuer.issuer_name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartRows} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={24} />
+            <YAxis tick={{ fontSize: 11 }} tickFormatter={formatAxisShares} width={56} />
+            <Tooltip formatter={(shares) => formatShares(shares)} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {lines.map((position, index) => (
+              <Line
+                key={`${position.security_title}-${position.direct_or_indirect}-${position.nature_of_ownership}`}
+                type="stepAfter"
+                dataKey={`p${index}`}
+                name={`${position.security_title} · ${positionLabel(position)}`}
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                strokeWidth={2}
+                dot={{ r: 2 }}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {lines.map((position) => (
+          <div
+            key={`${position.security_title}-${position.direct_or_indirect}-${position.nature_of_ownership}`}
+            className="bg-gray-50 rounded-xl border border-gray-200/60 p-3"
+          >
+            <div className="text-xs font-medium text-gray-500">
+              {position.security_title} · {positionLabel(position)}
+            </div>
+            <div className="text-lg font-semibold text-gray-900">{formatShares(position.current_shares)}</div>
+            <div className="text-xs text-gray-600">
+              as of {position.last_reported}
+              {position.last_change !== null && position.last_change !== 0 && (
+                <span className={position.last_change > 0 ? 'text-green-700' : 'text-red-700'}>
+                  {' '}({position.last_change > 0 ? '+' : ''}{formatShares(position.last_change)})
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Building2, User } from 'lucide-react';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { apiClient, SearchResult } from '@/lib/api-client';
+
+type EntityResult = Extract<SearchResult, { type: 'company' | 'insider' }>;
+
+interface SearchTypeaheadProps {
+  className?: string;
+  onNavigate?: () => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 200;
+
+const resultHref = (result: EntityResult) => `/${result.type}/${result.cik}`;
+
+const resultDetail = (result: EntityResult) => {
+  if (result.type === 'company') {
+    return [result.trading_symbol, result.sector].filter(Boolean).join(' · ');
+  }
+  return [result.officer_titles[0], result.latest_issuer?.name].filter(Boolean).join(' · ');
+};
+
+/**
+ * Search box that suggests companies and insiders as you type and jumps
+ * straight to their page
+ */
+export function SearchTypeahead({ className = '', onNavigate }: SearchTypeaheadProps) {
+  const t = useTranslations();
+  const router = useRouter();
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<EntityResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const term = query.trim();
+
+  useEffect(() => {
+    if (term.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      return undefined;
+    }
+
+    // Drop responses for terms the user has already typed past
+    let stale = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const found = await apiClient.search(term, { types: ['company', 'insider'], limit: 8 });
+        if (!stale) {
+          setResults(found.filter((result): result is EntityResult => result.type !== 'filing'));
+          setActiveIndex(0);
+        }
+      } catch {
+        if (!stale) setResults([]);
+      } finally {
+        if (!stale) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [term]);
+
+  const select = (result: EntityResult) => {
+    setQuery('');
+    setResults([]);
+    setOpen(false);
+    onNavigate?.();
+    router.push(resultHref(result));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((index) => (index + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter' && open && results[activeIndex]) {
+      e.preventDefault();
+      select(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && term.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className={`relative ${className}`}>
+      <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
+      <input
+        type="search"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && results[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('nav.searchPlaceholder')}
+        className="w-full pl-9 pr-3 py-2 text-sm bg-gray-50 border border-gray-200/60 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all duration-200"
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          // Keep focus in the input so clicks land before the list closes
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute z-50 mt-2 w-full min-w-[18rem] bg-white border border-gray-200/60 rounded-xl shadow-lg py-1 max-h-96 overflow-y-auto"
+        >
+          {results.length === 0 ? (
+            <li className="px-4 py-3 text-sm text-gray-500">
+              {loading ? t('nav.searching') : t('nav.searchNoResults')}
+            </li>
+          ) : (
+            results.map((result, index) => {
+              const Icon = result.type === 'company' ? Building2 : User;
+              const detail = resultDetail(result);
+              return (
+                <li
+                  key={`${result.type}-${result.cik}`}
+                  id={`${listId}-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => select(result)}
+                  className={`flex items-center gap-3 px-4 py-2 cursor-pointer transition-colors ${
+                    index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <Icon className="h-4 w-4 text-gray-500 shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-medium text-gray-900 truncate">{result.name}</div>
+                    {detail && <div className="text-xs text-gray-500 truncate">{detail}</div>}
+                  </div>
+                  <span className="text-xs font-medium text-gray-600 bg-gray-100 px-2 py-0.5 rounded-full shrink-0">
+                    {result.type === 'company' ? t('nav.searchCompany') : t('nav.searchInsider')}
+                  </span>
+                </li>
+              );
+            })
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
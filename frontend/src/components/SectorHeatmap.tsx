@@ -0,0 +1,91 @@
+'use client';
+
+import { SectorSummary } from '@/lib/api-client';
+
+export type HeatmapBasis = 'value' | 'breadth';
+
+interface SectorHeatmapProps {
+  sectors: SectorSummary[];
+  basis: HeatmapBasis;
+  selected: string | null;
+  onSelect: (sector: string) => void;
+}
+
+// Lightest to strongest; full class names so Tailwind keeps them
+const BUYING_SHADES = [
+  'bg-emerald-50 text-emerald-900',
+  'bg-emerald-100 text-emerald-900',
+  'bg-emerald-200 text-emerald-900',
+  'bg-emerald-400 text-white',
+  'bg-emerald-600 text-white',
+];
+const SELLING_SHADES = [
+  'bg-red-50 text-red-900',
+  'bg-red-100 text-red-900',
+  'bg-red-200 text-red-900',
+  'bg-red-400 text-white',
+  'bg-red-600 text-white',
+];
+
+export const formatValue = (value: number) => {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1_000_000_000) return `${sign}$${(abs / 1_000_000_000).toFixed(1)}B`;
+  if (abs >= 1_000_000) return `${sign}$${(abs / 1_000_000).toFixed(1)}M`;
+  if (abs >= 1_000) return `${sign}$${(abs / 1_000).toFixed(0)}K`;
+  return `${sign}$${abs.toFixed(0)}`;
+};
+
+/**
+ * Signed strength of a sector's buying (-1 to 1): net dollar value against
+ * the sector with the largest, or how far the share of companies with net
+ * buying is from half
+ */
+const heat = (sector: SectorSummary, basis: HeatmapBasis, maxNet: number) => {
+  if (basis === 'breadth') {
+    return sector.active_issuers > 0 ? (sector.net_buying_issuers / sector.active_issuers - 0.5) * 2 : 0;
+  }
+  return maxNet > 0 ? sector.net_value / maxNet : 0;
+};
+
+const shade = (value: number) => {
+  if (value === 0) return 'bg-gray-50 text-gray-900';
+  const shades = value > 0 ? BUYING_SHADES : SELLING_SHADES;
+  return shades[Math.min(shades.length - 1, Math.floor(Math.abs(value) * shades.length))];
+};
+
+/**
+ * Sectors as tiles colored by insider buying (green) or selling (red)
+ */
+export default function SectorHeatmap({ sectors, basis, selected, onSelect }: SectorHeatmapProps) {
+  const maxNet = Math.max(0, ...sectors.map((sector) => Math.abs(sector.net_value)));
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
+      {sectors.map((sector) => (
+        <button
+          key={sector.sector}
+          onClick={() => onSelect(sector.sector)}
+          className={`text-left rounded-xl p-4 border transition-all duration-200 hover:shadow-md hover:-translate-y-0.5 ${shade(
+            heat(sector, basis, maxNet)
+          )} ${selected === sector.sector ? 'border-blue-600 ring-2 ring-blue-500' : 'border-gray-200/60'}`}
+        >
+          <div className="text-sm font-semibold truncate" title={sector.sector}>
+            {sector.sector}
+          </div>
+          <div className="text-2xl font-extrabold mt-1">
+            {sector.net_value > 0 ? '+' : ''}
+            {formatValue(sector.net_value)}
+          </div>
+          <div className="text-xs mt-1 opacity-80">
+            {sector.buy_count} buys · {sector.sell_count} sells
+          </div>
+          <div className="text-xs opacity-80">
+            {sector.net_buying_issuers}/{sector.active_issuers} companies net buying
+            {sector.cluster_buys > 0 && ` · ${sector.cluster_buys} cluster buys`}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
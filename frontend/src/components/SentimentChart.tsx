@@ -0,0 +1,116 @@
+'use client';
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { MetricsGranularity, SentimentPeriod } from '@/lib/api-client';
+
+export type SentimentBasis = 'value' | 'count';
+
+interface SentimentChartProps {
+  history: SentimentPeriod[];
+  granularity: MetricsGranularity;
+  basis: SentimentBasis;
+}
+
+// Moving-average line colors, shortest window first
+const MA_COLORS = ['#9333ea', '#f59e0b', '#64748b'];
+
+const UNIT_LABELS: Record<MetricsGranularity, string> = { day: 'd', week: 'w', month: 'm' };
+
+const formatPeriod = (date: string, granularity: MetricsGranularity): string => {
+  const options: Intl.DateTimeFormatOptions =
+    granularity === 'month' ? { month: 'short', year: '2-digit' } : { month: 'short', day: 'numeric' };
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+};
+
+const formatRatio = (value: unknown): string =>
+  typeof value === 'number' ? `${value.toFixed(2)}×` : '—';
+
+/**
+ * Market-wide insider buy/sell ratio over time with its moving averages,
+ * and the buy and sell counts behind it
+ */
+export default function SentimentChart({ history, granularity, basis }: SentimentChartProps) {
+  const ratioKey = basis === 'value' ? 'buy_sell_ratio' : 'buy_sell_count_ratio';
+  const windows = Object.keys(history[history.length - 1]?.moving_averages ?? {});
+
+  const data = history.map((period) => ({
+    label: formatPeriod(period.period_start, granularity),
+    ratio: period[ratioKey],
+    buys: period.total_insider_buys,
+    sells: period.total_insider_sells,
+    ...Object.fromEntries(windows.map((key) => [key, period.moving_averages[key]?.[ratioKey] ?? null])),
+  }));
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-1">
+          Buy/Sell Ratio {basis === 'value' ? 'by Dollar Value' : 'by Number of Trades'}
+        </h3>
+        <p className="text-xs text-gray-500 mb-3">Above 1× means insiders bought more than they sold</p>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={24} />
+              <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => `${value}×`} width={48} />
+              <Tooltip formatter={(value) => formatRatio(value)} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <ReferenceLine y={1} stroke="#9ca3af" strokeDasharray="4 4" />
+              <Line
+                type="monotone"
+                dataKey="ratio"
+                name={granularity === 'day' ? 'Daily' : granularity === 'week' ? 'Weekly' : 'Monthly'}
+                stroke="#2563eb"
+                strokeWidth={1.5}
+                dot={false}
+                connectNulls
+              />
+              {windows.map((key, index) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={`${key.replace('ma_', '')}${UNIT_LABELS[granularity]} average`}
+                  stroke={MA_COLORS[index % MA_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Open-Market Trades</h3>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={24} />
+              <YAxis tick={{ fontSize: 11 }} width={48} />
+              <Tooltip />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar dataKey="buys" name="Buys" fill="#10b981" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="sells" name="Sells" fill="#ef4444" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
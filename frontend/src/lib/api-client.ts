@@ -27,6 +27,8 @@ export interface PaginationMetadata {
   has_prev_page: boolean;
   next_page: number | null;
   prev_page: number | null;
+  // Cursor of the following page; pass back as ApiFilters.cursor
+  next_cursor?: string | null;
 }
 
 export interface PaginatedResponse<T> {
@@ -71,8 +73,32 @@ export interface TradeData {
   cluster_size?: number;
   pct_of_holdings?: number | null;
   importance_score?: number;
+  is_first_buy?: number;
+  previous_buy_date?: string | null;
+  lookback_months?: number;
   transaction_id?: number;
   is_10b5_1_plan?: number | boolean;
+  footnote_ids?: string[];
+  reporting_owner_count?: number;
+  is_active?: boolean;
+  // Derivative terms (filing and trade list endpoints; null on non-derivative rows)
+  transaction_type?: 'non_derivative' | 'derivative';
+  exercise_price?: number | null;
+  exercise_date?: string | null;
+  expiration_date?: string | null;
+  underlying_security_title?: string | null;
+  underlying_security_shares?: number | null;
+}
+
+export interface ReportingOwner {
+  cik: string;
+  name: string;
+  is_director: boolean;
+  is_officer: boolean;
+  is_ten_percent_owner: boolean;
+  is_other: boolean;
+  officer_title: string | null;
+  is_primary_owner: boolean;
 }
 
 export interface FilingData {
@@ -84,17 +110,69 @@ export interface FilingData {
   trading_symbol: string | null;
   person_cik: string;
   person_name: string;
+  reporting_owners?: ReportingOwner[];
+  is_amendment?: boolean;
+  amends_accession_number?: string | null;
+  superseded_by_accession_number?: string | null;
   transaction_count: number;
   total_value: number;
   total_shares: number;
 }
 
+export interface FootnoteData {
+  id: string;
+  text: string;
+}
+
 export interface FilingResponse {
   filing: FilingData;
   trades: TradeData[];
+  holdings?: HoldingData[];
+  footnotes?: FootnoteData[];
   count: number;
 }
 
+export interface HoldingData {
+  holding_id: number;
+  accession_number: string;
+  filed_at: string;
+  as_of_date: string;
+  form_type: string;
+  issuer_cik: string;
+  issuer_name: string;
+  trading_symbol: string | null;
+  person_cik: string;
+  person_name: string;
+  is_director: boolean;
+  is_officer: boolean;
+  officer_title: string | null;
+  is_ten_percent_owner: boolean;
+  security_title: string;
+  holding_type: 'non-derivative' | 'derivative';
+  shares_owned: number | null;
+  direct_or_indirect: 'D' | 'I' | null;
+  nature_of_ownership: string | null;
+  exercise_price: number | null;
+  exercise_date: string | null;
+  expiration_date: string | null;
+  underlying_security_title: string | null;
+  underlying_security_shares: number | null;
+}
+
+export interface FailedFiling {
+  accession_number: string;
+  status: 'failed' | 'dead_letter';
+  error_class: string | null;
+  error_message: string | null;
+  attempts: number | null;
+  queued_at: string | null;
+  last_failed_at: string | null;
+  dead_lettered_at: string | null;
+  cik: string | null;
+  filing_url: string | null;
+  issuer_name: string | null;
+}
+
 export interface ClusterBuy {
   issuer_name: string;
   trading_symbol: string | null;
@@ -105,6 +183,371 @@ export interface ClusterBuy {
   trades: TradeData[];
 }
 
+export interface ClusterSellTrade {
+  person_name: string;
+  person_cik: string;
+  shares_transacted: number;
+  price_per_share: number | null;
+  transaction_value: number;
+  pct_of_holdings: number | null;
+  is_officer: boolean;
+  is_director: boolean;
+  officer_title: string | null;
+  accession_number: string;
+  filed_at: string;
+}
+
+/**
+ * Two or more insiders making discretionary open-market sales (no 10b5-1
+ * plan or tax-withholding dispositions) around the same day
+ */
+export interface ClusterSell {
+  cluster_id: number;
+  issuer_cik: string;
+  issuer_name: string;
+  trading_symbol: string | null;
+  transaction_date: string;
+  total_insiders: number;
+  total_shares: number;
+  total_value: number;
+  signal_strength: number;
+  has_ceo_sell: boolean;
+  has_cfo_sell: boolean;
+  has_ten_percent_owner: boolean;
+  avg_pct_of_holdings: number | null;
+  trades: ClusterSellTrade[];
+}
+
+export type AnomalyType = 'first_buy_in_years' | 'volume_spike' | 'frequency_spike';
+
+/**
+ * Insider buying or selling that is unusual for the issuer itself: the
+ * first purchase in three years, or a week's dollar volume or trade count
+ * far above the issuer's weekly baseline (z-scores in standard deviations)
+ */
+export interface ActivityAnomaly {
+  anomaly_id: number;
+  issuer_cik: string;
+  issuer_name: string;
+  trading_symbol: string | null;
+  sector: string | null;
+  industry: string | null;
+  transaction_date: string;
+  window_start: string;
+  direction: 'buy' | 'sell';
+  anomaly_type: AnomalyType;
+  trade_count: number;
+  total_insiders: number;
+  total_value: number;
+  baseline_weeks: number;
+  active_weeks: number;
+  baseline_avg_value: number | null;
+  baseline_stddev_value: number | null;
+  baseline_avg_count: number | null;
+  baseline_stddev_count: number | null;
+  value_z_score: number | null;
+  count_z_score: number | null;
+  last_prior_date: string | null;
+  days_since_prior: number | null;
+  detected_at: string;
+}
+
+/**
+ * An insider's open-market trading history and how their buys did against
+ * SPY, rebuilt daily by the signal processor. Returns are fractions
+ * (0.05 = +5%).
+ */
+export interface InsiderTrackRecord {
+  open_market_buys: number;
+  open_market_sells: number;
+  buy_value: number;
+  sell_value: number;
+  companies_traded: number;
+  first_trade_date: string | null;
+  last_trade_date: string | null;
+  buys_with_returns: number;
+  hits: number;
+  hit_rate: number | null;
+  avg_return_20d: number | null;
+  avg_return_60d: number | null;
+  avg_excess_60d: number | null;
+  reliability_score: number | null;
+  avg_holding_days: number | null;
+  buys_sold: number;
+  pct_sold_within_6m: number | null;
+  updated_at: string;
+}
+
+export interface InsiderCompanyActivity {
+  issuer_cik: string;
+  issuer_name: string;
+  trading_symbol: string | null;
+  buys: number;
+  sells: number;
+  buy_value: number;
+  sell_value: number;
+  last_trade_date: string;
+}
+
+export interface InsiderBuyReturn {
+  signal_date: string;
+  score: number | null;
+  trading_symbol: string;
+  issuer_cik: string;
+  issuer_name: string;
+  base_price: number | null;
+  return_20d: number | null;
+  return_60d: number | null;
+  excess_60d: number | null;
+  is_complete: boolean;
+}
+
+export interface InsiderStats {
+  person_cik: string;
+  person_name: string;
+  track_record: InsiderTrackRecord | null;
+  companies: InsiderCompanyActivity[];
+  recent_buys: InsiderBuyReturn[];
+}
+
+export interface PositionPoint {
+  date: string;
+  shares: number;
+  change: number | null;
+  source: 'transaction' | 'holding';
+  transaction_code: string | null;
+  acquired_disposed_code: 'A' | 'D' | null;
+  shares_transacted: number | null;
+  price_per_share: number | null;
+  accession_number: string;
+}
+
+export interface InsiderRole {
+  is_director: boolean | number;
+  is_officer: boolean | number;
+  officer_title: string | null;
+  is_ten_percent_owner: boolean | number;
+}
+
+/**
+ * One position an insider holds in an issuer's security, rebuilt from the
+ * shares owned after each transaction and reported holdings. Direct and
+ * indirect ownership (and each kind of indirect) are separate positions.
+ */
+export interface InsiderPosition {
+  issuer_cik: string;
+  issuer_name: string;
+  trading_symbol: string | null;
+  security_title: string;
+  security_type: 'non_derivative' | 'derivative';
+  direct_or_indirect: 'D' | 'I';
+  nature_of_ownership: string | null;
+  exercise_price: number | null;
+  expiration_date: string | null;
+  first_reported: string;
+  current_shares: number;
+  last_reported: string;
+  last_change: number | null;
+}
+
+export interface InsiderPositionTimeline extends InsiderPosition {
+  person_cik: string;
+  person_name: string;
+  role: InsiderRole;
+  history: PositionPoint[];
+}
+
+/**
+ * An insider of a company with their latest reported positions. Share
+ * totals count stock only; derivative positions are listed when requested.
+ */
+export interface CompanyHolder extends InsiderRole {
+  person_cik: string;
+  person_name: string;
+  direct_shares: number;
+  indirect_shares: number;
+  total_shares: number;
+  last_reported: string;
+  positions: InsiderPosition[];
+}
+
+/**
+ * A company's open-market insider activity over one rolling window,
+ * precomputed by the signal processor
+ */
+export interface CompanySummaryWindow {
+  window_months: number;
+  window_start: string;
+  buy_count: number;
+  sell_count: number;
+  buy_value: number;
+  sell_value: number;
+  net_value: number;
+  unique_buyers: number;
+  unique_sellers: number;
+  last_buy_date: string | null;
+  last_sell_date: string | null;
+  cluster_buys: number;
+  cluster_sells: number;
+  updated_at: string | null;
+}
+
+export interface CompanySummaryTrade extends InsiderRole {
+  transaction_date: string;
+  direction: 'buy' | 'sell';
+  shares_transacted: number;
+  price_per_share: number | null;
+  transaction_value: number;
+  is_10b5_1_plan: boolean;
+  person_cik: string;
+  person_name: string;
+  accession_number: string;
+}
+
+export interface CompanySummaryCluster {
+  direction: 'buy' | 'sell';
+  cluster_id: number;
+  transaction_date: string;
+  total_insiders: number;
+  total_shares: number;
+  total_value: number;
+  signal_strength: number;
+}
+
+export interface CompanySummary {
+  issuer_cik: string;
+  issuer_name: string;
+  trading_symbol: string | null;
+  windows: CompanySummaryWindow[];
+  largest_trades: CompanySummaryTrade[];
+  clusters: CompanySummaryCluster[];
+  holdings: {
+    insiders: number;
+    direct_shares: number;
+    indirect_shares: number;
+    total_shares: number;
+    top_holders: Omit<CompanyHolder, 'positions'>[];
+  };
+  updated_at: string | null;
+}
+
+/**
+ * Open-market insider activity rolled up over a sector or industry's
+ * companies for one summary window. Insiders are counted per company.
+ */
+export interface SectorActivity {
+  active_issuers: number;
+  buy_count: number;
+  sell_count: number;
+  buy_value: number;
+  sell_value: number;
+  net_value: number;
+  insiders_buying: number;
+  insiders_selling: number;
+  net_buying_issuers: number;
+  cluster_buys: number;
+  cluster_sells: number;
+  updated_at: string | null;
+}
+
+export interface SectorCompany {
+  industry: string | null;
+  issuer_cik: string;
+  issuer_name: string;
+  trading_symbol: string | null;
+  buy_count: number;
+  sell_count: number;
+  buy_value: number;
+  sell_value: number;
+  net_value: number;
+  unique_buyers: number;
+  unique_sellers: number;
+  cluster_buys: number;
+  cluster_sells: number;
+}
+
+export interface SectorSummary extends SectorActivity {
+  sector: string;
+  top_buyers: SectorCompany[];
+  top_sellers: SectorCompany[];
+}
+
+export interface SectorDetail extends SectorSummary {
+  issuers: number;
+  industries: (SectorActivity & { industry: string | null })[];
+}
+
+export type MetricsGranularity = 'day' | 'week' | 'month';
+
+export interface SentimentAverages {
+  buy_sell_ratio: number | null;
+  buy_sell_count_ratio: number | null;
+  total_insider_buys: number;
+  total_insider_sells: number;
+}
+
+/**
+ * Market-wide insider activity for one day, week or month. Ratios are buys
+ * per sell (null without sells); moving averages are keyed "ma_{periods}"
+ * and null until the window is full.
+ */
+export interface SentimentPeriod {
+  period_start: string;
+  first_date: string;
+  last_date: string;
+  days: number;
+  total_insider_buys: number;
+  total_insider_sells: number;
+  total_buy_value: number;
+  total_sell_value: number;
+  buy_sell_ratio: number | null;
+  buy_sell_count_ratio: number | null;
+  cluster_buys_count: number;
+  max_cluster_size: number;
+  total_cluster_value: number;
+  first_buys_count: number;
+  important_trades_count: number;
+  avg_importance_score: number | null;
+  moving_averages: Record<string, SentimentAverages | null>;
+}
+
+export type SearchResultType = 'company' | 'insider' | 'filing';
+
+/**
+ * One /api/search hit. Each type is ranked by its own score (higher is more
+ * relevant, not comparable across types) and the types are interleaved;
+ * filings match on footnote text and carry a snippet.
+ */
+export type SearchResult =
+  | {
+      type: 'company';
+      cik: string;
+      name: string;
+      trading_symbol: string | null;
+      sector: string | null;
+      score: number;
+    }
+  | {
+      type: 'insider';
+      cik: string;
+      name: string;
+      officer_titles: string[];
+      latest_issuer: { cik: string; name: string; trading_symbol: string | null } | null;
+      score: number;
+    }
+  | {
+      type: 'filing';
+      accession_number: string;
+      filed_at: string;
+      issuer_cik: string;
+      issuer_name: string;
+      trading_symbol: string | null;
+      person_cik: string | null;
+      person_name: string | null;
+      snippet: string;
+      score: number;
+    };
+
 export interface ApiFilters {
   q?: string;
   type?: 'P' | 'S' | 'A';
@@ -119,6 +562,9 @@ export interface ApiFilters {
   start_date?: string;
   end_date?: string;
   page?: number;
+  // Keyset paging: next_cursor of the previous page (takes precedence over page)
+  cursor?: string;
+  include_total?: boolean;
 }
 
 export interface MarketSnapshot {
@@ -199,6 +645,7 @@ class RestApiClient {
           has_prev_page: false,
           next_page: null,
           prev_page: null,
+          next_cursor: null,
         },
         query_info: apiResponse.query_info
       };
@@ -223,11 +670,32 @@ class RestApiClient {
     return this.fetchApi<TradeData[]>('/api/trades/important', queryParams);
   }
 
+  async getFirstBuysWithPagination(
+    limit: number = 50,
+    filters?: ApiFilters & { first_ever?: boolean }
+  ): Promise<PaginatedResponse<TradeData[]>> {
+    const queryParams = this.buildQueryParams({ ...filters, limit });
+    return this.fetchApiWithPagination<TradeData[]>('/api/trades/first-buys', queryParams);
+  }
+
   async getClusterBuys(daysWindow: number = 7): Promise<ClusterBuy[]> {
     const queryParams = this.buildQueryParams({ days: daysWindow } as ApiFilters & { days?: number });
     return this.fetchApi<ClusterBuy[]>('/api/trades/clusters', queryParams);
   }
 
+  async getClusterSells(daysWindow: number = 7): Promise<ClusterSell[]> {
+    const queryParams = this.buildQueryParams({ days: daysWindow } as ApiFilters & { days?: number });
+    return this.fetchApi<ClusterSell[]>('/api/trades/cluster-sells', queryParams);
+  }
+
+  async getActivityAnomalies(
+    daysWindow: number = 30,
+    options?: { type?: AnomalyType; direction?: 'buy' | 'sell'; cik?: string; limit?: number }
+  ): Promise<ActivityAnomaly[]> {
+    const queryParams = this.buildQueryParams({ days: daysWindow, ...options } as ApiFilters & { days?: number });
+    return this.fetchApi<ActivityAnomaly[]>('/api/trades/anomalies', queryParams);
+  }
+
   async getTradesByCompany(
     symbol?: string,
     cik?: string,
@@ -260,6 +728,75 @@ class RestApiClient {
     return this.fetchApi<TradeData[]>('/api/trades/insider', queryParams);
   }
 
+  async getHoldingsByCompany(cik: string, limit: number = 100): Promise<HoldingData[]> {
+    const queryParams = this.buildQueryParams({ cik, limit } as ApiFilters & { cik?: string; limit?: number });
+    return this.fetchApi<HoldingData[]>('/api/holdings/company', queryParams);
+  }
+
+  async getHoldingsByInsider(cik: string, limit: number = 100): Promise<HoldingData[]> {
+    const queryParams = this.buildQueryParams({ cik, limit } as ApiFilters & { cik?: string; limit?: number });
+    return this.fetchApi<HoldingData[]>('/api/holdings/insider', queryParams);
+  }
+
+  async getInsiderStats(cik: string): Promise<InsiderStats> {
+    return this.fetchApi<InsiderStats>(`/api/insider/${encodeURIComponent(cik)}/stats`);
+  }
+
+  async getInsiderPositions(cik: string, issuerCik?: string): Promise<InsiderPositionTimeline[]> {
+    const queryParams = this.buildQueryParams({ issuer: issuerCik } as ApiFilters & { issuer?: string });
+    return this.fetchApi<InsiderPositionTimeline[]>(
+      `/api/insider/${encodeURIComponent(cik)}/positions`,
+      queryParams
+    );
+  }
+
+  async getCompanyHolders(
+    cik: string,
+    options?: { include_derivatives?: boolean; include_exited?: boolean; limit?: number }
+  ): Promise<CompanyHolder[]> {
+    const queryParams = this.buildQueryParams(options as ApiFilters & { limit?: number });
+    return this.fetchApi<CompanyHolder[]>(`/api/company/${encodeURIComponent(cik)}/holders`, queryParams);
+  }
+
+  async getCompanySummary(cik: string): Promise<CompanySummary> {
+    return this.fetchApi<CompanySummary>(`/api/company/${encodeURIComponent(cik)}/summary`);
+  }
+
+  async getSectors(months: number = 3, top?: number): Promise<SectorSummary[]> {
+    const queryParams = this.buildQueryParams({ months, top } as ApiFilters & { months?: number; top?: number });
+    return this.fetchApi<SectorSummary[]>('/api/sectors', queryParams);
+  }
+
+  async getSectorDetail(sector: string, months: number = 3, limit?: number): Promise<SectorDetail> {
+    const queryParams = this.buildQueryParams({ months, limit } as ApiFilters & { months?: number; limit?: number });
+    return this.fetchApi<SectorDetail>(`/api/sectors/${encodeURIComponent(sector)}`, queryParams);
+  }
+
+  async getMetricsHistory(
+    granularity: MetricsGranularity = 'day',
+    options?: { start?: string; end?: string; ma?: number[] }
+  ): Promise<SentimentPeriod[]> {
+    const queryParams = this.buildQueryParams({
+      granularity,
+      start: options?.start,
+      end: options?.end,
+      ma: options?.ma?.join(','),
+    } as ApiFilters & { granularity?: string; ma?: string });
+    return this.fetchApi<SentimentPeriod[]>('/api/metrics/history', queryParams);
+  }
+
+  async search(
+    q: string,
+    options?: { types?: SearchResultType[]; limit?: number }
+  ): Promise<SearchResult[]> {
+    const queryParams = this.buildQueryParams({
+      q,
+      type: options?.types?.join(','),
+      limit: options?.limit,
+    } as ApiFilters & { type?: string; limit?: number });
+    return this.fetchApi<SearchResult[]>('/api/search', queryParams);
+  }
+
   async getFilingByAccessionNumber(accessionNumber: string): Promise<FilingResponse> {
     if (!accessionNumber) {
       throw new Error('Accession number is required');
@@ -267,6 +804,31 @@ class RestApiClient {
     return this.fetchApi<FilingResponse>(`/api/filing/${accessionNumber}`);
   }
 
+  async getFailedFilings(status?: FailedFiling['status'], limit: number = 100): Promise<FailedFiling[]> {
+    const queryParams = this.buildQueryParams({ status, limit } as ApiFilters & { status?: string; limit?: number });
+    return this.fetchApi<FailedFiling[]>('/api/filings/failed', queryParams);
+  }
+
+  /**
+   * Send a failed or dead-lettered filing back to the processing queue
+   */
+  async requeueFiling(accessionNumber: string, adminToken: string): Promise<void> {
+    const queryParams = this.buildQueryParams({ accession_number: accessionNumber } as ApiFilters & { accession_number?: string });
+    const response = await fetch(`${this.baseUrl}/api/filings/requeue${queryParams}`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${adminToken}`,
+      },
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Requeue rejected: check the admin token');
+    }
+    if (!response.ok) {
+      throw new Error(`Requeue failed: ${response.status} ${response.statusText}`);
+    }
+  }
 
   /**
    * Start insider backfill with real-time streaming updates
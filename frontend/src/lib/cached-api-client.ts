@@ -10,7 +10,7 @@
  * - Stale-while-revalidate for better UX
  */
 
-import { apiClient, alpacaClient, type TradeData, type ClusterBuy, type ApiFilters, type NewsResponse, type FilingResponse, type PaginatedResponse } from './api-client';
+import { apiClient, alpacaClient, type TradeData, type ClusterBuy, type ClusterSell, type ActivityAnomaly, type AnomalyType, type ApiFilters, type NewsResponse, type FilingResponse, type HoldingData, type InsiderStats, type InsiderPositionTimeline, type CompanyHolder, type CompanySummary, type SectorSummary, type SectorDetail, type MetricsGranularity, type SentimentPeriod, type PaginatedResponse } from './api-client';
 import { cache, createCacheKey, type CacheOptions } from './cache';
 
 // ============================================================================
@@ -37,6 +37,18 @@ const CACHE_CONFIG = {
     persistent: true,
     tags: ['trades', 'clusters'] as string[],
   },
+  clusterSells: {
+    ttl: 5 * 60 * 1000, // 5 minutes
+    staleWhileRevalidate: true,
+    persistent: true,
+    tags: ['trades', 'clusters'] as string[],
+  },
+  activityAnomalies: {
+    ttl: 10 * 60 * 1000, // 10 minutes
+    staleWhileRevalidate: true,
+    persistent: true,
+    tags: ['trades', 'anomalies'] as string[],
+  },
   companyTrades: {
     ttl: 5 * 60 * 1000, // 5 minutes
     staleWhileRevalidate: true,
@@ -49,6 +61,42 @@ const CACHE_CONFIG = {
     persistent: true,
     tags: ['trades', 'insider'] as string[],
   },
+  holdings: {
+    ttl: 10 * 60 * 1000, // 10 minutes (holdings only change with new filings)
+    staleWhileRevalidate: true,
+    persistent: true,
+    tags: ['holdings'] as string[],
+  },
+  metricsHistory: {
+    ttl: 30 * 60 * 1000, // 30 minutes (signal_history is recomputed by the scheduled run)
+    staleWhileRevalidate: true,
+    persistent: true,
+    tags: ['metrics'] as string[],
+  },
+  insiderStats: {
+    ttl: 30 * 60 * 1000, // 30 minutes (track records are rebuilt daily)
+    staleWhileRevalidate: true,
+    persistent: true,
+    tags: ['insider'] as string[],
+  },
+  positions: {
+    ttl: 10 * 60 * 1000, // 10 minutes (positions only change with new filings)
+    staleWhileRevalidate: true,
+    persistent: true,
+    tags: ['holdings'] as string[],
+  },
+  companySummary: {
+    ttl: 10 * 60 * 1000, // 10 minutes (summaries are refreshed as filings complete)
+    staleWhileRevalidate: true,
+    persistent: true,
+    tags: ['trades', 'holdings'] as string[],
+  },
+  sectors: {
+    ttl: 30 * 60 * 1000, // 30 minutes (issuer summaries are rebuilt daily)
+    staleWhileRevalidate: true,
+    persistent: true,
+    tags: ['metrics'] as string[],
+  },
   
   // Filing data - moderate freshness required since it's historical
   filing: {
@@ -158,6 +206,39 @@ export class CachedRestApiClient {
     );
   }
 
+  /**
+   * Get cluster sells with caching
+   */
+  async getClusterSells(
+    daysWindow: number = 7,
+    options?: Partial<CacheOptions>
+  ): Promise<ClusterSell[]> {
+    const cacheKey = createCacheKey('trades-cluster-sells', { daysWindow });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getClusterSells(daysWindow),
+      { ...CACHE_CONFIG.clusterSells, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get activity anomalies with caching
+   */
+  async getActivityAnomalies(
+    daysWindow: number = 30,
+    filters?: { type?: AnomalyType; direction?: 'buy' | 'sell'; cik?: string; limit?: number },
+    options?: Partial<CacheOptions>
+  ): Promise<ActivityAnomaly[]> {
+    const cacheKey = createCacheKey('trades-anomalies', { daysWindow, ...filters });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getActivityAnomalies(daysWindow, filters),
+      { ...CACHE_CONFIG.activityAnomalies, ...options, namespace: 'api' }
+    );
+  }
+
   /**
    * Get trades by company with caching
    */
@@ -197,6 +278,158 @@ export class CachedRestApiClient {
     );
   }
 
+  /**
+   * Get reported holdings for a company with caching
+   */
+  async getHoldingsByCompany(
+    cik: string,
+    limit: number = 100,
+    options?: Partial<CacheOptions>
+  ): Promise<HoldingData[]> {
+    const cacheKey = createCacheKey('holdings-company', { cik, limit });
+    
+    return cache.get(
+      cacheKey,
+      () => apiClient.getHoldingsByCompany(cik, limit),
+      { ...CACHE_CONFIG.holdings, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get reported holdings for an insider with caching
+   */
+  async getHoldingsByInsider(
+    cik: string,
+    limit: number = 100,
+    options?: Partial<CacheOptions>
+  ): Promise<HoldingData[]> {
+    const cacheKey = createCacheKey('holdings-insider', { cik, limit });
+    
+    return cache.get(
+      cacheKey,
+      () => apiClient.getHoldingsByInsider(cik, limit),
+      { ...CACHE_CONFIG.holdings, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get an insider's track record and trading stats with caching
+   */
+  async getInsiderStats(
+    cik: string,
+    options?: Partial<CacheOptions>
+  ): Promise<InsiderStats> {
+    const cacheKey = createCacheKey('insider-stats', { cik });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getInsiderStats(cik),
+      { ...CACHE_CONFIG.insiderStats, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get an insider's position timelines with caching
+   */
+  async getInsiderPositions(
+    cik: string,
+    issuerCik?: string,
+    options?: Partial<CacheOptions>
+  ): Promise<InsiderPositionTimeline[]> {
+    const cacheKey = createCacheKey('insider-positions', { cik, issuerCik });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getInsiderPositions(cik, issuerCik),
+      { ...CACHE_CONFIG.positions, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get a company's insiders and their current positions with caching
+   */
+  async getCompanyHolders(
+    cik: string,
+    filters?: { include_derivatives?: boolean; include_exited?: boolean; limit?: number },
+    options?: Partial<CacheOptions>
+  ): Promise<CompanyHolder[]> {
+    const cacheKey = createCacheKey('company-holders', { cik, ...filters });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getCompanyHolders(cik, filters),
+      { ...CACHE_CONFIG.positions, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get a company's insider activity summary with caching
+   */
+  async getCompanySummary(
+    cik: string,
+    options?: Partial<CacheOptions>
+  ): Promise<CompanySummary> {
+    const cacheKey = createCacheKey('company-summary', { cik });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getCompanySummary(cik),
+      { ...CACHE_CONFIG.companySummary, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get insider activity per sector with caching
+   */
+  async getSectors(
+    months: number = 3,
+    top?: number,
+    options?: Partial<CacheOptions>
+  ): Promise<SectorSummary[]> {
+    const cacheKey = createCacheKey('sectors', { months, top });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getSectors(months, top),
+      { ...CACHE_CONFIG.sectors, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get one sector's activity by industry and its top companies with caching
+   */
+  async getSectorDetail(
+    sector: string,
+    months: number = 3,
+    limit?: number,
+    options?: Partial<CacheOptions>
+  ): Promise<SectorDetail> {
+    const cacheKey = createCacheKey('sector-detail', { sector, months, limit });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getSectorDetail(sector, months, limit),
+      { ...CACHE_CONFIG.sectors, ...options, namespace: 'api' }
+    );
+  }
+
+  /**
+   * Get market-wide insider sentiment history with caching
+   */
+  async getMetricsHistory(
+    granularity: MetricsGranularity = 'day',
+    filters?: { start?: string; end?: string; ma?: number[] },
+    options?: Partial<CacheOptions>
+  ): Promise<SentimentPeriod[]> {
+    const cacheKey = createCacheKey('metrics-history', { granularity, ...filters });
+
+    return cache.get(
+      cacheKey,
+      () => apiClient.getMetricsHistory(granularity, filters),
+      { ...CACHE_CONFIG.metricsHistory, ...options, namespace: 'api' }
+    );
+  }
+
   /**
    * Get filing data by accession number with caching
    */
@@ -1,9 +1,9 @@
 // Database utility for connecting to REST API with caching
-import { apiClient, type TradeData, type ClusterBuy, type ApiFilters } from './api-client';
+import { apiClient, type TradeData, type ClusterBuy, type ClusterSell, type ActivityAnomaly, type ApiFilters } from './api-client';
 import { cachedApiClient } from './cached-api-client';
 
 // Re-export types for convenience
-export type { TradeData, ClusterBuy };
+export type { TradeData, ClusterBuy, ClusterSell, ActivityAnomaly };
 
 export class Database {
   // Use cached API by default for better performance
@@ -37,6 +37,13 @@ export class Database {
     return await apiClient.getClusterBuys(daysWindow);
   }
 
+  async getClusterSells(daysWindow: number = 7): Promise<ClusterSell[]> {
+    if (this.useCache) {
+      return await cachedApiClient.getClusterSells(daysWindow);
+    }
+    return await apiClient.getClusterSells(daysWindow);
+  }
+
   async getTradesByCompany(
     symbol?: string, 
     cik?: string, 
@@ -46,6 +46,7 @@ export type TranslationKeys = {
     importantTrades: string;
     clusterBuys: string;
     firstBuys: string;
+    unusualActivity: string;
   };
   trades: {
     company: string;
@@ -0,0 +1,107 @@
+-- Migration 008: Multiple Reporting Owners per Filing
+-- Joint Form 4 filings (a fund, its GP and managing members, ...) list several
+-- reporting owners. Each owner gets a person_relationships row; the first owner
+-- listed in the XML is flagged as primary so that views and signal processors
+-- count every transaction exactly once.
+
+-- Existing filings only ever stored one owner, so it is the primary one
+ALTER TABLE person_relationships
+ADD COLUMN is_primary_owner BOOLEAN DEFAULT TRUE NOT NULL;
+
+-- Look up all filings a person reported on (insider pages, joint filers)
+CREATE INDEX IF NOT EXISTS idx_person_relationships_person
+ON person_relationships(person_id, filing_id);
+
+CREATE INDEX IF NOT EXISTS idx_person_relationships_primary
+ON person_relationships(filing_id)
+WHERE is_primary_owner = TRUE;
+
+-- One row per transaction (primary owner), with the number of owners on the filing
+DROP VIEW IF EXISTS vw_insider_trades_detailed;
+
+CREATE VIEW vw_insider_trades_detailed AS
+SELECT
+    f.accession_number,
+    f.filed_at,
+    ft.type_code AS form_type,
+    i.cik AS issuer_cik,
+    i.name AS issuer_name,
+    i.trading_symbol,
+    p.cik AS person_cik,
+    p.name AS person_name,
+    pr.is_director,
+    pr.is_officer,
+    pr.officer_title,
+    pr.is_ten_percent_owner,
+    it.transaction_date,
+    it.security_title,
+    it.transaction_code,
+    tc.description AS transaction_description,
+    it.acquired_disposed_code,
+    it.shares_transacted,
+    it.price_per_share,
+    it.transaction_value,
+    it.shares_owned_following,
+    it.direct_or_indirect,
+    it.is_10b5_1_plan,
+    it.id AS transaction_id,
+    f.id AS filing_id,
+    (
+      SELECT COUNT(*)
+      FROM person_relationships pr2
+      WHERE pr2.filing_id = f.id
+    ) AS reporting_owner_count
+FROM filings f
+JOIN filing_types ft ON f.filing_type_id = ft.id
+JOIN issuers i ON f.issuer_id = i.id
+JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+JOIN persons p ON pr.person_id = p.id
+JOIN insider_transactions it ON f.id = it.filing_id
+LEFT JOIN transaction_codes tc ON it.transaction_code = tc.code
+WHERE ft.category = 'insider_trading';
+
+-- Same fix for the important trades view (one row per signal)
+DROP VIEW IF EXISTS vw_important_trades_details;
+
+CREATE VIEW vw_important_trades_details AS
+SELECT
+    its.id as signal_id,
+    its.importance_score,
+    its.cluster_size,
+    its.is_first_buy,
+    its.is_purchase,
+    its.is_sale,
+    f.accession_number,
+    f.filed_at,
+    ft.type_code as form_type,
+    i.cik as issuer_cik,
+    i.name as issuer_name,
+    i.trading_symbol,
+    p.cik as person_cik,
+    p.name as person_name,
+    pr.is_director,
+    pr.is_officer,
+    pr.officer_title,
+    pr.is_ten_percent_owner,
+    it.transaction_date,
+    it.security_title,
+    it.transaction_code,
+    it.acquired_disposed_code,
+    it.shares_transacted,
+    it.price_per_share,
+    it.transaction_value,
+    it.shares_owned_following,
+    it.direct_or_indirect,
+    it.is_10b5_1_plan,
+    it.id AS transaction_id
+FROM important_trade_signals its
+JOIN insider_transactions it ON its.transaction_id = it.id
+JOIN filings f ON its.filing_id = f.id
+JOIN filing_types ft ON f.filing_type_id = ft.id
+JOIN issuers i ON f.issuer_id = i.id
+JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+JOIN persons p ON pr.person_id = p.id
+WHERE its.is_active = TRUE;
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('008_multiple_reporting_owners', 'Support multiple reporting owners per filing');
@@ -0,0 +1,74 @@
+-- Migration 009: Insider Holdings (Forms 3 and 5)
+-- Form 3 reports an insider's starting position as holdings rather than
+-- transactions, and Forms 4/5 list unchanged positions the same way. These rows
+-- have no transaction date or code, so they get their own table.
+
+CREATE TABLE IF NOT EXISTS insider_holdings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  filing_id INTEGER NOT NULL REFERENCES filings(id) ON DELETE CASCADE,
+
+  -- Security Details
+  security_title TEXT NOT NULL,
+  holding_type TEXT NOT NULL,           -- "non_derivative" or "derivative"
+
+  -- Position
+  shares_owned REAL NOT NULL,
+  direct_or_indirect TEXT NOT NULL,     -- "D" (Direct) or "I" (Indirect)
+  nature_of_ownership TEXT,
+
+  -- Derivative terms (NULL for non-derivative holdings)
+  exercise_price REAL,
+  exercise_date DATE,
+  expiration_date DATE,
+  underlying_security_title TEXT,
+  underlying_security_shares REAL,
+
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS holding_footnotes (
+  holding_id INTEGER NOT NULL REFERENCES insider_holdings(id) ON DELETE CASCADE,
+  footnote_id INTEGER NOT NULL REFERENCES footnotes(id) ON DELETE CASCADE,
+  PRIMARY KEY (holding_id, footnote_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_insider_holdings_filing_id ON insider_holdings(filing_id);
+
+-- Holdings with issuer and (primary) owner details, as of the report date
+CREATE VIEW IF NOT EXISTS vw_insider_holdings_detailed AS
+SELECT
+    f.accession_number,
+    f.filed_at,
+    COALESCE(f.period_of_report, date(f.filed_at)) AS as_of_date,
+    ft.type_code AS form_type,
+    i.cik AS issuer_cik,
+    i.name AS issuer_name,
+    i.trading_symbol,
+    p.cik AS person_cik,
+    p.name AS person_name,
+    pr.is_director,
+    pr.is_officer,
+    pr.officer_title,
+    pr.is_ten_percent_owner,
+    ih.id AS holding_id,
+    ih.security_title,
+    ih.holding_type,
+    ih.shares_owned,
+    ih.direct_or_indirect,
+    ih.nature_of_ownership,
+    ih.exercise_price,
+    ih.exercise_date,
+    ih.expiration_date,
+    ih.underlying_security_title,
+    ih.underlying_security_shares,
+    f.id AS filing_id
+FROM insider_holdings ih
+JOIN filings f ON ih.filing_id = f.id
+JOIN filing_types ft ON f.filing_type_id = ft.id
+JOIN issuers i ON f.issuer_id = i.id
+JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+JOIN persons p ON pr.person_id = p.id
+WHERE ft.category = 'insider_trading';
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('009_add_insider_holdings', 'Store Form 3/4/5 holdings alongside transactions');
@@ -0,0 +1,165 @@
+-- Migration 010: Amendment Supersession
+-- A 4/A restates the whole original report. Amendments are stored with
+-- is_amendment = TRUE and amends_accession_number pointing at the original
+-- filing; within each original + amendments chain only the latest version's
+-- transactions and holdings stay active, so nothing is counted twice.
+
+ALTER TABLE insider_transactions
+ADD COLUMN is_active BOOLEAN DEFAULT TRUE NOT NULL;
+
+ALTER TABLE insider_holdings
+ADD COLUMN is_active BOOLEAN DEFAULT TRUE NOT NULL;
+
+-- <dateOfOriginalSubmission> from the amendment XML, used to find the original
+ALTER TABLE filings
+ADD COLUMN original_submission_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_filings_amends_accession
+ON filings(amends_accession_number)
+WHERE amends_accession_number IS NOT NULL;
+
+-- Every version of each transaction (filing pages show superseded filings too)
+DROP VIEW IF EXISTS vw_insider_trades_all_versions;
+
+CREATE VIEW vw_insider_trades_all_versions AS
+SELECT
+    f.accession_number,
+    f.filed_at,
+    ft.type_code AS form_type,
+    i.cik AS issuer_cik,
+    i.name AS issuer_name,
+    i.trading_symbol,
+    p.cik AS person_cik,
+    p.name AS person_name,
+    pr.is_director,
+    pr.is_officer,
+    pr.officer_title,
+    pr.is_ten_percent_owner,
+    it.transaction_date,
+    it.security_title,
+    it.transaction_code,
+    tc.description AS transaction_description,
+    it.acquired_disposed_code,
+    it.shares_transacted,
+    it.price_per_share,
+    it.transaction_value,
+    it.shares_owned_following,
+    it.direct_or_indirect,
+    it.is_10b5_1_plan,
+    it.id AS transaction_id,
+    f.id AS filing_id,
+    f.is_amendment,
+    it.is_active,
+    (
+      SELECT COUNT(*)
+      FROM person_relationships pr2
+      WHERE pr2.filing_id = f.id
+    ) AS reporting_owner_count
+FROM filings f
+JOIN filing_types ft ON f.filing_type_id = ft.id
+JOIN issuers i ON f.issuer_id = i.id
+JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+JOIN persons p ON pr.person_id = p.id
+JOIN insider_transactions it ON f.id = it.filing_id
+LEFT JOIN transaction_codes tc ON it.transaction_code = tc.code
+WHERE ft.category = 'insider_trading';
+
+-- Only the latest version of each transaction
+DROP VIEW IF EXISTS vw_insider_trades_detailed;
+
+CREATE VIEW vw_insider_trades_detailed AS
+SELECT *
+FROM vw_insider_trades_all_versions
+WHERE is_active = TRUE;
+
+DROP VIEW IF EXISTS vw_important_trades_details;
+
+CREATE VIEW vw_important_trades_details AS
+SELECT
+    its.id as signal_id,
+    its.importance_score,
+    its.cluster_size,
+    its.is_first_buy,
+    its.is_purchase,
+    its.is_sale,
+    f.accession_number,
+    f.filed_at,
+    ft.type_code as form_type,
+    i.cik as issuer_cik,
+    i.name as issuer_name,
+    i.trading_symbol,
+    p.cik as person_cik,
+    p.name as person_name,
+    pr.is_director,
+    pr.is_officer,
+    pr.officer_title,
+    pr.is_ten_percent_owner,
+    it.transaction_date,
+    it.security_title,
+    it.transaction_code,
+    it.acquired_disposed_code,
+    it.shares_transacted,
+    it.price_per_share,
+    it.transaction_value,
+    it.shares_owned_following,
+    it.direct_or_indirect,
+    it.is_10b5_1_plan,
+    it.id AS transaction_id
+FROM important_trade_signals its
+JOIN insider_transactions it ON its.transaction_id = it.id
+JOIN filings f ON its.filing_id = f.id
+JOIN filing_types ft ON f.filing_type_id = ft.id
+JOIN issuers i ON f.issuer_id = i.id
+JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+JOIN persons p ON pr.person_id = p.id
+WHERE its.is_active = TRUE
+  AND it.is_active = TRUE;
+
+DROP VIEW IF EXISTS vw_insider_holdings_all_versions;
+
+CREATE VIEW vw_insider_holdings_all_versions AS
+SELECT
+    f.accession_number,
+    f.filed_at,
+    COALESCE(f.period_of_report, date(f.filed_at)) AS as_of_date,
+    ft.type_code AS form_type,
+    i.cik AS issuer_cik,
+    i.name AS issuer_name,
+    i.trading_symbol,
+    p.cik AS person_cik,
+    p.name AS person_name,
+    pr.is_director,
+    pr.is_officer,
+    pr.officer_title,
+    pr.is_ten_percent_owner,
+    ih.id AS holding_id,
+    ih.security_title,
+    ih.holding_type,
+    ih.shares_owned,
+    ih.direct_or_indirect,
+    ih.nature_of_ownership,
+    ih.exercise_price,
+    ih.exercise_date,
+    ih.expiration_date,
+    ih.underlying_security_title,
+    ih.underlying_security_shares,
+    f.id AS filing_id,
+    f.is_amendment,
+    ih.is_active
+FROM insider_holdings ih
+JOIN filings f ON ih.filing_id = f.id
+JOIN filing_types ft ON f.filing_type_id = ft.id
+JOIN issuers i ON f.issuer_id = i.id
+JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+JOIN persons p ON pr.person_id = p.id
+WHERE ft.category = 'insider_trading';
+
+DROP VIEW IF EXISTS vw_insider_holdings_detailed;
+
+CREATE VIEW vw_insider_holdings_detailed AS
+SELECT *
+FROM vw_insider_holdings_all_versions
+WHERE is_active = TRUE;
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('010_amendment_supersession', 'Link amendments to their original filing and deactivate superseded rows');
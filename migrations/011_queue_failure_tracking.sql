@@ -0,0 +1,19 @@
+-- Migration 011: Queue Failure Tracking
+-- The form4-processor retries a failing filing a bounded number of times with
+-- backoff before the queue moves it to the dead-letter queue. Each failure
+-- records why it failed, and the original queue message is kept so failed and
+-- dead-lettered filings can be requeued from the API.
+
+ALTER TABLE processed_filings ADD COLUMN error_class TEXT;
+ALTER TABLE processed_filings ADD COLUMN error_message TEXT;
+ALTER TABLE processed_filings ADD COLUMN attempts INTEGER DEFAULT 0;
+ALTER TABLE processed_filings ADD COLUMN last_failed_at DATETIME;
+ALTER TABLE processed_filings ADD COLUMN dead_lettered_at DATETIME;
+ALTER TABLE processed_filings ADD COLUMN queue_payload TEXT;   -- JSON body of the queue message
+
+-- Failure dashboard lookups ("failed" and "dead_letter")
+CREATE INDEX IF NOT EXISTS idx_processed_filings_status
+ON processed_filings(status, updated_at);
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('011_queue_failure_tracking', 'Record queue failures and dead-lettered filings for requeue');
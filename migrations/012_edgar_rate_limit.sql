@@ -0,0 +1,17 @@
+-- Migration 012: EDGAR Rate Limit
+-- Token bucket shared by every worker that fetches from sec.gov (see
+-- workers/shared/edgar-client.js). SEC blocks clients that exceed 10
+-- requests/second, and rss-monitor, form4-processor and historical-importer
+-- run concurrently, so the bucket has to live outside any single isolate.
+
+CREATE TABLE IF NOT EXISTS edgar_rate_limit (
+    bucket TEXT PRIMARY KEY,
+    tokens REAL NOT NULL,
+    updated_at_ms INTEGER NOT NULL       -- Unix epoch milliseconds of the last refill
+);
+
+INSERT OR IGNORE INTO edgar_rate_limit (bucket, tokens, updated_at_ms)
+VALUES ('sec.gov', 0, 0);
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('012_edgar_rate_limit', 'Shared token bucket for polite SEC EDGAR fetching');
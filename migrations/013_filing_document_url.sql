@@ -0,0 +1,9 @@
+-- Migration 013: Filing Document URL
+-- The form4-processor resolves the primary ownership XML from the filing's
+-- index.json (or the complete submission text file) instead of scraping the
+-- HTML index. Record which document was parsed so a bad pick can be traced.
+
+ALTER TABLE filings ADD COLUMN document_url TEXT;   -- URL of the parsed ownershipDocument XML
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('013_filing_document_url', 'Record the primary XML document URL parsed for each filing');
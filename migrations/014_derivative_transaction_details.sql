@@ -0,0 +1,80 @@
+-- Migration 014: Derivative Transaction Details
+-- Derivative transactions (option grants, RSU vesting, exercises) carry terms
+-- of the instrument: conversion/exercise price, exercisable and expiration
+-- dates, and the underlying security. These were discarded, and the exercise
+-- price was used as the trade price when a derivative row had none, so an
+-- option grant at a $50 strike was valued like a $50/share purchase.
+--
+-- Same columns as insider_holdings. price_per_share and transaction_value now
+-- only reflect the price paid per unit of the reported security. Existing rows
+-- are corrected by re-processing them from raw_xml (POST /reprocess on the
+-- form4-processor with {"bulk": true}).
+
+ALTER TABLE insider_transactions ADD COLUMN exercise_price REAL;
+ALTER TABLE insider_transactions ADD COLUMN exercise_date DATE;
+ALTER TABLE insider_transactions ADD COLUMN expiration_date DATE;
+ALTER TABLE insider_transactions ADD COLUMN underlying_security_title TEXT;
+ALTER TABLE insider_transactions ADD COLUMN underlying_security_shares REAL;
+
+-- Every version of each transaction (filing pages show superseded filings too)
+DROP VIEW IF EXISTS vw_insider_trades_all_versions;
+
+CREATE VIEW vw_insider_trades_all_versions AS
+SELECT
+    f.accession_number,
+    f.filed_at,
+    ft.type_code AS form_type,
+    i.cik AS issuer_cik,
+    i.name AS issuer_name,
+    i.trading_symbol,
+    p.cik AS person_cik,
+    p.name AS person_name,
+    pr.is_director,
+    pr.is_officer,
+    pr.officer_title,
+    pr.is_ten_percent_owner,
+    it.transaction_date,
+    it.security_title,
+    it.transaction_type,
+    it.transaction_code,
+    tc.description AS transaction_description,
+    it.acquired_disposed_code,
+    it.shares_transacted,
+    it.price_per_share,
+    it.transaction_value,
+    it.shares_owned_following,
+    it.direct_or_indirect,
+    it.is_10b5_1_plan,
+    it.exercise_price,
+    it.exercise_date,
+    it.expiration_date,
+    it.underlying_security_title,
+    it.underlying_security_shares,
+    it.id AS transaction_id,
+    f.id AS filing_id,
+    f.is_amendment,
+    it.is_active,
+    (
+      SELECT COUNT(*)
+      FROM person_relationships pr2
+      WHERE pr2.filing_id = f.id
+    ) AS reporting_owner_count
+FROM filings f
+JOIN filing_types ft ON f.filing_type_id = ft.id
+JOIN issuers i ON f.issuer_id = i.id
+JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+JOIN persons p ON pr.person_id = p.id
+JOIN insider_transactions it ON f.id = it.filing_id
+LEFT JOIN transaction_codes tc ON it.transaction_code = tc.code
+WHERE ft.category = 'insider_trading';
+
+-- Only the latest version of each transaction
+DROP VIEW IF EXISTS vw_insider_trades_detailed;
+
+CREATE VIEW vw_insider_trades_detailed AS
+SELECT *
+FROM vw_insider_trades_all_versions
+WHERE is_active = TRUE;
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('014_derivative_transaction_details', 'Store derivative terms on transactions and stop valuing them at the exercise price');
@@ -0,0 +1,24 @@
+-- Migration 015: Owner Addresses and Issuer Enrichment
+-- Reporting owners list a mailing address on every filing; it can change
+-- between filings, so it is stored on the filing's person_relationships row.
+-- Issuers are enriched from EDGAR submissions metadata
+-- (data.sec.gov/submissions/CIK##########.json): the existing sic_code,
+-- industry (SIC description), sector (SIC division) and business_address
+-- columns, plus state of incorporation.
+
+ALTER TABLE person_relationships ADD COLUMN owner_street1 TEXT;
+ALTER TABLE person_relationships ADD COLUMN owner_street2 TEXT;
+ALTER TABLE person_relationships ADD COLUMN owner_city TEXT;
+ALTER TABLE person_relationships ADD COLUMN owner_state TEXT;
+ALTER TABLE person_relationships ADD COLUMN owner_zip_code TEXT;
+
+ALTER TABLE issuers ADD COLUMN state_of_incorporation TEXT;
+ALTER TABLE issuers ADD COLUMN business_state TEXT;   -- State (or country code) of the business address
+ALTER TABLE issuers ADD COLUMN enriched_at DATETIME;  -- Last successful enrichment; NULL = never
+
+-- Filter and group by industry
+CREATE INDEX IF NOT EXISTS idx_issuers_sic_code ON issuers(sic_code);
+CREATE INDEX IF NOT EXISTS idx_issuers_sector ON issuers(sector);
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('015_owner_addresses_issuer_enrichment', 'Store reporting owner addresses and enrich issuers from EDGAR submissions');
@@ -0,0 +1,76 @@
+-- Migration 016: First Buy Signals
+-- An insider's first open-market purchase (code P) in an issuer after a long
+-- stretch without one ("no buy in 24 months") is one of the stronger insider
+-- signals. The signal processor flags these purchases here; the lookback is
+-- configurable, so each row records the one it was detected with.
+
+CREATE TABLE IF NOT EXISTS first_buy_signals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  transaction_id INTEGER NOT NULL REFERENCES insider_transactions(id) ON DELETE CASCADE,
+  filing_id INTEGER NOT NULL REFERENCES filings(id),
+  issuer_id INTEGER NOT NULL REFERENCES issuers(id),
+  person_id INTEGER NOT NULL REFERENCES persons(id),
+  transaction_date DATE NOT NULL,
+
+  lookback_months INTEGER NOT NULL,          -- No purchase in this many months before
+  previous_buy_date DATE,                    -- Last purchase before that; NULL = none on record
+
+  -- Metadata
+  detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  is_active BOOLEAN DEFAULT TRUE,
+
+  UNIQUE(transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_first_buy_signals_date
+ON first_buy_signals(transaction_date DESC) WHERE is_active = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_first_buy_signals_filing ON first_buy_signals(filing_id);
+
+-- First buys add their own component to the importance score
+ALTER TABLE important_trade_signals ADD COLUMN first_buy_score INTEGER DEFAULT 0;
+
+-- First buys with trade details for the API
+CREATE VIEW IF NOT EXISTS vw_first_buys_details AS
+SELECT
+    fbs.id AS signal_id,
+    fbs.lookback_months,
+    fbs.previous_buy_date,
+    fbs.detected_at,
+    its.importance_score,
+    f.accession_number,
+    f.filed_at,
+    ft.type_code AS form_type,
+    i.cik AS issuer_cik,
+    i.name AS issuer_name,
+    i.trading_symbol,
+    p.cik AS person_cik,
+    p.name AS person_name,
+    pr.is_director,
+    pr.is_officer,
+    pr.officer_title,
+    pr.is_ten_percent_owner,
+    it.transaction_date,
+    it.security_title,
+    it.transaction_code,
+    it.acquired_disposed_code,
+    it.shares_transacted,
+    it.price_per_share,
+    it.transaction_value,
+    it.shares_owned_following,
+    it.direct_or_indirect,
+    it.is_10b5_1_plan,
+    it.id AS transaction_id
+FROM first_buy_signals fbs
+JOIN insider_transactions it ON fbs.transaction_id = it.id
+JOIN filings f ON fbs.filing_id = f.id
+JOIN filing_types ft ON f.filing_type_id = ft.id
+JOIN issuers i ON fbs.issuer_id = i.id
+JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+JOIN persons p ON pr.person_id = p.id
+LEFT JOIN important_trade_signals its ON its.transaction_id = it.id AND its.is_active = TRUE
+WHERE fbs.is_active = TRUE
+  AND it.is_active = TRUE;
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('016_first_buy_signals', 'Detect insiders'' first open-market purchases in an issuer');
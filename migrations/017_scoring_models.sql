@@ -0,0 +1,68 @@
+-- Migration 017: Versioned Scoring Models
+-- Importance and cluster strength scoring weights and thresholds live in D1
+-- as named, versioned JSON configs instead of code, so analysts can tune them
+-- without a deploy. One version per model is "live" and used by the signal
+-- processor; "candidate" versions can be rescored over a date range and
+-- diffed against the live one before being activated. Every signal row
+-- records the model version that scored it.
+
+CREATE TABLE IF NOT EXISTS scoring_models (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,                        -- "importance" or "cluster_strength"
+  version INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'candidate',  -- "live", "candidate" or "retired"
+  config TEXT NOT NULL,                      -- JSON weights and thresholds
+  description TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  activated_at DATETIME,
+
+  UNIQUE(name, version)
+);
+
+-- At most one live version per model
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_models_live
+ON scoring_models(name) WHERE status = 'live';
+
+ALTER TABLE important_trade_signals ADD COLUMN scoring_model_version INTEGER;
+ALTER TABLE cluster_buy_signals ADD COLUMN scoring_model_version INTEGER;
+
+-- Version 1 of each model reproduces the scoring previously hard-coded in the
+-- signal processor. Tiers are [threshold, points] pairs checked from the top.
+INSERT OR IGNORE INTO scoring_models (name, version, status, config, description, activated_at)
+VALUES (
+  'importance', 1, 'live',
+  '{
+    "min_score": 30,
+    "value": { "tiers": [[10000000, 100], [2500000, 60], [1000000, 40], [250000, 20]], "default": 10 },
+    "direction": { "purchase": 30, "sale": -10 },
+    "role": { "ceo": 30, "cfo": 30, "officer": 15, "director": 10 },
+    "ownership": { "tiers": [[0.5, 30], [0.25, 20], [0.1, 10]], "ten_percent_owner_bonus": 20 },
+    "cluster": { "tiers": [[3, 25], [2, 15]] },
+    "timing": { "indirect": -10, "plan_10b5_1": -25 },
+    "first_buy": 25
+  }',
+  'Initial importance scoring',
+  CURRENT_TIMESTAMP
+);
+
+INSERT OR IGNORE INTO scoring_models (name, version, status, config, description, activated_at)
+VALUES (
+  'cluster_strength', 1, 'live',
+  '{
+    "insiders": { "tiers": [[5, 30], [4, 25], [3, 20], [2, 15]] },
+    "value": { "tiers": [[10000000, 25], [5000000, 20], [2500000, 15], [1000000, 10], [250000, 5]] },
+    "seniority": { "ceo": 15, "cfo": 10, "avg_role_tiers": [[2, 10], [1, 5]] },
+    "ten_percent_owner": 10,
+    "concentration": { "tiers": [[4, 10], [3, 5]] },
+    "max_score": 100
+  }',
+  'Initial cluster signal strength',
+  CURRENT_TIMESTAMP
+);
+
+-- Signals stored before this migration were scored by version 1
+UPDATE important_trade_signals SET scoring_model_version = 1 WHERE scoring_model_version IS NULL;
+UPDATE cluster_buy_signals SET scoring_model_version = 1 WHERE scoring_model_version IS NULL;
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('017_scoring_models', 'Versioned importance and cluster strength scoring models');
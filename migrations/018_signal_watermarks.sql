@@ -0,0 +1,20 @@
+-- Migration 018: Signal Processing Watermarks
+-- The signal processor used to deactivate every signal and rescan its whole
+-- lookback window on each run, which burned D1 reads and let the API observe
+-- signals flipping inactive mid-run. Each processor now records the last
+-- completed filing it has seen (processed_at, then filing id as tie-breaker)
+-- and only rescores issuers touched by filings completed after it, applying
+-- the changes and the new watermark in one batch.
+
+CREATE TABLE IF NOT EXISTS signal_watermarks (
+    processor TEXT PRIMARY KEY,          -- "cluster-buys", "first-buys", "important-trades", "historical-metrics"
+    last_filing_id INTEGER NOT NULL,
+    last_processed_at DATETIME NOT NULL, -- filings.processed_at of that filing
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Finding filings completed after a watermark
+CREATE INDEX IF NOT EXISTS idx_filings_processed_at ON filings(processed_at, id);
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('018_signal_watermarks', 'Per-processor watermarks for incremental signal processing');
@@ -0,0 +1,85 @@
+-- Migration 019: Cluster Sell Signals
+-- Coordinated selling: two or more insiders selling the same issuer on the
+-- same day. Only discretionary open-market sales count (transaction code S,
+-- outside 10b5-1 plans); tax-withholding dispositions (code F) and planned
+-- sales are excluded. Scored by its own "cluster_sell_strength" model.
+
+CREATE TABLE IF NOT EXISTS cluster_sell_signals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  issuer_id INTEGER NOT NULL REFERENCES issuers(id),
+  transaction_date DATE NOT NULL,
+
+  -- Aggregated metrics
+  total_insiders INTEGER NOT NULL,           -- Number of distinct insiders selling
+  total_shares REAL NOT NULL,                -- Total shares sold
+  total_value REAL NOT NULL,                 -- Total dollar value
+
+  -- Signal analysis
+  signal_strength INTEGER NOT NULL,          -- 1-100 score
+  avg_role_priority REAL,                    -- Average seniority of sellers
+  has_ceo_sell BOOLEAN DEFAULT FALSE,        -- CEO participated
+  has_cfo_sell BOOLEAN DEFAULT FALSE,        -- CFO participated
+  has_ten_percent_owner BOOLEAN DEFAULT FALSE, -- 10% owner participated
+  avg_pct_of_holdings REAL,                  -- Average share of holdings sold (0-1)
+  scoring_model_version INTEGER,
+
+  -- Window analysis (±3 days)
+  sell_window_start DATE NOT NULL,
+  sell_window_end DATE NOT NULL,
+
+  -- Metadata
+  detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  is_active BOOLEAN DEFAULT TRUE,
+  last_updated DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(issuer_id, transaction_date)
+);
+
+-- Individual sales that are part of a cluster
+CREATE TABLE IF NOT EXISTS cluster_sell_trades (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  cluster_id INTEGER NOT NULL REFERENCES cluster_sell_signals(id) ON DELETE CASCADE,
+  transaction_id INTEGER NOT NULL REFERENCES insider_transactions(id) ON DELETE CASCADE,
+  person_id INTEGER NOT NULL REFERENCES persons(id),
+
+  -- Quick access to key fields (denormalized for speed)
+  person_name TEXT NOT NULL,
+  shares_transacted REAL NOT NULL,
+  price_per_share REAL,
+  transaction_value REAL NOT NULL,
+  pct_of_holdings REAL,                      -- Share of holdings sold (0-1)
+  is_officer BOOLEAN,
+  is_director BOOLEAN,
+  officer_title TEXT,
+
+  UNIQUE(cluster_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cluster_sell_signals_issuer ON cluster_sell_signals(issuer_id);
+CREATE INDEX IF NOT EXISTS idx_cluster_sell_signals_date ON cluster_sell_signals(transaction_date);
+CREATE INDEX IF NOT EXISTS idx_cluster_sell_signals_active ON cluster_sell_signals(is_active) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_cluster_sell_signals_strength ON cluster_sell_signals(signal_strength DESC);
+
+CREATE INDEX IF NOT EXISTS idx_cluster_sell_trades_cluster ON cluster_sell_trades(cluster_id);
+CREATE INDEX IF NOT EXISTS idx_cluster_sell_trades_transaction ON cluster_sell_trades(transaction_id);
+
+-- Sells are more common than buys, so the value tiers start higher, and
+-- selling a large part of one's holdings adds to the signal
+INSERT OR IGNORE INTO scoring_models (name, version, status, config, description, activated_at)
+VALUES (
+  'cluster_sell_strength', 1, 'live',
+  '{
+    "insiders": { "tiers": [[5, 30], [4, 25], [3, 20], [2, 15]] },
+    "value": { "tiers": [[25000000, 25], [10000000, 20], [5000000, 15], [1000000, 10], [250000, 5]] },
+    "seniority": { "ceo": 15, "cfo": 10, "avg_role_tiers": [[2, 10], [1, 5]] },
+    "ten_percent_owner": 5,
+    "holdings_sold": { "tiers": [[0.5, 15], [0.25, 10], [0.1, 5]] },
+    "concentration": { "tiers": [[4, 10], [3, 5]] },
+    "max_score": 100
+  }',
+  'Initial cluster sell signal strength',
+  CURRENT_TIMESTAMP
+);
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('019_cluster_sell_signals', 'Cluster sell detection with its own strength model');
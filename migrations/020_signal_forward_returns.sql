@@ -0,0 +1,53 @@
+-- Migration 020: Signal Forward Returns
+-- Price performance after each important trade and cluster buy/sell, so we
+-- can tell whether a signal was predictive and evaluate the scoring models.
+-- Returns are measured from the close of the first trading day on or after
+-- the transaction date, over 5, 20, 60 and 120 trading days, both raw and in
+-- excess of SPY over the same bars. Filled in by the signal processor from
+-- alpaca-market daily bars; rows outlive the signals they were recorded from.
+-- Every open-market buy is tracked too ("insider_buy", unscored), for
+-- insider track records.
+
+CREATE TABLE IF NOT EXISTS signal_forward_returns (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  signal_type TEXT NOT NULL,                 -- "important_trade", "cluster_buy", "cluster_sell" or "insider_buy"
+  issuer_id INTEGER NOT NULL REFERENCES issuers(id),
+  signal_date DATE NOT NULL,                 -- Transaction date of the trade or cluster
+  transaction_id INTEGER NOT NULL DEFAULT 0, -- Important trades and insider buys (0 for clusters)
+  person_id INTEGER REFERENCES persons(id),  -- Important trades and insider buys
+  direction TEXT NOT NULL,                   -- "buy" or "sell"
+  score INTEGER,                             -- Importance score or cluster strength
+  scoring_model_version INTEGER,
+  trading_symbol TEXT NOT NULL,
+
+  -- Price performance (0.05 = +5%)
+  base_date DATE,                            -- First trading day on or after signal_date
+  base_price REAL,
+  return_5d REAL,
+  return_20d REAL,
+  return_60d REAL,
+  return_120d REAL,
+  excess_5d REAL,                            -- Return minus SPY's return
+  excess_20d REAL,
+  excess_60d REAL,
+  excess_120d REAL,
+
+  bars_through DATE,                         -- Date of the last bar used
+  is_complete BOOLEAN DEFAULT FALSE,         -- 120-day return filled, or given up on
+  checked_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(signal_type, issuer_id, signal_date, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forward_returns_pending
+ON signal_forward_returns(trading_symbol, checked_at) WHERE is_complete = FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_forward_returns_type_date
+ON signal_forward_returns(signal_type, signal_date);
+
+CREATE INDEX IF NOT EXISTS idx_forward_returns_person
+ON signal_forward_returns(person_id) WHERE person_id IS NOT NULL;
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('020_signal_forward_returns', 'Forward returns of important trades and clusters vs SPY');
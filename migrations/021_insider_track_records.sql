@@ -0,0 +1,86 @@
+-- Migration 021: Insider Track Records
+-- Per-insider trading history and how their open-market buys worked out:
+-- buy/sell counts and values, companies traded, how long bought shares are
+-- typically held before the insider sells the same stock, and the hit rate
+-- of all their buys (60-trading-day return above SPY, from the insider_buy
+-- rows of signal_forward_returns, not just the buys that scored as important).
+-- Rebuilt daily by the signal processor. The reliability score feeds
+-- importance scoring, so a buy by a historically accurate insider scores
+-- higher.
+
+CREATE TABLE IF NOT EXISTS insider_track_records (
+  person_id INTEGER PRIMARY KEY REFERENCES persons(id),
+
+  -- Open-market activity (P/A buys, S/D sells)
+  open_market_buys INTEGER NOT NULL DEFAULT 0,
+  open_market_sells INTEGER NOT NULL DEFAULT 0,
+  buy_value REAL DEFAULT 0,
+  sell_value REAL DEFAULT 0,
+  companies_traded INTEGER NOT NULL DEFAULT 0,
+  first_trade_date DATE,
+  last_trade_date DATE,
+
+  -- Performance of buys (0.05 = +5%)
+  buys_with_returns INTEGER NOT NULL DEFAULT 0, -- Buys with a 60-day excess return
+  hits INTEGER NOT NULL DEFAULT 0,              -- ... of which beat SPY
+  hit_rate REAL,
+  avg_return_20d REAL,
+  avg_return_60d REAL,
+  avg_excess_60d REAL,
+  reliability_score INTEGER,                    -- 0-100, hit rate shrunk towards 50 for short records
+
+  -- Holding behaviour: days from a buy to the insider's next sale of the same stock
+  avg_holding_days REAL,
+  buys_sold INTEGER NOT NULL DEFAULT 0,         -- Buys followed by a sale of the same stock
+  pct_sold_within_6m REAL,                      -- Of buys at least 6 months old
+
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_track_records_reliability
+ON insider_track_records(reliability_score DESC) WHERE buys_with_returns > 0;
+
+ALTER TABLE important_trade_signals ADD COLUMN track_record_score INTEGER DEFAULT 0;
+
+-- Importance version with a track record section, built from the live
+-- config so any tuning since version 1 is kept. Only buys by insiders with
+-- at least min_buys measured buys are adjusted.
+INSERT INTO scoring_models (name, version, status, config, description)
+SELECT
+  name,
+  version + 1,
+  'candidate',
+  json_set(
+    config,
+    '$.track_record',
+    json('{ "min_buys": 3, "tiers": [[70, 20], [60, 10], [40, 0]], "default": -10 }')
+  ),
+  'Insider track record adjustment for buys'
+FROM scoring_models
+WHERE name = 'importance'
+  AND status = 'live'
+  AND json_extract(config, '$.track_record') IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM scoring_models newer
+    WHERE newer.name = 'importance' AND newer.version > scoring_models.version
+  );
+
+UPDATE scoring_models
+SET status = 'retired'
+WHERE name = 'importance'
+  AND status = 'live'
+  AND EXISTS (
+    SELECT 1 FROM scoring_models candidate
+    WHERE candidate.name = 'importance'
+      AND candidate.status = 'candidate'
+      AND candidate.description = 'Insider track record adjustment for buys'
+  );
+
+UPDATE scoring_models
+SET status = 'live', activated_at = CURRENT_TIMESTAMP
+WHERE name = 'importance'
+  AND status = 'candidate'
+  AND description = 'Insider track record adjustment for buys';
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('021_insider_track_records', 'Insider track records and reliability in importance scoring');
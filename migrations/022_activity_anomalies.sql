@@ -0,0 +1,47 @@
+-- Migration 022: Activity Anomalies
+-- Insider activity that is unusual for the issuer rather than large in
+-- absolute terms. Each issuer's weekly open-market buy and sell counts and
+-- dollar volume over the previous three years form a baseline; the 7 days
+-- ending on each trading date are compared against it. Flags the first
+-- insider purchase in three years and buying or selling bursts far above
+-- normal (z-score of the weekly volume or trade count).
+
+CREATE TABLE IF NOT EXISTS activity_anomalies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  issuer_id INTEGER NOT NULL REFERENCES issuers(id),
+  transaction_date DATE NOT NULL,            -- Last day of the 7-day window
+  direction TEXT NOT NULL,                   -- "buy" or "sell"
+  anomaly_type TEXT NOT NULL,                -- "first_buy_in_years", "volume_spike" or "frequency_spike"
+
+  -- The 7-day window
+  window_start DATE NOT NULL,
+  trade_count INTEGER NOT NULL,
+  total_insiders INTEGER NOT NULL,
+  total_value REAL NOT NULL,
+
+  -- Baseline (weekly, up to 156 weeks before the window)
+  baseline_weeks INTEGER NOT NULL,           -- Weeks of recorded history used
+  active_weeks INTEGER NOT NULL,             -- Baseline weeks with any activity
+  baseline_avg_value REAL,
+  baseline_stddev_value REAL,
+  baseline_avg_count REAL,
+  baseline_stddev_count REAL,
+  value_z_score REAL,                        -- NULL when the baseline has no variance
+  count_z_score REAL,
+  last_prior_date DATE,                      -- Previous trade in this direction, if any
+  days_since_prior INTEGER,
+
+  -- Metadata
+  detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  is_active BOOLEAN DEFAULT TRUE,
+  last_updated DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(issuer_id, transaction_date, direction)
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_anomalies_date ON activity_anomalies(transaction_date);
+CREATE INDEX IF NOT EXISTS idx_activity_anomalies_issuer ON activity_anomalies(issuer_id);
+CREATE INDEX IF NOT EXISTS idx_activity_anomalies_active ON activity_anomalies(is_active) WHERE is_active = TRUE;
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('022_activity_anomalies', 'Issuer-relative insider activity anomalies');
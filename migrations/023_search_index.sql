@@ -0,0 +1,145 @@
+-- Migration 023: Full-Text Search Index
+-- FTS5 indexes over issuer names and tickers, person names and officer
+-- titles, and footnote text, replacing LIKE '%term%' scans of the trades
+-- views (which cannot use an index or rank matches). Each index row shares
+-- the rowid of its source row. Triggers keep the indexes in step with every
+-- worker that writes these tables.
+
+-- Issuers and footnotes are indexed in place (external content); persons
+-- also carry the officer titles from their relationships, so that index
+-- stores its own copy
+CREATE VIRTUAL TABLE IF NOT EXISTS issuers_fts USING fts5(
+  name,
+  trading_symbol,
+  content = 'issuers',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS persons_fts USING fts5(
+  name,
+  titles,                                    -- Distinct officer titles, char(31)-separated
+                                             -- (titles themselves contain commas)
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS footnotes_fts USING fts5(
+  footnote_text,
+  content = 'footnotes',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Issuers
+CREATE TRIGGER IF NOT EXISTS trg_issuers_fts_insert AFTER INSERT ON issuers
+BEGIN
+  INSERT INTO issuers_fts (rowid, name, trading_symbol)
+  VALUES (NEW.id, NEW.name, NEW.trading_symbol);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_issuers_fts_update AFTER UPDATE OF name, trading_symbol ON issuers
+BEGIN
+  INSERT INTO issuers_fts (issuers_fts, rowid, name, trading_symbol)
+  VALUES ('delete', OLD.id, OLD.name, OLD.trading_symbol);
+  INSERT INTO issuers_fts (rowid, name, trading_symbol)
+  VALUES (NEW.id, NEW.name, NEW.trading_symbol);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_issuers_fts_delete AFTER DELETE ON issuers
+BEGIN
+  INSERT INTO issuers_fts (issuers_fts, rowid, name, trading_symbol)
+  VALUES ('delete', OLD.id, OLD.name, OLD.trading_symbol);
+END;
+
+-- Persons
+CREATE TRIGGER IF NOT EXISTS trg_persons_fts_insert AFTER INSERT ON persons
+BEGIN
+  INSERT INTO persons_fts (rowid, name, titles) VALUES (NEW.id, NEW.name, '');
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_persons_fts_update AFTER UPDATE OF name ON persons
+BEGIN
+  UPDATE persons_fts SET name = NEW.name WHERE rowid = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_persons_fts_delete AFTER DELETE ON persons
+BEGIN
+  DELETE FROM persons_fts WHERE rowid = OLD.id;
+END;
+
+-- Officer titles, re-collected whenever a relationship with a title changes
+CREATE TRIGGER IF NOT EXISTS trg_person_titles_fts_insert AFTER INSERT ON person_relationships
+WHEN NEW.officer_title IS NOT NULL AND NEW.officer_title <> ''
+BEGIN
+  UPDATE persons_fts SET titles = COALESCE((
+    SELECT GROUP_CONCAT(officer_title, char(31)) FROM (
+      SELECT DISTINCT officer_title FROM person_relationships
+      WHERE person_id = NEW.person_id AND officer_title <> ''
+    )
+  ), '')
+  WHERE rowid = NEW.person_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_person_titles_fts_update AFTER UPDATE OF officer_title ON person_relationships
+BEGIN
+  UPDATE persons_fts SET titles = COALESCE((
+    SELECT GROUP_CONCAT(officer_title, char(31)) FROM (
+      SELECT DISTINCT officer_title FROM person_relationships
+      WHERE person_id = NEW.person_id AND officer_title <> ''
+    )
+  ), '')
+  WHERE rowid = NEW.person_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_person_titles_fts_delete AFTER DELETE ON person_relationships
+WHEN OLD.officer_title IS NOT NULL AND OLD.officer_title <> ''
+BEGIN
+  UPDATE persons_fts SET titles = COALESCE((
+    SELECT GROUP_CONCAT(officer_title, char(31)) FROM (
+      SELECT DISTINCT officer_title FROM person_relationships
+      WHERE person_id = OLD.person_id AND officer_title <> ''
+    )
+  ), '')
+  WHERE rowid = OLD.person_id;
+END;
+
+-- Footnotes
+CREATE TRIGGER IF NOT EXISTS trg_footnotes_fts_insert AFTER INSERT ON footnotes
+BEGIN
+  INSERT INTO footnotes_fts (rowid, footnote_text) VALUES (NEW.id, NEW.footnote_text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_footnotes_fts_update AFTER UPDATE OF footnote_text ON footnotes
+BEGIN
+  INSERT INTO footnotes_fts (footnotes_fts, rowid, footnote_text)
+  VALUES ('delete', OLD.id, OLD.footnote_text);
+  INSERT INTO footnotes_fts (rowid, footnote_text) VALUES (NEW.id, NEW.footnote_text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_footnotes_fts_delete AFTER DELETE ON footnotes
+BEGIN
+  INSERT INTO footnotes_fts (footnotes_fts, rowid, footnote_text)
+  VALUES ('delete', OLD.id, OLD.footnote_text);
+END;
+
+-- Index existing rows
+INSERT INTO issuers_fts (issuers_fts) VALUES ('rebuild');
+INSERT INTO footnotes_fts (footnotes_fts) VALUES ('rebuild');
+
+DELETE FROM persons_fts;
+INSERT INTO persons_fts (rowid, name, titles)
+SELECT
+  p.id,
+  p.name,
+  COALESCE((
+    SELECT GROUP_CONCAT(officer_title, char(31)) FROM (
+      SELECT DISTINCT pr.officer_title FROM person_relationships pr
+      WHERE pr.person_id = p.id AND pr.officer_title <> ''
+    )
+  ), '')
+FROM persons p;
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('023_search_index', 'FTS5 search over issuers, insiders and footnotes');
@@ -0,0 +1,39 @@
+-- Migration 024: Issuer Insider Summaries
+-- Open-market insider activity per company over the last 3, 6 and 12
+-- months: buy and sell counts and values, net buying, how many insiders
+-- bought and sold, and the cluster buys and sells in the window. Replaces
+-- the per-day issuer_signal_metrics dropped in 007. The windows roll daily,
+-- so the signal processor rebuilds the table once a day and refreshes the
+-- issuers of newly completed filings in between. Serves
+-- /api/company/{cik}/summary.
+
+CREATE TABLE IF NOT EXISTS issuer_insider_summaries (
+  issuer_id INTEGER NOT NULL REFERENCES issuers(id),
+  window_months INTEGER NOT NULL,            -- 3, 6 or 12
+  window_start DATE NOT NULL,
+
+  -- Open-market activity (P/A buys, S/D sells)
+  buy_count INTEGER NOT NULL DEFAULT 0,
+  sell_count INTEGER NOT NULL DEFAULT 0,
+  buy_value REAL DEFAULT 0,
+  sell_value REAL DEFAULT 0,
+  net_value REAL DEFAULT 0,                  -- buy_value - sell_value
+  unique_buyers INTEGER NOT NULL DEFAULT 0,
+  unique_sellers INTEGER NOT NULL DEFAULT 0,
+  last_buy_date DATE,
+  last_sell_date DATE,
+
+  -- Active cluster signals in the window
+  cluster_buys INTEGER NOT NULL DEFAULT 0,
+  cluster_sells INTEGER NOT NULL DEFAULT 0,
+
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (issuer_id, window_months)
+);
+
+CREATE INDEX IF NOT EXISTS idx_issuer_summaries_net
+ON issuer_insider_summaries(window_months, net_value DESC);
+
+INSERT OR IGNORE INTO schema_migrations (version, description)
+VALUES ('024_issuer_insider_summaries', 'Per-issuer 3/6/12-month insider activity summaries');
@@ -9,6 +9,7 @@
  * - GET /api/market/snapshots - Multiple snapshots (query: symbols)
  * - GET /api/market/news - Latest market news (query: symbols, limit, days, hours)
  * - GET /api/market/news/:symbol - Latest news for specific symbol
+ * - GET /api/market/bars/:symbol - Historical bars (query: timeframe, months, start, end)
  *
  * Documentation: https://alpaca.markets/docs/api-references/market-data-api/
  */
@@ -5,6 +5,8 @@
 export const ALPACA_CONFIG = {
   BASE_URL: "https://data.alpaca.markets",
   DEFAULT_FEED: "iex", // Free IEX feed
+  BARS_PAGE_LIMIT: 10000, // Max bars per Alpaca page
+  BARS_ADJUSTMENT: "all", // Split and dividend adjusted, so returns are comparable
 };
 
 export const DEFAULT_VALUES = {
@@ -13,15 +15,18 @@ export const DEFAULT_VALUES = {
 };
 
 export const VALIDATION_RULES = {
-  SYMBOL_PATTERN: /^[A-Z]{1,5}$/,
+  SYMBOL_PATTERN: /^[A-Z.]{1,10}$/, // Class shares like BRK.B
   MIN_SYMBOLS: 1,
   MAX_SYMBOLS: 100,
+  TIMEFRAMES: ["1Min", "5Min", "15Min", "1Hour", "1Day"],
+  MIN_MONTHS: 1,
+  MAX_MONTHS: 12,
 };
 
 export const API_ERRORS = {
   SYMBOL_REQUIRED: "Symbol is required",
   INVALID_SYMBOL_FORMAT:
-    "Symbol must be 1-5 uppercase letters (e.g., AAPL, TSLA)",
+    "Symbol must be 1-10 uppercase letters or dots (e.g., AAPL, BRK.B)",
   SYMBOLS_REQUIRED: "Missing required parameter: symbols",
   SYMBOLS_OUT_OF_RANGE: "Please provide between 1 and 100 symbols",
   NOT_FOUND: "Not found",
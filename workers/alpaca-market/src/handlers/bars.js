@@ -3,12 +3,12 @@
  */
 
 import { fetchStockBars } from "../services/alpaca-client.js";
+import { formatBars } from "../utils/data-processor.js";
 import {
-  calculateTechnicalIndicators,
-  formatBars,
-  detectSignificantMoves,
-} from "../utils/data-processor.js";
-import { getDateRangeMonths, toRFC3339 } from "../utils/date-utils.js";
+  getDateRangeMonths,
+  toRFC3339,
+  toRFC3339End,
+} from "../utils/date-utils.js";
 import {
   validateSymbol,
   validateTimeframe,
@@ -26,7 +26,8 @@ import { jsonResponse, errorResponse } from "../utils/responses.js";
  * - months: Number of months to look back (1-12) [default: 3]
  * - start: Custom start date (RFC3339 format)
  * - end: Custom end date (RFC3339 format)
- * - analysis: Include technical analysis (true/false) [default: true]
+ *
+ * Bars are split and dividend adjusted.
  */
 export async function handleGetBars(request, env) {
   const url = new URL(request.url);
@@ -44,7 +45,6 @@ export async function handleGetBars(request, env) {
   const months = url.searchParams.get("months") || "3";
   const customStart = url.searchParams.get("start");
   const customEnd = url.searchParams.get("end");
-  const includeAnalysis = url.searchParams.get("analysis") !== "false";
 
   // Validate timeframe
   const timeframeValidation = validateTimeframe(timeframe);
@@ -60,7 +60,7 @@ export async function handleGetBars(request, env) {
       return errorResponse(dateValidation.error);
     }
     start = toRFC3339(customStart);
-    end = toRFC3339(customEnd);
+    end = toRFC3339End(customEnd);
   } else {
     const monthsValidation = validateMonths(months);
     if (!monthsValidation.valid) {
@@ -102,28 +102,6 @@ export async function handleGetBars(request, env) {
       bars: formattedBars,
     };
 
-    // Add technical analysis if requested
-    if (includeAnalysis) {
-      // Get the actual current price from snapshot
-      let currentPrice = null;
-      try {
-        const { fetchSnapshot } = await import("../services/alpaca-client.js");
-        const snapshot = await fetchSnapshot(symbolValidation.symbol, env);
-        currentPrice =
-          snapshot?.latestTrade?.p || snapshot?.prevDailyBar?.c || null;
-      } catch (snapshotError) {
-        console.warn(
-          "Could not fetch current price from snapshot:",
-          snapshotError
-        );
-        // Fall back to last bar's close if snapshot fails
-        currentPrice = data.bars[data.bars.length - 1]?.c || null;
-      }
-
-      response.analysis = calculateTechnicalIndicators(data.bars, currentPrice);
-      response.significantMoves = detectSignificantMoves(formattedBars, 5);
-    }
-
     return jsonResponse(response);
   } catch (error) {
     console.error("Error fetching bars:", error);
@@ -8,6 +8,7 @@ import {
   getDateRangeDays,
   getDateRangeHours,
   toRFC3339,
+  toRFC3339End,
 } from "../utils/date-utils.js";
 import {
   validateSymbol,
@@ -86,7 +87,7 @@ export async function handleGetNews(request, env) {
       return errorResponse(dateValidation.error);
     }
     start = toRFC3339(customStart);
-    end = toRFC3339(customEnd);
+    end = toRFC3339End(customEnd);
   } else if (hoursParam) {
     const hours = parseInt(hoursParam);
     if (isNaN(hours) || hours < 1 || hours > 720) {
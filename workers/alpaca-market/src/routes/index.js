@@ -8,6 +8,7 @@ import {
   handleGetMultipleSnapshots,
 } from "../handlers/snapshots.js";
 import { handleGetNews, handleGetNewsBySymbol } from "../handlers/news.js";
+import { handleGetBars } from "../handlers/bars.js";
 import { notFoundResponse } from "../utils/responses.js";
 
 /**
@@ -30,13 +31,17 @@ export function matchRoute(pathname) {
   // Pattern matches with parameters
   const routes = [
     {
-      pattern: /^\/api\/market\/snapshot\/([A-Z]+)$/,
+      pattern: /^\/api\/market\/snapshot\/([A-Z.]+)$/,
       handler: handleGetSnapshot,
     },
     {
-      pattern: /^\/api\/market\/news\/([A-Z]+)$/,
+      pattern: /^\/api\/market\/news\/([A-Z.]+)$/,
       handler: handleGetNewsBySymbol,
     },
+    {
+      pattern: /^\/api\/market\/bars\/([A-Z.]+)$/,
+      handler: handleGetBars,
+    },
   ];
 
   for (const route of routes) {
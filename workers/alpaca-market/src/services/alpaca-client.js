@@ -64,6 +64,42 @@ export async function fetchMultipleSnapshots(symbols, env) {
   return alpacaFetch(url, env, "Multiple snapshots");
 }
 
+/**
+ * Fetch historical bars for a symbol, following next_page_token until the
+ * whole range is loaded
+ *
+ * @param {string} symbol - Stock symbol
+ * @param {string} timeframe - Bar timeframe (e.g. "1Day")
+ * @param {string} start - Start in RFC3339 format
+ * @param {string} end - End in RFC3339 format
+ * @param {object} env - Environment variables
+ * @returns {Promise<object>} { symbol, bars } with bars in Alpaca's format
+ */
+export async function fetchStockBars(symbol, timeframe, start, end, env) {
+  const baseUrl = env.ALPACA_BASE_URL || ALPACA_CONFIG.BASE_URL;
+  const bars = [];
+  let pageToken = null;
+
+  do {
+    const url = new URL(`${baseUrl}/v2/stocks/${symbol}/bars`);
+    url.searchParams.set("timeframe", timeframe);
+    url.searchParams.set("start", start);
+    url.searchParams.set("end", end);
+    url.searchParams.set("adjustment", ALPACA_CONFIG.BARS_ADJUSTMENT);
+    url.searchParams.set("limit", ALPACA_CONFIG.BARS_PAGE_LIMIT.toString());
+    url.searchParams.set("feed", ALPACA_CONFIG.DEFAULT_FEED);
+    if (pageToken) {
+      url.searchParams.set("page_token", pageToken);
+    }
+
+    const page = await alpacaFetch(url, env, "Bars");
+    bars.push(...(page.bars || []));
+    pageToken = page.next_page_token || null;
+  } while (pageToken);
+
+  return { symbol, bars };
+}
+
 /**
  * Fetch news for a given symbol or multiple symbols
  *
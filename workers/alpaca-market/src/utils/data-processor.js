@@ -20,3 +20,20 @@ export function formatNews(newsItems) {
     images: item.images || [],
   }));
 }
+
+/**
+ * Format Alpaca bars (t, o, h, l, c, v, vw, n) with readable field names
+ */
+export function formatBars(bars) {
+  return bars.map((bar) => ({
+    timestamp: bar.t,
+    date: bar.t.slice(0, 10),
+    open: bar.o,
+    high: bar.h,
+    low: bar.l,
+    close: bar.c,
+    volume: bar.v,
+    vwap: bar.vw ?? null,
+    trades: bar.n ?? null,
+  }));
+}
@@ -69,6 +69,17 @@ export function toRFC3339(date) {
   return date.toISOString();
 }
 
+/**
+ * Convert a range end to RFC3339; a date-only end (YYYY-MM-DD) covers that
+ * whole day
+ */
+export function toRFC3339End(date) {
+  if (typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return `${date}T23:59:59.999Z`;
+  }
+  return toRFC3339(date);
+}
+
 /**
  * Get market hours adjusted date range
  */
@@ -52,6 +52,40 @@ export function validateSymbols(symbols) {
   return { valid: true, symbols: validatedSymbols };
 }
 
+/**
+ * Validate bar timeframe
+ */
+export function validateTimeframe(timeframe) {
+  if (!VALIDATION_RULES.TIMEFRAMES.includes(timeframe)) {
+    return {
+      valid: false,
+      error: `Timeframe must be one of: ${VALIDATION_RULES.TIMEFRAMES.join(", ")}`,
+    };
+  }
+
+  return { valid: true, timeframe };
+}
+
+/**
+ * Validate months lookback
+ */
+export function validateMonths(months) {
+  const monthsNum = parseInt(months);
+
+  if (
+    isNaN(monthsNum) ||
+    monthsNum < VALIDATION_RULES.MIN_MONTHS ||
+    monthsNum > VALIDATION_RULES.MAX_MONTHS
+  ) {
+    return {
+      valid: false,
+      error: `Months must be a number between ${VALIDATION_RULES.MIN_MONTHS} and ${VALIDATION_RULES.MAX_MONTHS}`,
+    };
+  }
+
+  return { valid: true, months: monthsNum };
+}
+
 /**
  * Validate date range
  */
@@ -67,8 +101,9 @@ export function validateDateRange(start, end) {
     return { valid: false, error: "Invalid end date" };
   }
 
-  if (startDate >= endDate) {
-    return { valid: false, error: "Start date must be before end date" };
+  // Equal dates are one day, as a date-only end is inclusive
+  if (startDate > endDate) {
+    return { valid: false, error: "Start date must not be after end date" };
   }
 
   const daysDiff = (endDate - startDate) / (1000 * 60 * 60 * 24);
@@ -7,10 +7,25 @@ export const API_ROUTES = {
   TRADES_IMPORTANT: "/api/trades/important",
   TRADES_FIRST_BUYS: "/api/trades/first-buys",
   TRADES_CLUSTERS: "/api/trades/clusters",
+  TRADES_CLUSTER_SELLS: "/api/trades/cluster-sells",
+  TRADES_ANOMALIES: "/api/trades/anomalies",
   TRADES_BY_COMPANY: "/api/trades/company",
   TRADES_BY_INSIDER: "/api/trades/insider",
+  HOLDINGS_BY_COMPANY: "/api/holdings/company",
+  HOLDINGS_BY_INSIDER: "/api/holdings/insider",
   FILING_BY_ACCESSION: "/api/filing", // Base path, accession number will be appended
   INSIDER_BACKFILL: "/api/insider/backfill",
+  INSIDER_STATS: "/api/insider", // Base path, "/{cik}/stats" will be appended
+  INSIDER_POSITIONS: "/api/insider", // Base path, "/{cik}/positions" will be appended
+  COMPANY_HOLDERS: "/api/company", // Base path, "/{cik}/holders" will be appended
+  COMPANY_SUMMARY: "/api/company", // Base path, "/{cik}/summary" will be appended
+  FILINGS_FAILED: "/api/filings/failed",
+  FILINGS_REQUEUE: "/api/filings/requeue",
+  SIGNALS_RETURNS: "/api/signals/returns",
+  METRICS_HISTORY: "/api/metrics/history",
+  SEARCH: "/api/search",
+  SECTORS: "/api/sectors",
+  SECTOR_DETAIL: "/api/sectors", // Base path, "/{sector}" will be appended
   HEALTH: "/api/health",
 };
 
@@ -34,9 +49,49 @@ export const DEFAULT_LIMITS = {
   LATEST_TRADES: 50,
   IMPORTANT_TRADES: 50,
   FIRST_BUYS: 50,
-  CLUSTERS: 20,
+  CLUSTERS: 20, // Per page
+  HOLDINGS: 100,
+  HOLDERS: 100,
+  FAILED_FILINGS: 100,
+  SIGNAL_RETURNS: 100,
+  ANOMALIES: 50,
+  SEARCH: 10,
+  SECTOR_TOP_NAMES: 3, // Per sector and direction
+  SECTOR_NAMES: 10,
 };
 
+// Keyset of each cluster sort order, newest cluster breaking ties
+export const CLUSTER_SORT_KEYSETS = {
+  strength: ["signal_strength", "id"],
+  recent: ["transaction_date", "id"],
+};
+
+// Signals tracked in signal_forward_returns and their horizons (trading days)
+export const SIGNAL_TYPES = ["important_trade", "cluster_buy", "cluster_sell"];
+export const RETURN_HORIZONS = [5, 20, 60, 120];
+
+// Kinds of issuer-relative unusual activity in activity_anomalies
+export const ANOMALY_TYPES = [
+  "first_buy_in_years",
+  "volume_spike",
+  "frequency_spike",
+];
+
+// Market-wide sentiment history (signal_history); moving averages are in periods
+export const METRICS_HISTORY = {
+  GRANULARITIES: ["day", "week", "month"],
+  DEFAULT_DAYS: { day: 90, week: 364, month: 1095 },
+  DEFAULT_MOVING_AVERAGES: { day: [7, 30], week: [4, 13], month: [3, 12] },
+  MAX_MOVING_AVERAGE: 60,
+  MAX_RANGE_DAYS: 1826,
+};
+
+// Rolling windows of issuer_insider_summaries (and /api/sectors), in months
+export const COMPANY_SUMMARY_WINDOWS = [3, 6, 12];
+
+// Result types of /api/search, in the order they are listed on equal rank
+export const SEARCH_TYPES = ["company", "insider", "filing"];
+
 export const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 
 export const IMPORTANCE_THRESHOLDS = {
@@ -0,0 +1,119 @@
+/**
+ * Activity anomalies endpoint handler
+ *
+ * Reads from the pre-computed activity_anomalies table: insider buying or
+ * selling that is unusual for the issuer itself - the first purchase in
+ * three years, or a week's volume or trade count far above its baseline
+ */
+import { validateLimit, sanitizeString } from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { ANOMALY_TYPES, DEFAULT_LIMITS } from "../config/constants.js";
+
+export async function handleActivityAnomalies(request, env) {
+  const url = new URL(request.url);
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.ANOMALIES,
+    200
+  );
+  const daysWindow = validateLimit(url.searchParams.get("days"), 30, 365);
+  const anomalyType = url.searchParams.get("type");
+  const direction = url.searchParams.get("direction");
+  let cik = sanitizeString(url.searchParams.get("cik"));
+  // Normalize CIK values that might come as floats (e.g., "1057706.0")
+  if (cik && cik.endsWith(".0")) {
+    cik = cik.slice(0, -2);
+  }
+
+  if (anomalyType && !ANOMALY_TYPES.includes(anomalyType)) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message: `'type' must be one of: ${ANOMALY_TYPES.join(", ")}`,
+      },
+      400,
+      env
+    );
+  }
+
+  if (direction && !["buy", "sell"].includes(direction)) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message: "'direction' must be 'buy' or 'sell'",
+      },
+      400,
+      env
+    );
+  }
+
+  const conditions = [
+    "aa.is_active = TRUE",
+    "aa.transaction_date >= date('now', '-' || ? || ' days')",
+  ];
+  const params = [daysWindow];
+
+  if (anomalyType) {
+    conditions.push("aa.anomaly_type = ?");
+    params.push(anomalyType);
+  }
+  if (direction) {
+    conditions.push("aa.direction = ?");
+    params.push(direction);
+  }
+  if (cik) {
+    conditions.push("(i.cik = ? OR i.cik = ?)");
+    params.push(cik, `${cik}.0`);
+  }
+
+  const sql = `
+    SELECT
+      aa.id as anomaly_id,
+      aa.transaction_date,
+      aa.window_start,
+      aa.direction,
+      aa.anomaly_type,
+      aa.trade_count,
+      aa.total_insiders,
+      aa.total_value,
+      aa.baseline_weeks,
+      aa.active_weeks,
+      aa.baseline_avg_value,
+      aa.baseline_stddev_value,
+      aa.baseline_avg_count,
+      aa.baseline_stddev_count,
+      aa.value_z_score,
+      aa.count_z_score,
+      aa.last_prior_date,
+      aa.days_since_prior,
+      i.cik as issuer_cik,
+      i.name as issuer_name,
+      i.trading_symbol,
+      i.sector,
+      i.industry,
+      aa.detected_at
+    FROM activity_anomalies aa
+    JOIN issuers i ON aa.issuer_id = i.id
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY aa.transaction_date DESC, aa.total_value DESC
+    LIMIT ?
+  `;
+
+  const dbService = new DatabaseService(env.DB);
+  const anomalies = await dbService.executeQuery(sql, [...params, limit]);
+
+  return createSuccessResponse(anomalies, env, {
+    query_info: {
+      days_window: daysWindow,
+      type: anomalyType,
+      direction,
+      cik,
+      limit,
+      anomalies_found: anomalies.length,
+    },
+  });
+}
@@ -6,13 +6,57 @@
  */
 import { validateLimit } from "../utils/validation.js";
 import { DatabaseService } from "../utils/database.js";
-import { createSuccessResponse } from "../utils/responses.js";
-import { DEFAULT_LIMITS } from "../config/constants.js";
+import {
+  decodeCursor,
+  keysetCondition,
+  toCursorPage,
+  wantsTotal,
+} from "../utils/pagination.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { CLUSTER_SORT_KEYSETS, DEFAULT_LIMITS } from "../config/constants.js";
 
 export async function handleClusterBuys(request, env) {
   const url = new URL(request.url);
   const daysWindow = validateLimit(url.searchParams.get("days"), 7, 30);
   const minScore = parseInt(url.searchParams.get("minScore")) || 0;
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.CLUSTERS
+  );
+  const sort = url.searchParams.get("sort") || "strength";
+
+  if (!CLUSTER_SORT_KEYSETS[sort]) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message: `'sort' must be one of: ${Object.keys(CLUSTER_SORT_KEYSETS).join(", ")}`,
+      },
+      400,
+      env
+    );
+  }
+
+  const keysetColumns = CLUSTER_SORT_KEYSETS[sort];
+  const after = decodeCursor(
+    url.searchParams.get("cursor"),
+    sort,
+    keysetColumns.length
+  );
+  const keyset = after
+    ? keysetCondition(
+        keysetColumns.map((column) => `cbs.${column}`),
+        after
+      )
+    : null;
+
+  const conditions = `
+    WHERE cbs.is_active = TRUE
+      AND cbs.transaction_date >= date('now', '-' || ? || ' days')
+      AND cbs.signal_strength >= ?
+  `;
 
   // Simple query - just read from pre-computed signals table
   const sql = `
@@ -34,63 +78,90 @@ export async function handleClusterBuys(request, env) {
       cbs.detected_at
     FROM cluster_buy_signals cbs
     JOIN issuers i ON cbs.issuer_id = i.id
-    WHERE cbs.is_active = TRUE
-      AND cbs.transaction_date >= date('now', '-' || ? || ' days')
-      AND cbs.signal_strength >= ?
-    ORDER BY cbs.signal_strength DESC, cbs.total_value DESC
-    LIMIT ${DEFAULT_LIMITS.CLUSTERS}
+    ${conditions}
+      ${keyset ? `AND ${keyset.sql}` : ""}
+    ORDER BY ${keysetColumns.map((column) => `cbs.${column} DESC`).join(", ")}
+    LIMIT ?
   `;
 
   const dbService = new DatabaseService(env.DB);
-  const clusters = await dbService.executeQuery(sql, [daysWindow, minScore]);
+  const [results, totals] = await Promise.all([
+    dbService.executeQuery(sql, [
+      daysWindow,
+      minScore,
+      ...(keyset ? keyset.params : []),
+      limit + 1,
+    ]),
+    wantsTotal(url.searchParams)
+      ? dbService.executeQuery(
+          `SELECT COUNT(*) as total_count FROM cluster_buy_signals cbs ${conditions}`,
+          [daysWindow, minScore]
+        )
+      : null,
+  ]);
+  const { rows: clusters, nextCursor } = toCursorPage(
+    results,
+    limit,
+    sort,
+    // The id column is selected as cluster_id
+    keysetColumns.map((column) => (column === "id" ? "cluster_id" : column))
+  );
 
-  // Get individual trades for each cluster
-  const clustersWithTrades = [];
+  // Trades of all returned clusters in one query (also pre-computed)
+  const trades =
+    clusters.length === 0
+      ? []
+      : await dbService.executeQuery(
+          `
+          SELECT 
+            cbt.cluster_id,
+            cbt.person_name,
+            cbt.shares_transacted,
+            cbt.price_per_share,
+            cbt.transaction_value,
+            cbt.is_officer,
+            cbt.is_director,
+            cbt.officer_title
+          FROM cluster_buy_trades cbt
+          WHERE cbt.cluster_id IN (${clusters.map(() => "?").join(", ")})
+          ORDER BY cbt.transaction_value DESC
+          `,
+          clusters.map((cluster) => cluster.cluster_id)
+        );
 
-  for (const cluster of clusters) {
-    // Get trades from the cluster_buy_trades table (also pre-computed)
-    const trades = await dbService.executeQuery(
-      `
-      SELECT 
-        cbt.person_name,
-        cbt.shares_transacted,
-        cbt.price_per_share,
-        cbt.transaction_value,
-        cbt.is_officer,
-        cbt.is_director,
-        cbt.officer_title
-      FROM cluster_buy_trades cbt
-      WHERE cbt.cluster_id = ?
-      ORDER BY cbt.transaction_value DESC
-      `,
-      [cluster.cluster_id]
-    );
-
-    clustersWithTrades.push({
-      cluster_id: cluster.cluster_id,
-      issuer_cik: cluster.issuer_cik,
-      issuer_name: cluster.issuer_name,
-      trading_symbol: cluster.trading_symbol,
-      sector: cluster.sector,
-      industry: cluster.industry,
-      transaction_date: cluster.transaction_date,
-      total_insiders: cluster.total_insiders,
-      total_shares: cluster.total_shares,
-      total_value: cluster.total_value,
-      signal_strength: cluster.signal_strength,
-      has_ceo_buy: cluster.has_ceo_buy === 1,
-      has_cfo_buy: cluster.has_cfo_buy === 1,
-      has_ten_percent_owner: cluster.has_ten_percent_owner === 1,
-      detected_at: cluster.detected_at,
-      trades: trades,
-    });
-  }
+  const clustersWithTrades = clusters.map((cluster) => ({
+    cluster_id: cluster.cluster_id,
+    issuer_cik: cluster.issuer_cik,
+    issuer_name: cluster.issuer_name,
+    trading_symbol: cluster.trading_symbol,
+    sector: cluster.sector,
+    industry: cluster.industry,
+    transaction_date: cluster.transaction_date,
+    total_insiders: cluster.total_insiders,
+    total_shares: cluster.total_shares,
+    total_value: cluster.total_value,
+    signal_strength: cluster.signal_strength,
+    has_ceo_buy: cluster.has_ceo_buy === 1,
+    has_cfo_buy: cluster.has_cfo_buy === 1,
+    has_ten_percent_owner: cluster.has_ten_percent_owner === 1,
+    detected_at: cluster.detected_at,
+    trades: trades
+      .filter((trade) => trade.cluster_id === cluster.cluster_id)
+      .map(({ cluster_id, ...trade }) => trade),
+  }));
 
   return createSuccessResponse(clustersWithTrades, env, {
     query_info: {
       days_window: daysWindow,
       min_score: minScore,
+      sort,
       clusters_found: clustersWithTrades.length,
     },
+    pagination: {
+      limit,
+      total_count: totals ? totals[0]?.total_count || 0 : null,
+      has_next_page: nextCursor !== null,
+      next_cursor: nextCursor,
+    },
   });
 }
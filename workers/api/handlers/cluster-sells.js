@@ -0,0 +1,176 @@
+/**
+ * Cluster sells endpoint handler
+ *
+ * Reads from the pre-computed cluster_sell_signals table: two or more
+ * insiders making discretionary open-market sales (no 10b5-1 plan or
+ * tax-withholding dispositions) around the same day
+ */
+import { validateLimit } from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  decodeCursor,
+  keysetCondition,
+  toCursorPage,
+  wantsTotal,
+} from "../utils/pagination.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { CLUSTER_SORT_KEYSETS, DEFAULT_LIMITS } from "../config/constants.js";
+
+export async function handleClusterSells(request, env) {
+  const url = new URL(request.url);
+  const daysWindow = validateLimit(url.searchParams.get("days"), 7, 30);
+  const minScore = parseInt(url.searchParams.get("minScore")) || 0;
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.CLUSTERS
+  );
+  const sort = url.searchParams.get("sort") || "strength";
+
+  if (!CLUSTER_SORT_KEYSETS[sort]) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message: `'sort' must be one of: ${Object.keys(CLUSTER_SORT_KEYSETS).join(", ")}`,
+      },
+      400,
+      env
+    );
+  }
+
+  const keysetColumns = CLUSTER_SORT_KEYSETS[sort];
+  const after = decodeCursor(
+    url.searchParams.get("cursor"),
+    sort,
+    keysetColumns.length
+  );
+  const keyset = after
+    ? keysetCondition(
+        keysetColumns.map((column) => `css.${column}`),
+        after
+      )
+    : null;
+
+  const conditions = `
+    WHERE css.is_active = TRUE
+      AND css.transaction_date >= date('now', '-' || ? || ' days')
+      AND css.signal_strength >= ?
+  `;
+
+  const sql = `
+    SELECT 
+      css.id as cluster_id,
+      css.transaction_date,
+      css.total_insiders,
+      css.total_shares,
+      css.total_value,
+      css.signal_strength,
+      css.has_ceo_sell,
+      css.has_cfo_sell,
+      css.has_ten_percent_owner,
+      css.avg_pct_of_holdings,
+      i.cik as issuer_cik,
+      i.name as issuer_name,
+      i.trading_symbol,
+      i.sector,
+      i.industry,
+      css.detected_at
+    FROM cluster_sell_signals css
+    JOIN issuers i ON css.issuer_id = i.id
+    ${conditions}
+      ${keyset ? `AND ${keyset.sql}` : ""}
+    ORDER BY ${keysetColumns.map((column) => `css.${column} DESC`).join(", ")}
+    LIMIT ?
+  `;
+
+  const dbService = new DatabaseService(env.DB);
+  const [results, totals] = await Promise.all([
+    dbService.executeQuery(sql, [
+      daysWindow,
+      minScore,
+      ...(keyset ? keyset.params : []),
+      limit + 1,
+    ]),
+    wantsTotal(url.searchParams)
+      ? dbService.executeQuery(
+          `SELECT COUNT(*) as total_count FROM cluster_sell_signals css ${conditions}`,
+          [daysWindow, minScore]
+        )
+      : null,
+  ]);
+  const { rows: clusters, nextCursor } = toCursorPage(
+    results,
+    limit,
+    sort,
+    // The id column is selected as cluster_id
+    keysetColumns.map((column) => (column === "id" ? "cluster_id" : column))
+  );
+
+  // Trades of all returned clusters in one query
+  const trades =
+    clusters.length === 0
+      ? []
+      : await dbService.executeQuery(
+          `
+          SELECT 
+            cst.cluster_id,
+            cst.person_name,
+            p.cik as person_cik,
+            cst.shares_transacted,
+            cst.price_per_share,
+            cst.transaction_value,
+            cst.pct_of_holdings,
+            cst.is_officer,
+            cst.is_director,
+            cst.officer_title,
+            f.accession_number,
+            f.filed_at
+          FROM cluster_sell_trades cst
+          JOIN persons p ON cst.person_id = p.id
+          JOIN insider_transactions it ON cst.transaction_id = it.id
+          JOIN filings f ON it.filing_id = f.id
+          WHERE cst.cluster_id IN (${clusters.map(() => "?").join(", ")})
+          ORDER BY cst.transaction_value DESC
+          `,
+          clusters.map((cluster) => cluster.cluster_id)
+        );
+
+  const clustersWithTrades = clusters.map((cluster) => ({
+    cluster_id: cluster.cluster_id,
+    issuer_cik: cluster.issuer_cik,
+    issuer_name: cluster.issuer_name,
+    trading_symbol: cluster.trading_symbol,
+    sector: cluster.sector,
+    industry: cluster.industry,
+    transaction_date: cluster.transaction_date,
+    total_insiders: cluster.total_insiders,
+    total_shares: cluster.total_shares,
+    total_value: cluster.total_value,
+    signal_strength: cluster.signal_strength,
+    has_ceo_sell: cluster.has_ceo_sell === 1,
+    has_cfo_sell: cluster.has_cfo_sell === 1,
+    has_ten_percent_owner: cluster.has_ten_percent_owner === 1,
+    avg_pct_of_holdings: cluster.avg_pct_of_holdings,
+    detected_at: cluster.detected_at,
+    trades: trades
+      .filter((trade) => trade.cluster_id === cluster.cluster_id)
+      .map(({ cluster_id, ...trade }) => trade),
+  }));
+
+  return createSuccessResponse(clustersWithTrades, env, {
+    query_info: {
+      days_window: daysWindow,
+      min_score: minScore,
+      sort,
+      clusters_found: clustersWithTrades.length,
+    },
+    pagination: {
+      limit,
+      total_count: totals ? totals[0]?.total_count || 0 : null,
+      has_next_page: nextCursor !== null,
+      next_cursor: nextCursor,
+    },
+  });
+}
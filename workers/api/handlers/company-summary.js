@@ -0,0 +1,195 @@
+/**
+ * Company summary endpoint handler
+ *
+ * GET /api/company/{cik}/summary - the company's open-market insider
+ * activity over the last 3, 6 and 12 months (precomputed by the signal
+ * processor into issuer_insider_summaries), its largest trades and cluster
+ * signals of the last 12 months, and what its insiders currently hold
+ */
+import { sanitizeString } from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  getPositionObservations,
+  buildPositions,
+  buildHolders,
+} from "../utils/positions.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { COMPANY_SUMMARY_WINDOWS } from "../config/constants.js";
+
+const LOOKBACK_MONTHS = Math.max(...COMPANY_SUMMARY_WINDOWS);
+const MAX_LARGEST_TRADES = 10;
+const MAX_CLUSTERS = 10;
+const MAX_TOP_HOLDERS = 10;
+
+export async function handleCompanySummary(request, env) {
+  if (request.method !== "GET") {
+    return createErrorResponse({ error: "Method not allowed" }, 405, env);
+  }
+
+  // Path is /api/company/{cik}/summary
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split("/");
+  let cik = sanitizeString(decodeURIComponent(pathParts[pathParts.length - 2]));
+  // Normalize CIK values that might come as floats (e.g., "1057706.0")
+  if (cik.endsWith(".0")) {
+    cik = cik.slice(0, -2);
+  }
+
+  if (!cik) {
+    return createErrorResponse(
+      { error: "Invalid parameter", message: "Invalid company CIK" },
+      400,
+      env
+    );
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const [issuer] = await dbService.executeQuery(
+    "SELECT id, cik, name, trading_symbol FROM issuers WHERE cik = ? OR cik = ?",
+    [cik, `${cik}.0`]
+  );
+
+  if (!issuer) {
+    return createErrorResponse(
+      { error: "Not found", message: `No company with CIK ${cik}` },
+      404,
+      env
+    );
+  }
+
+  const [windows, largestTrades, clusters, observations] = await Promise.all([
+    // Windows without open-market trades have no row
+    dbService.executeQuery(
+      `
+      SELECT
+        w.value as window_months,
+        date('now', '-' || w.value || ' months') as window_start,
+        COALESCE(s.buy_count, 0) as buy_count,
+        COALESCE(s.sell_count, 0) as sell_count,
+        COALESCE(s.buy_value, 0) as buy_value,
+        COALESCE(s.sell_value, 0) as sell_value,
+        COALESCE(s.net_value, 0) as net_value,
+        COALESCE(s.unique_buyers, 0) as unique_buyers,
+        COALESCE(s.unique_sellers, 0) as unique_sellers,
+        s.last_buy_date,
+        s.last_sell_date,
+        COALESCE(s.cluster_buys, 0) as cluster_buys,
+        COALESCE(s.cluster_sells, 0) as cluster_sells,
+        s.updated_at
+      FROM json_each(?) w
+      LEFT JOIN issuer_insider_summaries s
+        ON s.issuer_id = ? AND s.window_months = w.value
+      ORDER BY w.value
+      `,
+      [JSON.stringify(COMPANY_SUMMARY_WINDOWS), issuer.id]
+    ),
+    dbService.executeQuery(
+      `
+      SELECT
+        it.transaction_date,
+        CASE WHEN it.transaction_code = 'P' THEN 'buy' ELSE 'sell' END as direction,
+        it.shares_transacted,
+        it.price_per_share,
+        it.transaction_value,
+        COALESCE(it.is_10b5_1_plan, 0) as is_10b5_1_plan,
+        p.cik as person_cik,
+        p.name as person_name,
+        pr.is_director,
+        pr.is_officer,
+        pr.officer_title,
+        pr.is_ten_percent_owner,
+        f.accession_number
+      FROM insider_transactions it
+      JOIN filings f ON it.filing_id = f.id
+      JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+      JOIN persons p ON pr.person_id = p.id
+      WHERE f.issuer_id = ?
+        AND f.status = 'completed'
+        AND it.is_active = TRUE
+        AND (
+          (it.acquired_disposed_code = 'A' AND it.transaction_code = 'P')
+          OR (it.acquired_disposed_code = 'D' AND it.transaction_code = 'S')
+        )
+        AND it.transaction_date >= date('now', '-${LOOKBACK_MONTHS} months')
+        AND it.transaction_value IS NOT NULL
+      ORDER BY it.transaction_value DESC, it.transaction_date DESC
+      LIMIT ${MAX_LARGEST_TRADES}
+      `,
+      [issuer.id]
+    ),
+    dbService.executeQuery(
+      `
+      SELECT * FROM (
+        SELECT
+          'buy' as direction,
+          cbs.id as cluster_id,
+          cbs.transaction_date,
+          cbs.total_insiders,
+          cbs.total_shares,
+          cbs.total_value,
+          cbs.signal_strength
+        FROM cluster_buy_signals cbs
+        WHERE cbs.issuer_id = ?1
+          AND cbs.is_active = TRUE
+          AND cbs.transaction_date >= date('now', '-${LOOKBACK_MONTHS} months')
+
+        UNION ALL
+
+        SELECT
+          'sell',
+          css.id,
+          css.transaction_date,
+          css.total_insiders,
+          css.total_shares,
+          css.total_value,
+          css.signal_strength
+        FROM cluster_sell_signals css
+        WHERE css.issuer_id = ?1
+          AND css.is_active = TRUE
+          AND css.transaction_date >= date('now', '-${LOOKBACK_MONTHS} months')
+      )
+      ORDER BY transaction_date DESC, cluster_id DESC
+      LIMIT ${MAX_CLUSTERS}
+      `,
+      [issuer.id]
+    ),
+    getPositionObservations(dbService, { issuerCik: cik }),
+  ]);
+
+  // Insiders still holding stock, as of their latest filing
+  const holders = buildHolders(buildPositions(observations)).filter(
+    (holder) => holder.total_shares > 0
+  );
+
+  return createSuccessResponse(
+    {
+      issuer_cik: issuer.cik,
+      issuer_name: issuer.name,
+      trading_symbol: issuer.trading_symbol,
+      windows,
+      largest_trades: largestTrades.map((row) => ({
+        ...row,
+        is_10b5_1_plan: row.is_10b5_1_plan === 1,
+      })),
+      clusters,
+      holdings: {
+        insiders: holders.length,
+        direct_shares: sum(holders, "direct_shares"),
+        indirect_shares: sum(holders, "indirect_shares"),
+        total_shares: sum(holders, "total_shares"),
+        top_holders: holders
+          .slice(0, MAX_TOP_HOLDERS)
+          .map(({ positions, ...holder }) => holder),
+      },
+      updated_at: windows.find((window) => window.updated_at)?.updated_at || null,
+    },
+    env
+  );
+}
+
+function sum(rows, key) {
+  return rows.reduce((total, row) => total + row[key], 0);
+}
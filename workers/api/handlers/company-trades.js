@@ -4,6 +4,7 @@
 import { validateLimit, sanitizeString } from "../utils/validation.js";
 import { buildLatestTradesFilters } from "../utils/filters.js";
 import { DatabaseService } from "../utils/database.js";
+import { wantsTotal } from "../utils/pagination.js";
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -73,14 +74,26 @@ export async function handleTradesByCompany(request, env) {
 
   // Execute query
   const dbService = new DatabaseService(env.DB);
-  const results = await dbService.getLatestTrades(whereClause, params, limit);
+  const cursor = url.searchParams.get("cursor");
+  const [{ rows, nextCursor }, totalCount] = await Promise.all([
+    dbService.getLatestTradesPage(whereClause, params, limit, cursor),
+    wantsTotal(url.searchParams)
+      ? dbService.getLatestTradesCount(whereClause, params, true)
+      : null,
+  ]);
 
-  return createSuccessResponse(results, env, {
+  return createSuccessResponse(rows, env, {
     query_info: {
       company_filter: { symbol, cik, name },
       additional_filters: additionalFilters.filtersCount,
-      total_results: results.length,
+      total_results: rows.length,
       limit_applied: limit,
     },
+    pagination: {
+      limit,
+      total_count: totalCount,
+      has_next_page: nextCursor !== null,
+      next_cursor: nextCursor,
+    },
   });
 }
@@ -0,0 +1,110 @@
+/**
+ * Failed filings handlers - failure dashboard for the filing-processing queue
+ */
+
+import { validateLimit, validateAccessionNumber } from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { requireAdminToken } from "../middleware/auth.js";
+import { DEFAULT_LIMITS } from "../config/constants.js";
+
+const FAILURE_STATUSES = ["failed", "dead_letter"];
+
+/**
+ * Handle GET /api/filings/failed
+ * List filings whose processing failed or that were dead-lettered
+ *
+ * Query params:
+ * - status: "failed" or "dead_letter" (default: both)
+ * - limit: Max number of filings to return (default: 100)
+ */
+export async function handleFailedFilings(request, env) {
+  const url = new URL(request.url);
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.FAILED_FILINGS
+  );
+  const status = url.searchParams.get("status");
+
+  if (status && !FAILURE_STATUSES.includes(status)) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message: `Status must be one of: ${FAILURE_STATUSES.join(", ")}`,
+      },
+      400,
+      env
+    );
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const results = await dbService.getFailedFilings(
+    status ? [status] : FAILURE_STATUSES,
+    limit
+  );
+
+  return createSuccessResponse(results, env, {
+    query_info: {
+      status_filter: status || FAILURE_STATUSES,
+      total_results: results.length,
+      limit_applied: limit,
+    },
+  });
+}
+
+/**
+ * Handle POST /api/filings/requeue?accession_number=
+ * Send a failed or dead-lettered filing back to the processing queue.
+ * Requires the admin token (see middleware/auth.js).
+ */
+export async function handleRequeueFiling(request, env) {
+  if (request.method !== "POST") {
+    return createErrorResponse({ error: "Method not allowed" }, 405, env);
+  }
+
+  const unauthorized = requireAdminToken(request, env);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const url = new URL(request.url);
+  const accessionNumber = url.searchParams.get("accession_number");
+
+  if (!accessionNumber || !validateAccessionNumber(accessionNumber)) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message:
+          "accession_number is required, format: 0000000000-00-000000",
+      },
+      400,
+      env
+    );
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const payload = await dbService.getRequeuePayload(accessionNumber);
+
+  if (!payload) {
+    return createErrorResponse(
+      {
+        error: "Filing not found",
+        message: "No queue message or stored filing to requeue",
+        accession_number: accessionNumber,
+      },
+      404,
+      env
+    );
+  }
+
+  await env.filing_processing_queue.send(payload);
+  await dbService.markFilingRequeued(accessionNumber);
+
+  return createSuccessResponse(
+    { accession_number: accessionNumber, status: "queued" },
+    env
+  );
+}
@@ -13,7 +13,7 @@ import { validateAccessionNumber } from "../utils/validation.js";
 /**
  * Handle GET /api/filing/{accessionNumber}
  * 
- * Returns all trades associated with a specific SEC filing
+ * Returns all trades and reported holdings associated with a specific SEC filing
  */
 export async function handleFilingByAccessionNumber(request, env) {
   if (request.method !== "GET") {
@@ -52,6 +52,7 @@ export async function handleFilingByAccessionNumber(request, env) {
         is_ten_percent_owner,
         transaction_date,
         security_title,
+        transaction_type,
         transaction_code,
         transaction_description,
         acquired_disposed_code,
@@ -61,46 +62,152 @@ export async function handleFilingByAccessionNumber(request, env) {
         shares_owned_following,
         direct_or_indirect,
         is_10b5_1_plan,
-        transaction_id
-      FROM vw_insider_trades_detailed 
+        exercise_price,
+        exercise_date,
+        expiration_date,
+        underlying_security_title,
+        underlying_security_shares,
+        transaction_id,
+        reporting_owner_count,
+        is_active
+      FROM vw_insider_trades_all_versions 
       WHERE accession_number = ?
       ORDER BY transaction_date DESC, transaction_id ASC
     `;
 
     const results = await db.executeQuery(query, [accessionNumber]);
 
-    // If no trades found for this accession number
-    if (!results || results.length === 0) {
+    // Holdings reported without a transaction (the only content of a Form 3)
+    const holdings = await db.getHoldings(
+      "WHERE accession_number = ?",
+      [accessionNumber],
+      1000,
+      "vw_insider_holdings_all_versions"
+    );
+
+    // If nothing was reported on this accession number
+    if (results.length === 0 && holdings.length === 0) {
       return createErrorResponse({ 
         error: "No trades found for this filing",
         accession_number: accessionNumber 
       }, 404, env);
     }
 
+    // Footnotes for the filing, plus which transactions reference each one
+    const footnotes = await db.executeQuery(
+      `
+      SELECT fn.footnote_id_in_xml AS id, fn.footnote_text AS text
+      FROM footnotes fn
+      JOIN filings f ON fn.filing_id = f.id
+      WHERE f.accession_number = ?
+      ORDER BY fn.id ASC
+      `,
+      [accessionNumber]
+    );
+
+    const footnoteLinks = await db.executeQuery(
+      `
+      SELECT tf.transaction_id, fn.footnote_id_in_xml AS footnote_id
+      FROM transaction_footnotes tf
+      JOIN footnotes fn ON fn.id = tf.footnote_id
+      JOIN filings f ON fn.filing_id = f.id
+      WHERE f.accession_number = ?
+      `,
+      [accessionNumber]
+    );
+
+    // Amendment chain: the filing this one amends, and the latest version
+    // of the chain when a later amendment supersedes this filing
+    const [amendmentInfo] = await db.executeQuery(
+      `
+      SELECT
+        f.is_amendment,
+        f.amends_accession_number,
+        (
+          SELECT latest.accession_number
+          FROM filings latest
+          WHERE latest.accession_number = COALESCE(f.amends_accession_number, f.accession_number)
+             OR latest.amends_accession_number = COALESCE(f.amends_accession_number, f.accession_number)
+          ORDER BY latest.filed_at DESC, latest.id DESC
+          LIMIT 1
+        ) AS latest_accession_number
+      FROM filings f
+      WHERE f.accession_number = ?
+      `,
+      [accessionNumber]
+    );
+
+    // All reporting owners on the filing (joint filings list several)
+    const reportingOwners = await db.executeQuery(
+      `
+      SELECT
+        p.cik,
+        p.name,
+        pr.is_director,
+        pr.is_officer,
+        pr.is_ten_percent_owner,
+        pr.is_other,
+        pr.officer_title,
+        pr.is_primary_owner
+      FROM person_relationships pr
+      JOIN persons p ON pr.person_id = p.id
+      JOIN filings f ON pr.filing_id = f.id
+      WHERE f.accession_number = ?
+      ORDER BY pr.is_primary_owner DESC, pr.id ASC
+      `,
+      [accessionNumber]
+    );
+
+    const footnotesByTransaction = new Map();
+    for (const link of footnoteLinks) {
+      if (!footnotesByTransaction.has(link.transaction_id)) {
+        footnotesByTransaction.set(link.transaction_id, []);
+      }
+      footnotesByTransaction.get(link.transaction_id).push(link.footnote_id);
+    }
+
     // Add computed fields for consistency with other endpoints
     const enrichedTrades = results.map(trade => ({
       ...trade,
+      footnote_ids: footnotesByTransaction.get(trade.transaction_id) || [],
       // Convert boolean flags from integers
       is_director: Boolean(trade.is_director),
       is_officer: Boolean(trade.is_officer),
       is_ten_percent_owner: Boolean(trade.is_ten_percent_owner),
       is_10b5_1_plan: Boolean(trade.is_10b5_1_plan),
+      is_active: Boolean(trade.is_active),
       // Add computed fields for frontend compatibility
       is_purchase: trade.transaction_code === 'P' && trade.acquired_disposed_code === 'A' ? 1 : 0,
       is_sale: trade.transaction_code === 'S' && trade.acquired_disposed_code === 'D' ? 1 : 0,
       is_award: trade.transaction_code === 'A' ? 1 : 0,
     }));
 
-    // Get filing metadata from the first trade
+    // Get filing metadata from the first trade, or the first holding on a Form 3
+    const first = enrichedTrades[0] || holdings[0];
     const filingMeta = {
       accession_number: accessionNumber,
-      filed_at: enrichedTrades[0].filed_at,
-      form_type: enrichedTrades[0].form_type,
-      issuer_cik: enrichedTrades[0].issuer_cik,
-      issuer_name: enrichedTrades[0].issuer_name,
-      trading_symbol: enrichedTrades[0].trading_symbol,
-      person_cik: enrichedTrades[0].person_cik,
-      person_name: enrichedTrades[0].person_name,
+      filed_at: first.filed_at,
+      form_type: first.form_type,
+      issuer_cik: first.issuer_cik,
+      issuer_name: first.issuer_name,
+      trading_symbol: first.trading_symbol,
+      person_cik: first.person_cik,
+      person_name: first.person_name,
+      is_amendment: Boolean(amendmentInfo?.is_amendment),
+      amends_accession_number: amendmentInfo?.amends_accession_number || null,
+      superseded_by_accession_number:
+        amendmentInfo?.latest_accession_number &&
+        amendmentInfo.latest_accession_number !== accessionNumber
+          ? amendmentInfo.latest_accession_number
+          : null,
+      reporting_owners: reportingOwners.map(owner => ({
+        ...owner,
+        is_director: Boolean(owner.is_director),
+        is_officer: Boolean(owner.is_officer),
+        is_ten_percent_owner: Boolean(owner.is_ten_percent_owner),
+        is_other: Boolean(owner.is_other),
+        is_primary_owner: Boolean(owner.is_primary_owner),
+      })),
       transaction_count: enrichedTrades.length,
       total_value: enrichedTrades.reduce((sum, trade) => sum + (trade.transaction_value || 0), 0),
       total_shares: enrichedTrades.reduce((sum, trade) => sum + (trade.shares_transacted || 0), 0),
@@ -109,6 +216,8 @@ export async function handleFilingByAccessionNumber(request, env) {
     return createSuccessResponse({
       filing: filingMeta,
       trades: enrichedTrades,
+      holdings,
+      footnotes,
       count: enrichedTrades.length
     }, env);
 
@@ -0,0 +1,53 @@
+/**
+ * First buys endpoint handler
+ *
+ * Reads from pre-computed first_buy_signals: an insider's first open-market
+ * purchase in an issuer after a long stretch without one
+ */
+import { validateLimit, validatePage, calculatePagination } from "../utils/validation.js";
+import { buildFirstBuysFilters } from "../utils/filters.js";
+import { DatabaseService } from "../utils/database.js";
+import { createSuccessResponse } from "../utils/responses.js";
+import { DEFAULT_LIMITS } from "../config/constants.js";
+
+export async function handleFirstBuys(request, env) {
+  const url = new URL(request.url);
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.FIRST_BUYS
+  );
+  const page = validatePage(url.searchParams.get("page"), 1);
+  const { offset } = calculatePagination(page, limit);
+
+  const { whereClause, params, filtersCount } = buildFirstBuysFilters(
+    url.searchParams
+  );
+
+  const dbService = new DatabaseService(env.DB);
+  const [results, totalCount] = await Promise.all([
+    dbService.getFirstBuys(whereClause, params, limit, offset),
+    dbService.getFirstBuysCount(whereClause, params),
+  ]);
+
+  const totalPages = Math.ceil(totalCount / limit);
+  const hasNextPage = page < totalPages;
+  const hasPrevPage = page > 1;
+
+  return createSuccessResponse(results, env, {
+    query_info: {
+      filters_applied: filtersCount,
+      limit_applied: limit,
+    },
+    pagination: {
+      page,
+      limit,
+      offset,
+      total_count: totalCount,
+      total_pages: totalPages,
+      has_next_page: hasNextPage,
+      has_prev_page: hasPrevPage,
+      next_page: hasNextPage ? page + 1 : null,
+      prev_page: hasPrevPage ? page - 1 : null,
+    },
+  });
+}
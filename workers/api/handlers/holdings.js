@@ -0,0 +1,99 @@
+/**
+ * Reported holdings endpoint handlers
+ *
+ * Serves positions reported without a transaction: an insider's starting
+ * position on Form 3 and unchanged holdings listed on Forms 4 and 5.
+ */
+import {
+  validateLimit,
+  sanitizeString,
+  standardizeCik,
+} from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { DEFAULT_LIMITS } from "../config/constants.js";
+
+/**
+ * Handle GET /api/holdings/insider?cik=
+ */
+export async function handleHoldingsByInsider(request, env) {
+  const url = new URL(request.url);
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.HOLDINGS
+  );
+  const cikParam = url.searchParams.get("cik");
+  const cik = cikParam ? standardizeCik(cikParam) : null;
+
+  if (!cik) {
+    return createErrorResponse(
+      {
+        error: "Missing required parameter",
+        message: "Please provide a valid 'cik' parameter",
+      },
+      400,
+      env
+    );
+  }
+
+  // Match every reporting owner on the filing, as the insider trades endpoint does
+  const dbService = new DatabaseService(env.DB);
+  const results = await dbService.getHoldings(
+    "WHERE filing_id IN (SELECT pr.filing_id FROM person_relationships pr JOIN persons p ON pr.person_id = p.id WHERE p.cik = ?)",
+    [cik],
+    limit
+  );
+
+  return createSuccessResponse(results, env, {
+    query_info: {
+      insider_filter: { cik },
+      total_results: results.length,
+      limit_applied: limit,
+    },
+  });
+}
+
+/**
+ * Handle GET /api/holdings/company?cik=
+ */
+export async function handleHoldingsByCompany(request, env) {
+  const url = new URL(request.url);
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.HOLDINGS
+  );
+  let cik = sanitizeString(url.searchParams.get("cik"));
+  // Normalize CIK values that might come as floats (e.g., "1057706.0")
+  if (cik && cik.endsWith(".0")) {
+    cik = cik.slice(0, -2);
+  }
+
+  if (!cik) {
+    return createErrorResponse(
+      {
+        error: "Missing required parameter",
+        message: "Please provide a 'cik' parameter",
+      },
+      400,
+      env
+    );
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const results = await dbService.getHoldings(
+    "WHERE (issuer_cik = ? OR issuer_cik = ?)",
+    [cik, `${cik}.0`],
+    limit
+  );
+
+  return createSuccessResponse(results, env, {
+    query_info: {
+      company_filter: { cik },
+      total_results: results.length,
+      limit_applied: limit,
+    },
+  });
+}
@@ -3,15 +3,68 @@
  *
  * NOW OPTIMIZED: Reads from pre-computed important_trade_signals table
  * Response time: <20ms (down from 500-1000ms)
+ *
+ * Sorted by score (default) or by filing time (?sort=recent), paged by cursor
  */
+import { validateLimit } from "../utils/validation.js";
 import { DatabaseService } from "../utils/database.js";
-import { createSuccessResponse } from "../utils/responses.js";
+import {
+  decodeCursor,
+  keysetCondition,
+  toCursorPage,
+  wantsTotal,
+} from "../utils/pagination.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
 import { DEFAULT_LIMITS } from "../config/constants.js";
 
+// Keyset of each sort order, newest transaction breaking ties
+const SORT_KEYSETS = {
+  score: ["importance_score", "transaction_id"],
+  recent: ["filed_at", "transaction_id"],
+};
+
 export async function handleImportantTrades(request, env) {
   const url = new URL(request.url);
   const minScore = parseInt(url.searchParams.get("minScore")) || 30;
   const onlyPurchases = url.searchParams.get("onlyPurchases") === "true";
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.IMPORTANT_TRADES,
+    200
+  );
+  const sort = url.searchParams.get("sort") || "score";
+
+  if (!SORT_KEYSETS[sort]) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message: `'sort' must be one of: ${Object.keys(SORT_KEYSETS).join(", ")}`,
+      },
+      400,
+      env
+    );
+  }
+
+  const keysetColumns = SORT_KEYSETS[sort];
+  const after = decodeCursor(
+    url.searchParams.get("cursor"),
+    sort,
+    keysetColumns.length
+  );
+  const keyset = after
+    ? keysetCondition(
+        keysetColumns.map((column) => `its.${column}`),
+        after
+      )
+    : null;
+
+  const conditions = `
+    WHERE its.importance_score >= ?
+      ${onlyPurchases ? "AND its.is_purchase = 1" : ""}
+  `;
 
   // Simple query - read from pre-computed signals with view
   const sql = `
@@ -43,6 +96,7 @@ export async function handleImportantTrades(request, env) {
       its.transaction_value,
       its.shares_owned_following,
       its.direct_or_indirect,
+      its.transaction_id,
       CASE 
         WHEN its.transaction_code = 'P' THEN 'Purchase'
         WHEN its.transaction_code = 'S' THEN 'Sale'
@@ -61,20 +115,45 @@ export async function handleImportantTrades(request, env) {
         ELSE 0
       END as role_priority
     FROM vw_important_trades_details its
-    WHERE its.importance_score >= ?
-      ${onlyPurchases ? "AND its.is_purchase = 1" : ""}
-    ORDER BY its.importance_score DESC, its.transaction_value DESC, its.filed_at DESC
-    LIMIT ${DEFAULT_LIMITS.IMPORTANT_TRADES}
+    ${conditions}
+      ${keyset ? `AND ${keyset.sql}` : ""}
+    ORDER BY ${keysetColumns.map((column) => `its.${column} DESC`).join(", ")}
+    LIMIT ?
   `;
 
   const dbService = new DatabaseService(env.DB);
-  const results = await dbService.executeQuery(sql, [minScore]);
+  const [results, totals] = await Promise.all([
+    dbService.executeQuery(sql, [
+      minScore,
+      ...(keyset ? keyset.params : []),
+      limit + 1,
+    ]),
+    wantsTotal(url.searchParams)
+      ? dbService.executeQuery(
+          `SELECT COUNT(*) as total_count FROM vw_important_trades_details its ${conditions}`,
+          [minScore]
+        )
+      : null,
+  ]);
+  const { rows, nextCursor } = toCursorPage(
+    results,
+    limit,
+    sort,
+    keysetColumns
+  );
 
-  return createSuccessResponse(results, env, {
+  return createSuccessResponse(rows, env, {
     query_info: {
       min_score: minScore,
       only_purchases: onlyPurchases,
-      trades_found: results.length,
+      sort,
+      trades_found: rows.length,
+    },
+    pagination: {
+      limit,
+      total_count: totals ? totals[0]?.total_count || 0 : null,
+      has_next_page: nextCursor !== null,
+      next_cursor: nextCursor,
     },
   });
 }
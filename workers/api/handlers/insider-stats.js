@@ -0,0 +1,132 @@
+/**
+ * Insider stats endpoint handler
+ *
+ * GET /api/insider/{cik}/stats - an insider's track record (rebuilt daily by
+ * the signal processor into insider_track_records), the companies they
+ * trade and how their recent buys have done
+ */
+import { standardizeCik } from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+
+const MAX_COMPANIES = 20;
+const MAX_RECENT_BUYS = 20;
+
+export async function handleInsiderStats(request, env) {
+  if (request.method !== "GET") {
+    return createErrorResponse({ error: "Method not allowed" }, 405, env);
+  }
+
+  // Path is /api/insider/{cik}/stats
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split("/");
+  const cik = standardizeCik(decodeURIComponent(pathParts[pathParts.length - 2]));
+
+  if (!cik) {
+    return createErrorResponse(
+      { error: "Invalid parameter", message: "Invalid insider CIK" },
+      400,
+      env
+    );
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const [person] = await dbService.executeQuery(
+    "SELECT id, cik, name FROM persons WHERE cik = ?",
+    [cik]
+  );
+
+  if (!person) {
+    return createErrorResponse(
+      { error: "Not found", message: `No insider with CIK ${cik}` },
+      404,
+      env
+    );
+  }
+
+  const [trackRecords, companies, recentBuys] = await Promise.all([
+    dbService.executeQuery(
+      `
+      SELECT
+        open_market_buys, open_market_sells, buy_value, sell_value,
+        companies_traded, first_trade_date, last_trade_date,
+        buys_with_returns, hits, hit_rate,
+        avg_return_20d, avg_return_60d, avg_excess_60d, reliability_score,
+        avg_holding_days, buys_sold, pct_sold_within_6m, updated_at
+      FROM insider_track_records
+      WHERE person_id = ?
+      `,
+      [person.id]
+    ),
+    dbService.executeQuery(
+      `
+      SELECT
+        i.cik as issuer_cik,
+        i.name as issuer_name,
+        i.trading_symbol,
+        SUM(it.transaction_code = 'P') as buys,
+        SUM(it.transaction_code = 'S') as sells,
+        SUM(CASE WHEN it.transaction_code = 'P' THEN COALESCE(it.transaction_value, 0) ELSE 0 END) as buy_value,
+        SUM(CASE WHEN it.transaction_code = 'S' THEN COALESCE(it.transaction_value, 0) ELSE 0 END) as sell_value,
+        MAX(it.transaction_date) as last_trade_date
+      FROM insider_transactions it
+      JOIN filings f ON it.filing_id = f.id
+      JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+      JOIN issuers i ON f.issuer_id = i.id
+      WHERE pr.person_id = ?
+        AND f.status = 'completed'
+        AND it.is_active = TRUE
+        AND (
+          (it.acquired_disposed_code = 'A' AND it.transaction_code = 'P')
+          OR (it.acquired_disposed_code = 'D' AND it.transaction_code = 'S')
+        )
+      GROUP BY i.id
+      ORDER BY last_trade_date DESC
+      LIMIT ${MAX_COMPANIES}
+      `,
+      [person.id]
+    ),
+    dbService.executeQuery(
+      `
+      SELECT
+        sfr.signal_date,
+        its.importance_score as score,
+        sfr.trading_symbol,
+        i.cik as issuer_cik,
+        i.name as issuer_name,
+        sfr.base_price,
+        sfr.return_20d,
+        sfr.return_60d,
+        sfr.excess_60d,
+        sfr.is_complete
+      FROM signal_forward_returns sfr
+      JOIN issuers i ON sfr.issuer_id = i.id
+      JOIN insider_transactions it ON it.id = sfr.transaction_id AND it.is_active = TRUE
+      LEFT JOIN important_trade_signals its
+        ON its.transaction_id = sfr.transaction_id AND its.is_active = TRUE
+      WHERE sfr.person_id = ?
+        AND sfr.signal_type = 'insider_buy'
+      ORDER BY sfr.signal_date DESC, sfr.id DESC
+      LIMIT ${MAX_RECENT_BUYS}
+      `,
+      [person.id]
+    ),
+  ]);
+
+  return createSuccessResponse(
+    {
+      person_cik: person.cik,
+      person_name: person.name,
+      track_record: trackRecords[0] || null,
+      companies,
+      recent_buys: recentBuys.map((row) => ({
+        ...row,
+        is_complete: row.is_complete === 1,
+      })),
+    },
+    env
+  );
+}
@@ -8,6 +8,7 @@ import {
 } from "../utils/validation.js";
 import { buildLatestTradesFilters } from "../utils/filters.js";
 import { DatabaseService } from "../utils/database.js";
+import { wantsTotal } from "../utils/pagination.js";
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -44,13 +45,19 @@ export async function handleTradesByInsider(request, env) {
   let insiderConditions = [];
   let insiderParams = [];
 
+  // Match on every reporting owner of the filing, not only the primary one
+  // shown in the view, so co-filers of joint filings see their trades too
   if (cik) {
     // CIK is already standardized to .0 format
-    insiderConditions.push("person_cik = ?");
+    insiderConditions.push(
+      "filing_id IN (SELECT pr.filing_id FROM person_relationships pr JOIN persons p ON pr.person_id = p.id WHERE p.cik = ?)"
+    );
     insiderParams.push(cik);
     console.log("Added CIK condition with standardized param:", cik);
   } else if (name) {
-    insiderConditions.push("LOWER(person_name) LIKE ?");
+    insiderConditions.push(
+      "filing_id IN (SELECT pr.filing_id FROM person_relationships pr JOIN persons p ON pr.person_id = p.id WHERE LOWER(p.name) LIKE ?)"
+    );
     insiderParams.push(`%${name.toLowerCase()}%`);
   }
 
@@ -84,18 +91,26 @@ export async function handleTradesByInsider(request, env) {
 
   // Execute query
   const dbService = new DatabaseService(env.DB);
-  const results = await dbService.getLatestTrades(
-    whereClause,
-    allParams,
-    limit
-  );
+  const cursor = url.searchParams.get("cursor");
+  const [{ rows, nextCursor }, totalCount] = await Promise.all([
+    dbService.getLatestTradesPage(whereClause, allParams, limit, cursor),
+    wantsTotal(url.searchParams)
+      ? dbService.getLatestTradesCount(whereClause, allParams, true)
+      : null,
+  ]);
 
-  return createSuccessResponse(results, env, {
+  return createSuccessResponse(rows, env, {
     query_info: {
       insider_filter: { cik, name },
       additional_filters: additionalFilters.filtersCount,
-      total_results: results.length,
+      total_results: rows.length,
       limit_applied: limit,
     },
+    pagination: {
+      limit,
+      total_count: totalCount,
+      has_next_page: nextCursor !== null,
+      next_cursor: nextCursor,
+    },
   });
 }
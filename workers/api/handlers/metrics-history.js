@@ -0,0 +1,224 @@
+/**
+ * Insider sentiment history endpoint handler
+ *
+ * Reads from signal_history (daily market-wide aggregates filled by the
+ * signal processor's historical metrics step), rolled up by day, week or
+ * month, with trailing moving averages of the buy/sell ratio and trade counts
+ */
+import { validateDate } from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { METRICS_HISTORY } from "../config/constants.js";
+
+// Period each day belongs to (weeks start on Monday)
+const PERIOD_EXPRESSIONS = {
+  day: "sh.date",
+  week: "date(sh.date, '-6 days', 'weekday 1')",
+  month: "strftime('%Y-%m-01', sh.date)",
+};
+
+// Approximate calendar days per period, for loading moving-average warm-up
+const PERIOD_DAYS = { day: 1, week: 7, month: 31 };
+
+export async function handleMetricsHistory(request, env) {
+  const url = new URL(request.url);
+  const granularity = url.searchParams.get("granularity") || "day";
+
+  if (!METRICS_HISTORY.GRANULARITIES.includes(granularity)) {
+    return invalidParameter(
+      `'granularity' must be one of: ${METRICS_HISTORY.GRANULARITIES.join(", ")}`,
+      env
+    );
+  }
+
+  // The default start is derived from end, so end is checked first
+  const endDate = url.searchParams.get("end") || today();
+  if (!isCalendarDate(endDate)) {
+    return invalidParameter("'start' and 'end' must be YYYY-MM-DD", env);
+  }
+  const startDate =
+    url.searchParams.get("start") ||
+    addDays(endDate, -METRICS_HISTORY.DEFAULT_DAYS[granularity]);
+  if (!isCalendarDate(startDate)) {
+    return invalidParameter("'start' and 'end' must be YYYY-MM-DD", env);
+  }
+  if (startDate > endDate) {
+    return invalidParameter("'start' must not be after 'end'", env);
+  }
+  if (dayDiff(startDate, endDate) > METRICS_HISTORY.MAX_RANGE_DAYS) {
+    return invalidParameter(
+      `Date range cannot exceed ${METRICS_HISTORY.MAX_RANGE_DAYS} days`,
+      env
+    );
+  }
+
+  // Moving-average windows, in periods of the chosen granularity
+  const maParam = url.searchParams.get("ma");
+  const windows =
+    maParam === null
+      ? METRICS_HISTORY.DEFAULT_MOVING_AVERAGES[granularity]
+      : maParam === ""
+        ? []
+        : maParam.split(",").map((value) => parseInt(value));
+
+  if (
+    windows.length > 3 ||
+    windows.some(
+      (n) => isNaN(n) || n < 2 || n > METRICS_HISTORY.MAX_MOVING_AVERAGE
+    )
+  ) {
+    return invalidParameter(
+      `'ma' must list up to 3 window lengths between 2 and ${METRICS_HISTORY.MAX_MOVING_AVERAGE}`,
+      env
+    );
+  }
+
+  // Load enough earlier periods for the first moving averages to be complete
+  const warmup = Math.max(0, ...windows.map((n) => n - 1));
+  const loadFrom = addDays(
+    periodStart(startDate, granularity),
+    -warmup * PERIOD_DAYS[granularity]
+  );
+
+  const period = PERIOD_EXPRESSIONS[granularity];
+  const sql = `
+    SELECT
+      ${period} as period_start,
+      MIN(sh.date) as first_date,
+      MAX(sh.date) as last_date,
+      COUNT(*) as days,
+      SUM(sh.total_insider_buys) as total_insider_buys,
+      SUM(sh.total_insider_sells) as total_insider_sells,
+      SUM(sh.total_buy_value) as total_buy_value,
+      SUM(sh.total_sell_value) as total_sell_value,
+      SUM(sh.cluster_buys_count) as cluster_buys_count,
+      MAX(sh.max_cluster_size) as max_cluster_size,
+      SUM(sh.total_cluster_value) as total_cluster_value,
+      SUM(sh.first_buys_count) as first_buys_count,
+      SUM(sh.important_trades_count) as important_trades_count,
+      SUM(sh.avg_importance_score * sh.important_trades_count)
+        / NULLIF(SUM(sh.important_trades_count), 0) as avg_importance_score
+    FROM signal_history sh
+    WHERE sh.date >= ? AND sh.date <= ?
+    GROUP BY period_start
+    ORDER BY period_start ASC
+  `;
+
+  const dbService = new DatabaseService(env.DB);
+  const rows = await dbService.executeQuery(sql, [loadFrom, endDate]);
+
+  const history = [];
+  rows.forEach((row, index) => {
+    if (row.period_start < periodStart(startDate, granularity)) return;
+
+    const movingAverages = {};
+    for (const n of windows) {
+      // Only periods actually recorded count toward the window
+      const window = rows.slice(Math.max(0, index - n + 1), index + 1);
+      movingAverages[`ma_${n}`] =
+        window.length < n ? null : summarizeWindow(window);
+    }
+
+    history.push({
+      period_start: row.period_start,
+      first_date: row.first_date,
+      last_date: row.last_date,
+      days: row.days,
+      total_insider_buys: row.total_insider_buys,
+      total_insider_sells: row.total_insider_sells,
+      total_buy_value: row.total_buy_value,
+      total_sell_value: row.total_sell_value,
+      buy_sell_ratio: ratio(row.total_buy_value, row.total_sell_value),
+      buy_sell_count_ratio: ratio(
+        row.total_insider_buys,
+        row.total_insider_sells
+      ),
+      cluster_buys_count: row.cluster_buys_count,
+      max_cluster_size: row.max_cluster_size,
+      total_cluster_value: row.total_cluster_value,
+      first_buys_count: row.first_buys_count,
+      important_trades_count: row.important_trades_count,
+      avg_importance_score:
+        row.avg_importance_score === null
+          ? null
+          : Math.round(row.avg_importance_score * 10) / 10,
+      moving_averages: movingAverages,
+    });
+  });
+
+  return createSuccessResponse(history, env, {
+    query_info: {
+      start_date: startDate,
+      end_date: endDate,
+      granularity,
+      moving_averages: windows,
+    },
+  });
+}
+
+/**
+ * Averages over a moving-average window. Ratios are taken over the window's
+ * totals rather than averaging per-period ratios, so a quiet period with a
+ * handful of trades cannot swing the line.
+ */
+function summarizeWindow(window) {
+  const total = (key) => window.reduce((sum, row) => sum + row[key], 0);
+
+  return {
+    buy_sell_ratio: ratio(total("total_buy_value"), total("total_sell_value")),
+    buy_sell_count_ratio: ratio(
+      total("total_insider_buys"),
+      total("total_insider_sells")
+    ),
+    total_insider_buys: round(total("total_insider_buys") / window.length),
+    total_insider_sells: round(total("total_insider_sells") / window.length),
+  };
+}
+
+// Buys per sell; null without sells (signal_history stores 999 there)
+function ratio(buys, sells) {
+  return sells > 0 ? round(buys / sells) : null;
+}
+
+function round(value) {
+  return Math.round(value * 10000) / 10000;
+}
+
+function invalidParameter(message, env) {
+  return createErrorResponse(
+    { error: "Invalid parameter", message },
+    400,
+    env
+  );
+}
+
+function periodStart(date, granularity) {
+  if (granularity === "month") return `${date.slice(0, 7)}-01`;
+  if (granularity === "week") {
+    const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday = 0
+    return addDays(date, -weekday);
+  }
+  return date;
+}
+
+function addDays(date, days) {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+// YYYY-MM-DD naming a real day (e.g. not 2024-13-45)
+function isCalendarDate(date) {
+  return validateDate(date) && !isNaN(Date.parse(`${date}T00:00:00Z`));
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function dayDiff(start, end) {
+  return (Date.parse(end) - Date.parse(start)) / 86400000;
+}
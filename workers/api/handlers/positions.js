@@ -0,0 +1,158 @@
+/**
+ * Position endpoint handlers
+ *
+ * GET /api/insider/{cik}/positions - an insider's position timelines per
+ * issuer and security
+ * GET /api/company/{cik}/holders - the company's insiders and what each
+ * holds as of their latest filing
+ *
+ * Positions are rebuilt from shares_owned_following and reported holdings
+ * on each request (see utils/positions.js), so amendments are reflected as
+ * soon as they are processed.
+ */
+import {
+  validateBoolean,
+  validateLimit,
+  sanitizeString,
+  standardizeCik,
+} from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  getPositionObservations,
+  buildPositions,
+  buildHolders,
+  compareHoldings,
+} from "../utils/positions.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { DEFAULT_LIMITS } from "../config/constants.js";
+
+export async function handleInsiderPositions(request, env) {
+  if (request.method !== "GET") {
+    return createErrorResponse({ error: "Method not allowed" }, 405, env);
+  }
+
+  // Path is /api/insider/{cik}/positions
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split("/");
+  const cik = standardizeCik(decodeURIComponent(pathParts[pathParts.length - 2]));
+  const issuerCik = normalizeCik(url.searchParams.get("issuer"));
+
+  if (!cik) {
+    return createErrorResponse(
+      { error: "Invalid parameter", message: "Invalid insider CIK" },
+      400,
+      env
+    );
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const [person] = await dbService.executeQuery(
+    "SELECT cik, name FROM persons WHERE cik = ?",
+    [cik]
+  );
+
+  if (!person) {
+    return createErrorResponse(
+      { error: "Not found", message: `No insider with CIK ${cik}` },
+      404,
+      env
+    );
+  }
+
+  const observations = await getPositionObservations(dbService, {
+    personCik: cik,
+  });
+  const positions = buildPositions(observations)
+    .filter(
+      (position) =>
+        !issuerCik || normalizeCik(position.issuer_cik) === issuerCik
+    )
+    .sort(
+      (a, b) =>
+        a.issuer_name.localeCompare(b.issuer_name) ||
+        compareHoldings(a, b)
+    );
+
+  return createSuccessResponse(positions, env, {
+    insider: person,
+    query_info: {
+      issuer_filter: issuerCik,
+      open_positions: positions.filter((position) => position.current_shares > 0)
+        .length,
+    },
+  });
+}
+
+export async function handleCompanyHolders(request, env) {
+  if (request.method !== "GET") {
+    return createErrorResponse({ error: "Method not allowed" }, 405, env);
+  }
+
+  // Path is /api/company/{cik}/holders
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split("/");
+  const cik = normalizeCik(decodeURIComponent(pathParts[pathParts.length - 2]));
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.HOLDERS,
+    500
+  );
+  const includeDerivatives = validateBoolean(
+    url.searchParams.get("include_derivatives")
+  );
+  // Insiders whose every position is down to zero
+  const includeExited = validateBoolean(url.searchParams.get("include_exited"));
+
+  if (!cik) {
+    return createErrorResponse(
+      { error: "Invalid parameter", message: "Invalid company CIK" },
+      400,
+      env
+    );
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const [issuer] = await dbService.executeQuery(
+    "SELECT cik, name, trading_symbol FROM issuers WHERE cik = ? OR cik = ?",
+    [cik, `${cik}.0`]
+  );
+
+  if (!issuer) {
+    return createErrorResponse(
+      { error: "Not found", message: `No company with CIK ${cik}` },
+      404,
+      env
+    );
+  }
+
+  const observations = await getPositionObservations(dbService, {
+    issuerCik: cik,
+  });
+
+  const results = buildHolders(buildPositions(observations), {
+    includeDerivatives,
+  }).filter(
+    (holder) =>
+      includeExited ||
+      holder.positions.some((position) => position.current_shares > 0)
+  );
+
+  return createSuccessResponse(results.slice(0, limit), env, {
+    company: issuer,
+    query_info: {
+      total_holders: results.length,
+      include_derivatives: includeDerivatives,
+      include_exited: includeExited,
+      limit_applied: limit,
+    },
+  });
+}
+
+// Normalize CIK values that might come as floats (e.g., "1057706.0")
+function normalizeCik(value) {
+  const cik = sanitizeString(value);
+  return cik.endsWith(".0") ? cik.slice(0, -2) : cik;
+}
@@ -0,0 +1,230 @@
+/**
+ * Search endpoint handler
+ *
+ * Ranked full-text search over the FTS5 indexes: companies by name or ticker,
+ * insiders by name or officer title, and filings by footnote text. Each index
+ * ranks its own matches; bm25 scores of different indexes are not
+ * comparable, so the types are interleaved (best company, best insider,
+ * best filing, then the second of each, ...). A company whose ticker is the
+ * query itself always comes first.
+ */
+import { validateLimit, sanitizeString } from "../utils/validation.js";
+import { buildMatchQuery } from "../utils/filters.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import { SEARCH_TYPES, DEFAULT_LIMITS } from "../config/constants.js";
+
+export async function handleSearch(request, env) {
+  const url = new URL(request.url);
+  const q = sanitizeString(url.searchParams.get("q"));
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.SEARCH,
+    50
+  );
+  const typeParam = url.searchParams.get("type");
+  const types = typeParam ? typeParam.split(",") : SEARCH_TYPES;
+
+  if (types.some((type) => !SEARCH_TYPES.includes(type))) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message: `'type' must list values from: ${SEARCH_TYPES.join(", ")}`,
+      },
+      400,
+      env
+    );
+  }
+
+  const matchQuery = buildMatchQuery(q);
+  if (q.length < 2 || !matchQuery) {
+    return createErrorResponse(
+      {
+        error: "Missing required parameter",
+        message: "'q' must be at least 2 characters",
+      },
+      400,
+      env
+    );
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const searches = {
+    company: () => searchCompanies(dbService, matchQuery, q, limit),
+    insider: () => searchInsiders(dbService, matchQuery, limit),
+    filing: () => searchFilings(dbService, matchQuery, limit),
+  };
+
+  const groups = await Promise.all(
+    SEARCH_TYPES.filter((type) => types.includes(type)).map((type) =>
+      searches[type]()
+    )
+  );
+
+  const results = interleave(groups)
+    .sort((a, b) => b.exact - a.exact) // Stable, so the interleaving is kept
+    .slice(0, limit)
+    .map(({ exact, ...result }) => result);
+
+  return createSuccessResponse(results, env, {
+    query_info: {
+      q,
+      types: SEARCH_TYPES.filter((type) => types.includes(type)),
+      limit,
+    },
+  });
+}
+
+async function searchCompanies(dbService, matchQuery, q, limit) {
+  // Tickers weigh more than words of the name
+  const rows = await dbService.executeQuery(
+    `
+    SELECT
+      i.cik,
+      i.name,
+      i.trading_symbol,
+      i.sector,
+      bm25(issuers_fts, 1.0, 3.0) as match_rank,
+      UPPER(COALESCE(i.trading_symbol, '')) = ? as exact
+    FROM issuers_fts
+    JOIN issuers i ON i.id = issuers_fts.rowid
+    WHERE issuers_fts MATCH ?
+    ORDER BY exact DESC, match_rank
+    LIMIT ?
+  `,
+    [q.toUpperCase(), matchQuery, limit]
+  );
+
+  return rows.map((row) => ({
+    type: "company",
+    cik: row.cik,
+    name: row.name,
+    trading_symbol: row.trading_symbol,
+    sector: row.sector,
+    score: score(row.match_rank),
+    exact: row.exact ? 1 : 0,
+  }));
+}
+
+async function searchInsiders(dbService, matchQuery, limit) {
+  // The company of the insider's latest filing tells same-named people apart
+  const rows = await dbService.executeQuery(
+    `
+    SELECT
+      p.cik,
+      p.name,
+      persons_fts.titles,
+      bm25(persons_fts, 2.0, 1.0) as match_rank,
+      (
+        SELECT i.cik || char(31) || i.name || char(31) || COALESCE(i.trading_symbol, '')
+        FROM person_relationships pr
+        JOIN filings f ON f.id = pr.filing_id
+        JOIN issuers i ON i.id = f.issuer_id
+        WHERE pr.person_id = p.id
+        ORDER BY f.filed_at DESC
+        LIMIT 1
+      ) as latest_issuer
+    FROM persons_fts
+    JOIN persons p ON p.id = persons_fts.rowid
+    WHERE persons_fts MATCH ?
+    ORDER BY match_rank
+    LIMIT ?
+  `,
+    [matchQuery, limit]
+  );
+
+  return rows.map((row) => {
+    const [issuerCik, issuerName, tradingSymbol] = row.latest_issuer
+      ? row.latest_issuer.split("\u001f")
+      : [];
+
+    return {
+      type: "insider",
+      cik: row.cik,
+      name: row.name,
+      officer_titles: row.titles ? row.titles.split("\u001f") : [],
+      latest_issuer: issuerCik
+        ? {
+            cik: issuerCik,
+            name: issuerName,
+            trading_symbol: tradingSymbol || null,
+          }
+        : null,
+      score: score(row.match_rank),
+      exact: 0,
+    };
+  });
+}
+
+async function searchFilings(dbService, matchQuery, limit) {
+  // A filing can match on several footnotes; fetch extra and keep the best
+  const rows = await dbService.executeQuery(
+    `
+    SELECT
+      f.accession_number,
+      f.filed_at,
+      i.cik as issuer_cik,
+      i.name as issuer_name,
+      i.trading_symbol,
+      p.cik as person_cik,
+      p.name as person_name,
+      snippet(footnotes_fts, 0, '', '', '…', 16) as snippet,
+      bm25(footnotes_fts) as match_rank
+    FROM footnotes_fts
+    JOIN footnotes fn ON fn.id = footnotes_fts.rowid
+    JOIN filings f ON f.id = fn.filing_id
+    JOIN issuers i ON i.id = f.issuer_id
+    LEFT JOIN person_relationships pr ON pr.filing_id = f.id AND pr.is_primary_owner = TRUE
+    LEFT JOIN persons p ON p.id = pr.person_id
+    WHERE footnotes_fts MATCH ?
+    ORDER BY match_rank
+    LIMIT ?
+  `,
+    [matchQuery, limit * 3]
+  );
+
+  const seen = new Set();
+  return rows
+    .filter((row) => {
+      if (seen.has(row.accession_number)) return false;
+      seen.add(row.accession_number);
+      return true;
+    })
+    .slice(0, limit)
+    .map((row) => ({
+      type: "filing",
+      accession_number: row.accession_number,
+      filed_at: row.filed_at,
+      issuer_cik: row.issuer_cik,
+      issuer_name: row.issuer_name,
+      trading_symbol: row.trading_symbol,
+      person_cik: row.person_cik,
+      person_name: row.person_name,
+      snippet: row.snippet,
+      score: score(row.match_rank),
+      exact: 0,
+    }));
+}
+
+/**
+ * Round-robin over result lists that are each ranked best first
+ */
+function interleave(groups) {
+  const results = [];
+  const longest = Math.max(0, ...groups.map((group) => group.length));
+  for (let i = 0; i < longest; i++) {
+    for (const group of groups) {
+      if (i < group.length) results.push(group[i]);
+    }
+  }
+  return results;
+}
+
+// bm25() is lower for better matches; report relevance as higher-is-better,
+// comparable only within a type
+function score(rank) {
+  return Math.round(-rank * 100) / 100;
+}
@@ -0,0 +1,265 @@
+/**
+ * Sector endpoint handlers
+ *
+ * GET /api/sectors - open-market insider activity per sector (SIC division)
+ * GET /api/sectors/{sector} - one sector's activity by industry (SIC
+ * description) and its most bought and sold companies
+ *
+ * Both roll up issuer_insider_summaries, so `months` is one of its windows
+ * (3, 6 or 12). Issuers not yet enriched with SIC data have no sector and
+ * are only counted in query_info.
+ */
+import { validateLimit, sanitizeString } from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import {
+  COMPANY_SUMMARY_WINDOWS,
+  DEFAULT_LIMITS,
+} from "../config/constants.js";
+
+const DEFAULT_MONTHS = 3;
+
+// Insiders are counted per company, so one buying at two companies in the
+// same sector counts twice
+const ROLLUP_COLUMNS = `
+  COUNT(*) as active_issuers,
+  SUM(s.buy_count) as buy_count,
+  SUM(s.sell_count) as sell_count,
+  SUM(s.buy_value) as buy_value,
+  SUM(s.sell_value) as sell_value,
+  SUM(s.net_value) as net_value,
+  SUM(s.unique_buyers) as insiders_buying,
+  SUM(s.unique_sellers) as insiders_selling,
+  SUM(s.net_value > 0) as net_buying_issuers,
+  SUM(s.cluster_buys) as cluster_buys,
+  SUM(s.cluster_sells) as cluster_sells,
+  MAX(s.updated_at) as updated_at
+`;
+
+export async function handleSectors(request, env) {
+  if (request.method !== "GET") {
+    return createErrorResponse({ error: "Method not allowed" }, 405, env);
+  }
+
+  const url = new URL(request.url);
+  const months = parseMonths(url.searchParams.get("months"));
+  // Companies listed per sector, for each direction
+  const top = validateLimit(
+    url.searchParams.get("top"),
+    DEFAULT_LIMITS.SECTOR_TOP_NAMES,
+    10
+  );
+
+  if (!months) {
+    return invalidMonths(env);
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const [sectors, topNames, [unclassified]] = await Promise.all([
+    dbService.executeQuery(
+      `
+      SELECT i.sector, ${ROLLUP_COLUMNS}
+      FROM issuer_insider_summaries s
+      JOIN issuers i ON s.issuer_id = i.id
+      WHERE s.window_months = ?
+        AND i.sector IS NOT NULL
+      GROUP BY i.sector
+      ORDER BY net_value DESC
+      `,
+      [months]
+    ),
+    getTopNames(dbService, months, top),
+    dbService.executeQuery(
+      `
+      SELECT COUNT(*) as issuers
+      FROM issuer_insider_summaries s
+      JOIN issuers i ON s.issuer_id = i.id
+      WHERE s.window_months = ?
+        AND i.sector IS NULL
+      `,
+      [months]
+    ),
+  ]);
+
+  const results = sectors.map((sector) => ({
+    ...sector,
+    top_buyers: topNames
+      .filter((row) => row.sector === sector.sector && row.direction === "buy")
+      .map(toName),
+    top_sellers: topNames
+      .filter((row) => row.sector === sector.sector && row.direction === "sell")
+      .map(toName),
+  }));
+
+  return createSuccessResponse(results, env, {
+    query_info: {
+      months,
+      window_start: windowStart(months),
+      top,
+      unclassified_issuers: unclassified.issuers,
+    },
+  });
+}
+
+export async function handleSectorDetail(request, env) {
+  if (request.method !== "GET") {
+    return createErrorResponse({ error: "Method not allowed" }, 405, env);
+  }
+
+  // Path is /api/sectors/{sector}
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split("/");
+  const name = sanitizeString(decodeURIComponent(pathParts[pathParts.length - 1]));
+  const months = parseMonths(url.searchParams.get("months"));
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.SECTOR_NAMES,
+    100
+  );
+
+  if (!months) {
+    return invalidMonths(env);
+  }
+
+  const dbService = new DatabaseService(env.DB);
+  const [sector] = await dbService.executeQuery(
+    `
+    SELECT sector, COUNT(*) as issuers
+    FROM issuers
+    WHERE LOWER(sector) = LOWER(?)
+    GROUP BY sector
+    `,
+    [name]
+  );
+
+  if (!sector) {
+    return createErrorResponse(
+      { error: "Not found", message: `No sector named ${name}` },
+      404,
+      env
+    );
+  }
+
+  const [[totals], industries, topNames] = await Promise.all([
+    dbService.executeQuery(
+      `
+      SELECT ${ROLLUP_COLUMNS}
+      FROM issuer_insider_summaries s
+      JOIN issuers i ON s.issuer_id = i.id
+      WHERE s.window_months = ?
+        AND i.sector = ?
+      `,
+      [months, sector.sector]
+    ),
+    dbService.executeQuery(
+      `
+      SELECT i.industry, ${ROLLUP_COLUMNS}
+      FROM issuer_insider_summaries s
+      JOIN issuers i ON s.issuer_id = i.id
+      WHERE s.window_months = ?
+        AND i.sector = ?
+      GROUP BY i.industry
+      ORDER BY net_value DESC
+      `,
+      [months, sector.sector]
+    ),
+    getTopNames(dbService, months, limit, sector.sector),
+  ]);
+
+  return createSuccessResponse(
+    {
+      sector: sector.sector,
+      issuers: sector.issuers,
+      // Without activity in the window the sums are NULL
+      ...Object.fromEntries(
+        Object.entries(totals).map(([key, value]) => [
+          key,
+          value ?? (key === "updated_at" ? null : 0),
+        ])
+      ),
+      industries,
+      top_buyers: topNames.filter((row) => row.direction === "buy").map(toName),
+      top_sellers: topNames.filter((row) => row.direction === "sell").map(toName),
+    },
+    env,
+    {
+      query_info: {
+        months,
+        window_start: windowStart(months),
+        limit_applied: limit,
+      },
+    }
+  );
+}
+
+/**
+ * The companies with the most net buying and the most net selling in each
+ * sector (or just `sector`), `top` of each
+ */
+function getTopNames(dbService, months, top, sector = null) {
+  return dbService.executeQuery(
+    `
+    SELECT * FROM (
+      SELECT
+        CASE WHEN s.net_value > 0 THEN 'buy' ELSE 'sell' END as direction,
+        i.sector,
+        i.industry,
+        i.cik as issuer_cik,
+        i.name as issuer_name,
+        i.trading_symbol,
+        s.buy_count,
+        s.sell_count,
+        s.buy_value,
+        s.sell_value,
+        s.net_value,
+        s.unique_buyers,
+        s.unique_sellers,
+        s.cluster_buys,
+        s.cluster_sells,
+        ROW_NUMBER() OVER (
+          PARTITION BY i.sector, s.net_value > 0
+          ORDER BY ABS(s.net_value) DESC, i.id
+        ) as name_rank
+      FROM issuer_insider_summaries s
+      JOIN issuers i ON s.issuer_id = i.id
+      WHERE s.window_months = ?1
+        AND s.net_value != 0
+        AND i.sector IS NOT NULL
+        AND (?2 IS NULL OR i.sector = ?2)
+    )
+    WHERE name_rank <= ?3
+    ORDER BY name_rank
+    `,
+    [months, sector, top]
+  );
+}
+
+function toName({ sector, direction, name_rank, ...row }) {
+  return row;
+}
+
+function parseMonths(value) {
+  const months = value === null ? DEFAULT_MONTHS : Number(value);
+  return COMPANY_SUMMARY_WINDOWS.includes(months) ? months : null;
+}
+
+// Same as SQLite's date('now', '-N months')
+function windowStart(months) {
+  const date = new Date();
+  date.setUTCMonth(date.getUTCMonth() - months);
+  return date.toISOString().slice(0, 10);
+}
+
+function invalidMonths(env) {
+  return createErrorResponse(
+    {
+      error: "Invalid parameter",
+      message: `'months' must be one of: ${COMPANY_SUMMARY_WINDOWS.join(", ")}`,
+    },
+    400,
+    env
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Signal forward returns endpoint handler
+ *
+ * Reads from signal_forward_returns (filled by the signal processor): how the
+ * stock did 5, 20, 60 and 120 trading days after each important trade and
+ * cluster, raw and in excess of SPY, with a summary per horizon
+ */
+import { validateLimit, standardizeCik } from "../utils/validation.js";
+import { DatabaseService } from "../utils/database.js";
+import {
+  createSuccessResponse,
+  createErrorResponse,
+} from "../utils/responses.js";
+import {
+  DEFAULT_LIMITS,
+  RETURN_HORIZONS,
+  SIGNAL_TYPES,
+} from "../config/constants.js";
+
+export async function handleSignalReturns(request, env) {
+  const url = new URL(request.url);
+  const limit = validateLimit(
+    url.searchParams.get("limit"),
+    DEFAULT_LIMITS.SIGNAL_RETURNS,
+    500
+  );
+  const daysWindow = validateLimit(url.searchParams.get("days"), 365, 730);
+  const signalType = url.searchParams.get("type");
+  const minScoreParam = parseInt(url.searchParams.get("minScore"));
+  const minScore = isNaN(minScoreParam) ? null : minScoreParam;
+  const cikParam = url.searchParams.get("cik");
+  const cik = cikParam ? standardizeCik(cikParam) : null;
+
+  if (signalType && !SIGNAL_TYPES.includes(signalType)) {
+    return createErrorResponse(
+      {
+        error: "Invalid parameter",
+        message: `'type' must be one of: ${SIGNAL_TYPES.join(", ")}`,
+      },
+      400,
+      env
+    );
+  }
+
+  if (cikParam && !cik) {
+    return createErrorResponse(
+      { error: "Invalid parameter", message: "Invalid insider CIK" },
+      400,
+      env
+    );
+  }
+
+  // Unscored insider_buy rows (kept for insider track records) are not signals
+  const conditions = [
+    "sfr.signal_date >= date('now', '-' || ? || ' days')",
+    "sfr.signal_type IN (SELECT value FROM json_each(?))",
+  ];
+  const params = [
+    daysWindow,
+    JSON.stringify(signalType ? [signalType] : SIGNAL_TYPES),
+  ];
+  if (minScore !== null) {
+    conditions.push("sfr.score >= ?");
+    params.push(minScore);
+  }
+  if (cik) {
+    conditions.push("p.cik = ?");
+    params.push(cik);
+  }
+
+  const fromClause = `
+    FROM signal_forward_returns sfr
+    JOIN issuers i ON sfr.issuer_id = i.id
+    LEFT JOIN persons p ON sfr.person_id = p.id
+    WHERE ${conditions.join(" AND ")}
+  `;
+
+  const horizonColumns = RETURN_HORIZONS.map(
+    (h) => `sfr.return_${h}d, sfr.excess_${h}d`
+  ).join(",\n      ");
+
+  // Hit = the stock beat SPY after a buy, or lagged it after a sell
+  const summaryColumns = RETURN_HORIZONS.map(
+    (h) => `
+      COUNT(sfr.return_${h}d) as count_${h}d,
+      ROUND(AVG(sfr.return_${h}d), 6) as avg_return_${h}d,
+      ROUND(AVG(sfr.excess_${h}d), 6) as avg_excess_${h}d,
+      ROUND(AVG(CASE
+        WHEN sfr.excess_${h}d IS NULL THEN NULL
+        WHEN (sfr.direction = 'buy') = (sfr.excess_${h}d > 0) THEN 1.0
+        ELSE 0.0
+      END), 4) as hit_rate_${h}d`
+  ).join(",");
+
+  const dbService = new DatabaseService(env.DB);
+  const [rows, summaryRows] = await Promise.all([
+    dbService.executeQuery(
+      `
+      SELECT
+        sfr.signal_type,
+        sfr.signal_date,
+        sfr.direction,
+        sfr.score,
+        sfr.scoring_model_version,
+        sfr.trading_symbol,
+        i.cik as issuer_cik,
+        i.name as issuer_name,
+        p.cik as person_cik,
+        p.name as person_name,
+        sfr.base_date,
+        sfr.base_price,
+        ${horizonColumns},
+        sfr.bars_through,
+        sfr.is_complete
+      ${fromClause}
+      ORDER BY sfr.signal_date DESC, sfr.id DESC
+      LIMIT ${limit}
+      `,
+      params
+    ),
+    dbService.executeQuery(
+      `SELECT COUNT(*) as signals, ${summaryColumns} ${fromClause}`,
+      params
+    ),
+  ]);
+
+  const summary = summaryRows[0] || {};
+
+  return createSuccessResponse(
+    rows.map((row) => ({ ...row, is_complete: row.is_complete === 1 })),
+    env,
+    {
+      summary: {
+        signals: summary.signals || 0,
+        horizons: Object.fromEntries(
+          RETURN_HORIZONS.map((h) => [
+            `${h}d`,
+            {
+              count: summary[`count_${h}d`] || 0,
+              avg_return: summary[`avg_return_${h}d`] ?? null,
+              avg_excess: summary[`avg_excess_${h}d`] ?? null,
+              hit_rate: summary[`hit_rate_${h}d`] ?? null,
+            },
+          ])
+        ),
+      },
+      query_info: {
+        type: signalType || "all",
+        days_window: daysWindow,
+        min_score: minScore,
+        insider_cik: cik,
+        limit_applied: limit,
+      },
+    }
+  );
+}
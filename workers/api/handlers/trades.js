@@ -1,9 +1,13 @@
 /**
  * Latest trades endpoint handler
+ *
+ * Pages by cursor (?cursor=, from next_cursor) or by page number. Page
+ * numbers keep working for jumping around, but cost grows with depth.
  */
 import { validateLimit, validatePage, calculatePagination } from "../utils/validation.js";
 import { buildLatestTradesFilters } from "../utils/filters.js";
 import { DatabaseService } from "../utils/database.js";
+import { wantsTotal } from "../utils/pagination.js";
 import { createSuccessResponse } from "../utils/responses.js";
 import { DEFAULT_LIMITS } from "../config/constants.js";
 
@@ -13,12 +17,17 @@ export async function handleLatestTrades(request, env) {
     url.searchParams.get("limit"),
     DEFAULT_LIMITS.LATEST_TRADES
   );
-  const page = validatePage(url.searchParams.get("page"), 1);
+  const cursor = url.searchParams.get("cursor");
+  const page = cursor ? null : validatePage(url.searchParams.get("page"), 1);
+  // Totals by default in page mode (page numbers need them), on request otherwise
+  const includeTotal = url.searchParams.has("include_total")
+    ? wantsTotal(url.searchParams)
+    : !cursor;
   
   console.log("Received filter params:", Object.fromEntries(url.searchParams));
 
   // Calculate pagination
-  const { offset } = calculatePagination(page, limit);
+  const { offset } = cursor ? { offset: 0 } : calculatePagination(page, limit);
 
   // Build dynamic filters
   const { whereClause, params, filtersCount } = buildLatestTradesFilters(
@@ -28,24 +37,30 @@ export async function handleLatestTrades(request, env) {
   // Execute queries
   const dbService = new DatabaseService(env.DB);
   
-  // Get both the data and total count for pagination metadata
-  const [results, totalCount] = await Promise.all([
-    dbService.getLatestTrades(whereClause, params, limit, offset),
-    dbService.getLatestTradesCount(whereClause, params, filtersCount > 0)
+  // Get the page and, when wanted, the total count for pagination metadata
+  const [{ rows, nextCursor }, totalCount] = await Promise.all([
+    dbService.getLatestTradesPage(whereClause, params, limit, cursor, offset),
+    includeTotal
+      ? dbService.getLatestTradesCount(whereClause, params, filtersCount > 0)
+      : null,
   ]);
 
   // Calculate pagination metadata
-  const totalPages = Math.ceil(totalCount / limit);
-  const hasNextPage = page < totalPages;
-  const hasPrevPage = page > 1;
+  const totalPages = totalCount === null ? null : Math.ceil(totalCount / limit);
+  const hasNextPage = nextCursor !== null;
+  const hasPrevPage = page === null ? true : page > 1;
 
   // Return formatted response with pagination metadata
-  return createSuccessResponse(results, env, {
+  return createSuccessResponse(rows, env, {
     query_info: {
       filters_applied: filtersCount,
       total_params: params.length,
       limit_applied: limit,
-      count_source: filtersCount > 0 ? "filtered_query" : "sqlite_sequence",
+      count_source: !includeTotal
+        ? null
+        : filtersCount > 0
+          ? "filtered_query"
+          : "sqlite_sequence",
     },
     pagination: {
       page,
@@ -55,8 +70,9 @@ export async function handleLatestTrades(request, env) {
       total_pages: totalPages,
       has_next_page: hasNextPage,
       has_prev_page: hasPrevPage,
-      next_page: hasNextPage ? page + 1 : null,
-      prev_page: hasPrevPage ? page - 1 : null,
+      next_page: hasNextPage && page !== null ? page + 1 : null,
+      prev_page: hasPrevPage && page !== null ? page - 1 : null,
+      next_cursor: nextCursor,
     },
   });
 }
@@ -17,14 +17,35 @@ import { API_ROUTES } from "./config/constants.js";
 import { handleHealth } from "./handlers/health.js";
 import { handleLatestTrades } from "./handlers/trades.js";
 import { handleImportantTrades } from "./handlers/important-trades.js";
+import { handleFirstBuys } from "./handlers/first-buys.js";
 import { handleClusterBuys } from "./handlers/cluster-buys.js";
+import { handleClusterSells } from "./handlers/cluster-sells.js";
+import { handleActivityAnomalies } from "./handlers/anomalies.js";
 import { handleTradesByCompany } from "./handlers/company-trades.js";
 import { handleTradesByInsider } from "./handlers/insider-trades.js";
 import { handleFilingByAccessionNumber } from "./handlers/filing.js";
+import {
+  handleHoldingsByCompany,
+  handleHoldingsByInsider,
+} from "./handlers/holdings.js";
+import {
+  handleFailedFilings,
+  handleRequeueFiling,
+} from "./handlers/failed-filings.js";
 import {
   handleInsiderBackfill,
   handleInsiderBackfillStatus,
 } from "./handlers/insider-backfill.js";
+import { handleSignalReturns } from "./handlers/signal-returns.js";
+import { handleMetricsHistory } from "./handlers/metrics-history.js";
+import { handleInsiderStats } from "./handlers/insider-stats.js";
+import { handleSearch } from "./handlers/search.js";
+import {
+  handleInsiderPositions,
+  handleCompanyHolders,
+} from "./handlers/positions.js";
+import { handleCompanySummary } from "./handlers/company-summary.js";
+import { handleSectors, handleSectorDetail } from "./handlers/sectors.js";
 
 /**
  * Main worker entry point
@@ -55,10 +76,21 @@ async function routeRequest(pathname, request, env) {
     [API_ROUTES.HEALTH]: handleHealth,
     [API_ROUTES.TRADES_LATEST]: handleLatestTrades,
     [API_ROUTES.TRADES_IMPORTANT]: handleImportantTrades,
+    [API_ROUTES.TRADES_FIRST_BUYS]: handleFirstBuys,
     [API_ROUTES.TRADES_CLUSTERS]: handleClusterBuys,
+    [API_ROUTES.TRADES_CLUSTER_SELLS]: handleClusterSells,
+    [API_ROUTES.TRADES_ANOMALIES]: handleActivityAnomalies,
     [API_ROUTES.TRADES_BY_COMPANY]: handleTradesByCompany,
     [API_ROUTES.TRADES_BY_INSIDER]: handleTradesByInsider,
+    [API_ROUTES.HOLDINGS_BY_COMPANY]: handleHoldingsByCompany,
+    [API_ROUTES.HOLDINGS_BY_INSIDER]: handleHoldingsByInsider,
     [API_ROUTES.INSIDER_BACKFILL]: handleInsiderBackfill,
+    [API_ROUTES.FILINGS_FAILED]: handleFailedFilings,
+    [API_ROUTES.FILINGS_REQUEUE]: handleRequeueFiling,
+    [API_ROUTES.SIGNALS_RETURNS]: handleSignalReturns,
+    [API_ROUTES.METRICS_HISTORY]: handleMetricsHistory,
+    [API_ROUTES.SEARCH]: handleSearch,
+    [API_ROUTES.SECTORS]: handleSectors,
   };
 
   // Special handling for filing endpoint with dynamic accession number
@@ -66,6 +98,31 @@ async function routeRequest(pathname, request, env) {
     return await handleFilingByAccessionNumber(request, env);
   }
 
+  // Special handling for insider stats with dynamic CIK
+  if (/^\/api\/insider\/[^/]+\/stats$/.test(pathname)) {
+    return await handleInsiderStats(request, env);
+  }
+
+  // Special handling for insider positions with dynamic CIK
+  if (/^\/api\/insider\/[^/]+\/positions$/.test(pathname)) {
+    return await handleInsiderPositions(request, env);
+  }
+
+  // Special handling for company holders with dynamic CIK
+  if (/^\/api\/company\/[^/]+\/holders$/.test(pathname)) {
+    return await handleCompanyHolders(request, env);
+  }
+
+  // Special handling for company summary with dynamic CIK
+  if (/^\/api\/company\/[^/]+\/summary$/.test(pathname)) {
+    return await handleCompanySummary(request, env);
+  }
+
+  // Special handling for sector detail with the sector name in the path
+  if (/^\/api\/sectors\/[^/]+$/.test(pathname)) {
+    return await handleSectorDetail(request, env);
+  }
+
   // Special handling for status endpoint (GET only)
   if (pathname === "/api/insider/backfill/status" && request.method === "GET") {
     return await handleInsiderBackfillStatus(request, env);
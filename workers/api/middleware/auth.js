@@ -0,0 +1,50 @@
+/**
+ * Shared-secret check for state-changing operator endpoints
+ *
+ * The caller sends `Authorization: Bearer <token>` matching the
+ * ADMIN_API_TOKEN secret (`wrangler secret put ADMIN_API_TOKEN`). Without
+ * the secret configured the endpoints stay disabled.
+ */
+import { createErrorResponse } from "../utils/responses.js";
+
+/**
+ * Returns an error response when the request is not authorized, or null
+ */
+export function requireAdminToken(request, env) {
+  if (!env.ADMIN_API_TOKEN) {
+    return createErrorResponse(
+      {
+        error: "Forbidden",
+        message: "Operator endpoints are disabled: ADMIN_API_TOKEN is not set",
+      },
+      403,
+      env
+    );
+  }
+
+  const header = request.headers.get("Authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  if (!timingSafeEqual(token, env.ADMIN_API_TOKEN)) {
+    return createErrorResponse(
+      { error: "Unauthorized", message: "A valid admin token is required" },
+      401,
+      env
+    );
+  }
+
+  return null;
+}
+
+// Compares every byte, so the time taken does not reveal the matching prefix
+function timingSafeEqual(a, b) {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < right.length; i++) {
+    diff |= (left[i] ?? 0) ^ right[i];
+  }
+  return diff === 0;
+}
@@ -2,8 +2,17 @@
  * Error handling middleware
  */
 import { createErrorResponse } from "../utils/responses.js";
+import { CursorError } from "../utils/pagination.js";
 
 export function handleError(error, env) {
+  if (error instanceof CursorError) {
+    return createErrorResponse(
+      { error: "Invalid parameter", message: error.message },
+      400,
+      env
+    );
+  }
+
   console.error("API Error:", error);
 
   return createErrorResponse(
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildMatchQuery } from "../utils/filters.js";
+
+test("buildMatchQuery matches every word as a prefix", () => {
+  assert.equal(buildMatchQuery("app inc"), '"app"* "inc"*');
+  assert.equal(buildMatchQuery("  Apple Inc.  "), '"apple"* "inc"*');
+});
+
+test("buildMatchQuery takes FTS syntax in the input literally", () => {
+  assert.equal(buildMatchQuery('tesla OR "ford" NEAR(gm)'), '"tesla"* "or"* "ford"* "near"* "gm"*');
+  assert.equal(buildMatchQuery("a*b -c ^d"), '"a"* "b"* "c"* "d"*');
+});
+
+test("buildMatchQuery keeps letters and digits outside ASCII", () => {
+  assert.equal(buildMatchQuery("Nestlé 3M"), '"nestlé"* "3m"*');
+});
+
+test("buildMatchQuery uses at most eight words", () => {
+  const query = buildMatchQuery("one two three four five six seven eight nine ten");
+  assert.equal(query.split(" ").length, 8);
+  assert.ok(query.endsWith('"eight"*'));
+});
+
+test("buildMatchQuery returns null when there is nothing to search for", () => {
+  assert.equal(buildMatchQuery(null), null);
+  assert.equal(buildMatchQuery(""), null);
+  assert.equal(buildMatchQuery("  -*\"()  "), null);
+});
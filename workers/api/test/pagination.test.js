@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CursorError,
+  decodeCursor,
+  encodeCursor,
+  keysetCondition,
+  toCursorPage,
+} from "../utils/pagination.js";
+
+test("decodeCursor returns the values of an encoded cursor", () => {
+  const cursor = encodeCursor("trades", ["2024-01-02T10:00:00Z", 42]);
+
+  assert.doesNotMatch(cursor, /[+/=]/);
+  assert.deepEqual(decodeCursor(cursor, "trades", 2), ["2024-01-02T10:00:00Z", 42]);
+});
+
+test("decodeCursor returns null without a cursor", () => {
+  assert.equal(decodeCursor(null, "trades", 2), null);
+  assert.equal(decodeCursor("", "trades", 2), null);
+});
+
+test("decodeCursor rejects malformed cursors", () => {
+  for (const cursor of ["not a cursor!", btoa("{}"), btoa("[1,2"), encodeCursor("trades", [1])]) {
+    assert.throws(() => decodeCursor(cursor, "trades", 2), CursorError);
+  }
+});
+
+test("decodeCursor rejects a cursor from another sort order", () => {
+  const cursor = encodeCursor("clusters", ["2024-01-02", 42]);
+
+  assert.throws(() => decodeCursor(cursor, "trades", 2), {
+    name: "CursorError",
+    message: "Cursor belongs to a different sort order",
+  });
+});
+
+test("keysetCondition selects rows after the cursor in descending order", () => {
+  const { sql, params } = keysetCondition(["filed_at", "transaction_id"], ["2024-01-02", 42]);
+
+  assert.equal(
+    sql,
+    "filed_at <= ? AND ((filed_at < ?) OR (filed_at = ? AND transaction_id < ?))"
+  );
+  assert.deepEqual(params, ["2024-01-02", "2024-01-02", "2024-01-02", 42]);
+});
+
+test("keysetCondition binds one parameter per placeholder for three columns", () => {
+  const { sql, params } = keysetCondition(["a", "b", "c"], [3, 2, 1]);
+
+  assert.equal(
+    sql,
+    "a <= ? AND ((a < ?) OR (a = ? AND b < ?) OR (a = ? AND b = ? AND c < ?))"
+  );
+  assert.equal(params.length, sql.split("?").length - 1);
+  assert.deepEqual(params, [3, 3, 3, 2, 3, 2, 1]);
+});
+
+test("toCursorPage trims the extra row and points the cursor at the last kept row", () => {
+  const rows = [
+    { filed_at: "2024-01-03", transaction_id: 3 },
+    { filed_at: "2024-01-02", transaction_id: 2 },
+    { filed_at: "2024-01-01", transaction_id: 1 },
+  ];
+
+  const page = toCursorPage(rows, 2, "trades", ["filed_at", "transaction_id"]);
+  assert.equal(page.rows.length, 2);
+  assert.deepEqual(decodeCursor(page.nextCursor, "trades", 2), ["2024-01-02", 2]);
+
+  const lastPage = toCursorPage(rows, 3, "trades", ["filed_at", "transaction_id"]);
+  assert.equal(lastPage.rows.length, 3);
+  assert.equal(lastPage.nextCursor, null);
+});
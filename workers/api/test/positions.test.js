@@ -0,0 +1,148 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildHolders, buildPositions } from "../utils/positions.js";
+
+// A Form 4 transaction row as returned by getPositionObservations
+function observation(overrides = {}) {
+  return {
+    source: "transaction",
+    issuer_cik: "320193",
+    issuer_name: "Apple Inc.",
+    trading_symbol: "AAPL",
+    person_cik: "0001214156",
+    person_name: "Cook Timothy D",
+    is_director: 1,
+    is_officer: 1,
+    officer_title: "CEO",
+    is_ten_percent_owner: 0,
+    accession_number: "0000320193-24-000001",
+    date: "2024-01-02",
+    security_title: "Common Stock",
+    security_type: "non_derivative",
+    direct_or_indirect: "D",
+    nature_of_ownership: null,
+    exercise_price: null,
+    expiration_date: null,
+    transaction_code: "S",
+    acquired_disposed_code: "D",
+    shares_transacted: 100,
+    price_per_share: 190,
+    shares: 1000,
+    ...overrides,
+  };
+}
+
+test("buildPositions replays observations into a timeline with changes", () => {
+  const [position] = buildPositions([
+    observation({ source: "holding", date: "2023-06-30", shares: 1100, transaction_code: null }),
+    observation({ date: "2024-01-02", shares: 1000 }),
+    observation({ date: "2024-02-01", shares: 1500, transaction_code: "M", acquired_disposed_code: "A" }),
+  ]);
+
+  assert.equal(position.first_reported, "2023-06-30");
+  assert.equal(position.last_reported, "2024-02-01");
+  assert.equal(position.current_shares, 1500);
+  assert.equal(position.last_change, 500);
+  assert.deepEqual(
+    position.history.map((entry) => [entry.date, entry.shares, entry.change, entry.source]),
+    [
+      ["2023-06-30", 1100, null, "holding"],
+      ["2024-01-02", 1000, -100, "transaction"],
+      ["2024-02-01", 1500, 500, "transaction"],
+    ]
+  );
+});
+
+test("buildPositions treats variations of a security title as one security", () => {
+  const positions = buildPositions([
+    observation({ security_title: "Common Stock, $0.00001 par value", shares: 900 }),
+    observation({ security_title: "Common Shares", date: "2024-02-01", shares: 800 }),
+    observation({ security_title: "common", date: "2024-03-01", shares: 700 }),
+  ]);
+
+  assert.equal(positions.length, 1);
+  assert.equal(positions[0].history.length, 3);
+  // Latest filing's wording
+  assert.equal(positions[0].security_title, "common");
+});
+
+test("buildPositions separates direct, each kind of indirect and each option grant", () => {
+  const positions = buildPositions([
+    observation({ shares: 1000 }),
+    observation({ direct_or_indirect: "I", nature_of_ownership: "By Trust", shares: 500 }),
+    observation({ direct_or_indirect: "I", nature_of_ownership: "by trust.", date: "2024-02-01", shares: 400 }),
+    observation({ direct_or_indirect: "I", nature_of_ownership: "By Spouse", shares: 50 }),
+    observation({
+      security_title: "Stock Option (right to buy)",
+      security_type: "derivative",
+      exercise_price: 150,
+      expiration_date: "2030-01-01",
+      shares: 2000,
+    }),
+    observation({
+      security_title: "Stock Option (right to buy)",
+      security_type: "derivative",
+      exercise_price: 175,
+      expiration_date: "2031-01-01",
+      shares: 3000,
+    }),
+  ]);
+
+  assert.equal(positions.length, 5);
+  const trust = positions.find((position) => position.nature_of_ownership === "by trust.");
+  assert.equal(trust.current_shares, 400);
+  assert.equal(trust.history.length, 2);
+});
+
+test("buildPositions keeps the insider's role from the latest observation", () => {
+  const [position] = buildPositions([
+    observation({ officer_title: "COO" }),
+    observation({ date: "2024-02-01", officer_title: "CEO" }),
+  ]);
+
+  assert.deepEqual(position.role, {
+    is_director: 1,
+    is_officer: 1,
+    officer_title: "CEO",
+    is_ten_percent_owner: 0,
+  });
+});
+
+test("buildHolders totals stock by insider, largest holders first", () => {
+  const positions = buildPositions([
+    observation({ shares: 1000 }),
+    observation({ direct_or_indirect: "I", nature_of_ownership: "By Trust", shares: 500 }),
+    observation({
+      security_type: "derivative",
+      security_title: "Stock Option",
+      exercise_price: 150,
+      expiration_date: "2030-01-01",
+      shares: 9000,
+    }),
+    observation({ person_cik: "0001", person_name: "Williams Jeffrey E", shares: 2000 }),
+  ]);
+
+  const holders = buildHolders(positions);
+  assert.deepEqual(
+    holders.map((holder) => [holder.person_name, holder.direct_shares, holder.indirect_shares, holder.total_shares]),
+    [
+      ["Williams Jeffrey E", 2000, 0, 2000],
+      ["Cook Timothy D", 1000, 500, 1500],
+    ]
+  );
+  assert.equal(holders[1].positions.length, 2);
+  assert.equal(holders[1].positions[0].history, undefined);
+
+  // Options are listed on request but never counted as shares
+  const withOptions = buildHolders(positions, { includeDerivatives: true });
+  const cook = withOptions.find((holder) => holder.person_cik === "0001214156");
+  assert.equal(cook.total_shares, 1500);
+  assert.deepEqual(
+    cook.positions.map((position) => [position.security_type, position.direct_or_indirect]),
+    [
+      ["non_derivative", "D"],
+      ["non_derivative", "I"],
+      ["derivative", "D"],
+    ]
+  );
+});
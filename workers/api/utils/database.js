@@ -1,6 +1,15 @@
 /**
  * Database utilities for common database operations
  */
+import {
+  decodeCursor,
+  keysetCondition,
+  toCursorPage,
+} from "./pagination.js";
+
+// Keyset of trade listings: newest filing first, then newest transaction
+const TRADES_SORT = "filed";
+const TRADES_KEYSET = ["filed_at", "transaction_id"];
 
 export class DatabaseService {
   constructor(db) {
@@ -26,7 +35,9 @@ export class DatabaseService {
     }
   }
 
-  async getLatestTrades(whereClause, params, limit, offset = 0) {
+  async getLatestTrades(whereClause, params, limit, offset = 0, after = null) {
+    // Rows after a cursor's keyset values, when paging by cursor
+    const keyset = after ? keysetCondition(TRADES_KEYSET, after) : null;
     const sql = `
       SELECT 
         accession_number,
@@ -43,6 +54,7 @@ export class DatabaseService {
         is_ten_percent_owner,
         transaction_date,
         security_title,
+        transaction_type,
         transaction_code,
         transaction_description,
         acquired_disposed_code,
@@ -50,14 +62,44 @@ export class DatabaseService {
         price_per_share,
         transaction_value,
         shares_owned_following,
-        direct_or_indirect
+        direct_or_indirect,
+        exercise_price,
+        exercise_date,
+        expiration_date,
+        underlying_security_title,
+        underlying_security_shares,
+        reporting_owner_count,
+        transaction_id
       FROM vw_insider_trades_detailed
       ${whereClause}
-      ORDER BY filed_at DESC, transaction_date DESC
+      ${keyset ? `AND ${keyset.sql}` : ""}
+      ORDER BY filed_at DESC, transaction_id DESC
       LIMIT ? OFFSET ?
     `;
 
-    return this.executeQuery(sql, [...params, limit, offset]);
+    return this.executeQuery(sql, [
+      ...params,
+      ...(keyset ? keyset.params : []),
+      limit,
+      offset,
+    ]);
+  }
+
+  /**
+   * One page of trades after the cursor (or skipping offset rows), with the
+   * cursor of the following page
+   */
+  async getLatestTradesPage(whereClause, params, limit, cursor = null, offset = 0) {
+    const after = decodeCursor(cursor, TRADES_SORT, TRADES_KEYSET.length);
+    const rows = await this.getLatestTrades(
+      whereClause,
+      params,
+      limit + 1,
+      after ? 0 : offset,
+      after
+    );
+
+    return toCursorPage(rows, limit, TRADES_SORT, TRADES_KEYSET);
   }
 
   async getLatestTradesCount(whereClause, params, hasFilters = false) {
@@ -83,6 +125,177 @@ export class DatabaseService {
     return result[0]?.total_count || 0;
   }
 
+  async getFirstBuys(whereClause, params, limit, offset = 0) {
+    const sql = `
+      SELECT 
+        signal_id,
+        lookback_months,
+        previous_buy_date,
+        importance_score,
+        accession_number,
+        filed_at,
+        form_type,
+        issuer_cik,
+        issuer_name,
+        trading_symbol,
+        person_cik,
+        person_name,
+        is_director,
+        is_officer,
+        officer_title,
+        is_ten_percent_owner,
+        transaction_date,
+        security_title,
+        transaction_code,
+        'Open Market Purchase' as transaction_description,
+        acquired_disposed_code,
+        shares_transacted,
+        price_per_share,
+        transaction_value,
+        shares_owned_following,
+        direct_or_indirect,
+        is_10b5_1_plan,
+        transaction_id,
+        1 as is_first_buy,
+        1 as is_purchase
+      FROM vw_first_buys_details
+      ${whereClause}
+      ORDER BY transaction_date DESC, transaction_value DESC
+      LIMIT ? OFFSET ?
+    `;
+
+    return this.executeQuery(sql, [...params, limit, offset]);
+  }
+
+  async getFirstBuysCount(whereClause, params) {
+    const sql = `
+      SELECT COUNT(*) as total_count
+      FROM vw_first_buys_details
+      ${whereClause}
+    `;
+
+    const result = await this.executeQuery(sql, params);
+    return result[0]?.total_count || 0;
+  }
+
+  async getHoldings(
+    whereClause,
+    params,
+    limit,
+    view = "vw_insider_holdings_detailed"
+  ) {
+    const sql = `
+      SELECT 
+        accession_number,
+        filed_at,
+        as_of_date,
+        form_type,
+        issuer_cik,
+        issuer_name,
+        trading_symbol,
+        person_cik,
+        person_name,
+        is_director,
+        is_officer,
+        officer_title,
+        is_ten_percent_owner,
+        holding_id,
+        security_title,
+        holding_type,
+        shares_owned,
+        direct_or_indirect,
+        nature_of_ownership,
+        exercise_price,
+        exercise_date,
+        expiration_date,
+        underlying_security_title,
+        underlying_security_shares
+      FROM ${view}
+      ${whereClause}
+      ORDER BY as_of_date DESC, holding_id ASC
+      LIMIT ?
+    `;
+
+    return this.executeQuery(sql, [...params, limit]);
+  }
+
+  async getFailedFilings(statuses, limit) {
+    const placeholders = statuses.map(() => "?").join(", ");
+    const sql = `
+      SELECT 
+        pf.accession_number,
+        pf.status,
+        pf.error_class,
+        pf.error_message,
+        pf.attempts,
+        pf.queued_at,
+        pf.last_failed_at,
+        pf.dead_lettered_at,
+        pf.cik,
+        f.filing_url,
+        i.name as issuer_name
+      FROM processed_filings pf
+      LEFT JOIN filings f ON f.accession_number = pf.accession_number
+      LEFT JOIN issuers i ON f.issuer_id = i.id
+      WHERE pf.status IN (${placeholders})
+      ORDER BY pf.updated_at DESC
+      LIMIT ?
+    `;
+
+    return this.executeQuery(sql, [...statuses, limit]);
+  }
+
+  /**
+   * Queue message for a failed filing: the stored original message, or one
+   * rebuilt from the filings row when the failure predates message tracking
+   */
+  async getRequeuePayload(accessionNumber) {
+    const [row] = await this.executeQuery(
+      `
+      SELECT 
+        pf.queue_payload,
+        f.filing_url,
+        f.filed_at,
+        ft.type_code as filing_type
+      FROM (SELECT ? as accession_number) req
+      LEFT JOIN processed_filings pf ON pf.accession_number = req.accession_number
+      LEFT JOIN filings f ON f.accession_number = req.accession_number
+      LEFT JOIN filing_types ft ON f.filing_type_id = ft.id
+      `,
+      [accessionNumber]
+    );
+
+    if (row?.queue_payload) {
+      return JSON.parse(row.queue_payload);
+    }
+    if (row?.filing_url) {
+      return {
+        filing_url: row.filing_url,
+        filing_type: row.filing_type,
+        accession_number: accessionNumber,
+        published_date: row.filed_at,
+      };
+    }
+    return null;
+  }
+
+  async markFilingRequeued(accessionNumber) {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO processed_filings (accession_number, status, attempts, queued_at, updated_at)
+        VALUES (?, 'queued', 0, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+        ON CONFLICT(accession_number) DO UPDATE SET
+          status = 'queued',
+          attempts = 0,
+          queued_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      `
+      )
+      .bind(accessionNumber)
+      .run();
+  }
+
   async getClusterBuysForIssuer(issuerName, transactionDate) {
     const sql = `
       SELECT 
@@ -99,12 +312,13 @@ export class DatabaseService {
       FROM insider_transactions it
       JOIN filings f ON it.filing_id = f.id
       JOIN issuers i ON f.issuer_id = i.id
-      JOIN person_relationships pr ON f.id = pr.filing_id
+      JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
       JOIN persons p ON pr.person_id = p.id
       WHERE i.name = ?
         AND it.transaction_date = ?
         AND it.acquired_disposed_code = 'A'
         AND it.transaction_code = 'P'
+        AND it.is_active = TRUE
         AND f.status = 'completed'
       ORDER BY it.transaction_value DESC
     `;
@@ -18,13 +18,19 @@ export class QueryBuilder {
   }
 
   addSearchFilter(q) {
-    const searchTerm = sanitizeString(q);
-    if (searchTerm.length > 0) {
+    // Issuer name/ticker or insider name, through the FTS indexes
+    const matchQuery = buildMatchQuery(q);
+    if (matchQuery) {
       this.conditions.push(
-        "(LOWER(issuer_name) LIKE ? OR LOWER(COALESCE(trading_symbol,'')) LIKE ? OR LOWER(person_name) LIKE ?)"
+        `(issuer_cik IN (
+          SELECT i.cik FROM issuers_fts JOIN issuers i ON i.id = issuers_fts.rowid
+          WHERE issuers_fts MATCH ?
+        ) OR person_cik IN (
+          SELECT p.cik FROM persons_fts JOIN persons p ON p.id = persons_fts.rowid
+          WHERE persons_fts MATCH ?
+        ))`
       );
-      const likeTerm = `%${searchTerm.toLowerCase()}%`;
-      this.params.push(likeTerm, likeTerm, likeTerm);
+      this.params.push(matchQuery, `name : (${matchQuery})`);
     }
     return this;
   }
@@ -103,6 +109,13 @@ export class QueryBuilder {
     return this;
   }
 
+  addFirstEverFilter(firstEver) {
+    if (validateBoolean(firstEver)) {
+      this.conditions.push("previous_buy_date IS NULL");
+    }
+    return this;
+  }
+
   build() {
     return {
       whereClause: `WHERE ${this.conditions.join(" AND ")}`,
@@ -112,6 +125,22 @@ export class QueryBuilder {
   }
 }
 
+/**
+ * Turn free text into an FTS5 query: every word must match, each as a
+ * prefix ("app inc" finds "Apple Inc."). Words are quoted so FTS syntax in
+ * user input (AND, NEAR, *, quotes) is taken literally. Null when there is
+ * nothing to search for.
+ */
+export function buildMatchQuery(q) {
+  const words = sanitizeString(q).toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+
+  return words
+    .slice(0, 8)
+    .map((word) => `"${word}"*`)
+    .join(" ");
+}
+
 export function buildLatestTradesFilters(searchParams) {
   const builder = new QueryBuilder();
 
@@ -130,3 +159,19 @@ export function buildLatestTradesFilters(searchParams) {
     )
     .build();
 }
+
+export function buildFirstBuysFilters(searchParams) {
+  const builder = new QueryBuilder();
+
+  return builder
+    .addSearchFilter(searchParams.get("q"))
+    .addRoleFilters(searchParams)
+    .addSymbolFilter(searchParams.get("symbol"))
+    .addMinValueFilter(searchParams.get("min_value"))
+    .addFirstEverFilter(searchParams.get("first_ever"))
+    .addDateRangeFilter(
+      searchParams.get("start_date"),
+      searchParams.get("end_date")
+    )
+    .build();
+}
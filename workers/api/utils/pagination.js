@@ -0,0 +1,116 @@
+/**
+ * Keyset (cursor) pagination utilities
+ *
+ * A cursor holds the sort values of the last row of a page, so the next page
+ * is "rows after this one in sort order" rather than OFFSET n - every page
+ * costs the same however deep it is, and rows inserted at the top between
+ * requests do not shift later pages. Cursors are opaque to clients.
+ */
+import { validateBoolean } from "./validation.js";
+
+/**
+ * Invalid or mismatched cursor; reported to the caller as a 400
+ */
+export class CursorError extends Error {
+  constructor(message = "Invalid cursor") {
+    super(message);
+    this.name = "CursorError";
+  }
+}
+
+/**
+ * Encode the sort values of a row into a cursor
+ *
+ * @param {string} sort - Name of the ordering the cursor belongs to
+ * @param {Array} values - Values of the keyset columns, in order
+ */
+export function encodeCursor(sort, values) {
+  return btoa(JSON.stringify([sort, ...values]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decode a cursor; null when none was given
+ *
+ * @param {string|null} cursor
+ * @param {string} sort - Ordering of the current request; cursors from
+ *   another ordering are rejected
+ * @param {number} size - Number of keyset columns
+ */
+export function decodeCursor(cursor, sort, size) {
+  if (!cursor) return null;
+
+  let decoded;
+  try {
+    decoded = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    throw new CursorError();
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== size + 1) {
+    throw new CursorError();
+  }
+  if (decoded[0] !== sort) {
+    throw new CursorError("Cursor belongs to a different sort order");
+  }
+  return decoded.slice(1);
+}
+
+/**
+ * SQL condition selecting rows after the cursor, for columns all sorted
+ * DESC: (a, b) < (x, y). The leading "a <= x" lets SQLite range-scan an
+ * index on the first column.
+ *
+ * @param {Array<string>} columns - Keyset column expressions
+ * @param {Array} values - Decoded cursor values
+ */
+export function keysetCondition(columns, values) {
+  const branches = [];
+  const params = [values[0]];
+
+  columns.forEach((column, index) => {
+    const equalities = columns.slice(0, index).map((prior) => `${prior} = ?`);
+    branches.push([...equalities, `${column} < ?`].join(" AND "));
+    params.push(...values.slice(0, index), values[index]);
+  });
+
+  return {
+    sql: `${columns[0]} <= ? AND ((${branches.join(") OR (")}))`,
+    params,
+  };
+}
+
+/**
+ * Trim a result fetched with LIMIT limit + 1 to the page, and build the
+ * cursor of the next page from its last row
+ *
+ * @param {Array<object>} rows
+ * @param {number} limit
+ * @param {string} sort
+ * @param {Array<string>} keys - Row properties holding the keyset values
+ */
+export function toCursorPage(rows, limit, sort, keys) {
+  const hasNextPage = rows.length > limit;
+  const page = hasNextPage ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    rows: page,
+    nextCursor:
+      hasNextPage && last
+        ? encodeCursor(
+            sort,
+            keys.map((key) => last[key])
+          )
+        : null,
+  };
+}
+
+/**
+ * Whether the caller asked for a total count (?include_total=true)
+ */
+export function wantsTotal(searchParams) {
+  return validateBoolean(searchParams.get("include_total"));
+}
@@ -0,0 +1,267 @@
+/**
+ * Insider position reconstruction
+ *
+ * Every Form 4/5 transaction reports the shares owned after it
+ * (shares_owned_following), and Forms 3-5 list untouched positions as
+ * holdings. Replaying both in date order gives each insider's position
+ * timeline per issuer and security. Direct and indirect ownership are
+ * separate positions, and so is each kind of indirect ownership ("By
+ * Trust", "By Spouse") and each option grant (strike and expiration).
+ */
+
+/**
+ * Observations (transactions and reported holdings) on completed filings,
+ * oldest first. `scope` restricts the reporting owner or issuer; every
+ * reporting owner on a joint filing is credited with its positions, as the
+ * insider trades endpoint does.
+ *
+ * @param {DatabaseService} dbService
+ * @param {{ personCik?: string, issuerCik?: string }} scope - Person CIKs
+ *   standardized (standardizeCik), issuer CIKs without the ".0" suffix
+ */
+export async function getPositionObservations(dbService, scope) {
+  const { condition, params } = scope.personCik
+    ? { condition: "p.cik = ?", params: [scope.personCik] }
+    : {
+        condition: "(i.cik = ? OR i.cik = ?)",
+        params: [scope.issuerCik, `${scope.issuerCik}.0`],
+      };
+
+  const sql = `
+    SELECT
+      'transaction' as source,
+      i.cik as issuer_cik,
+      i.name as issuer_name,
+      i.trading_symbol,
+      p.cik as person_cik,
+      p.name as person_name,
+      pr.is_director,
+      pr.is_officer,
+      pr.officer_title,
+      pr.is_ten_percent_owner,
+      f.accession_number,
+      f.filed_at,
+      it.transaction_date as date,
+      it.security_title,
+      it.transaction_type as security_type,
+      it.direct_or_indirect,
+      it.nature_of_ownership,
+      it.exercise_price,
+      it.expiration_date,
+      it.transaction_code,
+      it.acquired_disposed_code,
+      it.shares_transacted,
+      it.price_per_share,
+      it.shares_owned_following as shares,
+      it.id as row_id
+    FROM insider_transactions it
+    JOIN filings f ON it.filing_id = f.id
+    JOIN issuers i ON f.issuer_id = i.id
+    JOIN person_relationships pr ON f.id = pr.filing_id
+    JOIN persons p ON pr.person_id = p.id
+    WHERE ${condition}
+      AND it.is_active = TRUE
+      AND f.status = 'completed'
+
+    UNION ALL
+
+    SELECT
+      'holding' as source,
+      i.cik,
+      i.name,
+      i.trading_symbol,
+      p.cik,
+      p.name,
+      pr.is_director,
+      pr.is_officer,
+      pr.officer_title,
+      pr.is_ten_percent_owner,
+      f.accession_number,
+      f.filed_at,
+      COALESCE(f.period_of_report, date(f.filed_at)),
+      ih.security_title,
+      ih.holding_type,
+      ih.direct_or_indirect,
+      ih.nature_of_ownership,
+      ih.exercise_price,
+      ih.expiration_date,
+      NULL,
+      NULL,
+      NULL,
+      NULL,
+      ih.shares_owned,
+      ih.id
+    FROM insider_holdings ih
+    JOIN filings f ON ih.filing_id = f.id
+    JOIN issuers i ON f.issuer_id = i.id
+    JOIN person_relationships pr ON f.id = pr.filing_id
+    JOIN persons p ON pr.person_id = p.id
+    WHERE ${condition}
+      AND ih.is_active = TRUE
+      AND f.status = 'completed'
+
+    ORDER BY date ASC, filed_at ASC, source ASC, row_id ASC
+  `;
+
+  return dbService.executeQuery(sql, [...params, ...params]);
+}
+
+/**
+ * Replay observations into position timelines, one per insider, issuer and
+ * position. Each history entry records the shares held afterwards and the
+ * change from the previous entry.
+ *
+ * @param {Array<object>} observations - From getPositionObservations
+ */
+export function buildPositions(observations) {
+  const positions = new Map();
+
+  for (const row of observations) {
+    const key = positionKey(row);
+    let position = positions.get(key);
+
+    if (!position) {
+      position = {
+        person_cik: row.person_cik,
+        person_name: row.person_name,
+        issuer_cik: row.issuer_cik,
+        issuer_name: row.issuer_name,
+        trading_symbol: row.trading_symbol,
+        security_title: row.security_title,
+        security_type: row.security_type,
+        direct_or_indirect: row.direct_or_indirect,
+        nature_of_ownership: row.nature_of_ownership,
+        exercise_price: row.exercise_price,
+        expiration_date: row.expiration_date,
+        first_reported: row.date,
+        history: [],
+      };
+      positions.set(key, position);
+    }
+
+    const previous = position.history[position.history.length - 1];
+    position.history.push({
+      date: row.date,
+      shares: row.shares,
+      change: previous ? row.shares - previous.shares : null,
+      source: row.source,
+      transaction_code: row.transaction_code,
+      acquired_disposed_code: row.acquired_disposed_code,
+      shares_transacted: row.shares_transacted,
+      price_per_share: row.price_per_share,
+      accession_number: row.accession_number,
+    });
+
+    // Latest filing's wording and the insider's role at the time
+    position.security_title = row.security_title;
+    position.nature_of_ownership = row.nature_of_ownership;
+    position.role = {
+      is_director: row.is_director,
+      is_officer: row.is_officer,
+      officer_title: row.officer_title,
+      is_ten_percent_owner: row.is_ten_percent_owner,
+    };
+  }
+
+  return [...positions.values()].map((position) => {
+    const latest = position.history[position.history.length - 1];
+    return {
+      ...position,
+      current_shares: latest.shares,
+      last_reported: latest.date,
+      last_change: latest.change,
+    };
+  });
+}
+
+/**
+ * Group positions by insider: direct, indirect and total shares of stock
+ * held, the role on their latest filing and each position without its
+ * history. Largest holders first.
+ *
+ * @param {Array<object>} positions - From buildPositions
+ * @param {{ includeDerivatives?: boolean }} options - List options and other
+ *   derivatives among each insider's positions (never counted as shares)
+ */
+export function buildHolders(positions, { includeDerivatives = false } = {}) {
+  const holders = new Map();
+  for (const position of positions) {
+    const isDerivative = position.security_type === "derivative";
+    if (isDerivative && !includeDerivatives) continue;
+
+    let holder = holders.get(position.person_cik);
+    if (!holder) {
+      holder = {
+        person_cik: position.person_cik,
+        person_name: position.person_name,
+        direct_shares: 0,
+        indirect_shares: 0,
+        total_shares: 0,
+        last_reported: position.last_reported,
+        positions: [],
+      };
+      holders.set(position.person_cik, holder);
+    }
+
+    // Shares held outright; options and other derivatives are listed only
+    if (!isDerivative) {
+      const key = position.direct_or_indirect === "I" ? "indirect_shares" : "direct_shares";
+      holder[key] += position.current_shares;
+      holder.total_shares += position.current_shares;
+    }
+
+    if (position.last_reported >= holder.last_reported) {
+      holder.last_reported = position.last_reported;
+      Object.assign(holder, position.role);
+    }
+
+    const { history, role, person_cik, person_name, ...summary } = position;
+    holder.positions.push(summary);
+  }
+
+  return [...holders.values()]
+    .map((holder) => ({
+      ...holder,
+      positions: holder.positions.sort(compareHoldings),
+    }))
+    .sort(
+      (a, b) =>
+        b.total_shares - a.total_shares ||
+        b.last_reported.localeCompare(a.last_reported)
+    );
+}
+
+// Stock before derivatives, direct before indirect, then largest first
+export function compareHoldings(a, b) {
+  return (
+    (a.security_type === "derivative") - (b.security_type === "derivative") ||
+    (a.direct_or_indirect === "I") - (b.direct_or_indirect === "I") ||
+    b.current_shares - a.current_shares
+  );
+}
+
+// Titles and ownership notes vary in case, punctuation and spacing
+function normalize(text) {
+  return (text || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// "Common Stock, $0.01 par value", "Common Shares" and "Common" are the
+// same security
+function normalizeSecurityTitle(title) {
+  return normalize((title || "").replace(/,?\s*(\$?[\d.]+\s*)?par value.*$/i, ""))
+    .replace(/\bshares\b/g, "stock")
+    .replace(/\b(common|ordinary)( stock)?\b/g, "$1 stock");
+}
+
+function positionKey(row) {
+  return [
+    row.person_cik,
+    row.issuer_cik,
+    row.security_type,
+    normalizeSecurityTitle(row.security_title),
+    row.direct_or_indirect,
+    row.direct_or_indirect === "I" ? normalize(row.nature_of_ownership) : "",
+    row.security_type === "derivative" ? row.exercise_price : "",
+    row.security_type === "derivative" ? row.expiration_date : "",
+  ].join("|");
+}
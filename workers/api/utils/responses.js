@@ -40,9 +40,24 @@ export function createHealthResponse(env) {
         "/api/trades/important",
         "/api/trades/first-buys",
         "/api/trades/clusters",
+        "/api/trades/cluster-sells",
+        "/api/trades/anomalies",
         "/api/trades/company",
         "/api/trades/insider",
+        "/api/holdings/company",
+        "/api/holdings/insider",
+        "/api/filings/failed",
+        "/api/filings/requeue",
+        "/api/signals/returns",
+        "/api/metrics/history",
+        "/api/search",
+        "/api/sectors",
         "/api/filing/{accessionNumber}",
+        "/api/insider/{cik}/stats",
+        "/api/insider/{cik}/positions",
+        "/api/company/{cik}/holders",
+        "/api/company/{cik}/summary",
+        "/api/sectors/{sector}",
         "/api/health",
       ],
     },
@@ -1,25 +1,51 @@
-import { downloadAndParseFiling } from "./src/xml-parser.js";
 import {
-  extractIssuerInfo,
-  extractReportingOwnerInfo,
-  extractNonDerivativeTransactions,
-  extractDerivativeTransactions,
-  extractFootnotes,
-  extractSignatures,
-} from "./src/data-extractor.js";
+  downloadAndParseFiling,
+  parseOwnershipXml,
+} from "./src/xml-parser.js";
+import { extractFilingData } from "./src/data-extractor.js";
+import {
+  enrichIssuer,
+  enrichIssuerIfStale,
+  listIssuersToEnrich,
+} from "./src/issuer-enrichment.js";
+import { publishFilingCompleted } from "./src/signal-events.js";
 import {
   storeForm4Data,
+  getStoredFiling,
+  listReprocessableFilings,
   updateFilingStatus,
   updateProcessedFilingStatus,
+  recordProcessingFailure,
+  recordDeadLetter,
   extractAccessionNumber,
 } from "./src/database.js";
 
+// Maximum filings re-processed per /reprocess request
+const REPROCESS_BATCH_LIMIT = 50;
+
+// Maximum issuers enriched per /enrich-issuers request
+const ENRICH_BATCH_LIMIT = 50;
+
+// Queue receiving filings that exhausted max_retries (see wrangler.toml)
+const DEAD_LETTER_QUEUE = "filing-processing-dlq";
+
+// Retry backoff: 1, 2, 4, 8... minutes, capped at one hour
+const RETRY_BASE_DELAY_SECONDS = 60;
+const RETRY_MAX_DELAY_SECONDS = 3600;
+
 /**
- * Form 4 Processor Worker - Extracts data from SEC Form 4 filings
- * Triggered by queue messages from RSS monitor
+ * Form 4 Processor Worker - Extracts data from SEC ownership filings
+ * (Forms 3, 4 and 5, which share the same XML ownershipDocument schema)
+ * Triggered by queue messages from RSS monitor. Storage is idempotent, so
+ * retried messages and POST /reprocess (rebuild from stored raw_xml) are safe.
+ * Completed filings are published to the signal update queue.
  */
 export default {
   async queue(batch, env) {
+    if (batch.queue === DEAD_LETTER_QUEUE) {
+      return handleDeadLetters(batch, env);
+    }
+
     console.log(`Processing batch of ${batch.messages.length} filings`);
 
     for (const message of batch.messages) {
@@ -32,37 +58,37 @@ export default {
         console.log(`Processing filing: ${accessionNumber}`);
 
         // 1. Download and parse the XML into a document object
-        const doc = await downloadAndParseFiling(filing.filing_url);
+        const doc = await downloadAndParseFiling(filing.filing_url, env);
 
         // 2. Extract structured data from the document
-        const filingData = {
-          raw: doc.raw, // Keep raw XML for storage
-          issuer: extractIssuerInfo(doc),
-          reportingOwner: extractReportingOwnerInfo(doc),
-          nonDerivativeTransactions: extractNonDerivativeTransactions(doc),
-          derivativeTransactions: extractDerivativeTransactions(doc),
-          footnotes: extractFootnotes(doc),
-          signatures: extractSignatures(doc),
-          periodOfReport: doc.periodOfReport || null,
-        };
+        const filingData = extractFilingData(doc);
 
         // 3. Store the comprehensive data in the database
         await storeForm4Data(filing, filingData, env.DB);
+        await enrichIssuerIfStale(filingData.issuer.cik, env);
 
         // 4. Update status to "completed"
         await updateFilingStatus(accessionNumber, "completed", env.DB);
         await updateProcessedFilingStatus(accessionNumber, "completed", env.DB);
+        await publishFilingCompleted(accessionNumber, env);
 
         console.log(`Successfully processed filing: ${accessionNumber}`);
         message.ack();
       } catch (error) {
-        console.error(`Error processing filing ${accessionNumber}:`, error);
+        console.error(
+          `Error processing filing ${accessionNumber} (attempt ${message.attempts}):`,
+          error
+        );
 
-        // Update status to "failed"
-        await updateFilingStatus(accessionNumber, "failed", env.DB);
-        await updateProcessedFilingStatus(accessionNumber, "failed", env.DB);
+        // Record why it failed, then retry with backoff. After max_retries
+        // the queue hands the message to the dead-letter queue.
+        try {
+          await recordProcessingFailure(accessionNumber, error, filing, env.DB);
+        } catch (e) {
+          console.error("Could not record failure:", e);
+        }
 
-        message.retry();
+        message.retry({ delaySeconds: getRetryDelaySeconds(message.attempts) });
       }
     }
   },
@@ -86,10 +112,54 @@ export default {
       return handleDirectProcessing(request, env);
     }
 
+    // Re-process stored filings from their raw XML
+    if (url.pathname === "/reprocess" && request.method === "POST") {
+      return handleReprocess(request, env);
+    }
+
+    // Backfill issuer SIC code, state of incorporation and address
+    if (url.pathname === "/enrich-issuers" && request.method === "POST") {
+      return handleEnrichIssuers(request, env);
+    }
+
     return new Response("Form 4 Processor Worker", { status: 200 });
   },
 };
 
+/**
+ * Exponential backoff for the given (1-based) delivery attempt
+ */
+function getRetryDelaySeconds(attempts) {
+  return Math.min(
+    RETRY_BASE_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY_SECONDS
+  );
+}
+
+/**
+ * Record filings that exhausted their retries so they show up on the
+ * failure dashboard and can be requeued from the API
+ */
+async function handleDeadLetters(batch, env) {
+  console.log(`Recording ${batch.messages.length} dead-lettered filings`);
+
+  for (const message of batch.messages) {
+    const filing = message.body;
+    const accessionNumber =
+      filing.accession_number ||
+      extractAccessionNumber(filing.entry_id, filing.filing_url);
+
+    try {
+      await recordDeadLetter(accessionNumber, filing, env.DB);
+      console.log(`Dead-lettered filing: ${accessionNumber}`);
+    } catch (error) {
+      console.error(`Could not record dead letter ${accessionNumber}:`, error);
+    }
+
+    message.ack();
+  }
+}
+
 /**
  * Handle direct processing request (bypasses queue)
  * Used by historical-importer for faster bulk processing
@@ -118,26 +188,19 @@ async function handleDirectProcessing(request, env) {
     console.log(`Direct processing filing: ${accessionNumber}`);
 
     // 1. Download and parse the XML into a document object
-    const doc = await downloadAndParseFiling(filing.filing_url);
+    const doc = await downloadAndParseFiling(filing.filing_url, env);
 
     // 2. Extract structured data from the document
-    const filingData = {
-      raw: doc.raw,
-      issuer: extractIssuerInfo(doc),
-      reportingOwner: extractReportingOwnerInfo(doc),
-      nonDerivativeTransactions: extractNonDerivativeTransactions(doc),
-      derivativeTransactions: extractDerivativeTransactions(doc),
-      footnotes: extractFootnotes(doc),
-      signatures: extractSignatures(doc),
-      periodOfReport: doc.periodOfReport || null,
-    };
+    const filingData = extractFilingData(doc);
 
     // 3. Store the comprehensive data in the database
     await storeForm4Data(filing, filingData, env.DB);
+    await enrichIssuerIfStale(filingData.issuer.cik, env);
 
     // 4. Update status to "completed"
     await updateFilingStatus(accessionNumber, "completed", env.DB);
     await updateProcessedFilingStatus(accessionNumber, "completed", env.DB);
+    await publishFilingCompleted(accessionNumber, env);
 
     console.log(`Successfully processed filing: ${accessionNumber}`);
 
@@ -162,8 +225,7 @@ async function handleDirectProcessing(request, env) {
         filing.accession_number ||
         extractAccessionNumber(filing.entry_id, filing.filing_url);
       
-      await updateFilingStatus(accessionNumber, "failed", env.DB);
-      await updateProcessedFilingStatus(accessionNumber, "failed", env.DB);
+      await recordProcessingFailure(accessionNumber, error, filing, env.DB);
     } catch (e) {
       console.error("Could not update failed status:", e);
     }
@@ -181,3 +243,193 @@ async function handleDirectProcessing(request, env) {
   }
 }
 
+
+/**
+ * Handle re-processing request
+ *
+ * Rebuilds stored filings from raw_xml without re-fetching from SEC, e.g. to
+ * roll out extractor fixes over historical data. Accepts either
+ * { accession_number } / { accession_numbers: [...] }, or bulk mode
+ * { bulk: true, after_id, limit } which pages through all stored filings in
+ * id order; pass the returned next_after_id to continue.
+ */
+async function handleReprocess(request, env) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    let accessionNumbers;
+    let nextAfterId = null;
+
+    if (body.bulk) {
+      const limit = Math.min(
+        Math.max(parseInt(body.limit) || 25, 1),
+        REPROCESS_BATCH_LIMIT
+      );
+      const filings = await listReprocessableFilings(
+        parseInt(body.after_id) || 0,
+        limit,
+        env.DB
+      );
+      accessionNumbers = filings.map((filing) => filing.accession_number);
+      nextAfterId =
+        filings.length === limit ? filings[filings.length - 1].id : null;
+    } else {
+      accessionNumbers =
+        body.accession_numbers ||
+        (body.accession_number ? [body.accession_number] : []);
+
+      if (accessionNumbers.length === 0) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "Provide accession_number, accession_numbers or bulk: true",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const results = [];
+    for (const accessionNumber of accessionNumbers.slice(0, REPROCESS_BATCH_LIMIT)) {
+      try {
+        await reprocessFiling(accessionNumber, env);
+        results.push({ accessionNumber, success: true });
+      } catch (error) {
+        console.error(`Error re-processing filing ${accessionNumber}:`, error);
+        results.push({ accessionNumber, success: false, error: error.message });
+      }
+    }
+
+    const failed = results.filter((result) => !result.success).length;
+    console.log(
+      `Re-processed ${results.length - failed} filings, ${failed} failed`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: failed === 0,
+        processed: results.length - failed,
+        failed,
+        results,
+        next_after_id: nextAfterId,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in re-processing:", error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || "Re-processing failed",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+}
+
+/**
+ * Handle issuer enrichment backfill
+ *
+ * Enriches issuers that were never enriched (or not recently) from EDGAR
+ * submissions metadata. New filings enrich their issuer as they are
+ * processed; this catches up issuers stored before that. Accepts
+ * { limit }; call again while `remaining` is true.
+ */
+async function handleEnrichIssuers(request, env) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const limit = Math.min(
+      Math.max(parseInt(body.limit) || 25, 1),
+      ENRICH_BATCH_LIMIT
+    );
+
+    const issuerCiks = await listIssuersToEnrich(limit, env.DB);
+
+    const results = [];
+    for (const issuerCik of issuerCiks) {
+      try {
+        const enriched = await enrichIssuer(issuerCik, env);
+        results.push({ cik: issuerCik, success: true, enriched });
+      } catch (error) {
+        console.error(`Error enriching issuer ${issuerCik}:`, error);
+        results.push({ cik: issuerCik, success: false, error: error.message });
+      }
+    }
+
+    const failed = results.filter((result) => !result.success).length;
+
+    return new Response(
+      JSON.stringify({
+        success: failed === 0,
+        processed: results.length - failed,
+        failed,
+        results,
+        remaining: issuerCiks.length === limit,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in issuer enrichment:", error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || "Issuer enrichment failed",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+}
+
+/**
+ * Re-process a single stored filing from its raw XML. Storage runs in one
+ * batch, so a failure leaves the previously stored data untouched.
+ */
+async function reprocessFiling(accessionNumber, env) {
+  const stored = await getStoredFiling(accessionNumber, env.DB);
+  if (!stored) {
+    throw new Error(`Filing ${accessionNumber} not found`);
+  }
+  if (!stored.raw_xml) {
+    throw new Error(`Filing ${accessionNumber} has no stored raw XML`);
+  }
+
+  // 1. Parse the stored XML into a document object
+  const doc = parseOwnershipXml(stored.raw_xml);
+
+  // 2. Extract structured data with the current extractor
+  const filingData = extractFilingData(doc);
+
+  // 3. Rebuild the filing's rows
+  await storeForm4Data(
+    {
+      accession_number: stored.accession_number,
+      filing_url: stored.filing_url,
+      published_date: stored.filed_at,
+      filing_type: stored.filing_type,
+    },
+    filingData,
+    env.DB
+  );
+
+  // 4. Update status to "completed"
+  await updateFilingStatus(accessionNumber, "completed", env.DB);
+  await updateProcessedFilingStatus(accessionNumber, "completed", env.DB);
+  await publishFilingCompleted(accessionNumber, env);
+}
@@ -14,8 +14,8 @@ function getFieldValue(field) {
   // Handle objects with value property
   if (field.value !== undefined) return field.value;
 
-  // Handle footnote references - return null for now
-  // In future, could resolve footnote text if needed
+  // Footnote-only fields carry no value; the ids themselves are picked up
+  // per transaction by collectFootnoteIds()
   if (field.footnoteId || field["@_id"]) return null;
 
   // Return the field itself if it's a primitive
@@ -24,6 +24,34 @@ function getFieldValue(field) {
   return null;
 }
 
+/**
+ * Collect every footnote id referenced anywhere inside a field or node.
+ * Footnote references appear as <footnoteId id="F1"/> next to (or instead of)
+ * a <value>, and can be nested several levels deep, so we walk the whole node.
+ */
+function collectFootnoteIds(node, ids = new Set()) {
+  if (!node || typeof node !== "object") return ids;
+
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectFootnoteIds(child, ids));
+    return ids;
+  }
+
+  for (const [key, child] of Object.entries(node)) {
+    if (key === "footnoteId") {
+      const refs = Array.isArray(child) ? child : [child];
+      for (const ref of refs) {
+        const id = ref && typeof ref === "object" ? ref["@_id"] : null;
+        if (id) ids.add(id);
+      }
+    } else {
+      collectFootnoteIds(child, ids);
+    }
+  }
+
+  return ids;
+}
+
 /**
  * Safely parse float values, handling null, undefined, and NaN
  */
@@ -33,6 +61,27 @@ function parseFloatSafe(value) {
   return isNaN(parsed) ? 0 : parsed;
 }
 
+/**
+ * Extract everything we store from a parsed ownership document
+ */
+export function extractFilingData(doc) {
+  return {
+    raw: doc.raw, // Keep raw XML for storage
+    documentUrl: doc.documentUrl || null, // Primary XML it was downloaded from
+    documentType: extractDocumentType(doc),
+    issuer: extractIssuerInfo(doc),
+    reportingOwners: extractReportingOwners(doc),
+    nonDerivativeTransactions: extractNonDerivativeTransactions(doc),
+    derivativeTransactions: extractDerivativeTransactions(doc),
+    nonDerivativeHoldings: extractNonDerivativeHoldings(doc),
+    derivativeHoldings: extractDerivativeHoldings(doc),
+    footnotes: extractFootnotes(doc),
+    signatures: extractSignatures(doc),
+    periodOfReport: doc.periodOfReport || null,
+    dateOfOriginalSubmission: extractDateOfOriginalSubmission(doc),
+  };
+}
+
 /**
  * Extract issuer (company) information
  */
@@ -46,12 +95,29 @@ export function extractIssuerInfo(doc) {
 }
 
 /**
- * Extract reporting owner (insider) information
+ * Extract all reporting owners (insiders) on the filing.
+ * Joint filings (e.g. a fund, its GP and managing members) list several
+ * <reportingOwner> elements; the first one listed is treated as primary.
  */
-export function extractReportingOwnerInfo(doc) {
-  if (!doc.reportingOwner) return null;
+export function extractReportingOwners(doc) {
+  if (!doc.reportingOwner) return [];
+
+  const owners = Array.isArray(doc.reportingOwner)
+    ? doc.reportingOwner
+    : [doc.reportingOwner];
 
-  const owner = doc.reportingOwner;
+  return owners
+    .map(extractReportingOwnerInfo)
+    .filter(
+      (owner, index, all) =>
+        owner.cik && all.findIndex((o) => o.cik === owner.cik) === index
+    );
+}
+
+/**
+ * Extract a single reporting owner's identity and relationship to the issuer
+ */
+function extractReportingOwnerInfo(owner) {
   const relationship = owner.reportingOwnerRelationship || {};
 
   const isDirector =
@@ -86,6 +152,33 @@ export function extractReportingOwnerInfo(doc) {
     isOfficer,
     isTenPercentOwner,
     isOther,
+    address: extractReportingOwnerAddress(owner.reportingOwnerAddress),
+  };
+}
+
+/**
+ * Extract a reporting owner's mailing address
+ */
+function extractReportingOwnerAddress(address) {
+  if (!address) return null;
+
+  const text = (field) => {
+    const value = getFieldValue(field);
+    return value !== null && value !== "" ? String(value).trim() : null;
+  };
+
+  // Numeric zip codes are parsed as numbers and lose their leading zeros
+  let zipCode = text(address.rptOwnerZipCode);
+  if (zipCode && /^\d{1,4}$/.test(zipCode)) {
+    zipCode = zipCode.padStart(5, "0");
+  }
+
+  return {
+    street1: text(address.rptOwnerStreet1),
+    street2: text(address.rptOwnerStreet2),
+    city: text(address.rptOwnerCity),
+    state: text(address.rptOwnerState),
+    zipCode,
   };
 }
 
@@ -115,6 +208,7 @@ export function extractNonDerivativeTransactions(doc) {
       t.ownershipNature?.directOrIndirectOwnership
     ),
     natureOfOwnership: getFieldValue(t.ownershipNature?.natureOfOwnership),
+    footnoteIds: [...collectFootnoteIds(t)],
   }));
 }
 
@@ -138,6 +232,7 @@ export function extractDerivativeTransactions(doc) {
     acquiredDisposedCode: getFieldValue(
       t.transactionAmounts?.transactionAcquiredDisposedCode
     ),
+    exerciseDate: getFieldValue(t.exerciseDate),
     expirationDate: getFieldValue(t.expirationDate),
     underlyingSecurity: getFieldValue(
       t.underlyingSecurity?.underlyingSecurityTitle
@@ -152,9 +247,76 @@ export function extractDerivativeTransactions(doc) {
       t.ownershipNature?.directOrIndirectOwnership
     ),
     natureOfOwnership: getFieldValue(t.ownershipNature?.natureOfOwnership),
+    footnoteIds: [...collectFootnoteIds(t)],
+  }));
+}
+
+/**
+ * Extract non-derivative holdings (positions reported without a transaction).
+ * Form 3 reports the insider's starting position entirely as holdings; Forms
+ * 4 and 5 use them for other classes of securities the owner still holds.
+ */
+export function extractNonDerivativeHoldings(doc) {
+  const holdings = doc.nonDerivativeTable?.nonDerivativeHolding || [];
+
+  return holdings.map((h) => ({
+    securityTitle: getFieldValue(h.securityTitle),
+    sharesOwned: parseFloatSafe(
+      getFieldValue(h.postTransactionAmounts?.sharesOwnedFollowingTransaction)
+    ),
+    directOrIndirect: getFieldValue(
+      h.ownershipNature?.directOrIndirectOwnership
+    ),
+    natureOfOwnership: getFieldValue(h.ownershipNature?.natureOfOwnership),
+    footnoteIds: [...collectFootnoteIds(h)],
   }));
 }
 
+/**
+ * Extract derivative holdings (options, warrants, RSUs held at filing time)
+ */
+export function extractDerivativeHoldings(doc) {
+  const holdings = doc.derivativeTable?.derivativeHolding || [];
+
+  return holdings.map((h) => ({
+    securityTitle: getFieldValue(h.securityTitle),
+    exercisePrice: parseFloatSafe(getFieldValue(h.conversionOrExercisePrice)),
+    exerciseDate: getFieldValue(h.exerciseDate),
+    expirationDate: getFieldValue(h.expirationDate),
+    underlyingSecurity: getFieldValue(
+      h.underlyingSecurity?.underlyingSecurityTitle
+    ),
+    underlyingSecurityShares: parseFloatSafe(
+      getFieldValue(h.underlyingSecurity?.underlyingSecurityShares)
+    ),
+    sharesOwned: parseFloatSafe(
+      getFieldValue(h.postTransactionAmounts?.sharesOwnedFollowingTransaction)
+    ),
+    directOrIndirect: getFieldValue(
+      h.ownershipNature?.directOrIndirectOwnership
+    ),
+    natureOfOwnership: getFieldValue(h.ownershipNature?.natureOfOwnership),
+    footnoteIds: [...collectFootnoteIds(h)],
+  }));
+}
+
+/**
+ * Extract the form type the document reports ("3", "4" or "5", with an "/A"
+ * suffix on amendments)
+ */
+export function extractDocumentType(doc) {
+  const documentType = getFieldValue(doc.documentType);
+  return documentType !== null ? String(documentType).trim() : null;
+}
+
+/**
+ * Extract the filing date of the original report an amendment (4/A) replaces
+ */
+export function extractDateOfOriginalSubmission(doc) {
+  const date = getFieldValue(doc.dateOfOriginalSubmission);
+  return date !== null ? String(date).trim() : null;
+}
+
 /**
  * Extract footnotes
  */
@@ -3,7 +3,16 @@
  */
 
 /**
- * Store comprehensive Form 4 data using the new universal schema
+ * Store comprehensive ownership filing data (Form 3, 4 or 5) using the
+ * universal schema.
+ *
+ * Idempotent: the filing row is created once and all of its child rows
+ * (relationships, transactions, holdings, footnotes, signatures) are rebuilt
+ * in a single D1 batch, so queue retries and re-processing from raw_xml never
+ * leave duplicates or partial data behind. Transactions are updated in place
+ * by their position in the filing, keeping their ids, so the signals and
+ * forward returns that reference them stay valid and visible until the
+ * signal processor rescores the filing.
  */
 export async function storeForm4Data(filing, filingData, db) {
   console.log("Starting comprehensive Form 4 data storage...");
@@ -12,17 +21,26 @@ export async function storeForm4Data(filing, filingData, db) {
     // 1. Get or create issuer (company)
     const issuerId = await getOrCreateIssuer(filingData.issuer, db);
 
-    // 2. Get or create reporting owner (person)
-    const personId = await getOrCreatePerson(filingData.reportingOwner, db);
+    // 2. Make sure the filing names at least one reporting owner
+    const reportingOwners = filingData.reportingOwners || [];
+    if (reportingOwners.length === 0) {
+      throw new Error("Invalid filing data - at least one reporting owner required");
+    }
 
-    // 3. Get filing type ID for Form 4
+    // 3. Get filing type ID from the document's own type (3, 4 or 5),
+    // falling back to the type the filing was queued with. Amendments
+    // ("4/A") share the original's filing type and are flagged instead.
+    const documentType =
+      filingData.documentType || String(filing.filing_type || "4");
+    const isAmendment = documentType.endsWith("/A");
+    const formType = documentType.replace(/\/A$/, "");
     const filingTypeResult = await db
       .prepare("SELECT id FROM filing_types WHERE type_code = ?")
-      .bind("4")
+      .bind(formType)
       .first();
 
     if (!filingTypeResult) {
-      throw new Error("Form 4 filing type not found in database");
+      throw new Error(`Form ${formType} filing type not found in database`);
     }
 
     // 4. Extract accession number
@@ -30,39 +48,77 @@ export async function storeForm4Data(filing, filingData, db) {
       filing.accession_number ||
       extractAccessionNumber(filing.entry_id, filing.filing_url);
 
-    // 5. Create the filing record
-    const filingId = await createFiling(
+    // 5. Get or create the filing record
+    const filingInfo = {
+      accessionNumber,
+      filingUrl: filing.filing_url,
+      filedAt: filing.published_date,
+      periodOfReport: filingData.periodOfReport,
+      filingTypeId: filingTypeResult.id,
+      issuerId: issuerId,
+      isAmendment,
+      originalSubmissionDate: filingData.dateOfOriginalSubmission,
+      rawXml: filingData.raw,
+      documentUrl: filingData.documentUrl,
+    };
+    const filingId = await getOrCreateFiling(filingInfo, db);
+
+    // 6. Get or create each reporting owner (person). The first owner listed
+    // is the primary one; views and signal processors count a joint filing's
+    // transactions against it only.
+    const personIds = [];
+    for (const owner of reportingOwners) {
+      personIds.push(await getOrCreatePerson(owner, db));
+    }
+
+    // 7. Rebuild the filing's rows atomically
+    const transactions = [
+      ...(filingData.nonDerivativeTransactions || []).map((t) => [t, "non_derivative"]),
+      ...(filingData.derivativeTransactions || []).map((t) => [t, "derivative"]),
+    ];
+    const holdings = [
+      ...(filingData.nonDerivativeHoldings || []).map((h) => [h, "non_derivative"]),
+      ...(filingData.derivativeHoldings || []).map((h) => [h, "derivative"]),
+    ];
+
+    await db.batch([
+      buildFilingUpdate(filingId, filingInfo, db),
+      ...buildChildCleanup(filingId, db),
+      ...reportingOwners.map((owner, index) =>
+        buildPersonRelationship(filingId, personIds[index], owner, index === 0, db)
+      ),
+      // Footnotes first so transactions and holdings can be linked to them
+      ...buildFootnotes(filingId, filingData.footnotes, db),
+      ...transactions.flatMap(([transaction, transactionType], position) =>
+        buildTransaction(filingId, position, transaction, transactionType, db)
+      ),
+      ...buildTransactionTrim(filingId, transactions.length, db),
+      ...holdings.flatMap(([holding, holdingType]) =>
+        buildHolding(filingId, holding, holdingType, db)
+      ),
+      buildFlag10b51Transactions(filingId, db),
+      ...buildSignatures(filingId, filingData.signatures, db),
+    ]);
+
+    // 8. Link amendments to their original and keep only the latest
+    // version of the chain active
+    await resolveAmendmentChain(
+      filingId,
       {
         accessionNumber,
-        filingUrl: filing.filing_url,
         filedAt: filing.published_date,
-        periodOfReport: filingData.periodOfReport,
+        issuerId,
         filingTypeId: filingTypeResult.id,
-        issuerId: issuerId,
-        rawXml: filingData.raw,
+        ownerCik: reportingOwners[0].cik,
+        periodOfReport: filingData.periodOfReport,
+        isAmendment,
+        originalSubmissionDate: filingData.dateOfOriginalSubmission,
       },
       db
     );
 
-    // 6. Create person relationship record
-    await createPersonRelationship(
-      filingId,
-      personId,
-      filingData.reportingOwner,
-      db
-    );
-
-    // 7. Store all transactions
-    const transactionCount = await storeTransactions(filingId, filingData, db);
-
-    // 8. Store footnotes
-    await storeFootnotes(filingId, filingData.footnotes, db);
-
-    // 9. Store signatures
-    await storeSignatures(filingId, filingData.signatures, db);
-
     console.log(
-      `Successfully stored Form 4 data: ${transactionCount} transactions, filing ID: ${filingId}`
+      `Successfully stored Form ${documentType} data: ${transactions.length} transactions, ${holdings.length} holdings, filing ID: ${filingId}`
     );
     return filingId;
   } catch (error) {
@@ -71,6 +127,45 @@ export async function storeForm4Data(filing, filingData, db) {
   }
 }
 
+/**
+ * Load a stored filing for re-processing from its raw XML
+ */
+export async function getStoredFiling(accessionNumber, db) {
+  return db
+    .prepare(
+      `
+      SELECT f.id, f.accession_number, f.filing_url, f.filed_at, f.raw_xml,
+             ft.type_code AS filing_type
+      FROM filings f
+      JOIN filing_types ft ON f.filing_type_id = ft.id
+      WHERE f.accession_number = ?
+    `
+    )
+    .bind(accessionNumber)
+    .first();
+}
+
+/**
+ * List accession numbers of stored filings that have raw XML, in id order,
+ * starting after the given filing id (for paging through bulk re-processing)
+ */
+export async function listReprocessableFilings(afterId, limit, db) {
+  const { results } = await db
+    .prepare(
+      `
+      SELECT id, accession_number
+      FROM filings
+      WHERE id > ? AND raw_xml IS NOT NULL
+      ORDER BY id ASC
+      LIMIT ?
+    `
+    )
+    .bind(afterId, limit)
+    .all();
+
+  return results;
+}
+
 /**
  * Get or create issuer (company) record
  */
@@ -138,184 +233,573 @@ async function getOrCreatePerson(personData, db) {
 }
 
 /**
- * Create filing record
+ * Get or create filing record. New rows start as "processing"; every other
+ * column is (re)written by buildFilingUpdate in the storage batch.
  */
-async function createFiling(filingInfo, db) {
-  const result = await db
+async function getOrCreateFiling(filingInfo, db) {
+  await db
     .prepare(
       `
-      INSERT INTO filings (
-        accession_number, filing_url, filed_at, period_of_report, 
-        filing_type_id, issuer_id, raw_xml, status
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, 'processing')
+      INSERT OR IGNORE INTO filings (
+        accession_number, filing_url, filed_at, filing_type_id, issuer_id, status
+      ) VALUES (?, ?, ?, ?, ?, 'processing')
     `
     )
     .bind(
       filingInfo.accessionNumber,
       filingInfo.filingUrl,
       filingInfo.filedAt,
-      filingInfo.periodOfReport,
       filingInfo.filingTypeId,
-      filingInfo.issuerId,
-      filingInfo.rawXml
+      filingInfo.issuerId
     )
     .run();
 
-  return result.meta.last_row_id;
+  const filing = await db
+    .prepare("SELECT id FROM filings WHERE accession_number = ?")
+    .bind(filingInfo.accessionNumber)
+    .first();
+
+  return filing.id;
 }
 
 /**
- * Create person relationship record
+ * Statement that writes the filing's own columns
  */
-async function createPersonRelationship(filingId, personId, personData, db) {
-  const relationship = personData.relationship || "";
-  const isDirector = relationship.toLowerCase().includes("director");
-  const isOfficer = relationship.toLowerCase().includes("officer");
-  const isTenPercent =
-    relationship.toLowerCase().includes("10%") ||
-    relationship.toLowerCase().includes("ten percent");
-  const isOther =
-    !isDirector && !isOfficer && !isTenPercent && relationship.length > 0;
-
-  await db
+function buildFilingUpdate(filingId, filingInfo, db) {
+  return db
     .prepare(
       `
-      INSERT INTO person_relationships (
-        filing_id, person_id, is_director, is_officer, 
-        is_ten_percent_owner, is_other, officer_title
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      UPDATE filings SET
+        filing_url = ?, filed_at = ?, period_of_report = ?,
+        filing_type_id = ?, issuer_id = ?, is_amendment = ?,
+        original_submission_date = ?, raw_xml = ?,
+        document_url = COALESCE(?, document_url),
+        -- A completed filing stays visible while it is re-processed
+        status = CASE WHEN status = 'completed' THEN status ELSE 'processing' END,
+        error_message = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
     `
     )
     .bind(
-      filingId,
-      personId,
-      isDirector,
-      isOfficer,
-      isTenPercent,
-      isOther,
-      personData.officerTitle
-    )
-    .run();
+      filingInfo.filingUrl,
+      filingInfo.filedAt,
+      filingInfo.periodOfReport,
+      filingInfo.filingTypeId,
+      filingInfo.issuerId,
+      filingInfo.isAmendment ? 1 : 0,
+      filingInfo.originalSubmissionDate || null,
+      filingInfo.rawXml,
+      filingInfo.documentUrl || null,
+      filingId
+    );
 }
 
 /**
- * Store all transactions (both non-derivative and derivative)
+ * Statements that remove everything previously stored for the filing except
+ * its transactions, which buildTransaction rewrites in place. Signals keep
+ * pointing at them; the signal processor rescores the filing on its next
+ * run.
  */
-async function storeTransactions(filingId, filingData, db) {
-  let transactionCount = 0;
-
-  if (filingData.nonDerivativeTransactions) {
-    for (const transaction of filingData.nonDerivativeTransactions) {
-      await storeTransaction(filingId, transaction, "non_derivative", db);
-      transactionCount++;
-    }
-  }
-
-  if (filingData.derivativeTransactions) {
-    for (const transaction of filingData.derivativeTransactions) {
-      await storeTransaction(filingId, transaction, "derivative", db);
-      transactionCount++;
-    }
-  }
+function buildChildCleanup(filingId, db) {
+  return [
+    "DELETE FROM transaction_footnotes WHERE transaction_id IN (SELECT id FROM insider_transactions WHERE filing_id = ?)",
+    "DELETE FROM holding_footnotes WHERE holding_id IN (SELECT id FROM insider_holdings WHERE filing_id = ?)",
+    "DELETE FROM insider_holdings WHERE filing_id = ?",
+    "DELETE FROM footnotes WHERE filing_id = ?",
+    "DELETE FROM signatures WHERE filing_id = ?",
+    "DELETE FROM person_relationships WHERE filing_id = ?",
+  ].map((sql) => db.prepare(sql).bind(filingId));
+}
 
-  return transactionCount;
+/**
+ * Statement that creates a person relationship record
+ */
+function buildPersonRelationship(
+  filingId,
+  personId,
+  personData,
+  isPrimaryOwner,
+  db
+) {
+  return db
+    .prepare(
+      `
+      INSERT OR IGNORE INTO person_relationships (
+        filing_id, person_id, is_director, is_officer, 
+        is_ten_percent_owner, is_other, officer_title, is_primary_owner,
+        owner_street1, owner_street2, owner_city, owner_state, owner_zip_code
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    )
+    .bind(
+      filingId,
+      personId,
+      personData.isDirector ? 1 : 0,
+      personData.isOfficer ? 1 : 0,
+      personData.isTenPercentOwner ? 1 : 0,
+      personData.isOther ? 1 : 0,
+      personData.officerTitle || null,
+      isPrimaryOwner ? 1 : 0,
+      personData.address?.street1 || null,
+      personData.address?.street2 || null,
+      personData.address?.city || null,
+      personData.address?.state || null,
+      personData.address?.zipCode || null
+    );
 }
 
+// The filing's transaction at a position (0-based, in id order)
+const TRANSACTION_AT =
+  "(SELECT id FROM insider_transactions WHERE filing_id = ? ORDER BY id LIMIT 1 OFFSET ?)";
+
 /**
- * Store individual transaction
+ * Statements that store the filing's transaction at `position` and link its
+ * footnotes: the row already at that position is updated in place (keeping
+ * its id and is_active), otherwise a new row is inserted
  */
-async function storeTransaction(filingId, transaction, transactionType, db) {
-  const transactionPrice =
-    transaction.transactionPrice || transaction.exercisePrice || 0;
+function buildTransaction(filingId, position, transaction, transactionType, db) {
+  // Value is what was paid per unit of the reported security. A derivative's
+  // exercise price is a term of the instrument, not a trade price, so it is
+  // stored on its own and never used to value the transaction.
+  const transactionPrice = transaction.transactionPrice || 0;
   const sharesTransacted = transaction.sharesTransacted || 0;
   const transactionValue = sharesTransacted * transactionPrice;
 
-  await db
+  const values = [
+    transaction.transactionDate || null,
+    transaction.securityTitle || null,
+    transactionType,
+    transaction.transactionCode || null,
+    sharesTransacted,
+    transactionPrice,
+    transaction.acquiredDisposedCode || "D",
+    transactionValue,
+    transaction.sharesOwnedAfter || 0,
+    transaction.directOrIndirect || "D",
+    transaction.natureOfOwnership || null,
+    transaction.exercisePrice || null,
+    transaction.exerciseDate || null,
+    transaction.expirationDate || null,
+    transaction.underlyingSecurity || null,
+    transaction.underlyingSecurityShares || null,
+  ];
+
+  // is_10b5_1_plan is set again from the footnotes by buildFlag10b51Transactions
+  const update = db
+    .prepare(
+      `
+      UPDATE insider_transactions SET
+        transaction_date = ?, security_title = ?, transaction_type = ?,
+        transaction_code = ?, shares_transacted = ?, price_per_share = ?,
+        acquired_disposed_code = ?, transaction_value = ?, shares_owned_following = ?,
+        direct_or_indirect = ?, nature_of_ownership = ?, exercise_price = ?,
+        exercise_date = ?, expiration_date = ?, underlying_security_title = ?,
+        underlying_security_shares = ?, is_10b5_1_plan = 0
+      WHERE id = ${TRANSACTION_AT}
+    `
+    )
+    .bind(...values, filingId, position);
+
+  const insert = db
     .prepare(
       `
       INSERT INTO insider_transactions (
         filing_id, transaction_date, security_title, transaction_type,
         transaction_code, shares_transacted, price_per_share, acquired_disposed_code,
-        transaction_value, shares_owned_following, direct_or_indirect, nature_of_ownership
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        transaction_value, shares_owned_following, direct_or_indirect, nature_of_ownership,
+        exercise_price, exercise_date, expiration_date, underlying_security_title,
+        underlying_security_shares
+      )
+      SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+      WHERE (SELECT COUNT(*) FROM insider_transactions WHERE filing_id = ?) <= ?
     `
     )
-    .bind(
+    .bind(filingId, ...values, filingId, position);
+
+  return [
+    update,
+    insert,
+    ...buildFootnoteLinks(
+      "transaction_footnotes",
+      "transaction_id",
+      TRANSACTION_AT,
+      [filingId, position],
       filingId,
-      transaction.transactionDate || null,
-      transaction.securityTitle || null,
-      transactionType,
-      transaction.transactionCode || null,
-      sharesTransacted,
-      transactionPrice,
-      transaction.acquiredDisposedCode || "D",
-      transactionValue,
-      transaction.sharesOwnedAfter || 0,
-      transaction.directOrIndirect || "D",
-      transaction.natureOfOwnership || null
+      transaction.footnoteIds,
+      db
+    ),
+  ];
+}
+
+/**
+ * Statements that delete the filing's transactions past the first `count`
+ * (a re-parse that yields fewer rows) and everything referencing them
+ */
+function buildTransactionTrim(filingId, count, db) {
+  const stale =
+    "SELECT id FROM insider_transactions WHERE filing_id = ? ORDER BY id LIMIT -1 OFFSET ?";
+
+  return [
+    "cluster_buy_trades",
+    "cluster_sell_trades",
+    "important_trade_signals",
+    "first_buy_signals",
+    "signal_forward_returns",
+    "transaction_footnotes",
+  ]
+    .map((table) => `DELETE FROM ${table} WHERE transaction_id IN (${stale})`)
+    .concat(`DELETE FROM insider_transactions WHERE id IN (${stale})`)
+    .map((sql) => db.prepare(sql).bind(filingId, count));
+}
+
+/**
+ * Statements that store an individual holding and link its footnotes
+ */
+function buildHolding(filingId, holding, holdingType, db) {
+  const insert = db
+    .prepare(
+      `
+      INSERT INTO insider_holdings (
+        filing_id, security_title, holding_type, shares_owned,
+        direct_or_indirect, nature_of_ownership, exercise_price,
+        exercise_date, expiration_date, underlying_security_title,
+        underlying_security_shares
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
     )
-    .run();
+    .bind(
+      filingId,
+      holding.securityTitle || "Unknown Security",
+      holdingType,
+      holding.sharesOwned || 0,
+      holding.directOrIndirect || "D",
+      holding.natureOfOwnership || null,
+      holding.exercisePrice || null,
+      holding.exerciseDate || null,
+      holding.expirationDate || null,
+      holding.underlyingSecurity || null,
+      holding.underlyingSecurityShares || null
+    );
+
+  return [
+    insert,
+    ...buildFootnoteLinks(
+      "holding_footnotes",
+      "holding_id",
+      "(SELECT MAX(id) FROM insider_holdings WHERE filing_id = ?)",
+      [filingId],
+      filingId,
+      holding.footnoteIds,
+      db
+    ),
+  ];
 }
 
 /**
- * Store footnotes from the parsed data
+ * Statement linking the row selected by `rowQuery` (bound with `rowParams`)
+ * to the footnotes it references by XML id ("F1", "F2", ...)
  */
-async function storeFootnotes(filingId, footnotes, db) {
-  if (!footnotes || footnotes.length === 0) return;
+function buildFootnoteLinks(linkTable, linkColumn, rowQuery, rowParams, filingId, footnoteIds, db) {
+  if (!footnoteIds || footnoteIds.length === 0) return [];
 
-  for (const footnote of footnotes) {
-    if (footnote.id && footnote.text) {
-      await db
+  const placeholders = footnoteIds.map(() => "?").join(", ");
+  return [
+    db
+      .prepare(
+        `
+        INSERT OR IGNORE INTO ${linkTable} (${linkColumn}, footnote_id)
+        SELECT ${rowQuery}, id
+        FROM footnotes
+        WHERE filing_id = ? AND footnote_id_in_xml IN (${placeholders})
+      `
+      )
+      .bind(...rowParams, filingId, ...footnoteIds),
+  ];
+}
+
+/**
+ * Statements that store the filing's footnotes
+ */
+function buildFootnotes(filingId, footnotes, db) {
+  return (footnotes || [])
+    .filter((footnote) => footnote.id && footnote.text)
+    .map((footnote) =>
+      db
         .prepare(
-          "INSERT INTO footnotes (filing_id, footnote_id_in_xml, footnote_text) VALUES (?, ?, ?)"
+          "INSERT OR IGNORE INTO footnotes (filing_id, footnote_id_in_xml, footnote_text) VALUES (?, ?, ?)"
         )
         .bind(filingId, footnote.id, footnote.text)
-        .run();
-      
-      // If this footnote mentions 10b5-1, update the is_10b5_1_plan flag on related transactions
-      if (footnote.text && footnote.text.toLowerCase().includes('10b5-1')) {
-        await db.prepare(`
-          UPDATE insider_transactions
-          SET is_10b5_1_plan = 1
-          WHERE id IN (
-            SELECT tf.transaction_id
-            FROM transaction_footnotes tf
-            JOIN footnotes fn ON fn.id = tf.footnote_id
-            WHERE fn.filing_id = ? AND fn.footnote_id_in_xml = ?
-          )
-        `).bind(filingId, footnote.id).run();
-      }
-    }
-  }
+    );
 }
 
 /**
- * Store signature information from the parsed data
+ * Statement that sets is_10b5_1_plan on every transaction of the filing that
+ * is linked to a footnote mentioning a Rule 10b5-1 trading plan
  */
-async function storeSignatures(filingId, signatures, db) {
-  if (!signatures || signatures.length === 0) return;
+function buildFlag10b51Transactions(filingId, db) {
+  return db
+    .prepare(
+      `
+      UPDATE insider_transactions
+      SET is_10b5_1_plan = 1
+      WHERE id IN (
+        SELECT tf.transaction_id
+        FROM transaction_footnotes tf
+        JOIN footnotes fn ON fn.id = tf.footnote_id
+        WHERE fn.filing_id = ?
+          AND LOWER(fn.footnote_text) LIKE '%10b5-1%'
+      )
+    `
+    )
+    .bind(filingId);
+}
 
-  for (const signature of signatures) {
-    if (signature.name || signature.date) {
-      await db
+/**
+ * Statements that store signature information from the parsed data
+ */
+function buildSignatures(filingId, signatures, db) {
+  return (signatures || [])
+    .filter((signature) => signature.name || signature.date)
+    .map((signature) =>
+      db
         .prepare(
           "INSERT INTO signatures (filing_id, signature_name, signature_date) VALUES (?, ?, ?)"
         )
         .bind(filingId, signature.name, signature.date)
-        .run();
+    );
+}
+
+/**
+ * Link an amendment to the filing it amends (or an original to amendments
+ * that were processed before it, e.g. during a backfill), then apply the
+ * chain so only its latest version is active
+ */
+async function resolveAmendmentChain(filingId, filingInfo, db) {
+  let originalAccessionNumber;
+
+  if (filingInfo.isAmendment) {
+    const original = await findOriginalFiling(filingId, filingInfo, db);
+    if (!original) {
+      console.warn(
+        `No original filing found for amendment ${filingInfo.accessionNumber}, keeping it unlinked`
+      );
+      return;
     }
+
+    await db
+      .prepare("UPDATE filings SET amends_accession_number = ? WHERE id = ?")
+      .bind(original.accession_number, filingId)
+      .run();
+    originalAccessionNumber = original.accession_number;
+  } else {
+    await db
+      .prepare(
+        `
+        UPDATE filings
+        SET amends_accession_number = ?
+        WHERE is_amendment = TRUE
+          AND amends_accession_number IS NULL
+          AND issuer_id = ?
+          AND filing_type_id = ?
+          AND original_submission_date = ?
+          AND id IN (
+            SELECT pr.filing_id
+            FROM person_relationships pr
+            JOIN persons p ON pr.person_id = p.id
+            WHERE pr.is_primary_owner = TRUE AND p.cik = ?
+          )
+      `
+      )
+      .bind(
+        filingInfo.accessionNumber,
+        filingInfo.issuerId,
+        filingInfo.filingTypeId,
+        String(filingInfo.filedAt || "").slice(0, 10),
+        filingInfo.ownerCik
+      )
+      .run();
+
+    // Re-applied even without new links: a re-processed original must not
+    // become active again over its amendments
+    originalAccessionNumber = filingInfo.accessionNumber;
   }
+
+  await applyAmendmentChain(originalAccessionNumber, db);
+}
+
+/**
+ * Find the original (non-amendment) filing for the same issuer, primary
+ * owner and form type. Matched on <dateOfOriginalSubmission> when the
+ * amendment gives one, otherwise on the period of report.
+ */
+async function findOriginalFiling(filingId, filingInfo, db) {
+  const dateColumn = filingInfo.originalSubmissionDate
+    ? "substr(f.filed_at, 1, 10)"
+    : "f.period_of_report";
+
+  return db
+    .prepare(
+      `
+      SELECT f.id, f.accession_number
+      FROM filings f
+      JOIN person_relationships pr ON pr.filing_id = f.id AND pr.is_primary_owner = TRUE
+      JOIN persons p ON pr.person_id = p.id
+      WHERE f.id != ?
+        AND f.is_amendment = FALSE
+        AND f.issuer_id = ?
+        AND f.filing_type_id = ?
+        AND p.cik = ?
+        AND ${dateColumn} = ?
+      ORDER BY f.filed_at DESC
+      LIMIT 1
+    `
+    )
+    .bind(
+      filingId,
+      filingInfo.issuerId,
+      filingInfo.filingTypeId,
+      filingInfo.ownerCik,
+      filingInfo.originalSubmissionDate || filingInfo.periodOfReport
+    )
+    .first();
+}
+
+/**
+ * Keep the transactions and holdings of the latest filing in an original +
+ * amendments chain active and deactivate everything it supersedes, including
+ * signals already computed from superseded transactions
+ */
+async function applyAmendmentChain(originalAccessionNumber, db) {
+  const { results: versions } = await db
+    .prepare(
+      `
+      SELECT id
+      FROM filings
+      WHERE accession_number = ? OR amends_accession_number = ?
+      ORDER BY filed_at DESC, id DESC
+    `
+    )
+    .bind(originalAccessionNumber, originalAccessionNumber)
+    .all();
+
+  if (versions.length < 2) return;
+
+  const [latest, ...superseded] = versions;
+  const versionIds = versions.map((version) => version.id);
+  const supersededIds = superseded.map((version) => version.id);
+  const versionPlaceholders = versionIds.map(() => "?").join(", ");
+  const supersededPlaceholders = supersededIds.map(() => "?").join(", ");
+
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE insider_transactions SET is_active = (filing_id = ?) WHERE filing_id IN (${versionPlaceholders})`
+      )
+      .bind(latest.id, ...versionIds),
+    db
+      .prepare(
+        `UPDATE insider_holdings SET is_active = (filing_id = ?) WHERE filing_id IN (${versionPlaceholders})`
+      )
+      .bind(latest.id, ...versionIds),
+    db
+      .prepare(
+        `UPDATE important_trade_signals SET is_active = FALSE WHERE filing_id IN (${supersededPlaceholders})`
+      )
+      .bind(...supersededIds),
+    db
+      .prepare(
+        `UPDATE first_buy_signals SET is_active = FALSE WHERE filing_id IN (${supersededPlaceholders})`
+      )
+      .bind(...supersededIds),
+    db
+      .prepare(
+        `DELETE FROM cluster_buy_trades WHERE transaction_id IN (SELECT id FROM insider_transactions WHERE filing_id IN (${supersededPlaceholders}))`
+      )
+      .bind(...supersededIds),
+  ]);
+
+  console.log(
+    `Amendment chain for ${originalAccessionNumber}: filing ${latest.id} active, ${supersededIds.length} superseded`
+  );
 }
 
 /**
  * Update filing status in the main filings table
  */
-export async function updateFilingStatus(accessionNumber, status, db) {
+export async function updateFilingStatus(
+  accessionNumber,
+  status,
+  db,
+  errorMessage = null
+) {
   await db
     .prepare(
-      "UPDATE filings SET status = ?, processed_at = CURRENT_TIMESTAMP WHERE accession_number = ?"
+      "UPDATE filings SET status = ?, error_message = ?, processed_at = CURRENT_TIMESTAMP WHERE accession_number = ?"
+    )
+    .bind(status, errorMessage, accessionNumber)
+    .run();
+}
+
+/**
+ * Record a failed processing attempt: error class and message, attempt
+ * count, and the queue message body so the filing can be requeued
+ */
+export async function recordProcessingFailure(
+  accessionNumber,
+  error,
+  payload,
+  db
+) {
+  const errorClass = error?.name || "Error";
+  const errorMessage = error?.message || String(error);
+
+  await db
+    .prepare(
+      `
+      INSERT INTO processed_filings (
+        accession_number, status, error_class, error_message, attempts,
+        last_failed_at, queue_payload, updated_at
+      ) VALUES (?, 'failed', ?, ?, 1, CURRENT_TIMESTAMP, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(accession_number) DO UPDATE SET
+        status = 'failed',
+        error_class = excluded.error_class,
+        error_message = excluded.error_message,
+        attempts = COALESCE(processed_filings.attempts, 0) + 1,
+        last_failed_at = CURRENT_TIMESTAMP,
+        queue_payload = excluded.queue_payload,
+        updated_at = CURRENT_TIMESTAMP
+    `
+    )
+    .bind(accessionNumber, errorClass, errorMessage, JSON.stringify(payload))
+    .run();
+
+  await updateFilingStatus(
+    accessionNumber,
+    "failed",
+    db,
+    `${errorClass}: ${errorMessage}`
+  );
+}
+
+/**
+ * Mark a filing that exhausted its retries as dead-lettered. The error from
+ * its last attempt was already recorded by recordProcessingFailure.
+ */
+export async function recordDeadLetter(accessionNumber, payload, db) {
+  await db
+    .prepare(
+      `
+      INSERT INTO processed_filings (
+        accession_number, status, dead_lettered_at, queue_payload, updated_at
+      ) VALUES (?, 'dead_letter', CURRENT_TIMESTAMP, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(accession_number) DO UPDATE SET
+        status = 'dead_letter',
+        dead_lettered_at = CURRENT_TIMESTAMP,
+        queue_payload = excluded.queue_payload,
+        updated_at = CURRENT_TIMESTAMP
+    `
     )
-    .bind(status, accessionNumber)
+    .bind(accessionNumber, JSON.stringify(payload))
     .run();
 }
 
@@ -0,0 +1,165 @@
+import { edgarFetch } from "../../shared/edgar-client.js";
+
+/**
+ * Issuer enrichment from EDGAR submissions metadata
+ * (https://data.sec.gov/submissions/CIK##########.json): SIC code and
+ * description, SIC division as the sector, state of incorporation and
+ * business address.
+ */
+
+const SUBMISSIONS_BASE_URL = "https://data.sec.gov/submissions";
+
+// Re-enrich issuers whose metadata is older than this
+const ENRICHMENT_MAX_AGE_DAYS = 30;
+
+// SIC divisions by code range (first code of each range)
+const SIC_DIVISIONS = [
+  [100, "Agriculture, Forestry and Fishing"],
+  [1000, "Mining"],
+  [1500, "Construction"],
+  [2000, "Manufacturing"],
+  [4000, "Transportation, Communications and Utilities"],
+  [5000, "Wholesale Trade"],
+  [5200, "Retail Trade"],
+  [6000, "Finance, Insurance and Real Estate"],
+  [7000, "Services"],
+  [9100, "Public Administration"],
+  [9900, "Nonclassifiable"],
+];
+
+/**
+ * Enrich the issuer unless it was enriched recently. Never throws: missing
+ * metadata must not fail the filing that triggered it.
+ */
+export async function enrichIssuerIfStale(issuerCik, env) {
+  try {
+    const issuer = await env.DB.prepare(
+      `
+      SELECT cik FROM issuers
+      WHERE cik = ?
+        AND (enriched_at IS NULL OR enriched_at < datetime('now', ?))
+    `
+    )
+      .bind(issuerCik, `-${ENRICHMENT_MAX_AGE_DAYS} days`)
+      .first();
+
+    if (issuer) {
+      await enrichIssuer(issuer.cik, env);
+    }
+  } catch (error) {
+    console.error(`Issuer enrichment failed for CIK ${issuerCik}:`, error);
+  }
+}
+
+/**
+ * Fetch the issuer's submissions metadata and store it. Returns false when
+ * EDGAR has no submissions file for the CIK.
+ */
+export async function enrichIssuer(issuerCik, env) {
+  const paddedCik = String(parseInt(issuerCik, 10)).padStart(10, "0");
+  const response = await edgarFetch(
+    `${SUBMISSIONS_BASE_URL}/CIK${paddedCik}.json`,
+    env,
+    { accept: "application/json" }
+  );
+
+  if (response.status === 404) {
+    // Nothing to enrich from; mark it so it is not retried on every filing
+    await env.DB.prepare(
+      "UPDATE issuers SET enriched_at = CURRENT_TIMESTAMP WHERE cik = ?"
+    )
+      .bind(issuerCik)
+      .run();
+    console.warn(`No EDGAR submissions metadata for CIK ${paddedCik}`);
+    return false;
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `Submissions request failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const submissions = await response.json();
+  const businessAddress = submissions.addresses?.business || null;
+  const sicCode = submissions.sic ? String(submissions.sic) : null;
+
+  await env.DB.prepare(
+    `
+    UPDATE issuers SET
+      sic_code = COALESCE(?, sic_code),
+      industry = COALESCE(?, industry),
+      sector = COALESCE(?, sector),
+      state_of_incorporation = COALESCE(?, state_of_incorporation),
+      business_address = COALESCE(?, business_address),
+      business_state = COALESCE(?, business_state),
+      enriched_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE cik = ?
+  `
+  )
+    .bind(
+      sicCode,
+      submissions.sicDescription || null,
+      getSicDivision(sicCode),
+      submissions.stateOfIncorporation || null,
+      formatAddress(businessAddress),
+      businessAddress?.stateOrCountry || null,
+      issuerCik
+    )
+    .run();
+
+  console.log(
+    `Enriched issuer ${paddedCik}: SIC ${sicCode || "n/a"} (${submissions.sicDescription || "n/a"})`
+  );
+  return true;
+}
+
+/**
+ * CIKs of issuers never enriched, or enriched too long ago
+ */
+export async function listIssuersToEnrich(limit, db) {
+  const { results } = await db
+    .prepare(
+      `
+      SELECT cik
+      FROM issuers
+      WHERE enriched_at IS NULL OR enriched_at < datetime('now', ?)
+      ORDER BY enriched_at IS NOT NULL, enriched_at ASC, id ASC
+      LIMIT ?
+    `
+    )
+    .bind(`-${ENRICHMENT_MAX_AGE_DAYS} days`, limit)
+    .all();
+
+  return results.map((row) => row.cik);
+}
+
+/**
+ * SIC division name for a 4-digit SIC code
+ */
+function getSicDivision(sicCode) {
+  const code = parseInt(sicCode, 10);
+  if (!code) return null;
+
+  let division = null;
+  for (const [firstCode, name] of SIC_DIVISIONS) {
+    if (code >= firstCode) division = name;
+  }
+  return division;
+}
+
+/**
+ * "1 Main St, Suite 2, Springfield, IL 62701"
+ */
+function formatAddress(address) {
+  if (!address || !address.street1) return null;
+
+  const stateZip = [address.stateOrCountry, address.zipCode]
+    .filter(Boolean)
+    .join(" ");
+
+  return [address.street1, address.street2, address.city, stateZip]
+    .filter(Boolean)
+    .join(", ");
+}
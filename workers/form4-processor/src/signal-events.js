@@ -0,0 +1,56 @@
+/**
+ * "Filing completed" events for the signal processor, so cluster, first-buy
+ * and important-trade signals for the filing's issuer update within seconds
+ * instead of waiting for its 30 minute cron.
+ */
+
+/**
+ * Publish a completed filing to the signal update queue. Never throws: the
+ * scheduled signal run picks the filing up anyway, so a failed send only
+ * delays its signals.
+ */
+export async function publishFilingCompleted(accessionNumber, env) {
+  if (!env.signal_update_queue) {
+    return;
+  }
+
+  try {
+    const filing = await env.DB.prepare(
+      `
+      SELECT id, issuer_id, COALESCE(amends_accession_number, accession_number) as chain_accession
+      FROM filings
+      WHERE accession_number = ?
+    `
+    )
+      .bind(accessionNumber)
+      .first();
+
+    if (!filing) {
+      return;
+    }
+
+    // Dates across the whole amendment chain: an amendment deactivates the
+    // transactions of the versions it supersedes, which may be on other dates
+    const { results } = await env.DB.prepare(
+      `
+      SELECT DISTINCT it.transaction_date
+      FROM insider_transactions it
+      JOIN filings f ON it.filing_id = f.id
+      WHERE f.accession_number = ?1 OR f.amends_accession_number = ?1
+      ORDER BY it.transaction_date
+    `
+    )
+      .bind(filing.chain_accession)
+      .all();
+
+    await env.signal_update_queue.send({
+      type: "filing_completed",
+      accession_number: accessionNumber,
+      filing_id: filing.id,
+      issuer_id: filing.issuer_id,
+      transaction_dates: results.map((row) => row.transaction_date),
+    });
+  } catch (error) {
+    console.error(`Could not publish signal update for ${accessionNumber}:`, error);
+  }
+}
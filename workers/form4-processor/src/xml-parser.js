@@ -1,41 +1,47 @@
 import { XMLParser } from "fast-xml-parser";
+import { edgarFetch, edgarFetchText } from "../../shared/edgar-client.js";
+
+const SEC_BASE_URL = "https://www.sec.gov";
+
+// Primary documents are usually named after the form, e.g. "wf-form4_1727....xml",
+// "doc4.xml", "primary_doc.xml" or "ownership.xml"
+const PRIMARY_XML_NAME_REGEX = /form[345]|doc[345]|primary_doc|ownership/i;
 
 /**
- * Download and parse Form 4 filing document
+ * Download and parse an ownership document (Form 3, 4 or 5). The parsed
+ * document carries the URL it was read from in `documentUrl`.
  */
-export async function downloadAndParseFiling(filingUrl) {
-  console.log(`Processing filing from HTML index: ${filingUrl}`);
-
-  // Step 1: Convert HTML index URL to XML document URL
-  const xmlUrl = await getXmlUrlFromHtmlIndex(filingUrl);
-  console.log(`Found XML document at: ${xmlUrl}`);
-
-  // Step 2: Download the actual XML Form 4 document
-  const response = await fetch(xmlUrl, {
-    headers: {
-      "User-Agent": "SEC Filing Analyzer Bot (contact@example.com)",
-      Accept: "application/xml, text/xml",
-    },
-  });
+export async function downloadAndParseFiling(filingUrl, env) {
+  console.log(`Processing filing: ${filingUrl}`);
 
-  if (!response.ok) {
-    throw new Error(
-      `Failed to download XML: ${response.status} ${response.statusText}`
-    );
-  }
+  const { xmlContent, documentUrl } = await downloadPrimaryDocument(
+    filingUrl,
+    env
+  );
+  console.log(`Downloaded ${documentUrl} (${xmlContent.length} chars)`);
 
-  const xmlContent = await response.text();
-  console.log(`Downloaded XML content (${xmlContent.length} chars)`);
+  const parsedDoc = parseOwnershipXml(xmlContent);
+  parsedDoc.documentUrl = documentUrl;
 
-  // Step 3: Parse the XML content into a JavaScript object
+  return parsedDoc;
+}
+
+/**
+ * Parse ownership document XML (freshly downloaded, or the raw_xml stored
+ * with a filing when re-processing)
+ */
+export function parseOwnershipXml(xmlContent) {
   const parser = new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: "@_",
-    // Ensure transactions and footnotes are always treated as arrays
+    // Ensure owners, transactions, holdings and footnotes are always arrays
     isArray: (name, jpath, isLeafNode, isAttribute) =>
       [
+        "ownershipDocument.reportingOwner",
         "ownershipDocument.nonDerivativeTable.nonDerivativeTransaction",
+        "ownershipDocument.nonDerivativeTable.nonDerivativeHolding",
         "ownershipDocument.derivativeTable.derivativeTransaction",
+        "ownershipDocument.derivativeTable.derivativeHolding",
         "ownershipDocument.footnotes.footnote",
       ].indexOf(jpath) !== -1,
   });
@@ -43,6 +49,10 @@ export async function downloadAndParseFiling(filingUrl) {
   const filingObject = parser.parse(xmlContent);
   const parsedDoc = filingObject.ownershipDocument;
 
+  if (!parsedDoc) {
+    throw new Error("XML does not contain an ownershipDocument");
+  }
+
   // Attach raw XML for storage
   parsedDoc.raw = xmlContent;
 
@@ -50,50 +60,136 @@ export async function downloadAndParseFiling(filingUrl) {
 }
 
 /**
- * Convert HTML index URL to actual XML document URL
+ * Locate and download the filing's primary ownership XML:
+ * 1. A filing URL that already points at the raw XML is fetched directly
+ * 2. Otherwise the XML documents listed in the folder's index.json are tried,
+ *    most likely first, until one has an ownershipDocument root
+ * 3. If index.json is unavailable, the ownershipDocument is cut out of the
+ *    complete submission text file (<accession-number>.txt)
  */
-async function getXmlUrlFromHtmlIndex(htmlUrl) {
-  try {
-    console.log(`Converting HTML URL to XML: ${htmlUrl}`);
-
-    const response = await fetch(htmlUrl, {
-      headers: {
-        "User-Agent": "SEC Filing Analyzer Bot (contact@example.com)",
-        Accept: "text/html",
-      },
+async function downloadPrimaryDocument(filingUrl, env) {
+  const folderUrl = getFilingFolderUrl(filingUrl);
+
+  if (isRawXmlUrl(filingUrl)) {
+    const xmlContent = await edgarFetchText(filingUrl, env, {
+      accept: "application/xml, text/xml",
     });
+    if (hasOwnershipDocumentRoot(xmlContent)) {
+      return { xmlContent, documentUrl: filingUrl };
+    }
+    console.warn(`${filingUrl} is not an ownershipDocument, resolving from index`);
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch HTML index: ${response.status}`);
+  const candidates = await listXmlDocuments(folderUrl, env);
+
+  if (candidates) {
+    for (const documentUrl of candidates) {
+      const xmlContent = await edgarFetchText(documentUrl, env, {
+        accept: "application/xml, text/xml",
+      });
+      if (hasOwnershipDocumentRoot(xmlContent)) {
+        return { xmlContent, documentUrl };
+      }
+      console.log(`Skipping ${documentUrl}: root is not ownershipDocument`);
     }
+    throw new Error(`No ownershipDocument XML found in ${folderUrl}index.json`);
+  }
 
-    const htmlContent = await response.text();
-    console.log(`HTML content length: ${htmlContent.length}`);
+  return downloadFromSubmissionText(folderUrl, env);
+}
+
+/**
+ * XML documents listed in the filing folder's index.json, ordered so the
+ * likely primary document comes first. Returns null when the index is
+ * unavailable.
+ */
+async function listXmlDocuments(folderUrl, env) {
+  const response = await edgarFetch(`${folderUrl}index.json`, env, {
+    accept: "application/json",
+  });
 
-    const xmlLinkRegex = /<a\s+[^>]*href="([^"]+)"[^>]*>([^<]+\.xml)<\/a>/i;
-    const match = htmlContent.match(xmlLinkRegex);
+  if (!response.ok) {
+    console.warn(`index.json unavailable for ${folderUrl}: ${response.status}`);
+    return null;
+  }
 
-    if (!match || !match[1]) {
-      throw new Error("No primary XML link found in HTML index");
-    }
+  const index = await response.json();
+  const items = index?.directory?.item || [];
+
+  return items
+    .map((item) => item.name)
+    .filter((name) => name && name.toLowerCase().endsWith(".xml"))
+    .sort(
+      (a, b) =>
+        Number(PRIMARY_XML_NAME_REGEX.test(b)) -
+        Number(PRIMARY_XML_NAME_REGEX.test(a))
+    )
+    .map((name) => folderUrl + name);
+}
 
-    const primaryXmlPath = match[1];
-    console.log(`Selected primary XML path: ${primaryXmlPath}`);
-
-    let xmlUrl;
-    if (primaryXmlPath.startsWith("http")) {
-      xmlUrl = primaryXmlPath;
-    } else if (primaryXmlPath.startsWith("/")) {
-      xmlUrl = "https://www.sec.gov" + primaryXmlPath;
-    } else {
-      const baseUrl = htmlUrl.replace(/\/[^\/]+$/, "/");
-      xmlUrl = baseUrl + primaryXmlPath;
+/**
+ * Extract the ownershipDocument from the complete submission text file,
+ * which embeds each document between <XML> and </XML>
+ */
+async function downloadFromSubmissionText(folderUrl, env) {
+  const accessionNumber = getAccessionNumberFromFolder(folderUrl);
+  const documentUrl = `${folderUrl}${accessionNumber}.txt`;
+
+  const submission = await edgarFetchText(documentUrl, env, {
+    accept: "text/plain",
+  });
+
+  const blocks = submission.match(/<XML>[\s\S]*?<\/XML>/gi) || [];
+  for (const block of blocks) {
+    const xmlContent = block.replace(/^<XML>\s*/i, "").replace(/\s*<\/XML>$/i, "");
+    if (hasOwnershipDocumentRoot(xmlContent)) {
+      return { xmlContent, documentUrl };
     }
+  }
+
+  throw new Error(`No ownershipDocument found in ${documentUrl}`);
+}
+
+/**
+ * Whether the document's root element is <ownershipDocument>, skipping the
+ * XML declaration, processing instructions, comments and whitespace
+ */
+function hasOwnershipDocumentRoot(xmlContent) {
+  const body = xmlContent
+    .replace(/<\?[\s\S]*?\?>/g, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .trimStart();
+
+  return /^<ownershipDocument[\s>]/.test(body);
+}
 
-    console.log(`Final XML URL: ${xmlUrl}`);
-    return xmlUrl;
-  } catch (error) {
-    console.error("Error converting HTML to XML URL:", error);
-    throw error;
+/**
+ * Raw XML document URL (not the XSL-rendered copy under xslF345X0N/)
+ */
+function isRawXmlUrl(url) {
+  const path = new URL(url).pathname;
+  return path.toLowerCase().endsWith(".xml") && !/\/xsl[^/]*\//i.test(path);
+}
+
+/**
+ * Filing folder, e.g. https://www.sec.gov/Archives/edgar/data/1661534/000166153425000004/
+ * from the index page or any document in it
+ */
+function getFilingFolderUrl(filingUrl) {
+  const url = new URL(filingUrl, SEC_BASE_URL);
+  const match = url.pathname.match(/^(\/Archives\/edgar\/data\/\d+\/\d{18})\//);
+
+  if (!match) {
+    throw new Error(`Not an EDGAR filing URL: ${filingUrl}`);
   }
+
+  return `${SEC_BASE_URL}${match[1]}/`;
+}
+
+/**
+ * "000166153425000004" folder name -> "0001661534-25-000004"
+ */
+function getAccessionNumberFromFolder(folderUrl) {
+  const digits = folderUrl.match(/(\d{18})\/$/)[1];
+  return `${digits.slice(0, 10)}-${digits.slice(10, 12)}-${digits.slice(12)}`;
 }
@@ -5,7 +5,7 @@
 import { XMLParser } from "fast-xml-parser";
 import {
   extractIssuerInfo,
-  extractReportingOwnerInfo,
+  extractReportingOwners,
   extractDerivativeTransactions,
   extractFootnotes,
   extractSignatures,
@@ -113,6 +113,7 @@ function testExtraction() {
     attributeNamePrefix: "@_",
     isArray: (name, jpath, isLeafNode, isAttribute) =>
       [
+        "ownershipDocument.reportingOwner",
         "ownershipDocument.nonDerivativeTable.nonDerivativeTransaction",
         "ownershipDocument.derivativeTable.derivativeTransaction",
         "ownershipDocument.footnotes.footnote",
@@ -126,9 +127,9 @@ function testExtraction() {
   const issuer = extractIssuerInfo(doc);
   console.log(JSON.stringify(issuer, null, 2));
 
-  console.log("\n2. Testing reporting owner extraction:");
-  const owner = extractReportingOwnerInfo(doc);
-  console.log(JSON.stringify(owner, null, 2));
+  console.log("\n2. Testing reporting owners extraction:");
+  const owners = extractReportingOwners(doc);
+  console.log(JSON.stringify(owners, null, 2));
 
   console.log("\n3. Testing derivative transactions extraction:");
   const derivatives = extractDerivativeTransactions(doc);
@@ -4,6 +4,7 @@
  */
 
 import { XMLParser } from "fast-xml-parser";
+import { edgarFetch, edgarFetchText } from "../../shared/edgar-client.js";
 
 /**
  * Fetch historical Form 4 filings for a CIK from SEC
@@ -27,21 +28,10 @@ export async function fetchHistoricalFilings(
 
   console.log(`Fetching Form 4 filings from: ${url}`);
 
-  const response = await fetch(url, {
-    headers: {
-      "User-Agent": "SEC Filing Analyzer Bot contact@example.com",
-      Accept: "application/atom+xml, application/xml, text/xml",
-    },
+  const xmlText = await edgarFetchText(url, env, {
+    accept: "application/atom+xml, application/xml, text/xml",
   });
 
-  if (!response.ok) {
-    throw new Error(
-      `SEC API request failed: ${response.status} ${response.statusText}`
-    );
-  }
-
-  const xmlText = await response.text();
-
   // Parse the Atom XML feed
   const filings = parseAtomFeed(xmlText, startDate, endDate);
 
@@ -146,11 +136,8 @@ export async function validateCIKExists(cik, env) {
     const paddedCIK = cik.padStart(10, "0");
     const url = `https://www.sec.gov/cgi-bin/browse-edgar?action=getcompany&CIK=${paddedCIK}&type=4&count=1&output=atom`;
 
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "SEC Filing Analyzer Bot contact@example.com",
-        Accept: "application/atom+xml, application/xml, text/xml",
-      },
+    const response = await edgarFetch(url, env, {
+      accept: "application/atom+xml, application/xml, text/xml",
     });
 
     if (!response.ok) return false;
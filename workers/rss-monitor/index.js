@@ -1,10 +1,15 @@
 import { XMLParser } from "fast-xml-parser";
+import { edgarFetch } from "../shared/edgar-client.js";
 
 /**
- * RSS Monitor Worker - Constantly monitors SEC RSS feed for Form 4 filings
+ * RSS Monitor Worker - Constantly monitors SEC RSS feed for insider filings
  * Runs on CRON schedule and dispatches tasks to queue when new filings are found
  */
 
+// Ownership forms handled by the form4-processor: initial statements (3),
+// changes in ownership (4) and annual statements (5), plus their amendments
+const INSIDER_FORM_TYPES = ["3", "4", "5", "3/A", "4/A", "5/A"];
+
 export default {
   async scheduled(event, env, ctx) {
     console.log("RSS Monitor triggered at:", new Date().toISOString());
@@ -13,11 +18,8 @@ export default {
       // Fetch the SEC RSS feed
       console.log("Fetching SEC RSS feed from:", env.SEC_RSS_URL);
 
-      const rssResponse = await fetch(env.SEC_RSS_URL, {
-        headers: {
-          "User-Agent": "SEC Filing Analyzer Bot (contact@example.com)",
-          Accept: "application/rss+xml, application/xml, text/xml",
-        },
+      const rssResponse = await edgarFetch(env.SEC_RSS_URL, env, {
+        accept: "application/rss+xml, application/xml, text/xml",
       });
 
       console.log("RSS Response status:", rssResponse.status);
@@ -46,17 +48,17 @@ export default {
       // Parse RSS feed
       const filings = await parseRSSFeed(rssText);
 
-      // Filter for Form 4 filings only (filing_type === "4")
-      const form4Filings = filings.filter(
-        (filing) => filing.filing_type === "4"
+      // Filter for insider ownership filings (Forms 3, 4 and 5 and amendments)
+      const insiderFilings = filings.filter((filing) =>
+        INSIDER_FORM_TYPES.includes(filing.filing_type)
       );
 
       console.log(
-        `Found ${form4Filings.length} Form 4 filings out of ${filings.length} total filings`
+        `Found ${insiderFilings.length} Form 3/4/5 filings out of ${filings.length} total filings`
       );
 
       // Check for new filings and add to queue
-      for (const filing of form4Filings) {
+      for (const filing of insiderFilings) {
         // Extract proper accession number from entry_id
         const accessionNumber = extractAccessionNumber(
           filing.entry_id,
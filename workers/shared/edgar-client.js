@@ -0,0 +1,237 @@
+/**
+ * SEC EDGAR Client - polite fetch shared by every worker that calls sec.gov
+ * (rss-monitor, form4-processor, historical-importer)
+ *
+ * SEC fair-access rules: identify yourself with a User-Agent containing a
+ * contact email and stay under 10 requests/second across all machines.
+ * - User-Agent comes from SEC_USER_AGENT, which must name a reachable contact
+ *   (e.g. "Your Name you@example.com"). Set it under [vars] in each worker's
+ *   wrangler.toml or with `wrangler secret put SEC_USER_AGENT`; there is no
+ *   default, and requests fail with EdgarConfigError until it is set
+ * - A token bucket in D1 (edgar_rate_limit) is shared by all workers and
+ *   isolates; SEC_REQUESTS_PER_SECOND sets the refill rate
+ * - 429 and 503 responses are retried, honouring Retry-After
+ * - Filed documents under /Archives/ never change and are cached
+ */
+
+export const EDGAR_CONFIG = {
+  DEFAULT_REQUESTS_PER_SECOND: 8, // Headroom below SEC's 10 req/s
+  RATE_LIMIT_BUCKET: "sec.gov",
+  MAX_THROTTLE_WAIT_MS: 30000,
+  RETRYABLE_STATUSES: [429, 503],
+  MAX_RETRIES: 3,
+  RETRY_BASE_DELAY_MS: 1000,
+  MAX_RETRY_AFTER_SECONDS: 60,
+  ARCHIVE_CACHE_TTL_SECONDS: 86400,
+};
+
+// Fallback bucket for this isolate when D1 is unavailable
+const localBucket = { tokens: null, updatedAtMs: 0 };
+
+/**
+ * The worker is not configured to call EDGAR (SEC_USER_AGENT missing)
+ */
+export class EdgarConfigError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "EdgarConfigError";
+  }
+}
+
+/**
+ * Fetch a sec.gov URL politely. Returns the Response (which may be a
+ * non-2xx status once retries are exhausted). Throws EdgarConfigError when
+ * SEC_USER_AGENT is not set.
+ *
+ * @param {string} url - sec.gov URL
+ * @param {object} env - Worker env (DB, SEC_USER_AGENT, SEC_REQUESTS_PER_SECOND)
+ * @param {object} options
+ * @param {string} options.accept - Accept header
+ * @param {number} options.cacheTtl - Seconds to cache a 2xx response (0 disables);
+ *   defaults to one day for /Archives/ documents and no caching otherwise
+ */
+export async function edgarFetch(url, env, options = {}) {
+  const { accept = "*/*", cacheTtl = getDefaultCacheTtl(url) } = options;
+  const userAgent = getUserAgent(env);
+
+  const cache = cacheTtl > 0 ? getCache() : null;
+  const cacheKey = cache ? new Request(url) : null;
+
+  if (cache) {
+    const cached = await cache.match(cacheKey);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireRateLimitToken(env);
+
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": userAgent,
+        Accept: accept,
+      },
+    });
+
+    if (
+      EDGAR_CONFIG.RETRYABLE_STATUSES.includes(response.status) &&
+      attempt < EDGAR_CONFIG.MAX_RETRIES
+    ) {
+      const delayMs = getRetryDelayMs(response, attempt);
+      console.warn(
+        `EDGAR returned ${response.status} for ${url}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${EDGAR_CONFIG.MAX_RETRIES})`
+      );
+      await sleep(delayMs);
+      continue;
+    }
+
+    if (cache && response.ok) {
+      const cacheable = new Response(response.clone().body, response);
+      cacheable.headers.set("Cache-Control", `max-age=${cacheTtl}`);
+      await cache.put(cacheKey, cacheable);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Fetch a sec.gov URL politely and return the body text, throwing on a
+ * non-2xx response
+ */
+export async function edgarFetchText(url, env, options = {}) {
+  const response = await edgarFetch(url, env, options);
+
+  if (!response.ok) {
+    throw new Error(
+      `EDGAR request failed: ${response.status} ${response.statusText} (${url})`
+    );
+  }
+
+  return response.text();
+}
+
+/**
+ * Wait for a token from the shared bucket. The refill and the decrement
+ * happen in one UPDATE, so concurrent workers cannot take the same token.
+ */
+async function acquireRateLimitToken(env) {
+  const rate = getRequestsPerSecond(env);
+  const deadline = Date.now() + EDGAR_CONFIG.MAX_THROTTLE_WAIT_MS;
+
+  while (true) {
+    const acquired = env.DB
+      ? await takeSharedToken(env.DB, rate)
+      : takeLocalToken(rate);
+
+    if (acquired) {
+      return;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `EDGAR rate limiter: no request slot within ${EDGAR_CONFIG.MAX_THROTTLE_WAIT_MS}ms`
+      );
+    }
+
+    // Roughly one token interval, jittered so waiting workers spread out
+    await sleep(Math.ceil((1000 / rate) * (0.5 + Math.random())));
+  }
+}
+
+async function takeSharedToken(db, rate) {
+  const now = Date.now();
+
+  try {
+    const row = await db
+      .prepare(
+        `UPDATE edgar_rate_limit
+         SET tokens = MIN(?1, tokens + MAX(0, ?2 - updated_at_ms) * ?1 / 1000.0) - 1,
+             updated_at_ms = MAX(updated_at_ms, ?2)
+         WHERE bucket = ?3
+           AND MIN(?1, tokens + MAX(0, ?2 - updated_at_ms) * ?1 / 1000.0) >= 1
+         RETURNING tokens`
+      )
+      .bind(rate, now, EDGAR_CONFIG.RATE_LIMIT_BUCKET)
+      .first();
+
+    return !!row;
+  } catch (error) {
+    // Table missing (migration 012 not applied) or D1 unavailable: still
+    // throttle this isolate rather than fetching unthrottled
+    console.error("EDGAR rate limiter unavailable, throttling locally:", error);
+    return takeLocalToken(rate);
+  }
+}
+
+function takeLocalToken(rate) {
+  const now = Date.now();
+  const elapsed = Math.max(0, now - localBucket.updatedAtMs);
+  const tokens = Math.min(
+    rate,
+    (localBucket.tokens ?? rate) + (elapsed * rate) / 1000
+  );
+
+  localBucket.updatedAtMs = now;
+
+  if (tokens < 1) {
+    localBucket.tokens = tokens;
+    return false;
+  }
+
+  localBucket.tokens = tokens - 1;
+  return true;
+}
+
+/**
+ * Delay before retrying a 429/503: Retry-After (seconds or HTTP date) when
+ * present, otherwise exponential backoff
+ */
+function getRetryDelayMs(response, attempt) {
+  const retryAfter = response.headers.get("Retry-After");
+  const maxMs = EDGAR_CONFIG.MAX_RETRY_AFTER_SECONDS * 1000;
+
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delayMs = Number.isFinite(seconds)
+      ? seconds * 1000
+      : Date.parse(retryAfter) - Date.now();
+
+    if (Number.isFinite(delayMs)) {
+      return Math.min(maxMs, Math.max(0, delayMs));
+    }
+  }
+
+  return Math.min(maxMs, EDGAR_CONFIG.RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+function getDefaultCacheTtl(url) {
+  return new URL(url).pathname.startsWith("/Archives/")
+    ? EDGAR_CONFIG.ARCHIVE_CACHE_TTL_SECONDS
+    : 0;
+}
+
+function getCache() {
+  return typeof caches !== "undefined" ? caches.default : null;
+}
+
+function getUserAgent(env) {
+  const userAgent = (env.SEC_USER_AGENT || "").trim();
+  if (!userAgent) {
+    throw new EdgarConfigError(
+      "SEC_USER_AGENT is not set. SEC fair-access rules require a User-Agent with a reachable contact, e.g. \"Your Name you@example.com\": set it in wrangler.toml [vars] or with `wrangler secret put SEC_USER_AGENT`"
+    );
+  }
+
+  return userAgent;
+}
+
+function getRequestsPerSecond(env) {
+  const rate = Number(env.SEC_REQUESTS_PER_SECOND);
+  return rate > 0 ? rate : EDGAR_CONFIG.DEFAULT_REQUESTS_PER_SECOND;
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
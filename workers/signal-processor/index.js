@@ -3,16 +3,45 @@
  *
  * Runs on a schedule to pre-compute expensive signals:
  * - Cluster buy detection
+ * - Cluster sell detection
+ * - Activity anomalies (unusual buying/selling for the issuer)
  * - Important trade scoring
  * - First buy identification
+ * - Insider track records (feed importance scoring)
  * - Historical metrics aggregation
+ * - Issuer insider activity summaries (3/6/12 months, rebuilt daily)
+ * - Forward returns of signals (via the alpaca-market worker)
  *
- * This worker does the heavy lifting so the API can be lightning fast
+ * Scoring weights come from versioned models in D1 (scoring_models), managed
+ * through /models and evaluated against the live version with /rescore.
+ * POST /backtest replays historical signals as a trading strategy.
+ *
+ * This worker does the heavy lifting so the API can be lightning fast.
+ * Each processor only rescores issuers touched by filings completed since
+ * its last run (see src/services/watermarks.js); POST /process with
+ * { "full": true } rescans the whole window. "Filing completed" events from
+ * form4-processor update the filing's issuer within seconds.
  */
 
 import { processClusterBuys } from "./src/processors/cluster-buys.js";
+import { processClusterSells } from "./src/processors/cluster-sells.js";
+import { processActivityAnomalies } from "./src/processors/activity-anomalies.js";
+import { processFirstBuys } from "./src/processors/first-buys.js";
 import { processImportantTrades } from "./src/processors/important-trades.js";
-import { processHistoricalMetrics } from "./src/processors/historical-metrics.js";
+import {
+  processHistoricalMetrics,
+  processIssuerMetrics,
+} from "./src/processors/historical-metrics.js";
+import { processForwardReturns } from "./src/processors/forward-returns.js";
+import { processInsiderTrackRecords } from "./src/processors/insider-track-records.js";
+import {
+  ScoringModelError,
+  activateModel,
+  createModel,
+  listModels,
+} from "./src/services/scoring-models.js";
+import { rescoreDateRange } from "./src/services/rescore.js";
+import { BacktestError, runBacktest } from "./src/services/backtest.js";
 import { Logger } from "./src/utils/logger.js";
 
 export default {
@@ -36,14 +65,42 @@ export default {
       logger.info("📊 Processing cluster buys...");
       results.clusterBuys = await processClusterBuys(env, logger);
 
-      // 2. Important trade scoring
+      // 2. Cluster sell detection
+      logger.info("🔻 Processing cluster sells...");
+      results.clusterSells = await processClusterSells(env, logger);
+
+      // 3. Activity anomalies against each issuer's baseline
+      logger.info("🚨 Processing activity anomalies...");
+      results.activityAnomalies = await processActivityAnomalies(env, logger);
+
+      // 4. First buy detection (feeds importance scoring)
+      logger.info("🆕 Processing first buys...");
+      results.firstBuys = await processFirstBuys(env, logger);
+
+      // 5. Insider track records, rebuilt daily (feed importance scoring)
+      logger.info("🗂️ Processing insider track records...");
+      results.insiderTrackRecords = await processInsiderTrackRecords(env, logger);
+
+      // 6. Important trade scoring; after a track record rebuild every trade
+      // in the window is rescored, since any insider's reliability may have
+      // changed, not just those of the issuers with new filings
       logger.info("🎯 Processing important trades...");
-      results.importantTrades = await processImportantTrades(env, logger);
+      results.importantTrades = await processImportantTrades(env, logger, {
+        full: !results.insiderTrackRecords.skipped,
+      });
 
-      // 4. Historical metrics aggregation
+      // 7. Historical metrics aggregation
       logger.info("📈 Processing historical metrics...");
       results.historicalMetrics = await processHistoricalMetrics(env, logger);
 
+      // 8. Issuer summaries, after the cluster signals they count
+      logger.info("🏢 Processing issuer metrics...");
+      results.issuerMetrics = await processIssuerMetrics(env, logger);
+
+      // 9. Forward returns of stored signals
+      logger.info("💹 Processing forward returns...");
+      results.forwardReturns = await processForwardReturns(env, logger);
+
       const duration = Date.now() - startTime;
       logger.info("✅ Signal processor completed", {
         duration: `${duration}ms`,
@@ -67,6 +124,66 @@ export default {
     }
   },
 
+  /**
+   * Queue consumer - "filing completed" events from form4-processor
+   *
+   * Updates cluster buy/sell, anomaly, first-buy and important-trade
+   * signals and the issuer summaries for just the issuers in the batch. The cron run still covers
+   * these filings through its watermarks, so a failed batch is retried but
+   * never lost.
+   */
+  async queue(batch, env) {
+    const logger = new Logger("queue", env);
+    const startTime = Date.now();
+
+    const touched = batch.messages
+      .map((message) => message.body)
+      .filter((event) => event?.type === "filing_completed" && event.issuer_id)
+      .map((event) => ({
+        issuer_id: event.issuer_id,
+        first_transaction_date: (event.transaction_dates || []).reduce(
+          (earliest, date) => (!earliest || date < earliest ? date : earliest),
+          null
+        ),
+      }));
+
+    if (touched.length === 0) {
+      batch.ackAll();
+      return;
+    }
+
+    try {
+      logger.info("⚡ Signal update triggered", {
+        events: batch.messages.length,
+        issuers: new Set(touched.map((t) => t.issuer_id)).size,
+      });
+
+      const options = { touched };
+      const results = {};
+
+      // Same order as the scheduled run: first buys feed importance scoring
+      results.clusterBuys = await processClusterBuys(env, logger, options);
+      results.clusterSells = await processClusterSells(env, logger, options);
+      results.activityAnomalies = await processActivityAnomalies(env, logger, options);
+      results.firstBuys = await processFirstBuys(env, logger, options);
+      results.importantTrades = await processImportantTrades(env, logger, options);
+      results.issuerMetrics = await processIssuerMetrics(env, logger, options);
+
+      logger.info("✅ Signal update completed", {
+        duration: `${Date.now() - startTime}ms`,
+        results,
+      });
+
+      batch.ackAll();
+    } catch (error) {
+      logger.error("❌ Signal update failed", {
+        error: error.message,
+        stack: error.stack,
+      });
+      batch.retryAll();
+    }
+  },
+
   /**
    * HTTP endpoint for manual triggers (development/debugging)
    */
@@ -95,26 +212,56 @@ export default {
       try {
         const body = await request.json();
         const processor = body.processor || "all";
+        const options = { full: body.full === true };
 
-        logger.info("🔧 Manual processing triggered", { processor });
+        logger.info("🔧 Manual processing triggered", { processor, ...options });
 
         const results = {};
 
         if (processor === "all" || processor === "cluster-buys") {
-          results.clusterBuys = await processClusterBuys(env, logger);
+          results.clusterBuys = await processClusterBuys(env, logger, options);
+        }
+
+        if (processor === "all" || processor === "cluster-sells") {
+          results.clusterSells = await processClusterSells(env, logger, options);
+        }
+
+        if (processor === "all" || processor === "activity-anomalies") {
+          results.activityAnomalies = await processActivityAnomalies(env, logger, options);
+        }
+
+        if (processor === "all" || processor === "first-buys") {
+          results.firstBuys = await processFirstBuys(env, logger, options);
+        }
+
+        if (processor === "all" || processor === "insider-track-records") {
+          results.insiderTrackRecords = await processInsiderTrackRecords(
+            env,
+            logger,
+            options
+          );
         }
 
         if (processor === "all" || processor === "important-trades") {
-          results.importantTrades = await processImportantTrades(env, logger);
+          results.importantTrades = await processImportantTrades(env, logger, options);
         }
 
         if (processor === "all" || processor === "historical-metrics") {
           results.historicalMetrics = await processHistoricalMetrics(
             env,
-            logger
+            logger,
+            options
           );
         }
 
+        if (processor === "all" || processor === "issuer-metrics") {
+          results.issuerMetrics = await processIssuerMetrics(env, logger, options);
+        }
+
+        if (processor === "all" || processor === "forward-returns") {
+          results.forwardReturns = await processForwardReturns(env, logger);
+        }
+
         const duration = Date.now() - startTime;
 
         return new Response(
@@ -146,9 +293,63 @@ export default {
       }
     }
 
+    // Scoring model management and rescoring
+    if (
+      url.pathname === "/models" ||
+      url.pathname.startsWith("/models/") ||
+      url.pathname === "/rescore"
+    ) {
+      try {
+        return await handleScoringRequest(request, url, env, logger);
+      } catch (error) {
+        if (error instanceof ScoringModelError || error instanceof SyntaxError) {
+          return jsonResponse({ success: false, error: error.message }, 400);
+        }
+
+        logger.error("❌ Scoring request failed", {
+          path: url.pathname,
+          error: error.message,
+          stack: error.stack,
+        });
+        return jsonResponse({ success: false, error: error.message }, 500);
+      }
+    }
+
+    // Strategy backtests: { strategy, bars } where bars is an optional fixture
+    // of daily bars by symbol (see fixtures/backtest-sample.json) used instead
+    // of the alpaca-market worker
+    if (url.pathname === "/backtest" && request.method === "POST") {
+      try {
+        const body = await request.json();
+        const result = await runBacktest(env, body.strategy, body.bars || null, logger);
+
+        logger.info("🧪 Backtest complete", {
+          signal: result.strategy.signal,
+          signals: result.signals,
+          trades: result.summary.trades,
+          bars_source: result.bars_source,
+        });
+        return jsonResponse({ success: true, ...result });
+      } catch (error) {
+        if (
+          error instanceof BacktestError ||
+          error instanceof ScoringModelError ||
+          error instanceof SyntaxError
+        ) {
+          return jsonResponse({ success: false, error: error.message }, 400);
+        }
+
+        logger.error("❌ Backtest failed", {
+          error: error.message,
+          stack: error.stack,
+        });
+        return jsonResponse({ success: false, error: error.message }, 500);
+      }
+    }
+
     // Invalid endpoint
     return new Response(
-      "Signal Processor Worker\n\nEndpoints:\n- GET /health\n- POST /process",
+      "Signal Processor Worker\n\nEndpoints:\n- GET /health\n- POST /process\n- GET /models\n- POST /models\n- POST /models/activate\n- POST /rescore\n- POST /backtest",
       {
         status: 200,
         headers: { "Content-Type": "text/plain" },
@@ -156,3 +357,61 @@ export default {
     );
   },
 };
+
+/**
+ * GET /models?name=             - List model versions
+ * POST /models                  - { name, config, description } -> new candidate version
+ * POST /models/activate         - { name, version } -> make a version live
+ * POST /rescore                 - { model, version, start_date, end_date, limit }
+ *                                 -> diff of candidate vs live scores (read-only)
+ */
+async function handleScoringRequest(request, url, env, logger) {
+  if (url.pathname === "/models" && request.method === "GET") {
+    const models = await listModels(env, url.searchParams.get("name"));
+    return jsonResponse({ success: true, models });
+  }
+
+  if (url.pathname === "/models" && request.method === "POST") {
+    const body = await request.json();
+    const model = await createModel(env, body);
+
+    logger.info("🧮 Scoring model created", {
+      name: model.name,
+      version: model.version,
+    });
+    return jsonResponse({ success: true, model }, 201);
+  }
+
+  if (url.pathname === "/models/activate" && request.method === "POST") {
+    const body = await request.json();
+    const model = await activateModel(env, body.name, parseInt(body.version));
+
+    logger.info("🧮 Scoring model activated", {
+      name: model.name,
+      version: model.version,
+    });
+    return jsonResponse({ success: true, model });
+  }
+
+  if (url.pathname === "/rescore" && request.method === "POST") {
+    const body = await request.json();
+    const result = await rescoreDateRange(env, {
+      model: body.model,
+      version: parseInt(body.version),
+      startDate: body.start_date,
+      endDate: body.end_date,
+      limit: parseInt(body.limit) || undefined,
+    });
+
+    return jsonResponse({ success: true, ...result });
+  }
+
+  return jsonResponse({ success: false, error: "Method not allowed" }, 405);
+}
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,396 @@
+/**
+ * Activity Anomaly Processor
+ *
+ * Importance scoring looks at each trade on its own; this processor asks
+ * whether the activity is normal for the company. For every issuer and day
+ * with open-market buying or selling, the 7 days ending that day are
+ * compared with the issuer's weekly activity over the previous three years:
+ * - first_buy_in_years: the first insider purchase in at least three years
+ * - volume_spike: weekly dollar volume far above the baseline
+ * - frequency_spike: weekly trade count far above the baseline
+ *
+ * Trades under 10b5-1 plans are left out; they follow a schedule set months
+ * in advance.
+ */
+
+import {
+  inScope,
+  loadIncrementalScope,
+  toJsonChunks,
+} from "../services/watermarks.js";
+import { daysAgo } from "../utils/dates.js";
+
+const WATERMARK_KEY = "activity-anomalies";
+const LOOKBACK_DAYS = 14;
+const WINDOW_DAYS = 7;
+const BASELINE_WEEKS = 156; // Three years
+const MIN_BASELINE_WEEKS = 52; // Issuers with less recorded history are skipped
+const MIN_ACTIVE_WEEKS = 4; // Spikes need a baseline with some activity
+const Z_SCORE_THRESHOLD = 5;
+const MIN_SPIKE_VALUE = 100000;
+const MIN_SPIKE_TRADES = 3;
+const DROUGHT_DAYS = 3 * 365;
+
+// Open-market purchases and sales, outside 10b5-1 plans
+const OPEN_MARKET = (alias) => `
+  COALESCE(${alias}.is_10b5_1_plan, 0) = 0
+  AND (
+    (${alias}.acquired_disposed_code = 'A' AND ${alias}.transaction_code = 'P')
+    OR (${alias}.acquired_disposed_code = 'D' AND ${alias}.transaction_code = 'S')
+  )
+`;
+
+/**
+ * Process activity anomalies
+ *
+ * Strategy:
+ * 1. Find the issuers touched by filings completed since the last run
+ * 2. For each of their buy/sell days in the last 14 days, aggregate the
+ *    7-day window and the weekly baseline before it
+ * 3. Flag windows that break from the baseline
+ * 4. In one batch: deactivate the re-evaluated and expired anomalies, upsert
+ *    the current ones, and advance the watermark
+ */
+export async function processActivityAnomalies(env, logger, options = {}) {
+  const startTime = Date.now();
+
+  try {
+    const windowStart = daysAgo(LOOKBACK_DAYS);
+
+    // Step 1: Work out which issuers and dates to re-evaluate
+    const scope = await loadIncrementalScope(env, WATERMARK_KEY, {
+      windowStart,
+      full: options.full,
+      touched: options.touched,
+    });
+
+    logger.info("🚨 Starting activity anomaly detection", {
+      lookback_days: LOOKBACK_DAYS,
+      baseline_weeks: BASELINE_WEEKS,
+      full: scope.full,
+      new_filings: scope.filings,
+    });
+
+    // Step 2: Windows and baselines
+    const windows =
+      scope.filings === 0
+        ? { results: [] }
+        : await fetchActivityWindows(env, windowStart, scope.scopes);
+
+    // Step 3: Flag the unusual ones
+    const anomalies = windows.results
+      .map((window) => detectAnomaly(window))
+      .filter(Boolean);
+
+    logger.info(
+      `🔎 ${anomalies.length} anomalies in ${windows.results.length} activity windows`
+    );
+
+    // Step 4: Apply all changes in one batch
+    const statements = [
+      env.DB.prepare(
+        `
+        UPDATE activity_anomalies
+        SET is_active = FALSE, last_updated = datetime('now')
+        WHERE is_active = TRUE
+          AND (transaction_date < ?1 OR ${inScope("issuer_id", "transaction_date", "?2")})
+      `
+      ).bind(windowStart, scope.scopes),
+      ...toJsonChunks(anomalies).map((rows) =>
+        env.DB.prepare(
+          `
+          INSERT INTO activity_anomalies (
+            issuer_id, transaction_date, direction, anomaly_type, window_start,
+            trade_count, total_insiders, total_value, baseline_weeks, active_weeks,
+            baseline_avg_value, baseline_stddev_value, baseline_avg_count,
+            baseline_stddev_count, value_z_score, count_z_score,
+            last_prior_date, days_since_prior
+          )
+          SELECT
+            json_extract(value, '$.issuer_id'),
+            json_extract(value, '$.transaction_date'),
+            json_extract(value, '$.direction'),
+            json_extract(value, '$.anomaly_type'),
+            json_extract(value, '$.window_start'),
+            json_extract(value, '$.trade_count'),
+            json_extract(value, '$.total_insiders'),
+            json_extract(value, '$.total_value'),
+            json_extract(value, '$.baseline_weeks'),
+            json_extract(value, '$.active_weeks'),
+            json_extract(value, '$.baseline_avg_value'),
+            json_extract(value, '$.baseline_stddev_value'),
+            json_extract(value, '$.baseline_avg_count'),
+            json_extract(value, '$.baseline_stddev_count'),
+            json_extract(value, '$.value_z_score'),
+            json_extract(value, '$.count_z_score'),
+            json_extract(value, '$.last_prior_date'),
+            json_extract(value, '$.days_since_prior')
+          FROM json_each(?1)
+          WHERE TRUE
+          ON CONFLICT(issuer_id, transaction_date, direction) DO UPDATE SET
+            anomaly_type = excluded.anomaly_type,
+            window_start = excluded.window_start,
+            trade_count = excluded.trade_count,
+            total_insiders = excluded.total_insiders,
+            total_value = excluded.total_value,
+            baseline_weeks = excluded.baseline_weeks,
+            active_weeks = excluded.active_weeks,
+            baseline_avg_value = excluded.baseline_avg_value,
+            baseline_stddev_value = excluded.baseline_stddev_value,
+            baseline_avg_count = excluded.baseline_avg_count,
+            baseline_stddev_count = excluded.baseline_stddev_count,
+            value_z_score = excluded.value_z_score,
+            count_z_score = excluded.count_z_score,
+            last_prior_date = excluded.last_prior_date,
+            days_since_prior = excluded.days_since_prior,
+            is_active = TRUE,
+            last_updated = datetime('now')
+        `
+        ).bind(rows)
+      ),
+    ];
+
+    if (scope.watermarkUpdate) {
+      statements.push(scope.watermarkUpdate);
+    }
+
+    await env.DB.batch(statements);
+
+    // Step 5: Clean up old inactive anomalies
+    const cleanup = await env.DB.prepare(
+      `
+      DELETE FROM activity_anomalies
+      WHERE is_active = FALSE
+        AND transaction_date < date('now', '-30 days')
+    `
+    ).run();
+
+    const summary = {
+      duration_ms: Date.now() - startTime,
+      full: scope.full,
+      new_filings: scope.filings,
+      windows: windows.results.length,
+      anomalies: anomalies.length,
+      cleaned_up: cleanup.meta.changes || 0,
+    };
+
+    logger.info("✅ Activity anomaly processing complete", summary);
+
+    return summary;
+  } catch (error) {
+    logger.error("❌ Activity anomaly processing failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Each issuer/day/direction with open-market activity since startDate: the
+ * 7-day window ending that day, sums over the weekly baseline before it, the
+ * previous trade in the same direction and the start of the issuer's
+ * recorded history
+ */
+async function fetchActivityWindows(env, startDate, scopes) {
+  const baselineDays = BASELINE_WEEKS * 7 + WINDOW_DAYS - 1;
+
+  return env.DB.prepare(
+    `
+    WITH activity AS (
+      SELECT DISTINCT
+        f.issuer_id,
+        it.transaction_date,
+        CASE WHEN it.transaction_code = 'P' THEN 'buy' ELSE 'sell' END as direction
+      FROM insider_transactions it
+      JOIN filings f ON it.filing_id = f.id
+      WHERE f.status = 'completed'
+        AND it.is_active = TRUE
+        AND ${OPEN_MARKET("it")}
+        AND it.transaction_date >= ?1
+        AND ${inScope("f.issuer_id", "it.transaction_date", "?2")}
+    ),
+    trades AS (
+      SELECT
+        f.issuer_id,
+        it.transaction_date,
+        CASE WHEN it.transaction_code = 'P' THEN 'buy' ELSE 'sell' END as direction,
+        COALESCE(it.transaction_value, 0) as transaction_value,
+        pr.person_id
+      FROM insider_transactions it
+      JOIN filings f ON it.filing_id = f.id
+      JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+      WHERE f.status = 'completed'
+        AND it.is_active = TRUE
+        AND ${OPEN_MARKET("it")}
+        AND f.issuer_id IN (SELECT issuer_id FROM activity)
+        AND it.transaction_date >= date(?1, '-${baselineDays} days')
+    ),
+    windows AS (
+      SELECT
+        a.issuer_id,
+        a.transaction_date,
+        a.direction,
+        COUNT(*) as trade_count,
+        COUNT(DISTINCT t.person_id) as total_insiders,
+        SUM(t.transaction_value) as total_value
+      FROM activity a
+      JOIN trades t ON t.issuer_id = a.issuer_id
+        AND t.direction = a.direction
+        AND t.transaction_date BETWEEN date(a.transaction_date, '-${WINDOW_DAYS - 1} days') AND a.transaction_date
+      GROUP BY a.issuer_id, a.transaction_date, a.direction
+    ),
+    -- Baseline week 1 is the 7 days before the window, week ${BASELINE_WEEKS} the oldest
+    weeks AS (
+      SELECT
+        a.issuer_id,
+        a.transaction_date,
+        a.direction,
+        CAST((julianday(a.transaction_date) - julianday(t.transaction_date)) / 7 AS INTEGER) as week,
+        COUNT(*) as trade_count,
+        SUM(t.transaction_value) as total_value
+      FROM activity a
+      JOIN trades t ON t.issuer_id = a.issuer_id
+        AND t.direction = a.direction
+        AND t.transaction_date < date(a.transaction_date, '-${WINDOW_DAYS - 1} days')
+        AND t.transaction_date >= date(a.transaction_date, '-${baselineDays} days')
+      GROUP BY a.issuer_id, a.transaction_date, a.direction, week
+    ),
+    baseline AS (
+      SELECT
+        issuer_id,
+        transaction_date,
+        direction,
+        COUNT(*) as active_weeks,
+        SUM(trade_count) as sum_count,
+        SUM(trade_count * trade_count) as sumsq_count,
+        SUM(total_value) as sum_value,
+        SUM(total_value * total_value) as sumsq_value
+      FROM weeks
+      GROUP BY issuer_id, transaction_date, direction
+    )
+    SELECT
+      w.issuer_id,
+      w.transaction_date,
+      w.direction,
+      date(w.transaction_date, '-${WINDOW_DAYS - 1} days') as window_start,
+      w.trade_count,
+      w.total_insiders,
+      w.total_value,
+      COALESCE(b.active_weeks, 0) as active_weeks,
+      COALESCE(b.sum_count, 0) as sum_count,
+      COALESCE(b.sumsq_count, 0) as sumsq_count,
+      COALESCE(b.sum_value, 0) as sum_value,
+      COALESCE(b.sumsq_value, 0) as sumsq_value,
+      (
+        SELECT MAX(it2.transaction_date)
+        FROM insider_transactions it2
+        JOIN filings f2 ON it2.filing_id = f2.id
+        WHERE f2.issuer_id = w.issuer_id
+          AND f2.status = 'completed'
+          AND it2.is_active = TRUE
+          AND ${OPEN_MARKET("it2")}
+          AND (it2.transaction_code = 'P') = (w.direction = 'buy')
+          AND it2.transaction_date < w.transaction_date
+      ) as last_prior_date,
+      (
+        SELECT MIN(it3.transaction_date)
+        FROM insider_transactions it3
+        JOIN filings f3 ON it3.filing_id = f3.id
+        WHERE f3.issuer_id = w.issuer_id
+          AND f3.status = 'completed'
+      ) as history_start
+    FROM windows w
+    LEFT JOIN baseline b
+      ON b.issuer_id = w.issuer_id
+      AND b.transaction_date = w.transaction_date
+      AND b.direction = w.direction
+  `
+  )
+    .bind(startDate, scopes)
+    .all();
+}
+
+/**
+ * The anomaly row for an activity window, or null when the window is normal
+ * for the issuer (or its history is too short to tell)
+ */
+export function detectAnomaly(window) {
+  // Weeks of recorded history before the window, up to the full baseline
+  const historyWeeks = Math.floor(
+    (Date.parse(window.window_start) - Date.parse(window.history_start)) / (7 * 86400000)
+  );
+  const baselineWeeks = Math.min(BASELINE_WEEKS, historyWeeks);
+  if (!(baselineWeeks >= MIN_BASELINE_WEEKS)) {
+    return null;
+  }
+
+  const value = baselineStats(window.sum_value, window.sumsq_value, baselineWeeks);
+  const count = baselineStats(window.sum_count, window.sumsq_count, baselineWeeks);
+  const valueZ = zScore(window.total_value, value);
+  const countZ = zScore(window.trade_count, count);
+  const daysSincePrior = window.last_prior_date
+    ? Math.round(
+        (Date.parse(window.transaction_date) - Date.parse(window.last_prior_date)) / 86400000
+      )
+    : null;
+
+  let anomalyType = null;
+  if (
+    window.direction === "buy" &&
+    baselineWeeks >= BASELINE_WEEKS &&
+    (daysSincePrior === null || daysSincePrior >= DROUGHT_DAYS)
+  ) {
+    anomalyType = "first_buy_in_years";
+  } else if (window.active_weeks >= MIN_ACTIVE_WEEKS) {
+    if (valueZ >= Z_SCORE_THRESHOLD && window.total_value >= MIN_SPIKE_VALUE) {
+      anomalyType = "volume_spike";
+    } else if (countZ >= Z_SCORE_THRESHOLD && window.trade_count >= MIN_SPIKE_TRADES) {
+      anomalyType = "frequency_spike";
+    }
+  }
+
+  if (!anomalyType) {
+    return null;
+  }
+
+  return {
+    issuer_id: window.issuer_id,
+    transaction_date: window.transaction_date,
+    direction: window.direction,
+    anomaly_type: anomalyType,
+    window_start: window.window_start,
+    trade_count: window.trade_count,
+    total_insiders: window.total_insiders,
+    total_value: window.total_value,
+    baseline_weeks: baselineWeeks,
+    active_weeks: window.active_weeks,
+    baseline_avg_value: round(value.mean, 2),
+    baseline_stddev_value: round(value.stddev, 2),
+    baseline_avg_count: round(count.mean, 4),
+    baseline_stddev_count: round(count.stddev, 4),
+    value_z_score: valueZ === null ? null : round(valueZ, 2),
+    count_z_score: countZ === null ? null : round(countZ, 2),
+    last_prior_date: window.last_prior_date,
+    days_since_prior: daysSincePrior,
+  };
+}
+
+/**
+ * Mean and standard deviation of weekly totals from their sum and sum of
+ * squares (weeks without activity count as zero)
+ */
+function baselineStats(sum, sumOfSquares, weeks) {
+  const mean = sum / weeks;
+  const variance = Math.max(0, sumOfSquares / weeks - mean * mean);
+  return { mean, stddev: Math.sqrt(variance) };
+}
+
+function zScore(observed, { mean, stddev }) {
+  return stddev > 0 ? (observed - mean) / stddev : null;
+}
+
+function round(value, digits) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,429 @@
+/**
+ * Cluster Sell Signal Processor
+ *
+ * Detects coordinated selling where multiple insiders sell shares of the
+ * same company within a short time window. Only discretionary open-market
+ * sales count: tax-withholding dispositions (code F) and sales under 10b5-1
+ * plans say little about the insiders' view of the company.
+ *
+ * Signal strength weights come from the live "cluster_sell_strength"
+ * scoring model.
+ */
+
+import {
+  MODEL_NAMES,
+  getLiveModel,
+  scoreTier,
+} from '../services/scoring-models.js';
+import {
+  inScope,
+  loadIncrementalScope,
+  toJsonChunks,
+} from '../services/watermarks.js';
+import { daysAgo } from '../utils/dates.js';
+
+const CLUSTER_WINDOW_DAYS = 3;
+const WATERMARK_KEY = 'cluster-sells';
+const MAX_CANDIDATES = 1000; // Clusters per run, largest first
+
+// Discretionary open-market sales: code S only (F withholding and other
+// dispositions excluded), outside 10b5-1 plans
+const DISCRETIONARY_SALE = `
+  it.acquired_disposed_code = 'D'
+  AND it.transaction_code = 'S'
+  AND COALESCE(it.is_10b5_1_plan, 0) = 0
+  AND it.shares_transacted > 0
+  AND it.price_per_share IS NOT NULL
+  AND it.price_per_share > 0
+`;
+
+// Share of the seller's holdings sold by the transaction (0-1)
+const PCT_OF_HOLDINGS = `
+  CAST(it.shares_transacted AS REAL) / NULLIF(it.shares_owned_following + it.shares_transacted, 0)
+`;
+
+/**
+ * Process cluster sell signals
+ *
+ * Strategy:
+ * 1. Find the issuers touched by filings completed since the last run
+ *    (everything on the first run or when the live model changes)
+ * 2. Group their discretionary sales in the last 14 days by transaction date
+ * 3. Identify clusters (2+ distinct insiders selling)
+ * 4. Calculate signal strength under the live scoring model
+ * 5. In one batch: deactivate the rescored and expired clusters, upsert the
+ *    current ones (with the model version) and their trades (±3 day window),
+ *    and advance the watermark
+ */
+export async function processClusterSells(env, logger, options = {}) {
+  const startTime = Date.now();
+  const LOOKBACK_DAYS = 14; // Same window as cluster buys
+
+  try {
+    const model = await getLiveModel(env, MODEL_NAMES.CLUSTER_SELL_STRENGTH);
+    const windowStart = daysAgo(LOOKBACK_DAYS);
+
+    // Step 1: Work out which issuers and dates to rescore
+    // Clusters scored by another model version need a full rescore
+    const staleModel = await env.DB.prepare(
+      `
+      SELECT 1 FROM cluster_sell_signals
+      WHERE is_active = TRUE AND scoring_model_version IS NOT ?
+      LIMIT 1
+    `
+    )
+      .bind(model.version)
+      .first();
+
+    const scope = await loadIncrementalScope(env, WATERMARK_KEY, {
+      windowStart,
+      paddingDays: CLUSTER_WINDOW_DAYS,
+      full: options.full || !!staleModel,
+      touched: options.touched,
+    });
+
+    logger.info("🔻 Starting cluster sell detection", {
+      lookback_days: LOOKBACK_DAYS,
+      cluster_window: `±${CLUSTER_WINDOW_DAYS} days`,
+      model_version: model.version,
+      full: scope.full,
+      new_filings: scope.filings,
+    });
+
+    // Step 2: Find same-day selling by 2+ insiders
+    const clusters =
+      scope.filings === 0
+        ? { results: [] }
+        : await fetchClusterSellCandidates(env, windowStart, null, scope.scopes);
+
+    logger.info(`📦 Found ${clusters.results.length} potential sell clusters to process`);
+
+    // Step 3: Pre-calculate all signal strengths
+    const clusterRows = clusters.results.map((cluster) => ({
+      issuer_id: cluster.issuer_id,
+      transaction_date: cluster.transaction_date,
+      total_insiders: cluster.total_insiders,
+      total_shares: cluster.total_shares,
+      total_value: cluster.total_value,
+      signal_strength: calculateSellSignalStrength(cluster, model.config),
+      avg_role_priority: cluster.avg_role_priority,
+      has_ceo_sell: cluster.has_ceo_sell,
+      has_cfo_sell: cluster.has_cfo_sell,
+      has_ten_percent_owner: cluster.has_ten_percent_owner,
+      avg_pct_of_holdings: cluster.avg_pct_of_holdings,
+      sell_window_start: cluster.sell_window_start,
+      sell_window_end: cluster.sell_window_end,
+    }));
+
+    const tradeRows = await fetchClusterSellTrades(env, clusterRows);
+
+    // Clusters that exist already, to count new ones
+    const existing = await env.DB.prepare(
+      `
+      SELECT issuer_id, transaction_date
+      FROM cluster_sell_signals
+      WHERE transaction_date >= ?1
+        AND ${inScope("issuer_id", "transaction_date", "?2")}
+    `
+    )
+      .bind(windowStart, scope.scopes)
+      .all();
+
+    const existingKeys = new Set(
+      existing.results.map((e) => `${e.issuer_id}_${e.transaction_date}`)
+    );
+
+    // Step 4: Apply all changes in one batch so the API never sees a
+    // half-updated set
+    const statements = [
+      env.DB.prepare(
+        `
+        UPDATE cluster_sell_signals
+        SET is_active = FALSE, last_updated = datetime('now')
+        WHERE is_active = TRUE
+          AND (transaction_date < ?1 OR ${inScope("issuer_id", "transaction_date", "?2")})
+      `
+      ).bind(windowStart, scope.scopes),
+      env.DB.prepare(
+        `
+        DELETE FROM cluster_sell_trades
+        WHERE cluster_id IN (
+          SELECT id FROM cluster_sell_signals
+          WHERE transaction_date >= ?1
+            AND ${inScope("issuer_id", "transaction_date", "?2")}
+        )
+      `
+      ).bind(windowStart, scope.scopes),
+      ...toJsonChunks(clusterRows).map((rows) =>
+        env.DB.prepare(
+          `
+          INSERT INTO cluster_sell_signals (
+            issuer_id, transaction_date, total_insiders, total_shares, total_value,
+            signal_strength, avg_role_priority, has_ceo_sell, has_cfo_sell,
+            has_ten_percent_owner, avg_pct_of_holdings, sell_window_start,
+            sell_window_end, scoring_model_version
+          )
+          SELECT
+            json_extract(value, '$.issuer_id'),
+            json_extract(value, '$.transaction_date'),
+            json_extract(value, '$.total_insiders'),
+            json_extract(value, '$.total_shares'),
+            json_extract(value, '$.total_value'),
+            json_extract(value, '$.signal_strength'),
+            json_extract(value, '$.avg_role_priority'),
+            json_extract(value, '$.has_ceo_sell'),
+            json_extract(value, '$.has_cfo_sell'),
+            json_extract(value, '$.has_ten_percent_owner'),
+            json_extract(value, '$.avg_pct_of_holdings'),
+            json_extract(value, '$.sell_window_start'),
+            json_extract(value, '$.sell_window_end'),
+            ?2
+          FROM json_each(?1)
+          WHERE TRUE
+          ON CONFLICT(issuer_id, transaction_date) DO UPDATE SET
+            total_insiders = excluded.total_insiders,
+            total_shares = excluded.total_shares,
+            total_value = excluded.total_value,
+            signal_strength = excluded.signal_strength,
+            avg_role_priority = excluded.avg_role_priority,
+            has_ceo_sell = excluded.has_ceo_sell,
+            has_cfo_sell = excluded.has_cfo_sell,
+            has_ten_percent_owner = excluded.has_ten_percent_owner,
+            avg_pct_of_holdings = excluded.avg_pct_of_holdings,
+            sell_window_start = excluded.sell_window_start,
+            sell_window_end = excluded.sell_window_end,
+            scoring_model_version = excluded.scoring_model_version,
+            is_active = TRUE,
+            last_updated = datetime('now')
+        `
+        ).bind(rows, model.version)
+      ),
+      ...toJsonChunks(tradeRows).map((rows) =>
+        env.DB.prepare(
+          `
+          INSERT OR IGNORE INTO cluster_sell_trades (
+            cluster_id, transaction_id, person_id, person_name,
+            shares_transacted, price_per_share, transaction_value,
+            pct_of_holdings, is_officer, is_director, officer_title
+          )
+          SELECT
+            css.id,
+            json_extract(t.value, '$.transaction_id'),
+            json_extract(t.value, '$.person_id'),
+            json_extract(t.value, '$.person_name'),
+            json_extract(t.value, '$.shares_transacted'),
+            json_extract(t.value, '$.price_per_share'),
+            json_extract(t.value, '$.transaction_value'),
+            json_extract(t.value, '$.pct_of_holdings'),
+            json_extract(t.value, '$.is_officer'),
+            json_extract(t.value, '$.is_director'),
+            json_extract(t.value, '$.officer_title')
+          FROM json_each(?1) t
+          JOIN cluster_sell_signals css
+            ON css.issuer_id = json_extract(t.value, '$.issuer_id')
+            AND css.transaction_date = json_extract(t.value, '$.cluster_date')
+        `
+        ).bind(rows)
+      ),
+    ];
+
+    if (scope.watermarkUpdate) {
+      statements.push(scope.watermarkUpdate);
+    }
+
+    await env.DB.batch(statements);
+
+    // Step 5: Clean up old inactive signals (older than 30 days to keep some history)
+    const cleanup = await env.DB.prepare(
+      `
+      DELETE FROM cluster_sell_signals
+      WHERE is_active = FALSE
+        AND transaction_date < date('now', '-30 days')
+    `
+    ).run();
+
+    const duration = Date.now() - startTime;
+    const newClusters = clusterRows.filter(
+      (c) => !existingKeys.has(`${c.issuer_id}_${c.transaction_date}`)
+    ).length;
+
+    const summary = {
+      duration_ms: duration,
+      full: scope.full,
+      new_filings: scope.filings,
+      processed: clusterRows.length,
+      new: newClusters,
+      updated: clusterRows.length - newClusters,
+      model_version: model.version,
+      cleaned_up: cleanup.meta.changes || 0,
+    };
+
+    logger.info("✅ Cluster sell processing complete", summary);
+
+    return summary;
+  } catch (error) {
+    logger.error("❌ Cluster sell processing failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sell clusters (2+ distinct insiders making discretionary sales in the same
+ * issuer on the same day) with the inputs the scoring model needs. Used by
+ * the processor and by rescoring (services/rescore.js).
+ *
+ * @param {string} startDate - First transaction date (YYYY-MM-DD)
+ * @param {string|null} endDate - Last transaction date, or null for no limit
+ * @param {string|null} scopes - Issuer scopes from loadIncrementalScope, or null for all issuers
+ * @param {number} limit - Largest clusters by value to return; candidate_total
+ *   on each row counts every matching cluster, so callers can tell when it was cut
+ */
+export async function fetchClusterSellCandidates(env, startDate, endDate, scopes = null, limit = MAX_CANDIDATES) {
+  const clusterQuery = `
+    SELECT
+      f.issuer_id,
+      it.transaction_date,
+      COUNT(DISTINCT p.id) as total_insiders,
+      SUM(it.shares_transacted) as total_shares,
+      SUM(it.transaction_value) as total_value,
+      ROUND(AVG(CASE
+        WHEN pr.is_officer = 1 AND (
+          LOWER(COALESCE(pr.officer_title, '')) LIKE '%chief executive%'
+          OR LOWER(COALESCE(pr.officer_title, '')) LIKE '%ceo%'
+        ) THEN 3
+        WHEN pr.is_officer = 1 AND (
+          LOWER(COALESCE(pr.officer_title, '')) LIKE '%chief financial%'
+          OR LOWER(COALESCE(pr.officer_title, '')) LIKE '%cfo%'
+        ) THEN 2
+        WHEN pr.is_officer = 1 THEN 1
+        ELSE 0
+      END), 2) as avg_role_priority,
+      MAX(CASE
+        WHEN pr.is_officer = 1 AND (
+          LOWER(COALESCE(pr.officer_title, '')) LIKE '%chief executive%'
+          OR LOWER(COALESCE(pr.officer_title, '')) LIKE '%ceo%'
+        ) THEN 1 ELSE 0
+      END) as has_ceo_sell,
+      MAX(CASE
+        WHEN pr.is_officer = 1 AND (
+          LOWER(COALESCE(pr.officer_title, '')) LIKE '%chief financial%'
+          OR LOWER(COALESCE(pr.officer_title, '')) LIKE '%cfo%'
+        ) THEN 1 ELSE 0
+      END) as has_cfo_sell,
+      MAX(pr.is_ten_percent_owner) as has_ten_percent_owner,
+      ROUND(AVG(${PCT_OF_HOLDINGS}), 4) as avg_pct_of_holdings,
+      date(MAX(f.filed_at)) as last_filed_date, -- When the whole cluster was public
+      COUNT(*) OVER () as candidate_total,
+      date(it.transaction_date, '-${CLUSTER_WINDOW_DAYS} days') as sell_window_start,
+      date(it.transaction_date, '+${CLUSTER_WINDOW_DAYS} days') as sell_window_end
+    FROM insider_transactions it
+    JOIN filings f ON it.filing_id = f.id
+    JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+    JOIN persons p ON pr.person_id = p.id
+    WHERE f.status = 'completed'
+      AND it.is_active = TRUE
+      AND ${DISCRETIONARY_SALE}
+      AND it.transaction_date >= ?1
+      AND (?2 IS NULL OR it.transaction_date <= ?2)
+      AND ${inScope("f.issuer_id", "it.transaction_date", "?3")}
+    GROUP BY f.issuer_id, it.transaction_date
+    HAVING COUNT(DISTINCT p.id) >= 2
+    ORDER BY total_value DESC
+    LIMIT ?4
+  `;
+
+  return env.DB.prepare(clusterQuery).bind(startDate, endDate, scopes, limit).all();
+}
+
+/**
+ * Calculate signal strength for a sell cluster under a model config
+ * Returns a score from 0 to the model's max_score based on multiple factors
+ */
+export function calculateSellSignalStrength(cluster, config) {
+  let score = 0;
+
+  // Factor 1: Number of insiders
+  score += scoreTier(cluster.total_insiders, config.insiders.tiers);
+
+  // Factor 2: Total transaction value
+  score += scoreTier(cluster.total_value, config.value.tiers);
+
+  // Factor 3: Insider seniority
+  if (cluster.has_ceo_sell) {
+    score += config.seniority.ceo;
+  }
+  if (cluster.has_cfo_sell) {
+    score += config.seniority.cfo;
+  }
+  score += scoreTier(cluster.avg_role_priority, config.seniority.avg_role_tiers);
+
+  // Factor 4: 10% owner participation
+  if (cluster.has_ten_percent_owner) {
+    score += config.ten_percent_owner;
+  }
+
+  // Factor 5: How much of their holdings the sellers let go of
+  score += scoreTier(cluster.avg_pct_of_holdings || 0, config.holdings_sold.tiers);
+
+  // Factor 6: Concentration bonus
+  score += scoreTier(cluster.total_insiders, config.concentration.tiers);
+
+  return Math.min(Math.round(score), config.max_score);
+}
+
+/**
+ * Sales belonging to each cluster (discretionary sales in the issuer within
+ * ±3 days of the cluster date). A sale near several clusters is assigned
+ * once, to the highest-value cluster.
+ */
+async function fetchClusterSellTrades(env, clusterRows) {
+  const clusterRefs = clusterRows.map((c, index) => ({
+    index,
+    issuer_id: c.issuer_id,
+    transaction_date: c.transaction_date,
+  }));
+
+  const assigned = new Map();
+
+  for (const refs of toJsonChunks(clusterRefs)) {
+    const trades = await env.DB.prepare(
+      `
+      SELECT
+        json_extract(c.value, '$.index') as cluster_index,
+        it.id as transaction_id,
+        p.id as person_id, p.name as person_name,
+        it.shares_transacted, it.price_per_share, it.transaction_value,
+        ${PCT_OF_HOLDINGS} as pct_of_holdings,
+        pr.is_officer, pr.is_director, pr.officer_title
+      FROM json_each(?1) c
+      JOIN filings f ON f.issuer_id = json_extract(c.value, '$.issuer_id')
+      JOIN insider_transactions it ON it.filing_id = f.id
+      JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+      JOIN persons p ON pr.person_id = p.id
+      WHERE f.status = 'completed'
+        AND it.is_active = TRUE
+        AND ${DISCRETIONARY_SALE}
+        AND it.transaction_date BETWEEN date(json_extract(c.value, '$.transaction_date'), '-${CLUSTER_WINDOW_DAYS} days')
+          AND date(json_extract(c.value, '$.transaction_date'), '+${CLUSTER_WINDOW_DAYS} days')
+    `
+    )
+      .bind(refs)
+      .all();
+
+    for (const trade of trades.results) {
+      const current = assigned.get(trade.transaction_id);
+      if (!current || trade.cluster_index < current.cluster_index) {
+        assigned.set(trade.transaction_id, trade);
+      }
+    }
+  }
+
+  return [...assigned.values()].map(({ cluster_index, ...trade }) => ({
+    ...trade,
+    issuer_id: clusterRows[cluster_index].issuer_id,
+    cluster_date: clusterRows[cluster_index].transaction_date,
+  }));
+}
@@ -0,0 +1,200 @@
+/**
+ * First Buy Signal Processor
+ *
+ * Flags an insider's first open-market purchase in an issuer after a long
+ * stretch without one (by default no purchase in the prior 24 months).
+ */
+
+import {
+  inScope,
+  loadIncrementalScope,
+  toJsonChunks,
+} from "../services/watermarks.js";
+import { daysAgo } from "../utils/dates.js";
+
+const DEFAULT_LOOKBACK_MONTHS = 24;
+const WATERMARK_KEY = "first-buys";
+
+/**
+ * Process first buy signals
+ *
+ * Strategy:
+ * 1. Find the issuers touched by filings completed since the last run
+ *    (everything on the first run)
+ * 2. Find their open-market purchases in the last 90 days, from the earliest
+ *    touched date on (a new purchase can only change later first buys)
+ * 3. Keep those with no earlier purchase by the same insider in the same
+ *    issuer within the lookback (the earliest of same-day buys counts)
+ * 4. In one batch: replace the rescored signals, flag matching important
+ *    trades and advance the watermark
+ *
+ * The lookback is set with the FIRST_BUY_LOOKBACK_MONTHS variable.
+ */
+export async function processFirstBuys(env, logger, options = {}) {
+  const startTime = Date.now();
+  const WINDOW_DAYS = 90; // Matches the historical metrics window
+  const lookbackMonths =
+    parseInt(env.FIRST_BUY_LOOKBACK_MONTHS) || DEFAULT_LOOKBACK_MONTHS;
+
+  try {
+    // Step 1: Work out which issuers and dates to rescore
+    const windowStart = daysAgo(WINDOW_DAYS);
+    const scope = await loadIncrementalScope(env, WATERMARK_KEY, {
+      windowStart,
+      full: options.full,
+      touched: options.touched,
+    });
+
+    logger.info("🆕 Starting first buy detection", {
+      window_days: WINDOW_DAYS,
+      lookback_months: lookbackMonths,
+      full: scope.full,
+      new_filings: scope.filings,
+    });
+
+    // Step 2: Find purchases with no earlier purchase inside the lookback
+    const firstBuysQuery = `
+      SELECT
+        it.id as transaction_id,
+        f.id as filing_id,
+        f.issuer_id,
+        pr.person_id,
+        it.transaction_date,
+        (
+          SELECT MAX(it3.transaction_date)
+          FROM insider_transactions it3
+          JOIN filings f3 ON it3.filing_id = f3.id
+          JOIN person_relationships pr3 ON f3.id = pr3.filing_id AND pr3.is_primary_owner = TRUE
+          WHERE pr3.person_id = pr.person_id
+            AND f3.issuer_id = f.issuer_id
+            AND f3.status = 'completed'
+            AND it3.is_active = TRUE
+            AND it3.transaction_code = 'P'
+            AND it3.acquired_disposed_code = 'A'
+            AND it3.transaction_date < date(it.transaction_date, '-${lookbackMonths} months')
+        ) as previous_buy_date
+      FROM insider_transactions it
+      JOIN filings f ON it.filing_id = f.id
+      JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+      WHERE f.status = 'completed'
+        AND it.is_active = TRUE
+        AND it.transaction_code = 'P'
+        AND it.acquired_disposed_code = 'A'
+        AND it.price_per_share IS NOT NULL
+        AND it.price_per_share > 0
+        AND it.transaction_date >= ?1
+        AND ${inScope("f.issuer_id", "it.transaction_date", "?2")}
+        AND NOT EXISTS (
+          SELECT 1
+          FROM insider_transactions it2
+          JOIN filings f2 ON it2.filing_id = f2.id
+          JOIN person_relationships pr2 ON f2.id = pr2.filing_id AND pr2.is_primary_owner = TRUE
+          WHERE pr2.person_id = pr.person_id
+            AND f2.issuer_id = f.issuer_id
+            AND f2.status = 'completed'
+            AND it2.is_active = TRUE
+            AND it2.transaction_code = 'P'
+            AND it2.acquired_disposed_code = 'A'
+            AND (
+              (it2.transaction_date < it.transaction_date
+                AND it2.transaction_date >= date(it.transaction_date, '-${lookbackMonths} months'))
+              OR (it2.transaction_date = it.transaction_date AND it2.id < it.id)
+            )
+        )
+    `;
+
+    const firstBuys =
+      scope.filings === 0
+        ? { results: [] }
+        : await env.DB.prepare(firstBuysQuery).bind(windowStart, scope.scopes).all();
+
+    logger.info(`🔍 Found ${firstBuys.results.length} first buys`);
+
+    // Step 3: Apply all changes in one batch: signals in scope are marked
+    // outdated and the ones still valid re-activated by the upsert
+    const statements = [
+      env.DB.prepare(
+        `
+        UPDATE first_buy_signals
+        SET is_active = FALSE
+        WHERE is_active = TRUE
+          AND transaction_date >= ?1
+          AND ${inScope("issuer_id", "transaction_date", "?2")}
+      `
+      ).bind(windowStart, scope.scopes),
+      ...toJsonChunks(firstBuys.results).map((rows) =>
+        env.DB.prepare(
+          `
+          INSERT INTO first_buy_signals (
+            transaction_id, filing_id, issuer_id, person_id,
+            transaction_date, lookback_months, previous_buy_date
+          )
+          SELECT
+            json_extract(value, '$.transaction_id'),
+            json_extract(value, '$.filing_id'),
+            json_extract(value, '$.issuer_id'),
+            json_extract(value, '$.person_id'),
+            json_extract(value, '$.transaction_date'),
+            ?2,
+            json_extract(value, '$.previous_buy_date')
+          FROM json_each(?1)
+          WHERE TRUE
+          ON CONFLICT(transaction_id) DO UPDATE SET
+            lookback_months = excluded.lookback_months,
+            previous_buy_date = excluded.previous_buy_date,
+            is_active = TRUE
+        `
+        ).bind(rows, lookbackMonths)
+      ),
+      // Keep the quick filter on important trades in sync, for the trades in
+      // scope whose flag actually changed
+      env.DB.prepare(
+        `
+        WITH first_buys AS (
+          SELECT transaction_id FROM first_buy_signals WHERE is_active = TRUE
+        )
+        UPDATE important_trade_signals
+        SET is_first_buy = transaction_id IN (SELECT transaction_id FROM first_buys)
+        WHERE is_active = TRUE
+          AND is_first_buy IS NOT (transaction_id IN (SELECT transaction_id FROM first_buys))
+          AND transaction_id IN (
+            SELECT it.id
+            FROM insider_transactions it
+            JOIN filings f ON it.filing_id = f.id
+            WHERE it.transaction_date >= ?1
+              AND ${inScope("f.issuer_id", "it.transaction_date", "?2")}
+          )
+      `
+      ).bind(windowStart, scope.scopes),
+    ];
+    const syncIndex = statements.length - 1;
+
+    if (scope.watermarkUpdate) {
+      statements.push(scope.watermarkUpdate);
+    }
+
+    const results = await env.DB.batch(statements);
+    const flagged = results[syncIndex];
+
+    const duration = Date.now() - startTime;
+
+    const summary = {
+      duration_ms: duration,
+      full: scope.full,
+      new_filings: scope.filings,
+      first_buys: firstBuys.results.length,
+      lookback_months: lookbackMonths,
+      important_trades_updated: flagged.meta.changes || 0,
+    };
+
+    logger.info("✅ First buy processing complete", summary);
+
+    return summary;
+  } catch (error) {
+    logger.error("❌ First buy processing failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+    throw error;
+  }
+}
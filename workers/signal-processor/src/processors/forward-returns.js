@@ -0,0 +1,311 @@
+/**
+ * Forward Returns Processor
+ *
+ * Records how the stock did after each important trade and cluster buy/sell:
+ * returns over 5, 20, 60 and 120 trading days from the first close on or
+ * after the transaction date, raw and in excess of SPY. Every open-market
+ * buy is also tracked as an "insider_buy", whatever its importance score, so
+ * insider track records measure all of an insider's buys rather than the
+ * ones importance scoring (which they feed) let through. Rows are checked at
+ * most once a day until the 120-day return is in.
+ */
+
+import { fetchDailyCloses } from "../services/market-data.js";
+import { toJsonChunks } from "../services/watermarks.js";
+import { daysAgo } from "../utils/dates.js";
+
+export const RETURN_HORIZONS = [5, 20, 60, 120];
+const BENCHMARK_SYMBOL = "SPY";
+const MAX_SYMBOLS_PER_RUN = 25; // Keeps each run well inside the subrequest limit
+const GIVE_UP_AFTER_DAYS = 365; // Close rows that still lack bars after a year
+
+/**
+ * Process forward returns
+ *
+ * Strategy:
+ * 1. Drop rows of trades that are no longer live (reprocessed or superseded
+ *    by an amendment, whose replacements register under new ids), then
+ *    register new active signals (important trades, cluster buys and cluster
+ *    sells of issuers with a ticker) and open-market buys, refreshing the
+ *    score of known signals
+ * 2. Pick the symbols with incomplete rows not checked today, least recently
+ *    checked first
+ * 3. Fetch their daily bars and SPY's from the earliest signal date on
+ * 4. Compute the returns and store them in one batch
+ */
+export async function processForwardReturns(env, logger) {
+  const startTime = Date.now();
+
+  if (!env.ALPACA_MARKET) {
+    logger.warn("ALPACA_MARKET binding missing, skipping forward returns");
+    return { skipped: true };
+  }
+
+  try {
+    // Step 1: Retire dead trades and register signals
+    const [retired, ...registered] = await env.DB.batch([
+      buildRetirementStatement(env),
+      ...buildRegistrationStatements(env),
+    ]);
+    const newSignals = registered.reduce((sum, r) => sum + (r.meta.changes || 0), 0);
+
+    // Step 2: Symbols due for a check
+    const due = await env.DB.prepare(
+      `
+      SELECT trading_symbol, MIN(signal_date) as first_signal_date
+      FROM signal_forward_returns
+      WHERE is_complete = FALSE
+        AND (checked_at IS NULL OR checked_at < date('now'))
+      GROUP BY trading_symbol
+      ORDER BY MAX(checked_at IS NOT NULL), MIN(checked_at)
+      LIMIT ?
+    `
+    )
+      .bind(MAX_SYMBOLS_PER_RUN)
+      .all();
+
+    logger.info("📈 Starting forward return tracking", {
+      registered: newSignals,
+      retired: retired.meta.changes || 0,
+      symbols_due: due.results.length,
+    });
+
+    if (due.results.length === 0) {
+      return { duration_ms: Date.now() - startTime, registered: newSignals, symbols: 0, updated: 0 };
+    }
+
+    const symbols = due.results.map((row) => row.trading_symbol);
+    const pending = await env.DB.prepare(
+      `
+      SELECT id, trading_symbol, signal_date
+      FROM signal_forward_returns
+      WHERE is_complete = FALSE
+        AND trading_symbol IN (SELECT value FROM json_each(?1))
+    `
+    )
+      .bind(JSON.stringify(symbols))
+      .all();
+
+    // Step 3: Fetch bars
+    const today = daysAgo(0);
+    const earliest = due.results.reduce(
+      (min, row) => (row.first_signal_date < min ? row.first_signal_date : min),
+      today
+    );
+
+    const benchmark = toCloseMap(
+      await fetchDailyCloses(env, BENCHMARK_SYMBOL, earliest, today)
+    );
+
+    const barsBySymbol = new Map();
+    for (const row of due.results) {
+      try {
+        barsBySymbol.set(
+          row.trading_symbol,
+          await fetchDailyCloses(env, row.trading_symbol, row.first_signal_date, today)
+        );
+      } catch (error) {
+        // Leave the symbol unchecked so the next run retries it
+        logger.warn(`Bars unavailable for ${row.trading_symbol}`, { error: error.message });
+      }
+    }
+
+    // Step 4: Compute and store returns
+    const giveUpBefore = daysAgo(GIVE_UP_AFTER_DAYS);
+    const updates = pending.results
+      .filter((row) => barsBySymbol.has(row.trading_symbol))
+      .map((row) => ({
+        id: row.id,
+        ...calculateForwardReturns(row, barsBySymbol.get(row.trading_symbol), benchmark),
+        give_up: row.signal_date < giveUpBefore,
+      }));
+
+    const statements = toJsonChunks(updates).map((rows) =>
+      env.DB.prepare(
+        `
+        UPDATE signal_forward_returns
+        SET
+          base_date = json_extract(u.value, '$.base_date'),
+          base_price = json_extract(u.value, '$.base_price'),
+          return_5d = json_extract(u.value, '$.return_5d'),
+          return_20d = json_extract(u.value, '$.return_20d'),
+          return_60d = json_extract(u.value, '$.return_60d'),
+          return_120d = json_extract(u.value, '$.return_120d'),
+          excess_5d = json_extract(u.value, '$.excess_5d'),
+          excess_20d = json_extract(u.value, '$.excess_20d'),
+          excess_60d = json_extract(u.value, '$.excess_60d'),
+          excess_120d = json_extract(u.value, '$.excess_120d'),
+          bars_through = json_extract(u.value, '$.bars_through'),
+          is_complete = json_extract(u.value, '$.return_120d') IS NOT NULL
+            OR json_extract(u.value, '$.give_up'),
+          checked_at = datetime('now')
+        FROM json_each(?1) u
+        WHERE signal_forward_returns.id = json_extract(u.value, '$.id')
+      `
+      ).bind(rows)
+    );
+
+    if (statements.length > 0) {
+      await env.DB.batch(statements);
+    }
+
+    const summary = {
+      duration_ms: Date.now() - startTime,
+      registered: newSignals,
+      symbols: barsBySymbol.size,
+      updated: updates.length,
+      completed: updates.filter((u) => u.return_120d !== null || u.give_up).length,
+      benchmark_bars: benchmark.size,
+    };
+
+    logger.info("✅ Forward return tracking complete", summary);
+
+    return summary;
+  } catch (error) {
+    logger.error("❌ Forward return tracking failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Forward returns of one signal from a symbol's daily closes (oldest first)
+ * and the benchmark's closes by date
+ */
+export function calculateForwardReturns(signal, closes, benchmark) {
+  const result = {
+    base_date: null,
+    base_price: null,
+    bars_through: closes.length > 0 ? closes[closes.length - 1].date : null,
+  };
+  for (const horizon of RETURN_HORIZONS) {
+    result[`return_${horizon}d`] = null;
+    result[`excess_${horizon}d`] = null;
+  }
+
+  const baseIndex = closes.findIndex((bar) => bar.date >= signal.signal_date);
+  if (baseIndex === -1 || !(closes[baseIndex].close > 0)) {
+    return result;
+  }
+
+  const base = closes[baseIndex];
+  result.base_date = base.date;
+  result.base_price = base.close;
+
+  for (const horizon of RETURN_HORIZONS) {
+    const bar = closes[baseIndex + horizon];
+    if (!bar) break;
+
+    const raw = bar.close / base.close - 1;
+    result[`return_${horizon}d`] = round(raw);
+
+    const benchmarkBase = benchmark.get(base.date);
+    const benchmarkEnd = benchmark.get(bar.date);
+    if (benchmarkBase > 0 && benchmarkEnd > 0) {
+      result[`excess_${horizon}d`] = round(raw - (benchmarkEnd / benchmarkBase - 1));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Delete the rows of trades whose transaction is gone or inactive, so a
+ * reprocessed or amended trade is not counted next to its replacement.
+ * Clusters (transaction_id 0) are left alone.
+ */
+function buildRetirementStatement(env) {
+  return env.DB.prepare(
+    `
+    DELETE FROM signal_forward_returns
+    WHERE transaction_id != 0
+      AND NOT EXISTS (
+        SELECT 1 FROM insider_transactions it
+        WHERE it.id = signal_forward_returns.transaction_id
+          AND it.is_active = TRUE
+      )
+  `
+  );
+}
+
+/**
+ * Upserts that record active signals and open-market buys not seen before
+ * and keep the score of known signals current
+ */
+function buildRegistrationStatements(env) {
+  const upsert = (select) =>
+    env.DB.prepare(
+      `
+      INSERT INTO signal_forward_returns (
+        signal_type, issuer_id, signal_date, transaction_id, person_id,
+        direction, score, scoring_model_version, trading_symbol
+      )
+      ${select}
+      ON CONFLICT(signal_type, issuer_id, signal_date, transaction_id) DO UPDATE SET
+        score = excluded.score,
+        scoring_model_version = excluded.scoring_model_version
+      WHERE score IS NOT excluded.score
+        OR scoring_model_version IS NOT excluded.scoring_model_version
+    `
+    );
+
+  return [
+    upsert(`
+      SELECT
+        'important_trade', f.issuer_id, it.transaction_date, its.transaction_id, pr.person_id,
+        CASE WHEN its.is_purchase THEN 'buy' ELSE 'sell' END,
+        its.importance_score, its.scoring_model_version, UPPER(TRIM(i.trading_symbol))
+      FROM important_trade_signals its
+      JOIN insider_transactions it ON its.transaction_id = it.id
+      JOIN filings f ON its.filing_id = f.id
+      JOIN issuers i ON f.issuer_id = i.id
+      LEFT JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+      WHERE its.is_active = TRUE
+        AND (its.is_purchase OR its.is_sale)
+        AND COALESCE(TRIM(i.trading_symbol), '') != ''
+    `),
+    upsert(`
+      SELECT
+        'cluster_buy', cbs.issuer_id, cbs.transaction_date, 0, NULL, 'buy',
+        cbs.signal_strength, cbs.scoring_model_version, UPPER(TRIM(i.trading_symbol))
+      FROM cluster_buy_signals cbs
+      JOIN issuers i ON cbs.issuer_id = i.id
+      WHERE cbs.is_active = TRUE
+        AND COALESCE(TRIM(i.trading_symbol), '') != ''
+    `),
+    upsert(`
+      SELECT
+        'cluster_sell', css.issuer_id, css.transaction_date, 0, NULL, 'sell',
+        css.signal_strength, css.scoring_model_version, UPPER(TRIM(i.trading_symbol))
+      FROM cluster_sell_signals css
+      JOIN issuers i ON css.issuer_id = i.id
+      WHERE css.is_active = TRUE
+        AND COALESCE(TRIM(i.trading_symbol), '') != ''
+    `),
+    // Unscored, so insider track records don't depend on importance scoring
+    upsert(`
+      SELECT
+        'insider_buy', f.issuer_id, it.transaction_date, it.id, pr.person_id, 'buy',
+        NULL, NULL, UPPER(TRIM(i.trading_symbol))
+      FROM insider_transactions it
+      JOIN filings f ON it.filing_id = f.id
+      JOIN issuers i ON f.issuer_id = i.id
+      JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+      WHERE f.status = 'completed'
+        AND it.is_active = TRUE
+        AND it.acquired_disposed_code = 'A'
+        AND it.transaction_code = 'P'
+        AND COALESCE(TRIM(i.trading_symbol), '') != ''
+    `),
+  ];
+}
+
+function toCloseMap(closes) {
+  return new Map(closes.map((bar) => [bar.date, bar.close]));
+}
+
+function round(value) {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -1,24 +1,59 @@
 /**
  * Historical Metrics Processor
  *
- * Aggregates daily metrics for trend analysis and charts
+ * Aggregates daily metrics for trend analysis and charts, and each issuer's
+ * insider activity over rolling windows for company pages
  */
 
+import { loadIncrementalScope } from "../services/watermarks.js";
+import { daysAgo } from "../utils/dates.js";
+
+const WATERMARK_KEY = "historical-metrics";
+const ISSUER_WATERMARK_KEY = "issuer-metrics";
+// Marks the last completed full rebuild; the issuer-metrics watermark also
+// moves on incremental runs, so it cannot tell whether today's rebuild ran
+const ISSUER_REBUILD_KEY = "issuer-metrics-rebuild";
+const SUMMARY_WINDOW_MONTHS = [3, 6, 12];
+
+// Issuers in the scope list bound as ?1 (see loadIncrementalScope); a NULL
+// scope covers every issuer
+const inIssuerScope = (column) => `(?1 IS NULL OR ${column} IN (
+  SELECT json_extract(value, '$.issuer_id') FROM json_each(?1)
+))`;
+
 /**
  * Process historical metrics
- * Updates signal_history table with daily aggregated stats
+ * Updates signal_history table with daily aggregated stats for today and
+ * every day touched by filings completed since the last run (the last 90
+ * days on the first run)
  */
-export async function processHistoricalMetrics(env, logger) {
+export async function processHistoricalMetrics(env, logger, options = {}) {
   const startTime = Date.now();
 
   try {
-    logger.info("📊 Starting historical metrics calculation");
-
     // Calculate metrics for the last 90 days
     const LOOKBACK_DAYS = 90;
+    const windowStart = daysAgo(LOOKBACK_DAYS - 1);
 
-    let updatedDays = 0;
-    let newDays = 0;
+    const scope = await loadIncrementalScope(env, WATERMARK_KEY, {
+      windowStart,
+      full: options.full,
+    });
+
+    // Metrics are per day across all issuers, so recompute from the earliest
+    // touched date; today is always refreshed
+    const fromDate = scope.full
+      ? windowStart
+      : JSON.parse(scope.scopes).reduce(
+          (earliest, { from }) => (from < earliest ? from : earliest),
+          daysAgo(0)
+        );
+
+    logger.info("📊 Starting historical metrics calculation", {
+      from_date: fromDate,
+      full: scope.full,
+      new_filings: scope.filings,
+    });
 
     // Use a single large query with CTEs to calculate all metrics at once
     const metricsQuery = `
@@ -33,6 +68,7 @@ export async function processHistoricalMetrics(env, logger) {
           )
           SELECT x as value FROM cnt
         )
+        WHERE date('now', '-' || value || ' days') >= ?1
       ),
       cluster_metrics AS (
         SELECT 
@@ -43,7 +79,7 @@ export async function processHistoricalMetrics(env, logger) {
           SUM(total_value) as total_cluster_value
         FROM cluster_buy_signals
         WHERE is_active = TRUE
-          AND transaction_date >= date('now', '-${LOOKBACK_DAYS} days')
+          AND transaction_date >= ?1
         GROUP BY transaction_date
       ),
       insider_activity AS (
@@ -56,11 +92,23 @@ export async function processHistoricalMetrics(env, logger) {
         FROM insider_transactions it
         JOIN filings f ON it.filing_id = f.id
         WHERE f.status = 'completed'
-          AND it.transaction_date >= date('now', '-${LOOKBACK_DAYS} days')
+          AND it.is_active = TRUE
+          AND it.transaction_date >= ?1
           AND it.price_per_share IS NOT NULL
           AND it.price_per_share > 0
         GROUP BY it.transaction_date
       ),
+      first_buys AS (
+        SELECT 
+          fbs.transaction_date as date,
+          COUNT(*) as first_buys_count
+        FROM first_buy_signals fbs
+        JOIN insider_transactions it ON fbs.transaction_id = it.id
+        WHERE fbs.is_active = TRUE
+          AND it.is_active = TRUE
+          AND fbs.transaction_date >= ?1
+        GROUP BY fbs.transaction_date
+      ),
       important_trades AS (
         SELECT 
           it.transaction_date as date,
@@ -69,7 +117,7 @@ export async function processHistoricalMetrics(env, logger) {
         FROM important_trade_signals its
         JOIN insider_transactions it ON its.transaction_id = it.id
         WHERE its.is_active = TRUE
-          AND it.transaction_date >= date('now', '-${LOOKBACK_DAYS} days')
+          AND it.transaction_date >= ?1
         GROUP BY it.transaction_date
       )
       SELECT 
@@ -89,129 +137,77 @@ export async function processHistoricalMetrics(env, logger) {
           THEN 999
           ELSE 0
         END as buy_sell_ratio,
-        0 as first_buys_count,
+        COALESCE(fb.first_buys_count, 0) as first_buys_count,
         COALESCE(imt.important_trades_count, 0) as important_trades_count,
         COALESCE(imt.avg_importance_score, 0) as avg_importance_score
       FROM date_series ds
       LEFT JOIN cluster_metrics cm ON ds.target_date = cm.date
       LEFT JOIN insider_activity ia ON ds.target_date = ia.date
+      LEFT JOIN first_buys fb ON ds.target_date = fb.date
       LEFT JOIN important_trades imt ON ds.target_date = imt.date
       ORDER BY ds.target_date DESC
     `;
 
     // Get all metrics in one query
-    const metrics = await env.DB.prepare(metricsQuery).all();
+    const metrics = await env.DB.prepare(metricsQuery).bind(fromDate).all();
 
-    // Check which dates already exist in signal_history
-    const existingDates = await env.DB.prepare(
+    // Upsert all days and advance the watermark in one batch
+    const statements = metrics.results.map((metric) =>
+      env.DB.prepare(
+        `
+        INSERT INTO signal_history (
+          date,
+          cluster_buys_count, avg_cluster_size, max_cluster_size, total_cluster_value,
+          total_insider_buys, total_insider_sells,
+          total_buy_value, total_sell_value, buy_sell_ratio,
+          first_buys_count, important_trades_count, avg_importance_score
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(date) DO UPDATE SET
+          cluster_buys_count = excluded.cluster_buys_count,
+          avg_cluster_size = excluded.avg_cluster_size,
+          max_cluster_size = excluded.max_cluster_size,
+          total_cluster_value = excluded.total_cluster_value,
+          total_insider_buys = excluded.total_insider_buys,
+          total_insider_sells = excluded.total_insider_sells,
+          total_buy_value = excluded.total_buy_value,
+          total_sell_value = excluded.total_sell_value,
+          buy_sell_ratio = excluded.buy_sell_ratio,
+          first_buys_count = excluded.first_buys_count,
+          important_trades_count = excluded.important_trades_count,
+          avg_importance_score = excluded.avg_importance_score,
+          calculated_at = datetime('now')
       `
-      SELECT date, id 
-      FROM signal_history 
-      WHERE date >= date('now', '-${LOOKBACK_DAYS} days')
-    `
-    ).all();
-
-    const existingMap = new Map(
-      existingDates.results.map(e => [e.date, e.id])
+      ).bind(
+        metric.date,
+        metric.cluster_buys_count,
+        metric.avg_cluster_size,
+        metric.max_cluster_size,
+        metric.total_cluster_value,
+        metric.total_insider_buys,
+        metric.total_insider_sells,
+        metric.total_buy_value,
+        metric.total_sell_value,
+        metric.buy_sell_ratio,
+        metric.first_buys_count,
+        metric.important_trades_count,
+        metric.avg_importance_score
+      )
     );
 
-    // Batch upsert all metrics
-    const BATCH_SIZE = 100;
-    for (let i = 0; i < metrics.results.length; i += BATCH_SIZE) {
-      const batch = metrics.results.slice(i, i + BATCH_SIZE);
-      const statements = [];
-
-      for (const metric of batch) {
-        const existingId = existingMap.get(metric.date);
-
-        if (existingId) {
-          // Update existing record
-          statements.push(
-            env.DB.prepare(
-              `
-              UPDATE signal_history SET
-                cluster_buys_count = ?,
-                avg_cluster_size = ?,
-                max_cluster_size = ?,
-                total_cluster_value = ?,
-                total_insider_buys = ?,
-                total_insider_sells = ?,
-                total_buy_value = ?,
-                total_sell_value = ?,
-                buy_sell_ratio = ?,
-                first_buys_count = ?,
-                important_trades_count = ?,
-                avg_importance_score = ?,
-                calculated_at = datetime('now')
-              WHERE id = ?
-            `
-            ).bind(
-              metric.cluster_buys_count,
-              metric.avg_cluster_size,
-              metric.max_cluster_size,
-              metric.total_cluster_value,
-              metric.total_insider_buys,
-              metric.total_insider_sells,
-              metric.total_buy_value,
-              metric.total_sell_value,
-              metric.buy_sell_ratio,
-              metric.first_buys_count,
-              metric.important_trades_count,
-              metric.avg_importance_score,
-              existingId
-            )
-          );
-          updatedDays++;
-        } else {
-          // Insert new record
-          statements.push(
-            env.DB.prepare(
-              `
-              INSERT INTO signal_history (
-                date,
-                cluster_buys_count, avg_cluster_size, max_cluster_size, total_cluster_value,
-                total_insider_buys, total_insider_sells,
-                total_buy_value, total_sell_value, buy_sell_ratio,
-                first_buys_count, important_trades_count, avg_importance_score
-              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-            `
-            ).bind(
-              metric.date,
-              metric.cluster_buys_count,
-              metric.avg_cluster_size,
-              metric.max_cluster_size,
-              metric.total_cluster_value,
-              metric.total_insider_buys,
-              metric.total_insider_sells,
-              metric.total_buy_value,
-              metric.total_sell_value,
-              metric.buy_sell_ratio,
-              metric.first_buys_count,
-              metric.important_trades_count,
-              metric.avg_importance_score
-            )
-          );
-          newDays++;
-        }
-      }
-
-      // Execute batch
-      try {
-        await env.DB.batch(statements);
-      } catch (error) {
-        logger.error(`Failed to process metrics batch starting at index ${i}`, {
-          error: error.message,
-        });
-      }
+    if (scope.watermarkUpdate) {
+      statements.push(scope.watermarkUpdate);
     }
 
+    await env.DB.batch(statements);
+
     const duration = Date.now() - startTime;
 
     const summary = {
       duration_ms: duration,
-      days_processed: LOOKBACK_DAYS,
-      updated: updatedDays,
-      new: newDays,
+      full: scope.full,
+      new_filings: scope.filings,
+      from_date: fromDate,
+      days_processed: metrics.results.length,
     };
 
     logger.info("✅ Historical metrics processing complete", summary);
@@ -226,13 +222,180 @@ export async function processHistoricalMetrics(env, logger) {
   }
 }
 
+
 /**
- * Process issuer-specific metrics
- * This can be added later for company-specific trend analysis
+ * Process issuer metrics
+ *
+ * Updates issuer_insider_summaries, each company's open-market insider
+ * activity over the last 3, 6 and 12 months. The windows move every day, so
+ * scheduled runs rebuild every issuer until a full rebuild has completed
+ * today (recorded under its own signal_watermarks key), as does POST
+ * /process with { "full": true }; other runs and queue batches refresh only
+ * the issuers of new filings. The delete and insert run in one batch so readers never see an
+ * issuer without its rows.
  */
-export async function processIssuerMetrics(env, logger, issuerIds = null) {
-  // TODO: Implement per-issuer metrics calculation
-  // Useful for company pages showing historical insider activity
-  logger.info("Issuer metrics processing not yet implemented");
-  return { status: "skipped" };
+export async function processIssuerMetrics(env, logger, options = {}) {
+  const startTime = Date.now();
+
+  try {
+    let full = options.full === true;
+    if (!full && !options.touched) {
+      const rebuild = await env.DB.prepare(
+        `
+        SELECT updated_at >= date('now') as fresh
+        FROM signal_watermarks
+        WHERE processor = ?
+      `
+      )
+        .bind(ISSUER_REBUILD_KEY)
+        .first();
+      full = !rebuild?.fresh;
+    }
+
+    const scope = await loadIncrementalScope(env, ISSUER_WATERMARK_KEY, {
+      windowStart: daysAgo(0),
+      full,
+      touched: options.touched,
+    });
+
+    logger.info("🏢 Starting issuer metrics calculation", {
+      windows: SUMMARY_WINDOW_MONTHS,
+      full: scope.full,
+      new_filings: scope.filings,
+    });
+
+    if (scope.filings === 0) {
+      return {
+        duration_ms: Date.now() - startTime,
+        full: false,
+        new_filings: 0,
+        rows: 0,
+      };
+    }
+
+    const statements = [
+      env.DB.prepare(
+        `DELETE FROM issuer_insider_summaries WHERE ${inIssuerScope("issuer_id")}`
+      ).bind(scope.scopes),
+      env.DB.prepare(
+        `
+        WITH windows AS (
+          SELECT value as window_months, date('now', '-' || value || ' months') as window_start
+          FROM json_each(?2)
+        ),
+        trades AS (
+          SELECT
+            f.issuer_id,
+            it.transaction_date,
+            it.transaction_code = 'P' as is_buy,
+            COALESCE(it.transaction_value, 0) as transaction_value,
+            pr.person_id
+          FROM insider_transactions it
+          JOIN filings f ON it.filing_id = f.id
+          JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+          WHERE f.status = 'completed'
+            AND it.is_active = TRUE
+            AND (
+              (it.acquired_disposed_code = 'A' AND it.transaction_code = 'P')
+              OR (it.acquired_disposed_code = 'D' AND it.transaction_code = 'S')
+            )
+            AND it.transaction_date >= (SELECT MIN(window_start) FROM windows)
+            AND ${inIssuerScope("f.issuer_id")}
+        ),
+        activity AS (
+          SELECT
+            t.issuer_id,
+            w.window_months,
+            w.window_start,
+            SUM(t.is_buy) as buy_count,
+            SUM(NOT t.is_buy) as sell_count,
+            SUM(CASE WHEN t.is_buy THEN t.transaction_value ELSE 0 END) as buy_value,
+            SUM(CASE WHEN t.is_buy THEN 0 ELSE t.transaction_value END) as sell_value,
+            COUNT(DISTINCT CASE WHEN t.is_buy THEN t.person_id END) as unique_buyers,
+            COUNT(DISTINCT CASE WHEN t.is_buy THEN NULL ELSE t.person_id END) as unique_sellers,
+            MAX(CASE WHEN t.is_buy THEN t.transaction_date END) as last_buy_date,
+            MAX(CASE WHEN t.is_buy THEN NULL ELSE t.transaction_date END) as last_sell_date
+          FROM trades t
+          JOIN windows w ON t.transaction_date >= w.window_start
+          GROUP BY t.issuer_id, w.window_months
+        )
+        INSERT INTO issuer_insider_summaries (
+          issuer_id, window_months, window_start,
+          buy_count, sell_count, buy_value, sell_value, net_value,
+          unique_buyers, unique_sellers, last_buy_date, last_sell_date,
+          cluster_buys, cluster_sells, updated_at
+        )
+        SELECT
+          a.issuer_id,
+          a.window_months,
+          a.window_start,
+          a.buy_count,
+          a.sell_count,
+          a.buy_value,
+          a.sell_value,
+          a.buy_value - a.sell_value,
+          a.unique_buyers,
+          a.unique_sellers,
+          a.last_buy_date,
+          a.last_sell_date,
+          (
+            SELECT COUNT(*) FROM cluster_buy_signals cbs
+            WHERE cbs.issuer_id = a.issuer_id
+              AND cbs.is_active = TRUE
+              AND cbs.transaction_date >= a.window_start
+          ),
+          (
+            SELECT COUNT(*) FROM cluster_sell_signals css
+            WHERE css.issuer_id = a.issuer_id
+              AND css.is_active = TRUE
+              AND css.transaction_date >= a.window_start
+          ),
+          datetime('now')
+        FROM activity a
+      `
+      ).bind(scope.scopes, JSON.stringify(SUMMARY_WINDOW_MONTHS)),
+    ];
+
+    if (scope.watermarkUpdate) {
+      statements.push(scope.watermarkUpdate);
+    }
+
+    // Only once the rebuild's batch commits, so a failed run is retried by
+    // the next scheduled run
+    if (scope.full && scope.watermarkUpdate) {
+      statements.push(
+        env.DB.prepare(
+          `
+          INSERT INTO signal_watermarks (processor, last_filing_id, last_processed_at, updated_at)
+          SELECT ?1, last_filing_id, last_processed_at, CURRENT_TIMESTAMP
+          FROM signal_watermarks
+          WHERE processor = ?2
+          ON CONFLICT(processor) DO UPDATE SET
+            last_filing_id = excluded.last_filing_id,
+            last_processed_at = excluded.last_processed_at,
+            updated_at = CURRENT_TIMESTAMP
+        `
+        ).bind(ISSUER_REBUILD_KEY, ISSUER_WATERMARK_KEY)
+      );
+    }
+
+    const [, inserted] = await env.DB.batch(statements);
+
+    const summary = {
+      duration_ms: Date.now() - startTime,
+      full: scope.full,
+      new_filings: scope.filings,
+      rows: inserted.meta.changes || 0,
+    };
+
+    logger.info("✅ Issuer metrics processing complete", summary);
+
+    return summary;
+  } catch (error) {
+    logger.error("❌ Issuer metrics processing failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+    throw error;
+  }
 }
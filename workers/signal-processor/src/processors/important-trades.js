@@ -2,109 +2,107 @@
  * Important Trade Signal Processor
  *
  * Calculates importance scores for all insider trades and stores
- * the most significant ones for fast API retrieval.
+ * the most significant ones for fast API retrieval. Weights and thresholds
+ * come from the live "importance" scoring model.
  */
 
+import {
+  MODEL_NAMES,
+  getLiveModel,
+  scoreTier,
+} from "../services/scoring-models.js";
+import {
+  inScope,
+  loadIncrementalScope,
+  toJsonChunks,
+} from "../services/watermarks.js";
+import { daysAgo } from "../utils/dates.js";
+
+const WATERMARK_KEY = "important-trades";
+
 /**
  * Process important trade signals
  *
  * Strategy:
- * 1. Find all trades in the last 90 days
- * 2. Calculate importance score for each based on multiple factors
- * 3. Filter to only "important" trades (score > threshold)
- * 4. Store results in important_trade_signals table
+ * 1. Find the issuers touched by filings completed since the last run
+ *    (everything on the first run or when the live model changes)
+ * 2. Calculate importance score for their trades in the last 7 days
+ * 3. Filter to only "important" trades (score >= the model's min_score)
+ * 4. In one batch: deactivate the rescored and expired signals, upsert the
+ *    important ones with the model version, and advance the watermark
  */
-export async function processImportantTrades(env, logger) {
+export async function processImportantTrades(env, logger, options = {}) {
   const startTime = Date.now();
   const LOOKBACK_DAYS = 7; // Reduced from 90 to 7 days for performance
-  const MIN_IMPORTANCE_SCORE = 30; // Only store trades above this threshold
+  const CLUSTER_WINDOW_DAYS = 3; // cluster_size counts buys within ±3 days
 
   try {
-    logger.info("🎯 Starting important trade detection", {
-      lookback_days: LOOKBACK_DAYS,
-      min_score: MIN_IMPORTANCE_SCORE,
-    });
+    const model = await getLiveModel(env, MODEL_NAMES.IMPORTANCE);
+    const minScore = model.config.min_score; // Only store trades above this threshold
+    const windowStart = daysAgo(LOOKBACK_DAYS);
 
-    // Step 1: Mark all existing signals as potentially outdated
-    await env.DB.prepare(
+    // Step 1: Work out which issuers and dates to rescore
+    // Signals scored by another model version need a full rescore
+    const staleModel = await env.DB.prepare(
       `
-      UPDATE important_trade_signals 
-      SET is_active = FALSE
-      WHERE is_active = TRUE
+      SELECT 1 FROM important_trade_signals
+      WHERE is_active = TRUE AND scoring_model_version IS NOT ?
+      LIMIT 1
     `
-    ).run();
+    )
+      .bind(model.version)
+      .first();
 
-    // Step 2: Find and score all trades
-    // This is the complex query that was in the API - now it runs once every 30 min
-    const tradesQuery = `
-      SELECT 
-        it.id as transaction_id,
-        f.id as filing_id,
-        it.transaction_date,
-        it.transaction_code,
-        it.acquired_disposed_code,
-        it.transaction_value,
-        pr.is_officer,
-        pr.is_director,
-        pr.is_ten_percent_owner,
-        pr.officer_title,
-        it.shares_transacted,
-        it.shares_owned_following,
-        it.direct_or_indirect,
-        
-        -- Calculate if it's a purchase or sale
-        CASE WHEN it.acquired_disposed_code = 'A' AND it.transaction_code = 'P' THEN 1 ELSE 0 END as is_purchase,
-        CASE WHEN it.acquired_disposed_code = 'D' AND it.transaction_code = 'S' THEN 1 ELSE 0 END as is_sale,
-        
-        -- Check if it's part of a cluster
-        (
-          SELECT COUNT(DISTINCT p2.id)
-          FROM insider_transactions it2
-          JOIN filings f2 ON it2.filing_id = f2.id
-          JOIN person_relationships pr2 ON f2.id = pr2.filing_id
-          JOIN persons p2 ON pr2.person_id = p2.id
-          WHERE f2.status = 'completed'
-            AND f2.issuer_id = f.issuer_id
-            AND it2.acquired_disposed_code = 'A'
-            AND it2.transaction_code = 'P'
-            AND it2.price_per_share IS NOT NULL AND it2.price_per_share > 0
-            AND it2.transaction_date BETWEEN date(it.transaction_date, '-3 days') AND date(it.transaction_date, '+3 days')
-        ) as cluster_size,
-        
-        -- Percentage of holdings
-        CAST(it.shares_transacted AS REAL) / NULLIF((it.shares_owned_following + 
-          CASE WHEN it.acquired_disposed_code = 'D' THEN it.shares_transacted ELSE 0 END), 0) as pct_of_holdings,
-        
-        -- 10b5-1 plan flag (now stored in column, no subquery needed!)
-        it.is_10b5_1_plan
-        
-      FROM insider_transactions it
-      JOIN filings f ON it.filing_id = f.id
-      JOIN person_relationships pr ON f.id = pr.filing_id
-      WHERE f.status = 'completed'
-        AND it.price_per_share IS NOT NULL 
-        AND it.price_per_share > 0
-        AND it.transaction_code != 'A' -- exclude grants/awards
-        AND it.transaction_date >= date('now', '-${LOOKBACK_DAYS} days')
-    `;
-
-    const trades = await env.DB.prepare(tradesQuery).all();
+    const scope = await loadIncrementalScope(env, WATERMARK_KEY, {
+      windowStart,
+      paddingDays: CLUSTER_WINDOW_DAYS,
+      full: options.full || !!staleModel,
+      touched: options.touched,
+    });
+
+    logger.info("🎯 Starting important trade detection", {
+      lookback_days: LOOKBACK_DAYS,
+      min_score: minScore,
+      model_version: model.version,
+      full: scope.full,
+      new_filings: scope.filings,
+    });
+
+    // Step 2: Find trades in scope
+    const trades =
+      scope.filings === 0
+        ? { results: [] }
+        : await fetchTradesToScore(env, windowStart, null, scope.scopes);
 
     logger.info(`🔍 Found ${trades.results.length} trades to score`);
 
     let processedTrades = 0;
-    let importantTrades = 0;
 
-    // Step 3: Score all trades and filter to important ones
+    // Step 3: Score trades and filter to important ones
     const tradesToStore = [];
     for (const trade of trades.results) {
       try {
-        const scores = calculateImportanceScore(trade);
-        const totalScore = scores.total;
+        const scores = calculateImportanceScore(trade, model.config);
 
-        if (totalScore >= MIN_IMPORTANCE_SCORE) {
-          tradesToStore.push({ trade, scores, totalScore });
-          importantTrades++;
+        if (scores.total >= minScore) {
+          tradesToStore.push({
+            transaction_id: trade.transaction_id,
+            filing_id: trade.filing_id,
+            importance_score: scores.total,
+            value_score: scores.value,
+            direction_score: scores.direction,
+            role_score: scores.role,
+            ownership_score: scores.ownership,
+            cluster_score: scores.cluster,
+            timing_score: scores.timing,
+            first_buy_score: scores.firstBuy,
+            track_record_score: scores.trackRecord,
+            cluster_size: trade.cluster_size || 0,
+            is_first_buy: trade.is_first_buy,
+            is_purchase: trade.is_purchase,
+            is_sale: trade.is_sale,
+            is_10b5_1_plan: trade.is_10b5_1_plan,
+          });
         }
         processedTrades++;
       } catch (error) {
@@ -114,108 +112,82 @@ export async function processImportantTrades(env, logger) {
       }
     }
 
-    // Step 4: Batch check which trades already exist
-    if (tradesToStore.length > 0) {
-      const transactionIds = tradesToStore.map(t => t.trade.transaction_id).join(',');
-      const existing = await env.DB.prepare(
+    // Step 4: Apply all changes in one batch so the API never sees a
+    // half-updated set. Rows go in as JSON to keep the statement count small.
+    const statements = [
+      env.DB.prepare(
         `
-        SELECT id, transaction_id 
-        FROM important_trade_signals
-        WHERE transaction_id IN (${transactionIds})
+        UPDATE important_trade_signals
+        SET is_active = FALSE
+        WHERE is_active = TRUE
+          AND transaction_id IN (
+            SELECT it.id
+            FROM insider_transactions it
+            JOIN filings f ON it.filing_id = f.id
+            WHERE it.transaction_date < ?1
+              OR ${inScope("f.issuer_id", "it.transaction_date", "?2")}
+          )
       `
-      ).all();
-
-      const existingMap = new Map(
-        existing.results.map(e => [e.transaction_id, e.id])
-      );
-
-      // Step 5: Batch all updates and inserts
-      const BATCH_SIZE = 100; // Process 100 at a time
-      for (let i = 0; i < tradesToStore.length; i += BATCH_SIZE) {
-        const batch = tradesToStore.slice(i, i + BATCH_SIZE);
-        const statements = [];
-
-        for (const { trade, scores, totalScore } of batch) {
-          const existingId = existingMap.get(trade.transaction_id);
-
-          if (existingId) {
-            // Update existing
-            statements.push(
-              env.DB.prepare(
-                `
-                UPDATE important_trade_signals SET
-                  importance_score = ?,
-                  value_score = ?,
-                  direction_score = ?,
-                  role_score = ?,
-                  ownership_score = ?,
-                  cluster_score = ?,
-                  timing_score = ?,
-                  cluster_size = ?,
-                  is_purchase = ?,
-                  is_sale = ?,
-                  is_10b5_1_plan = ?,
-                  is_active = TRUE
-                WHERE id = ?
-              `
-              ).bind(
-                totalScore,
-                scores.value,
-                scores.direction,
-                scores.role,
-                scores.ownership,
-                scores.cluster,
-                scores.timing,
-                trade.cluster_size || 0,
-                trade.is_purchase,
-                trade.is_sale,
-                trade.is_10b5_1_plan,
-                existingId
-              )
-            );
-          } else {
-            // Insert new
-            statements.push(
-              env.DB.prepare(
-                `
-                INSERT INTO important_trade_signals (
-                  transaction_id, filing_id,
-                  importance_score, value_score, direction_score, role_score,
-                  ownership_score, cluster_score, timing_score,
-                  cluster_size, is_purchase, is_sale, is_10b5_1_plan
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-              `
-              ).bind(
-                trade.transaction_id,
-                trade.filing_id,
-                totalScore,
-                scores.value,
-                scores.direction,
-                scores.role,
-                scores.ownership,
-                scores.cluster,
-                scores.timing,
-                trade.cluster_size || 0,
-                trade.is_purchase,
-                trade.is_sale,
-                trade.is_10b5_1_plan
-              )
-            );
-          }
-        }
+      ).bind(windowStart, scope.scopes),
+      ...toJsonChunks(tradesToStore).map((rows) =>
+        env.DB.prepare(
+          `
+          INSERT INTO important_trade_signals (
+            transaction_id, filing_id,
+            importance_score, value_score, direction_score, role_score,
+            ownership_score, cluster_score, timing_score, first_buy_score,
+            track_record_score, cluster_size, is_first_buy, is_purchase, is_sale,
+            is_10b5_1_plan, scoring_model_version
+          )
+          SELECT
+            json_extract(value, '$.transaction_id'),
+            json_extract(value, '$.filing_id'),
+            json_extract(value, '$.importance_score'),
+            json_extract(value, '$.value_score'),
+            json_extract(value, '$.direction_score'),
+            json_extract(value, '$.role_score'),
+            json_extract(value, '$.ownership_score'),
+            json_extract(value, '$.cluster_score'),
+            json_extract(value, '$.timing_score'),
+            json_extract(value, '$.first_buy_score'),
+            json_extract(value, '$.track_record_score'),
+            json_extract(value, '$.cluster_size'),
+            json_extract(value, '$.is_first_buy'),
+            json_extract(value, '$.is_purchase'),
+            json_extract(value, '$.is_sale'),
+            json_extract(value, '$.is_10b5_1_plan'),
+            ?2
+          FROM json_each(?1)
+          WHERE TRUE
+          ON CONFLICT(transaction_id) DO UPDATE SET
+            importance_score = excluded.importance_score,
+            value_score = excluded.value_score,
+            direction_score = excluded.direction_score,
+            role_score = excluded.role_score,
+            ownership_score = excluded.ownership_score,
+            cluster_score = excluded.cluster_score,
+            timing_score = excluded.timing_score,
+            first_buy_score = excluded.first_buy_score,
+            track_record_score = excluded.track_record_score,
+            cluster_size = excluded.cluster_size,
+            is_first_buy = excluded.is_first_buy,
+            is_purchase = excluded.is_purchase,
+            is_sale = excluded.is_sale,
+            is_10b5_1_plan = excluded.is_10b5_1_plan,
+            scoring_model_version = excluded.scoring_model_version,
+            is_active = TRUE
+        `
+        ).bind(rows, model.version)
+      ),
+    ];
 
-        // Execute batch
-        try {
-          await env.DB.batch(statements);
-        } catch (error) {
-          logger.error(`Failed to process batch starting at index ${i}`, {
-            error: error.message,
-          });
-        }
-      }
+    if (scope.watermarkUpdate) {
+      statements.push(scope.watermarkUpdate);
     }
 
-    // Step 6: Clean up old inactive signals (keep 30 days of history)
+    await env.DB.batch(statements);
+
+    // Step 5: Clean up old inactive signals (keep 30 days of history)
     const cleanup = await env.DB.prepare(
       `
       DELETE FROM important_trade_signals
@@ -228,8 +200,11 @@ export async function processImportantTrades(env, logger) {
 
     const summary = {
       duration_ms: duration,
+      full: scope.full,
+      new_filings: scope.filings,
       processed: processedTrades,
-      important_trades: importantTrades,
+      important_trades: tradesToStore.length,
+      model_version: model.version,
       cleaned_up: cleanup.meta.changes || 0,
     };
 
@@ -246,10 +221,99 @@ export async function processImportantTrades(env, logger) {
 }
 
 /**
- * Calculate importance score for a trade
+ * Trades eligible for importance scoring, with the inputs the model needs.
+ * Used by the processor and by rescoring (services/rescore.js).
+ *
+ * @param {string} startDate - First transaction date (YYYY-MM-DD)
+ * @param {string|null} endDate - Last transaction date, or null for no limit
+ * @param {string|null} scopes - Issuer scopes from loadIncrementalScope, or null for all issuers
+ * @param {number} limit - Earliest trades to return (-1 for all); candidate_total
+ *   on each row counts every matching trade, so callers can tell when it was cut
+ */
+export async function fetchTradesToScore(env, startDate, endDate, scopes = null, limit = -1) {
+  // This is the complex query that was in the API - now it runs once every 30 min
+  const tradesQuery = `
+    SELECT 
+      it.id as transaction_id,
+      f.id as filing_id,
+      f.issuer_id,
+      pr.person_id,
+      date(f.filed_at) as filed_date,
+      it.transaction_date,
+      it.transaction_code,
+      it.acquired_disposed_code,
+      it.transaction_value,
+      pr.is_officer,
+      pr.is_director,
+      pr.is_ten_percent_owner,
+      pr.officer_title,
+      it.shares_transacted,
+      it.shares_owned_following,
+      it.direct_or_indirect,
+      
+      -- Calculate if it's a purchase or sale
+      CASE WHEN it.acquired_disposed_code = 'A' AND it.transaction_code = 'P' THEN 1 ELSE 0 END as is_purchase,
+      CASE WHEN it.acquired_disposed_code = 'D' AND it.transaction_code = 'S' THEN 1 ELSE 0 END as is_sale,
+      
+      -- Check if it's part of a cluster
+      (
+        SELECT COUNT(DISTINCT p2.id)
+        FROM insider_transactions it2
+        JOIN filings f2 ON it2.filing_id = f2.id
+        JOIN person_relationships pr2 ON f2.id = pr2.filing_id AND pr2.is_primary_owner = TRUE
+        JOIN persons p2 ON pr2.person_id = p2.id
+        WHERE f2.status = 'completed'
+          AND it2.is_active = TRUE
+          AND f2.issuer_id = f.issuer_id
+          AND it2.acquired_disposed_code = 'A'
+          AND it2.transaction_code = 'P'
+          AND it2.price_per_share IS NOT NULL AND it2.price_per_share > 0
+          AND it2.transaction_date BETWEEN date(it.transaction_date, '-3 days') AND date(it.transaction_date, '+3 days')
+      ) as cluster_size,
+      
+      -- Percentage of holdings
+      CAST(it.shares_transacted AS REAL) / NULLIF((it.shares_owned_following + 
+        CASE WHEN it.acquired_disposed_code = 'D' THEN it.shares_transacted ELSE 0 END), 0) as pct_of_holdings,
+      
+      -- 10b5-1 plan flag (now stored in column, no subquery needed!)
+      it.is_10b5_1_plan,
+
+      -- First purchase after a long gap (see first-buys processor)
+      EXISTS (
+        SELECT 1 FROM first_buy_signals fbs
+        WHERE fbs.transaction_id = it.id AND fbs.is_active = TRUE
+      ) as is_first_buy,
+
+      -- Insider's track record (see insider-track-records processor)
+      itr.reliability_score,
+      itr.buys_with_returns as track_record_buys,
+
+      COUNT(*) OVER () as candidate_total
+      
+    FROM insider_transactions it
+    JOIN filings f ON it.filing_id = f.id
+    JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+    LEFT JOIN insider_track_records itr ON pr.person_id = itr.person_id
+    WHERE f.status = 'completed'
+      AND it.is_active = TRUE
+      AND it.price_per_share IS NOT NULL 
+      AND it.price_per_share > 0
+      AND it.transaction_code != 'A' -- exclude grants/awards
+      AND it.transaction_date >= ?1
+      AND (?2 IS NULL OR it.transaction_date <= ?2)
+      AND ${inScope("f.issuer_id", "it.transaction_date", "?3")}
+    ORDER BY it.transaction_date, it.id
+    LIMIT ?4
+  `;
+
+  return env.DB.prepare(tradesQuery).bind(startDate, endDate, scopes, limit).all();
+}
+
+/**
+ * Calculate importance score for a trade under a model config
  * Returns breakdown of scores by component
  */
-function calculateImportanceScore(trade) {
+export function calculateImportanceScore(trade, config) {
   const scores = {
     value: 0,
     direction: 0,
@@ -257,74 +321,78 @@ function calculateImportanceScore(trade) {
     ownership: 0,
     cluster: 0,
     timing: 0,
+    firstBuy: 0,
+    trackRecord: 0,
   };
 
-  // 1. Transaction Value Score (0-100 points)
-  if (trade.transaction_value >= 10000000) {
-    scores.value = 100; // $10M+
-  } else if (trade.transaction_value >= 2500000) {
-    scores.value = 60; // $2.5M+
-  } else if (trade.transaction_value >= 1000000) {
-    scores.value = 40; // $1M+
-  } else if (trade.transaction_value >= 250000) {
-    scores.value = 20; // $250K+
-  } else {
-    scores.value = 10; // Under $250K
-  }
+  // 1. Transaction Value Score
+  scores.value = scoreTier(
+    trade.transaction_value,
+    config.value.tiers,
+    config.value.default
+  );
 
-  // 2. Direction Score (±30 points)
+  // 2. Direction Score
   if (trade.is_purchase) {
-    scores.direction = 30; // Buys are bullish
+    scores.direction = config.direction.purchase; // Buys are bullish
   } else if (trade.is_sale) {
-    scores.direction = -10; // Sales are bearish
+    scores.direction = config.direction.sale; // Sales are bearish
   }
 
-  // 3. Role Score (0-30 points)
+  // 3. Role Score
   const title = (trade.officer_title || "").toLowerCase();
   if (
     trade.is_officer &&
     (title.includes("chief executive") || title.includes("ceo"))
   ) {
-    scores.role = 30; // CEO
+    scores.role = config.role.ceo;
   } else if (
     trade.is_officer &&
     (title.includes("chief financial") || title.includes("cfo"))
   ) {
-    scores.role = 30; // CFO
+    scores.role = config.role.cfo;
   } else if (trade.is_officer) {
-    scores.role = 15; // Other officers
+    scores.role = config.role.officer; // Other officers
   } else if (trade.is_director) {
-    scores.role = 10; // Directors
+    scores.role = config.role.director;
   }
 
-  // 4. Ownership Score (0-30 points)
-  if (trade.pct_of_holdings >= 0.5) {
-    scores.ownership = 30; // 50%+ of holdings
-  } else if (trade.pct_of_holdings >= 0.25) {
-    scores.ownership = 20; // 25%+ of holdings
-  } else if (trade.pct_of_holdings >= 0.1) {
-    scores.ownership = 10; // 10%+ of holdings
-  }
+  // 4. Ownership Score (share of holdings traded)
+  scores.ownership = scoreTier(trade.pct_of_holdings, config.ownership.tiers);
 
   // Add bonus for 10% owners
   if (trade.is_ten_percent_owner) {
-    scores.ownership += 20;
+    scores.ownership += config.ownership.ten_percent_owner_bonus;
   }
 
-  // 5. Cluster Score (0-25 points)
-  if (trade.cluster_size >= 3) {
-    scores.cluster = 25; // Part of large cluster
-  } else if (trade.cluster_size >= 2) {
-    scores.cluster = 15; // Part of small cluster
-  }
+  // 5. Cluster Score
+  scores.cluster = scoreTier(trade.cluster_size, config.cluster.tiers);
 
   // 6. Timing/Plan Penalties (negative points)
   if (trade.direct_or_indirect === "I") {
-    scores.timing = -10; // Indirect ownership less significant
+    scores.timing = config.timing.indirect; // Indirect ownership less significant
   }
 
   if (trade.is_10b5_1_plan) {
-    scores.timing -= 25; // Rule 10b5-1 plans are less meaningful
+    scores.timing += config.timing.plan_10b5_1; // Rule 10b5-1 plans are less meaningful
+  }
+
+  // 7. First Buy Score
+  if (trade.is_first_buy) {
+    scores.firstBuy = config.first_buy; // First purchase after a long gap
+  }
+
+  // 8. Track Record Score (buys by insiders whose past buys beat SPY)
+  if (
+    config.track_record &&
+    trade.is_purchase &&
+    trade.track_record_buys >= config.track_record.min_buys
+  ) {
+    scores.trackRecord = scoreTier(
+      trade.reliability_score,
+      config.track_record.tiers,
+      config.track_record.default
+    );
   }
 
   // Calculate total
@@ -334,7 +402,9 @@ function calculateImportanceScore(trade) {
       scores.role +
       scores.ownership +
       scores.cluster +
-      scores.timing
+      scores.timing +
+      scores.firstBuy +
+      scores.trackRecord
   );
 
   return scores;
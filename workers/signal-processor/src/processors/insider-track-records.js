@@ -0,0 +1,175 @@
+/**
+ * Insider Track Records Processor
+ *
+ * Per-insider history of open-market trades and how their buys worked out,
+ * from insider_transactions and the forward returns of every open-market
+ * buy ("insider_buy" rows in signal_forward_returns, registered whatever the
+ * buy's importance score). Feeds the reliability component of importance
+ * scoring and the insider stats endpoint, so it must not be limited to the
+ * buys that scoring already favours.
+ */
+
+const HOLDING_CUTOFF_DAYS = 182;
+
+/**
+ * Process insider track records
+ *
+ * Rebuilt from scratch at most once a day (inputs only change when forward
+ * returns are checked, also daily); POST /process with { "full": true }
+ * forces a rebuild. The delete and insert run in one batch so readers never
+ * see a partial table.
+ */
+export async function processInsiderTrackRecords(env, logger, options = {}) {
+  const startTime = Date.now();
+
+  try {
+    if (!options.full) {
+      const last = await env.DB.prepare(
+        `
+        SELECT MAX(updated_at) >= date('now') as fresh
+        FROM insider_track_records
+      `
+      ).first();
+
+      if (last?.fresh) {
+        logger.info("🗂️ Insider track records already rebuilt today");
+        return { skipped: true };
+      }
+    }
+
+    logger.info("🗂️ Rebuilding insider track records");
+
+    const [, inserted] = await env.DB.batch([
+      env.DB.prepare("DELETE FROM insider_track_records"),
+      env.DB.prepare(
+        `
+        WITH trades AS (
+          SELECT
+            pr.person_id,
+            f.issuer_id,
+            it.transaction_date,
+            it.transaction_value,
+            it.transaction_code = 'P' as is_buy
+          FROM insider_transactions it
+          JOIN filings f ON it.filing_id = f.id
+          JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
+          WHERE f.status = 'completed'
+            AND it.is_active = TRUE
+            AND (
+              (it.acquired_disposed_code = 'A' AND it.transaction_code = 'P')
+              OR (it.acquired_disposed_code = 'D' AND it.transaction_code = 'S')
+            )
+        ),
+        activity AS (
+          SELECT
+            person_id,
+            SUM(is_buy) as open_market_buys,
+            SUM(NOT is_buy) as open_market_sells,
+            SUM(CASE WHEN is_buy THEN COALESCE(transaction_value, 0) ELSE 0 END) as buy_value,
+            SUM(CASE WHEN is_buy THEN 0 ELSE COALESCE(transaction_value, 0) END) as sell_value,
+            COUNT(DISTINCT issuer_id) as companies_traded,
+            MIN(transaction_date) as first_trade_date,
+            MAX(transaction_date) as last_trade_date
+          FROM trades
+          GROUP BY person_id
+        ),
+        -- Each buy with the insider's next sale of the same stock on a later day
+        buys AS (
+          SELECT person_id, transaction_date, is_buy, next_sale_date
+          FROM (
+            SELECT
+              person_id,
+              transaction_date,
+              is_buy,
+              MIN(CASE WHEN NOT is_buy THEN transaction_date END) OVER (
+                PARTITION BY person_id, issuer_id
+                ORDER BY julianday(transaction_date)
+                RANGE BETWEEN 1 FOLLOWING AND UNBOUNDED FOLLOWING
+              ) as next_sale_date
+            FROM trades
+          )
+          WHERE is_buy
+        ),
+        holding AS (
+          SELECT
+            person_id,
+            AVG(julianday(next_sale_date) - julianday(transaction_date)) as avg_holding_days,
+            COUNT(next_sale_date) as buys_sold,
+            AVG(CASE
+              WHEN transaction_date > date('now', '-${HOLDING_CUTOFF_DAYS} days') THEN NULL
+              WHEN julianday(next_sale_date) - julianday(transaction_date) <= ${HOLDING_CUTOFF_DAYS} THEN 1.0
+              ELSE 0.0
+            END) as pct_sold_within_6m
+          FROM buys
+          GROUP BY person_id
+        ),
+        -- A hit is a buy that beat SPY over the following 60 trading days.
+        -- Only live transactions: a reprocessed or amended buy leaves its old
+        -- row until the forward returns processor retires it
+        performance AS (
+          SELECT
+            sfr.person_id,
+            COUNT(sfr.excess_60d) as buys_with_returns,
+            COALESCE(SUM(sfr.excess_60d > 0), 0) as hits,
+            AVG(sfr.return_20d) as avg_return_20d,
+            AVG(sfr.return_60d) as avg_return_60d,
+            AVG(sfr.excess_60d) as avg_excess_60d
+          FROM signal_forward_returns sfr
+          JOIN insider_transactions it ON it.id = sfr.transaction_id AND it.is_active = TRUE
+          WHERE sfr.signal_type = 'insider_buy'
+            AND sfr.person_id IS NOT NULL
+          GROUP BY sfr.person_id
+        )
+        INSERT INTO insider_track_records (
+          person_id, open_market_buys, open_market_sells, buy_value, sell_value,
+          companies_traded, first_trade_date, last_trade_date,
+          buys_with_returns, hits, hit_rate,
+          avg_return_20d, avg_return_60d, avg_excess_60d, reliability_score,
+          avg_holding_days, buys_sold, pct_sold_within_6m, updated_at
+        )
+        SELECT
+          a.person_id,
+          a.open_market_buys,
+          a.open_market_sells,
+          a.buy_value,
+          a.sell_value,
+          a.companies_traded,
+          a.first_trade_date,
+          a.last_trade_date,
+          COALESCE(p.buys_with_returns, 0),
+          COALESCE(p.hits, 0),
+          ROUND(CAST(p.hits AS REAL) / NULLIF(p.buys_with_returns, 0), 4),
+          ROUND(p.avg_return_20d, 6),
+          ROUND(p.avg_return_60d, 6),
+          ROUND(p.avg_excess_60d, 6),
+          -- Hit rate with one hit and one miss added, so a short record stays near 50
+          CASE WHEN p.buys_with_returns > 0
+            THEN CAST(ROUND(100.0 * (p.hits + 1) / (p.buys_with_returns + 2)) AS INTEGER)
+          END,
+          ROUND(h.avg_holding_days, 1),
+          COALESCE(h.buys_sold, 0),
+          ROUND(h.pct_sold_within_6m, 4),
+          datetime('now')
+        FROM activity a
+        LEFT JOIN performance p ON a.person_id = p.person_id
+        LEFT JOIN holding h ON a.person_id = h.person_id
+      `
+      ),
+    ]);
+
+    const summary = {
+      duration_ms: Date.now() - startTime,
+      insiders: inserted.meta.changes || 0,
+    };
+
+    logger.info("✅ Insider track records rebuilt", summary);
+
+    return summary;
+  } catch (error) {
+    logger.error("❌ Insider track record processing failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+    throw error;
+  }
+}
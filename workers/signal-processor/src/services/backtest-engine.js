@@ -0,0 +1,281 @@
+/**
+ * Backtest Engine
+ *
+ * Simulates a strategy over replayed signals and daily bars: each signal
+ * becomes a planned trade (entry on the bar after the signal became public,
+ * exit after the holding period or at a stop), then a portfolio with limited
+ * capital and positions takes the trades in date order and is marked to
+ * market at every close. Pure and synchronous, so it runs the same against
+ * alpaca-market bars or a local fixture (see services/backtest.js).
+ */
+
+/**
+ * Run a strategy
+ *
+ * @param {object} input
+ * @param {Array<object>} input.signals - { signal_type, symbol, signal_date, score, ... }, signal_date being the day the signal became public
+ * @param {Map<string, Array<{date: string, open: number, close: number}>>} input.bars - Daily bars by symbol, oldest first
+ * @param {Array<{date: string, close: number}>} input.benchmarkBars - Benchmark closes, oldest first (may be empty)
+ * @param {object} input.rules - Normalized strategy rules (see normalizeStrategy in services/backtest.js)
+ */
+export function simulateBacktest({ signals, bars, benchmarkBars, rules }) {
+  const skipped = {};
+  const skip = (reason) => {
+    skipped[reason] = (skipped[reason] || 0) + 1;
+  };
+
+  // Step 1: Plan a trade for every signal that has bars after it
+  const planned = [];
+  for (const signal of signals) {
+    const plan = planTrade(signal, bars.get(signal.symbol), rules);
+    if (plan.skip) {
+      skip(plan.skip);
+    } else {
+      planned.push(plan);
+    }
+  }
+
+  planned.sort(
+    (a, b) =>
+      a.entry_date.localeCompare(b.entry_date) ||
+      a.signal.signal_date.localeCompare(b.signal.signal_date) ||
+      (b.signal.score ?? 0) - (a.signal.score ?? 0)
+  );
+
+  // Step 2: Walk the trading calendar with a portfolio
+  const calendar = buildCalendar(bars, benchmarkBars, rules.start_date, planned);
+  const closeMaps = new Map(
+    [...bars.entries()].map(([symbol, symbolBars]) => [
+      symbol,
+      new Map(symbolBars.map((bar) => [bar.date, bar.close])),
+    ])
+  );
+  const benchmarkCloses = new Map(benchmarkBars.map((bar) => [bar.date, bar.close]));
+  const benchmarkBase = calendar.map((date) => benchmarkCloses.get(date)).find((close) => close > 0);
+
+  let cash = rules.initial_capital;
+  let equity = rules.initial_capital;
+  let peak = equity;
+  let maxDrawdown = 0;
+  let maxDrawdownDate = null;
+  let nextPlanned = 0;
+  let lastBenchmark = benchmarkBase ?? null;
+  const lastClose = new Map();
+  const open = [];
+  const trades = [];
+  const equityCurve = [];
+
+  for (const date of calendar) {
+    for (const [symbol, closes] of closeMaps) {
+      if (closes.has(date)) lastClose.set(symbol, closes.get(date));
+    }
+
+    // Entries (capital freed by today's exits is available from tomorrow)
+    while (nextPlanned < planned.length && planned[nextPlanned].entry_date <= date) {
+      const plan = planned[nextPlanned++];
+
+      if (open.length >= rules.max_positions) {
+        skip("max_positions");
+        continue;
+      }
+      if (open.some((position) => position.plan.signal.symbol === plan.signal.symbol)) {
+        skip("already_holding");
+        continue;
+      }
+
+      const allocation = Math.min(equity * rules.position_size, cash);
+      const shares = Math.floor(allocation / plan.entry_price);
+      if (shares < 1) {
+        skip("insufficient_cash");
+        continue;
+      }
+
+      const cost = shares * plan.entry_price;
+      cash -= cost;
+      open.push({ plan, shares, cost });
+    }
+
+    // Exits
+    for (let i = open.length - 1; i >= 0; i--) {
+      const position = open[i];
+      if (position.plan.exit_date !== date) continue;
+
+      const { plan, shares, cost } = position;
+      const pnl = plan.direction * shares * (plan.exit_price - plan.entry_price);
+      cash += cost + pnl;
+      open.splice(i, 1);
+
+      trades.push({
+        signal_type: plan.signal.signal_type,
+        symbol: plan.signal.symbol,
+        issuer_name: plan.signal.issuer_name ?? null,
+        signal_date: plan.signal.signal_date,
+        transaction_date: plan.signal.transaction_date ?? null,
+        score: plan.signal.score ?? null,
+        side: plan.direction === 1 ? "long" : "short",
+        entry_date: plan.entry_date,
+        entry_price: plan.entry_price,
+        exit_date: plan.exit_date,
+        exit_price: plan.exit_price,
+        exit_reason: plan.exit_reason,
+        holding_days: plan.holding_days,
+        shares,
+        pnl: roundMoney(pnl),
+        return: round(plan.direction * (plan.exit_price / plan.entry_price - 1)),
+      });
+    }
+
+    // Mark to market at the close
+    equity =
+      cash +
+      open.reduce((total, { plan, shares, cost }) => {
+        const close = lastClose.get(plan.signal.symbol) ?? plan.entry_price;
+        return total + cost + plan.direction * shares * (close - plan.entry_price);
+      }, 0);
+
+    if (equity > peak) peak = equity;
+    const drawdown = peak > 0 ? (peak - equity) / peak : 0;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownDate = date;
+    }
+
+    if (benchmarkCloses.get(date) > 0) lastBenchmark = benchmarkCloses.get(date);
+
+    equityCurve.push({
+      date,
+      equity: roundMoney(equity),
+      drawdown: round(drawdown),
+      benchmark_equity:
+        benchmarkBase > 0 ? roundMoney((rules.initial_capital * lastBenchmark) / benchmarkBase) : null,
+    });
+  }
+
+  trades.sort((a, b) => a.entry_date.localeCompare(b.entry_date) || a.symbol.localeCompare(b.symbol));
+
+  return {
+    summary: summarize(trades, equityCurve, rules, maxDrawdown, maxDrawdownDate),
+    skipped,
+    equity_curve: equityCurve,
+    trades,
+  };
+}
+
+/**
+ * Entry and exit of one signal, or { skip: reason }
+ */
+function planTrade(signal, symbolBars, rules) {
+  if (!symbolBars || symbolBars.length === 0) {
+    return { skip: "no_bars" };
+  }
+
+  // First bar strictly after the day the signal became public
+  const entryIndex = symbolBars.findIndex((bar) => bar.date > signal.signal_date);
+  if (entryIndex === -1) {
+    return { skip: "no_bars_after_signal" };
+  }
+
+  const entryBar = symbolBars[entryIndex];
+  const entryPrice = rules.entry === "next_open" ? entryBar.open : entryBar.close;
+  if (!(entryPrice > 0)) {
+    return { skip: "no_entry_price" };
+  }
+
+  const direction = rules.side === "short" ? -1 : 1;
+  const lastIndex = Math.min(entryIndex + rules.hold_days, symbolBars.length - 1);
+  let exitIndex = lastIndex;
+  let exitReason = entryIndex + rules.hold_days <= lastIndex ? "hold_period" : "end_of_data";
+
+  // Stops are checked on closes, from the entry day's close when entering at the open
+  const firstCheck = rules.entry === "next_open" ? entryIndex : entryIndex + 1;
+  for (let i = firstCheck; i <= lastIndex; i++) {
+    const change = direction * (symbolBars[i].close / entryPrice - 1);
+    if (rules.stop_loss !== null && change <= -rules.stop_loss) {
+      exitIndex = i;
+      exitReason = "stop_loss";
+      break;
+    }
+    if (rules.take_profit !== null && change >= rules.take_profit) {
+      exitIndex = i;
+      exitReason = "take_profit";
+      break;
+    }
+  }
+
+  return {
+    signal,
+    direction,
+    entry_date: entryBar.date,
+    entry_price: entryPrice,
+    exit_date: symbolBars[exitIndex].date,
+    exit_price: symbolBars[exitIndex].close,
+    exit_reason: exitReason,
+    holding_days: exitIndex - entryIndex,
+  };
+}
+
+/**
+ * Trading days from the start date through the last exit, taken from every
+ * symbol's bars and the benchmark's
+ */
+function buildCalendar(bars, benchmarkBars, startDate, planned) {
+  const lastExit = planned.reduce((max, plan) => (plan.exit_date > max ? plan.exit_date : max), startDate);
+  const dates = new Set(benchmarkBars.map((bar) => bar.date));
+  for (const symbolBars of bars.values()) {
+    for (const bar of symbolBars) dates.add(bar.date);
+  }
+
+  return [...dates].filter((date) => date >= startDate && date <= lastExit).sort();
+}
+
+function summarize(trades, equityCurve, rules, maxDrawdown, maxDrawdownDate) {
+  const first = equityCurve[0];
+  const last = equityCurve[equityCurve.length - 1];
+  const finalEquity = last ? last.equity : rules.initial_capital;
+  const years = first && last ? (Date.parse(last.date) - Date.parse(first.date)) / (365.25 * 86400000) : 0;
+  const wins = trades.filter((trade) => trade.return > 0).length;
+
+  return {
+    initial_capital: rules.initial_capital,
+    final_equity: roundMoney(finalEquity),
+    total_return: round(finalEquity / rules.initial_capital - 1),
+    cagr: cagr(rules.initial_capital, finalEquity, years),
+    max_drawdown: round(maxDrawdown),
+    max_drawdown_date: maxDrawdownDate,
+    trades: trades.length,
+    wins,
+    losses: trades.length - wins,
+    hit_rate: trades.length > 0 ? round(wins / trades.length) : null,
+    avg_trade_return: trades.length > 0 ? round(average(trades.map((trade) => trade.return))) : null,
+    best_trade_return: trades.length > 0 ? Math.max(...trades.map((trade) => trade.return)) : null,
+    worst_trade_return: trades.length > 0 ? Math.min(...trades.map((trade) => trade.return)) : null,
+    avg_holding_days: trades.length > 0 ? round(average(trades.map((trade) => trade.holding_days))) : null,
+    benchmark_return:
+      first?.benchmark_equity && last?.benchmark_equity
+        ? round(last.benchmark_equity / rules.initial_capital - 1)
+        : null,
+    benchmark_cagr:
+      first?.benchmark_equity && last?.benchmark_equity
+        ? cagr(rules.initial_capital, last.benchmark_equity, years)
+        : null,
+    start_date: first?.date ?? null,
+    end_date: last?.date ?? null,
+  };
+}
+
+function cagr(start, end, years) {
+  if (!(years > 0) || !(start > 0) || !(end > 0)) return null;
+  return round(Math.pow(end / start, 1 / years) - 1);
+}
+
+function average(values) {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+function round(value) {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function roundMoney(value) {
+  return Math.round(value * 100) / 100;
+}
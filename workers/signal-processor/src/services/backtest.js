@@ -0,0 +1,315 @@
+/**
+ * Backtesting
+ *
+ * Replays historical insider transactions through the scoring models
+ * (live or any stored version) and trades the resulting signals against
+ * daily bars, e.g. "buy at the next open after a cluster with strength
+ * >= 70, hold 60 days". Read-only; bars come from the alpaca-market worker,
+ * or from a fixture in the request so a backtest can run offline.
+ */
+
+import {
+  calculateImportanceScore,
+  fetchTradesToScore,
+} from "../processors/important-trades.js";
+import {
+  calculateSignalStrength,
+  fetchClusterCandidates,
+} from "../processors/cluster-buys.js";
+import {
+  calculateSellSignalStrength,
+  fetchClusterSellCandidates,
+} from "../processors/cluster-sells.js";
+import { simulateBacktest } from "./backtest-engine.js";
+import { fetchDailyBars } from "./market-data.js";
+import { MODEL_NAMES, getLiveModel, getModel } from "./scoring-models.js";
+import { daysAgo } from "../utils/dates.js";
+
+const SIGNAL_TYPES = ["important_trade", "cluster_buy", "cluster_sell"];
+const MAX_RANGE_DAYS = 1096;
+const MAX_HOLD_DAYS = 252;
+const MAX_SYMBOLS = 40; // Keeps a run inside the subrequest limit
+const MAX_CANDIDATES = 5000; // Trades or clusters read per run; the rest are reported as skipped
+
+const DEFAULT_STRATEGY = {
+  min_score: 0,
+  direction: "buy", // Important trades only: which trades to follow
+  entry: "next_open",
+  hold_days: 60,
+  stop_loss: null,
+  take_profit: null,
+  position_size: 0.1,
+  max_positions: 10,
+  initial_capital: 100000,
+  benchmark: "SPY",
+  model_version: null,
+};
+
+/**
+ * Invalid strategy rules or fixture; reported to the caller as a 400
+ */
+export class BacktestError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "BacktestError";
+  }
+}
+
+/**
+ * Run a backtest
+ *
+ * @param {object} strategy - Rules (see normalizeStrategy)
+ * @param {object|null} fixture - Daily bars by symbol ({ SPY: [{ date, open, close }] }),
+ *   used instead of the alpaca-market worker
+ */
+export async function runBacktest(env, strategy, fixture = null, logger = null) {
+  const rules = normalizeStrategy(strategy);
+  if (!fixture && !env.ALPACA_MARKET) {
+    throw new BacktestError("ALPACA_MARKET binding missing; pass bars to run against a fixture");
+  }
+
+  const { model, signals, truncated } = await loadSignals(env, rules);
+
+  // Trade the earliest signals first when there are too many symbols
+  const symbols = [...new Set(signals.map((signal) => signal.symbol))].slice(0, MAX_SYMBOLS);
+  const tradable = signals.filter((signal) => symbols.includes(signal.symbol));
+
+  // Bars through the end of the last holding period (~1.5 calendar days per trading day)
+  const barsEnd = minDate(addDays(rules.end_date, Math.ceil(rules.hold_days * 1.5) + 7), daysAgo(0));
+  const source = fixture ? fixtureBars(fixture) : (symbol) => fetchDailyBars(env, symbol, rules.start_date, barsEnd);
+
+  const bars = new Map();
+  for (const symbol of symbols) {
+    try {
+      bars.set(symbol, await source(symbol));
+    } catch (error) {
+      // Signals of the symbol are reported as skipped (no_bars)
+      logger?.warn(`Bars unavailable for ${symbol}`, { error: error.message });
+    }
+  }
+  const benchmarkBars = await source(rules.benchmark).catch(() => []);
+
+  const result = simulateBacktest({ signals: tradable, bars, benchmarkBars, rules });
+  const symbolLimited = signals.length - tradable.length;
+  const skipped = { ...result.skipped };
+  if (symbolLimited > 0) skipped.symbol_limit = symbolLimited;
+  if (truncated > 0) skipped.candidate_limit = truncated;
+
+  return {
+    strategy: rules,
+    model: { name: model.name, version: model.version },
+    bars_source: fixture ? "fixture" : "alpaca-market",
+    signals: signals.length,
+    ...result,
+    skipped,
+  };
+}
+
+/**
+ * Strategy rules with defaults applied; throws BacktestError when invalid
+ *
+ * @param {object} strategy
+ * @param {string} strategy.signal - "important_trade", "cluster_buy" or "cluster_sell"
+ * @param {string} strategy.start_date - First signal date (YYYY-MM-DD)
+ * @param {string} strategy.end_date - Last signal date (YYYY-MM-DD)
+ * @param {number} strategy.min_score - Minimum importance score or cluster strength
+ * @param {string} strategy.direction - Important trades: "buy" or "sell"
+ * @param {string} strategy.side - "long" or "short" (default: long after buys, short after sells)
+ * @param {string} strategy.entry - "next_open" or "next_close" after the signal became public
+ * @param {number} strategy.hold_days - Trading days to hold
+ * @param {number|null} strategy.stop_loss - Exit when down this fraction at a close (0.1 = 10%)
+ * @param {number|null} strategy.take_profit - Exit when up this fraction at a close
+ * @param {number} strategy.position_size - Fraction of equity per trade
+ * @param {number} strategy.max_positions - Open positions at a time
+ * @param {number} strategy.initial_capital
+ * @param {string} strategy.benchmark - Benchmark symbol
+ * @param {number|null} strategy.model_version - Scoring model version (default: live)
+ */
+export function normalizeStrategy(strategy) {
+  if (!strategy || typeof strategy !== "object" || Array.isArray(strategy)) {
+    throw new BacktestError("strategy must be a JSON object");
+  }
+
+  const rules = { ...DEFAULT_STRATEGY, ...strategy };
+
+  if (!SIGNAL_TYPES.includes(rules.signal)) {
+    throw new BacktestError(`strategy.signal must be one of: ${SIGNAL_TYPES.join(", ")}`);
+  }
+
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!datePattern.test(rules.start_date || "") || !datePattern.test(rules.end_date || "")) {
+    throw new BacktestError("start_date and end_date must be YYYY-MM-DD");
+  }
+  const rangeDays = (Date.parse(rules.end_date) - Date.parse(rules.start_date)) / 86400000;
+  if (!(rangeDays >= 0)) {
+    throw new BacktestError("end_date must not be before start_date");
+  }
+  if (rangeDays > MAX_RANGE_DAYS) {
+    throw new BacktestError(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+
+  if (!["buy", "sell"].includes(rules.direction)) {
+    throw new BacktestError('direction must be "buy" or "sell"');
+  }
+  const sellSignal = rules.signal === "cluster_sell" || (rules.signal === "important_trade" && rules.direction === "sell");
+  rules.side = strategy.side ?? (sellSignal ? "short" : "long");
+  if (!["long", "short"].includes(rules.side)) {
+    throw new BacktestError('side must be "long" or "short"');
+  }
+  if (!["next_open", "next_close"].includes(rules.entry)) {
+    throw new BacktestError('entry must be "next_open" or "next_close"');
+  }
+
+  assertNumber(rules, "min_score", -1000, 1000);
+  assertNumber(rules, "hold_days", 1, MAX_HOLD_DAYS, true);
+  assertNumber(rules, "position_size", 0.001, 1);
+  assertNumber(rules, "max_positions", 1, 100, true);
+  assertNumber(rules, "initial_capital", 1000, 1e9);
+  if (rules.stop_loss !== null) assertNumber(rules, "stop_loss", 0.001, 1);
+  if (rules.take_profit !== null) assertNumber(rules, "take_profit", 0.001, 100);
+  if (rules.model_version !== null) assertNumber(rules, "model_version", 1, 1e6, true);
+
+  if (typeof rules.benchmark !== "string" || !/^[A-Z.]{1,10}$/.test(rules.benchmark)) {
+    throw new BacktestError("benchmark must be a ticker symbol");
+  }
+
+  return rules;
+}
+
+/**
+ * Signals the strategy trades, scored with the chosen model version. The
+ * signal date is the day the last filing behind the signal was filed, so
+ * trades never act on information before it was public.
+ *
+ * Important trades are replayed without the first-buy and track record
+ * inputs: both are only stored as of today (track records are built from
+ * the returns of the very buys being replayed, and first-buy signals only
+ * cover the live window), so using them would leak later information.
+ * Those model components score zero in a backtest.
+ *
+ * At most MAX_CANDIDATES trades (earliest first) or clusters (largest by
+ * value first) are read; `truncated` counts the rest.
+ */
+async function loadSignals(env, rules) {
+  const modelName = {
+    important_trade: MODEL_NAMES.IMPORTANCE,
+    cluster_buy: MODEL_NAMES.CLUSTER_STRENGTH,
+    cluster_sell: MODEL_NAMES.CLUSTER_SELL_STRENGTH,
+  }[rules.signal];
+
+  const model =
+    rules.model_version === null
+      ? await getLiveModel(env, modelName)
+      : await getModel(env, modelName, rules.model_version);
+  if (!model) {
+    throw new BacktestError(`Scoring model "${modelName}" v${rules.model_version} not found`);
+  }
+
+  let candidates;
+  let rows;
+  if (rules.signal === "important_trade") {
+    const trades = await fetchTradesToScore(env, rules.start_date, rules.end_date, null, MAX_CANDIDATES);
+    rows = trades.results;
+    candidates = trades.results
+      .filter((trade) => (rules.direction === "buy" ? trade.is_purchase : trade.is_sale))
+      .map((trade) => ({
+        issuer_id: trade.issuer_id,
+        transaction_date: trade.transaction_date,
+        filed_date: trade.filed_date,
+        score: calculateImportanceScore(
+          { ...trade, is_first_buy: 0, reliability_score: null, track_record_buys: 0 },
+          model.config
+        ).total,
+      }))
+      // Only trades the model would have stored as important
+      .filter((trade) => trade.score >= model.config.min_score);
+  } else {
+    const fetchCandidates = rules.signal === "cluster_buy" ? fetchClusterCandidates : fetchClusterSellCandidates;
+    const score = rules.signal === "cluster_buy" ? calculateSignalStrength : calculateSellSignalStrength;
+    const clusters = await fetchCandidates(env, rules.start_date, rules.end_date, null, MAX_CANDIDATES);
+    rows = clusters.results;
+    candidates = clusters.results.map((cluster) => ({
+      issuer_id: cluster.issuer_id,
+      transaction_date: cluster.transaction_date,
+      filed_date: cluster.last_filed_date,
+      score: score(cluster, model.config),
+    }));
+  }
+
+  candidates = candidates.filter((candidate) => candidate.score >= rules.min_score);
+
+  // Issuers' tickers; signals of issuers without one cannot be traded
+  const issuerIds = [...new Set(candidates.map((candidate) => candidate.issuer_id))];
+  const issuers = new Map();
+  if (issuerIds.length > 0) {
+    const { results } = await env.DB.prepare(
+      `
+      SELECT id, name, UPPER(TRIM(trading_symbol)) as symbol
+      FROM issuers
+      WHERE id IN (SELECT value FROM json_each(?1))
+        AND COALESCE(TRIM(trading_symbol), '') != ''
+    `
+    )
+      .bind(JSON.stringify(issuerIds))
+      .all();
+    for (const row of results) issuers.set(row.id, row);
+  }
+
+  const signals = candidates
+    .filter((candidate) => issuers.has(candidate.issuer_id))
+    .map((candidate) => ({
+      signal_type: rules.signal,
+      symbol: issuers.get(candidate.issuer_id).symbol,
+      issuer_name: issuers.get(candidate.issuer_id).name,
+      transaction_date: candidate.transaction_date,
+      signal_date: maxDate(candidate.filed_date, candidate.transaction_date),
+      score: candidate.score,
+    }))
+    .sort((a, b) => a.signal_date.localeCompare(b.signal_date));
+
+  const truncated = rows.length > 0 ? rows[0].candidate_total - rows.length : 0;
+
+  return { model, signals, truncated };
+}
+
+/**
+ * Bars source over a fixture, with the same bar shape as fetchDailyBars
+ */
+function fixtureBars(fixture) {
+  if (typeof fixture !== "object" || Array.isArray(fixture)) {
+    throw new BacktestError("bars must map symbols to arrays of { date, open, close }");
+  }
+
+  return async (symbol) => {
+    const bars = fixture[symbol];
+    if (!Array.isArray(bars)) return [];
+
+    return bars
+      .filter((bar) => bar && typeof bar.date === "string" && bar.close > 0)
+      .map((bar) => ({ date: bar.date.slice(0, 10), open: bar.open ?? bar.close, close: bar.close }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  };
+}
+
+function assertNumber(rules, key, min, max, integer = false) {
+  const value = rules[key];
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    throw new BacktestError(`${key} must be a number between ${min} and ${max}`);
+  }
+  if (integer && !Number.isInteger(value)) {
+    throw new BacktestError(`${key} must be a whole number`);
+  }
+}
+
+function addDays(date, days) {
+  return new Date(Date.parse(date) + days * 86400000).toISOString().slice(0, 10);
+}
+
+function minDate(a, b) {
+  return a < b ? a : b;
+}
+
+function maxDate(a, b) {
+  if (!a) return b;
+  return a > b ? a : b;
+}
@@ -0,0 +1,50 @@
+/**
+ * Market Data
+ *
+ * Daily bars from the alpaca-market worker, reached through the
+ * ALPACA_MARKET service binding.
+ */
+
+/**
+ * Daily closes for a symbol between two dates (inclusive), oldest first.
+ * Returns an empty list when the worker has no bars for the symbol (unknown
+ * or unsupported tickers are answered with a 4xx).
+ *
+ * @param {string} symbol - Stock symbol
+ * @param {string} startDate - YYYY-MM-DD
+ * @param {string} endDate - YYYY-MM-DD
+ * @returns {Promise<Array<{date: string, close: number}>>}
+ */
+export async function fetchDailyCloses(env, symbol, startDate, endDate) {
+  const bars = await fetchDailyBars(env, symbol, startDate, endDate);
+  return bars.map((bar) => ({ date: bar.date, close: bar.close }));
+}
+
+/**
+ * Daily opens and closes for a symbol between two dates (inclusive), oldest
+ * first; empty when the worker has no bars for the symbol
+ *
+ * @returns {Promise<Array<{date: string, open: number, close: number}>>}
+ */
+export async function fetchDailyBars(env, symbol, startDate, endDate) {
+  const url = new URL(`https://alpaca-market/api/market/bars/${encodeURIComponent(symbol)}`);
+  url.searchParams.set("timeframe", "1Day");
+  url.searchParams.set("start", startDate);
+  url.searchParams.set("end", endDate);
+
+  const response = await env.ALPACA_MARKET.fetch(new Request(url.toString()));
+
+  if (response.status >= 400 && response.status < 500) {
+    return [];
+  }
+  if (!response.ok) {
+    throw new Error(`Bars request for ${symbol} failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.bars || []).map((bar) => ({
+    date: bar.date,
+    open: bar.open,
+    close: bar.close,
+  }));
+}
@@ -170,7 +170,7 @@ export async function queueImportantTradeNotifications(env, importantTradeId, lo
       JOIN insider_transactions it ON its.transaction_id = it.id
       JOIN filings f ON its.filing_id = f.id
       JOIN issuers i ON f.issuer_id = i.id
-      JOIN person_relationships pr ON f.id = pr.filing_id
+      JOIN person_relationships pr ON f.id = pr.filing_id AND pr.is_primary_owner = TRUE
       JOIN persons p ON pr.person_id = p.id
       WHERE its.id = ?
     `).bind(importantTradeId).first();
@@ -0,0 +1,170 @@
+/**
+ * Rescoring
+ *
+ * Scores a date range under a candidate scoring model and the live one
+ * without writing anything, and reports where they disagree, so a candidate
+ * can be evaluated before it is activated.
+ */
+
+import {
+  calculateImportanceScore,
+  fetchTradesToScore,
+} from "../processors/important-trades.js";
+import {
+  calculateSignalStrength,
+  fetchClusterCandidates,
+} from "../processors/cluster-buys.js";
+import {
+  calculateSellSignalStrength,
+  fetchClusterSellCandidates,
+} from "../processors/cluster-sells.js";
+import {
+  MODEL_NAMES,
+  ScoringModelError,
+  assertModelName,
+  getLiveModel,
+  getModel,
+} from "./scoring-models.js";
+
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_DIFF_LIMIT = 100;
+
+/**
+ * Rescore a date range under a candidate model and diff it against live
+ *
+ * @param {object} options
+ * @param {string} options.model - "importance", "cluster_strength" or "cluster_sell_strength"
+ * @param {number} options.version - Candidate version
+ * @param {string} options.startDate - YYYY-MM-DD
+ * @param {string} options.endDate - YYYY-MM-DD
+ * @param {number} options.limit - Max changed rows returned (largest change first)
+ */
+export async function rescoreDateRange(env, options) {
+  const { model, version, startDate, endDate } = options;
+  const limit = options.limit || DEFAULT_DIFF_LIMIT;
+
+  assertModelName(model);
+  validateDateRange(startDate, endDate);
+
+  const live = await getLiveModel(env, model);
+  const candidate = await getModel(env, model, version);
+  if (!candidate) {
+    throw new ScoringModelError(`Scoring model "${model}" v${version} not found`);
+  }
+
+  const rescore = {
+    [MODEL_NAMES.IMPORTANCE]: rescoreTrades,
+    [MODEL_NAMES.CLUSTER_STRENGTH]: rescoreClusters,
+    [MODEL_NAMES.CLUSTER_SELL_STRENGTH]: rescoreSellClusters,
+  }[model];
+  const rows = await rescore(env, live, candidate, startDate, endDate);
+
+  const changed = rows.filter((row) => row.delta !== 0);
+  changed.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return {
+    model,
+    live_version: live.version,
+    candidate_version: candidate.version,
+    start_date: startDate,
+    end_date: endDate,
+    summary: {
+      scored: rows.length,
+      changed: changed.length,
+      increased: changed.filter((row) => row.delta > 0).length,
+      decreased: changed.filter((row) => row.delta < 0).length,
+      avg_live_score: average(rows.map((row) => row.live_score)),
+      avg_candidate_score: average(rows.map((row) => row.candidate_score)),
+      ...(model === MODEL_NAMES.IMPORTANCE && {
+        live_important: rows.filter((row) => row.live_important).length,
+        candidate_important: rows.filter((row) => row.candidate_important).length,
+        newly_important: rows.filter(
+          (row) => row.candidate_important && !row.live_important
+        ).length,
+        no_longer_important: rows.filter(
+          (row) => row.live_important && !row.candidate_important
+        ).length,
+      }),
+    },
+    changes: changed.slice(0, limit),
+  };
+}
+
+async function rescoreTrades(env, live, candidate, startDate, endDate) {
+  const trades = await fetchTradesToScore(env, startDate, endDate);
+
+  return trades.results.map((trade) => {
+    const liveScore = calculateImportanceScore(trade, live.config).total;
+    const candidateScore = calculateImportanceScore(trade, candidate.config).total;
+
+    return {
+      transaction_id: trade.transaction_id,
+      filing_id: trade.filing_id,
+      transaction_date: trade.transaction_date,
+      live_score: liveScore,
+      candidate_score: candidateScore,
+      delta: candidateScore - liveScore,
+      live_important: liveScore >= live.config.min_score,
+      candidate_important: candidateScore >= candidate.config.min_score,
+    };
+  });
+}
+
+async function rescoreClusters(env, live, candidate, startDate, endDate) {
+  const clusters = await fetchClusterCandidates(env, startDate, endDate);
+
+  return clusters.results.map((cluster) => {
+    const liveScore = calculateSignalStrength(cluster, live.config);
+    const candidateScore = calculateSignalStrength(cluster, candidate.config);
+
+    return {
+      issuer_id: cluster.issuer_id,
+      transaction_date: cluster.transaction_date,
+      total_insiders: cluster.total_insiders,
+      total_value: cluster.total_value,
+      live_score: liveScore,
+      candidate_score: candidateScore,
+      delta: candidateScore - liveScore,
+    };
+  });
+}
+
+async function rescoreSellClusters(env, live, candidate, startDate, endDate) {
+  const clusters = await fetchClusterSellCandidates(env, startDate, endDate);
+
+  return clusters.results.map((cluster) => {
+    const liveScore = calculateSellSignalStrength(cluster, live.config);
+    const candidateScore = calculateSellSignalStrength(cluster, candidate.config);
+
+    return {
+      issuer_id: cluster.issuer_id,
+      transaction_date: cluster.transaction_date,
+      total_insiders: cluster.total_insiders,
+      total_value: cluster.total_value,
+      live_score: liveScore,
+      candidate_score: candidateScore,
+      delta: candidateScore - liveScore,
+    };
+  });
+}
+
+function validateDateRange(startDate, endDate) {
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!datePattern.test(startDate || "") || !datePattern.test(endDate || "")) {
+    throw new ScoringModelError("start_date and end_date must be YYYY-MM-DD");
+  }
+
+  const rangeDays = (Date.parse(endDate) - Date.parse(startDate)) / 86400000;
+  if (!(rangeDays >= 0)) {
+    throw new ScoringModelError("end_date must not be before start_date");
+  }
+  if (rangeDays > MAX_RANGE_DAYS) {
+    throw new ScoringModelError(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+}
+
+function average(values) {
+  if (values.length === 0) return null;
+  const sum = values.reduce((total, value) => total + value, 0);
+  return Math.round((sum / values.length) * 100) / 100;
+}
@@ -0,0 +1,207 @@
+/**
+ * Scoring Models
+ *
+ * Importance and cluster buy/sell strength weights and thresholds are stored
+ * in the scoring_models table as named, versioned JSON configs. The live
+ * version of each model scores new signals; candidate versions can be
+ * rescored against it (see services/rescore.js) before being activated.
+ */
+
+export const MODEL_NAMES = {
+  IMPORTANCE: "importance",
+  CLUSTER_STRENGTH: "cluster_strength",
+  CLUSTER_SELL_STRENGTH: "cluster_sell_strength",
+};
+
+/**
+ * Invalid model name, config or version; reported to the caller as a 400
+ */
+export class ScoringModelError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "ScoringModelError";
+  }
+}
+
+// Top-level config sections each model must define (importance's
+// "track_record" section is optional)
+const REQUIRED_SECTIONS = {
+  [MODEL_NAMES.IMPORTANCE]: [
+    "min_score",
+    "value",
+    "direction",
+    "role",
+    "ownership",
+    "cluster",
+    "timing",
+    "first_buy",
+  ],
+  [MODEL_NAMES.CLUSTER_STRENGTH]: [
+    "insiders",
+    "value",
+    "seniority",
+    "ten_percent_owner",
+    "concentration",
+    "max_score",
+  ],
+  [MODEL_NAMES.CLUSTER_SELL_STRENGTH]: [
+    "insiders",
+    "value",
+    "seniority",
+    "ten_percent_owner",
+    "holdings_sold",
+    "concentration",
+    "max_score",
+  ],
+};
+
+/**
+ * Points for a value on a ladder of [threshold, points] tiers, checked from
+ * the highest threshold down
+ */
+export function scoreTier(value, tiers, fallback = 0) {
+  const sorted = [...(tiers || [])].sort((a, b) => b[0] - a[0]);
+  for (const [threshold, points] of sorted) {
+    if (value >= threshold) {
+      return points;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * The live version of a model
+ */
+export async function getLiveModel(env, name) {
+  const row = await env.DB.prepare(
+    `
+    SELECT name, version, status, config, description, created_at, activated_at
+    FROM scoring_models
+    WHERE name = ? AND status = 'live'
+  `
+  )
+    .bind(name)
+    .first();
+
+  if (!row) {
+    throw new Error(`No live scoring model "${name}" (is migration 017 applied?)`);
+  }
+
+  return parseModel(row);
+}
+
+/**
+ * A specific version of a model, or null when it does not exist
+ */
+export async function getModel(env, name, version) {
+  const row = await env.DB.prepare(
+    `
+    SELECT name, version, status, config, description, created_at, activated_at
+    FROM scoring_models
+    WHERE name = ? AND version = ?
+  `
+  )
+    .bind(name, version)
+    .first();
+
+  return row ? parseModel(row) : null;
+}
+
+/**
+ * All versions, newest first, optionally for one model
+ */
+export async function listModels(env, name = null) {
+  const { results } = await env.DB.prepare(
+    `
+    SELECT name, version, status, config, description, created_at, activated_at
+    FROM scoring_models
+    WHERE ? IS NULL OR name = ?
+    ORDER BY name, version DESC
+  `
+  )
+    .bind(name, name)
+    .all();
+
+  return results.map(parseModel);
+}
+
+/**
+ * Store a config as the next candidate version of a model
+ */
+export async function createModel(env, { name, config, description = null }) {
+  validateModelConfig(name, config);
+
+  const row = await env.DB.prepare(
+    `
+    INSERT INTO scoring_models (name, version, status, config, description)
+    SELECT ?1, COALESCE(MAX(version), 0) + 1, 'candidate', ?2, ?3
+    FROM scoring_models
+    WHERE name = ?1
+    RETURNING version
+  `
+  )
+    .bind(name, JSON.stringify(config), description)
+    .first();
+
+  return getModel(env, name, row.version);
+}
+
+/**
+ * Make a version live, retiring the current live version. Signals are
+ * rescored under it on the next processor run.
+ */
+export async function activateModel(env, name, version) {
+  const model = await getModel(env, name, version);
+  if (!model) {
+    throw new ScoringModelError(`Scoring model "${name}" v${version} not found`);
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `UPDATE scoring_models SET status = 'retired' WHERE name = ? AND status = 'live' AND version != ?`
+    ).bind(name, version),
+    env.DB.prepare(
+      `
+      UPDATE scoring_models
+      SET status = 'live', activated_at = CURRENT_TIMESTAMP
+      WHERE name = ? AND version = ?
+    `
+    ).bind(name, version),
+  ]);
+
+  return getModel(env, name, version);
+}
+
+/**
+ * Throw when a config is missing a section its model needs
+ */
+export function validateModelConfig(name, config) {
+  assertModelName(name);
+
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new ScoringModelError("Scoring model config must be a JSON object");
+  }
+
+  const missing = REQUIRED_SECTIONS[name].filter((section) => config[section] === undefined);
+  if (missing.length > 0) {
+    throw new ScoringModelError(`Scoring model config is missing: ${missing.join(", ")}`);
+  }
+}
+
+/**
+ * Throw unless the name is a known model
+ */
+export function assertModelName(name) {
+  if (!REQUIRED_SECTIONS[name]) {
+    throw new ScoringModelError(
+      `Unknown scoring model "${name}" (expected ${Object.values(MODEL_NAMES).join(", ")})`
+    );
+  }
+}
+
+function parseModel(row) {
+  return {
+    ...row,
+    config: JSON.parse(row.config),
+  };
+}
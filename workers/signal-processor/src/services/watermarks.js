@@ -0,0 +1,188 @@
+/**
+ * Processing Watermarks
+ *
+ * Each signal processor remembers the last completed filing it has seen as a
+ * (processed_at, filing id) pair in signal_watermarks. A run only rescores
+ * the issuers touched by filings completed after that point, from the
+ * earliest touched transaction date onward, and advances the watermark in
+ * the same D1 batch as its signal changes.
+ *
+ * Queue-triggered updates (see index.js) pass the touched issuers directly
+ * and leave the watermark to the scheduled run.
+ */
+
+// Filings consumed per run; the rest are picked up by the next run
+export const MAX_FILINGS_PER_RUN = 500;
+
+// processed_at has one-second resolution, so leave the current second alone:
+// a filing completing in it could otherwise sort below the saved watermark
+const SETTLE_SECONDS = 5;
+
+/**
+ * Work out what a processor run has to rescore
+ *
+ * @param {string} processor - Watermark key, e.g. "important-trades"
+ * @param {object} options
+ * @param {string} options.windowStart - Oldest transaction date the processor keeps (YYYY-MM-DD)
+ * @param {number} options.paddingDays - Days before a touched date that can be affected
+ * @param {boolean} options.full - Rescore the whole window
+ * @param {Array<{issuer_id: number, first_transaction_date: string|null}>} options.touched -
+ *   Rescore just these issuers and leave the watermark alone
+ * @returns {{ full: boolean, filings: number, scopes: string|null, watermarkUpdate: object|null }}
+ *   scopes is a JSON array of { issuer_id, from } for inScope(), or null for
+ *   the whole window; watermarkUpdate is a statement to include in the batch
+ */
+export async function loadIncrementalScope(env, processor, options) {
+  const { windowStart, paddingDays = 0 } = options;
+
+  if (options.touched) {
+    return {
+      full: false,
+      filings: options.touched.length,
+      scopes: buildScopes(options.touched, windowStart, paddingDays),
+      watermarkUpdate: null,
+    };
+  }
+
+  const watermark = await env.DB.prepare(
+    `SELECT last_filing_id, last_processed_at FROM signal_watermarks WHERE processor = ?`
+  )
+    .bind(processor)
+    .first();
+
+  // First run or forced: rescore everything and start from the newest filing
+  if (options.full || !watermark) {
+    const latest = await env.DB.prepare(
+      `
+      SELECT id, processed_at
+      FROM filings
+      WHERE status = 'completed'
+        AND processed_at IS NOT NULL
+        AND processed_at <= datetime('now', ?)
+      ORDER BY processed_at DESC, id DESC
+      LIMIT 1
+    `
+    )
+      .bind(`-${SETTLE_SECONDS} seconds`)
+      .first();
+
+    return {
+      full: true,
+      filings: null,
+      scopes: null,
+      watermarkUpdate: latest ? buildWatermarkUpdate(env, processor, latest) : null,
+    };
+  }
+
+  const { results: filings } = await env.DB.prepare(
+    `
+    SELECT
+      f.id,
+      f.issuer_id,
+      f.processed_at,
+      -- Across the amendment chain: an amendment deactivates the transactions
+      -- of the versions it supersedes, which may be on other dates
+      (
+        SELECT MIN(it.transaction_date)
+        FROM filings f2
+        JOIN insider_transactions it ON it.filing_id = f2.id
+        WHERE f2.accession_number = COALESCE(f.amends_accession_number, f.accession_number)
+          OR f2.amends_accession_number = COALESCE(f.amends_accession_number, f.accession_number)
+      ) as first_transaction_date
+    FROM filings f
+    WHERE f.status = 'completed'
+      AND f.processed_at IS NOT NULL
+      AND f.processed_at <= datetime('now', ?1)
+      AND (f.processed_at > ?2 OR (f.processed_at = ?2 AND f.id > ?3))
+    ORDER BY f.processed_at, f.id
+    LIMIT ?4
+  `
+  )
+    .bind(
+      `-${SETTLE_SECONDS} seconds`,
+      watermark.last_processed_at,
+      watermark.last_filing_id,
+      MAX_FILINGS_PER_RUN
+    )
+    .all();
+
+  if (filings.length === 0) {
+    return { full: false, filings: 0, scopes: "[]", watermarkUpdate: null };
+  }
+
+  return {
+    full: false,
+    filings: filings.length,
+    scopes: buildScopes(filings, windowStart, paddingDays),
+    watermarkUpdate: buildWatermarkUpdate(env, processor, filings[filings.length - 1]),
+  };
+}
+
+/**
+ * SQL condition matching rows inside the scopes bound at `param` (see
+ * loadIncrementalScope); a NULL scope matches everything
+ */
+export function inScope(issuerColumn, dateColumn, param) {
+  return `(${param} IS NULL OR EXISTS (
+    SELECT 1 FROM json_each(${param}) scope
+    WHERE json_extract(scope.value, '$.issuer_id') = ${issuerColumn}
+      AND ${dateColumn} >= json_extract(scope.value, '$.from')
+  ))`;
+}
+
+/**
+ * Split rows into JSON arrays for bulk statements that read them with
+ * json_each, keeping each bound value well under D1's size limit
+ */
+export function toJsonChunks(rows, chunkSize = 500) {
+  const chunks = [];
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    chunks.push(JSON.stringify(rows.slice(i, i + chunkSize)));
+  }
+  return chunks;
+}
+
+/**
+ * Earliest affected date per issuer as a JSON scope list. A filing without
+ * transactions (e.g. an amendment that removed them) can affect any date in
+ * the window.
+ */
+function buildScopes(touched, windowStart, paddingDays) {
+  const fromByIssuer = new Map();
+  for (const { issuer_id, first_transaction_date } of touched) {
+    if (!issuer_id) continue;
+
+    const from = first_transaction_date
+      ? maxDate(windowStart, shiftDate(first_transaction_date.slice(0, 10), -paddingDays))
+      : windowStart;
+    const current = fromByIssuer.get(issuer_id);
+    fromByIssuer.set(issuer_id, current && current < from ? current : from);
+  }
+
+  return JSON.stringify(
+    [...fromByIssuer].map(([issuer_id, from]) => ({ issuer_id, from }))
+  );
+}
+
+function buildWatermarkUpdate(env, processor, filing) {
+  return env.DB.prepare(
+    `
+    INSERT INTO signal_watermarks (processor, last_filing_id, last_processed_at, updated_at)
+    VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(processor) DO UPDATE SET
+      last_filing_id = excluded.last_filing_id,
+      last_processed_at = excluded.last_processed_at,
+      updated_at = CURRENT_TIMESTAMP
+  `
+  ).bind(processor, filing.id, filing.processed_at);
+}
+
+function shiftDate(date, days) {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function maxDate(a, b) {
+  return a > b ? a : b;
+}
@@ -0,0 +1,11 @@
+/**
+ * Date helpers for signal lookback windows
+ */
+
+/**
+ * UTC date (YYYY-MM-DD) the given number of days ago, matching SQLite's
+ * date('now', '-N days')
+ */
+export function daysAgo(days) {
+  return new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+}
@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectAnomaly } from "../src/processors/activity-anomalies.js";
+
+// A buy window with three years of history and ten active weeks of about
+// $50k and one trade each in the baseline
+function activityWindow(overrides = {}) {
+  return {
+    issuer_id: 1,
+    transaction_date: "2024-06-07",
+    direction: "buy",
+    window_start: "2024-06-01",
+    history_start: "2020-01-01",
+    trade_count: 1,
+    total_insiders: 1,
+    total_value: 50000,
+    active_weeks: 10,
+    sum_count: 10,
+    sumsq_count: 10,
+    sum_value: 500000,
+    sumsq_value: 2.5e10,
+    last_prior_date: "2024-03-01",
+    ...overrides,
+  };
+}
+
+test("ignores activity in line with the baseline", () => {
+  assert.equal(detectAnomaly(activityWindow()), null);
+});
+
+test("skips issuers with less than a year of history", () => {
+  const window = activityWindow({ history_start: "2023-12-01", total_value: 5000000 });
+  assert.equal(detectAnomaly(window), null);
+});
+
+test("flags the first purchase in three years", () => {
+  const never = detectAnomaly(activityWindow({ last_prior_date: null }));
+  assert.equal(never.anomaly_type, "first_buy_in_years");
+  assert.equal(never.days_since_prior, null);
+  assert.equal(never.baseline_weeks, 156);
+
+  const longAgo = detectAnomaly(activityWindow({ last_prior_date: "2020-06-01" }));
+  assert.equal(longAgo.anomaly_type, "first_buy_in_years");
+  assert.equal(longAgo.days_since_prior, 1467);
+});
+
+test("needs the full three-year baseline to call a first buy", () => {
+  const window = activityWindow({ history_start: "2022-06-01", last_prior_date: null });
+  assert.equal(detectAnomaly(window), null);
+});
+
+test("never calls a sale a first buy", () => {
+  const window = activityWindow({ direction: "sell", last_prior_date: null });
+  assert.equal(detectAnomaly(window), null);
+});
+
+test("flags weekly dollar volume far above the baseline", () => {
+  const anomaly = detectAnomaly(activityWindow({ total_value: 1000000 }));
+
+  assert.equal(anomaly.anomaly_type, "volume_spike");
+  assert.equal(anomaly.baseline_avg_value, 3205.13);
+  assert.ok(anomaly.value_z_score > 5);
+  assert.equal(anomaly.last_prior_date, "2024-03-01");
+  assert.equal(anomaly.days_since_prior, 98);
+});
+
+test("flags a trade count far above the baseline", () => {
+  const anomaly = detectAnomaly(activityWindow({ direction: "sell", trade_count: 5 }));
+
+  assert.equal(anomaly.anomaly_type, "frequency_spike");
+  assert.equal(anomaly.baseline_avg_count, 0.0641);
+  assert.ok(anomaly.count_z_score > 5);
+});
+
+test("prefers a volume spike over a frequency spike", () => {
+  const anomaly = detectAnomaly(activityWindow({ total_value: 1000000, trade_count: 5 }));
+  assert.equal(anomaly.anomaly_type, "volume_spike");
+});
+
+test("ignores spikes that are small or against a sparse baseline", () => {
+  assert.equal(detectAnomaly(activityWindow({ total_value: 90000 })), null);
+  assert.equal(detectAnomaly(activityWindow({ trade_count: 2 })), null);
+  assert.equal(
+    detectAnomaly(activityWindow({ total_value: 1000000, active_weeks: 3 })),
+    null
+  );
+});
+
+test("has no z-score against a baseline without variance", () => {
+  const window = activityWindow({
+    active_weeks: 0,
+    sum_count: 0,
+    sumsq_count: 0,
+    sum_value: 0,
+    sumsq_value: 0,
+    last_prior_date: null,
+  });
+  const anomaly = detectAnomaly(window);
+
+  assert.equal(anomaly.anomaly_type, "first_buy_in_years");
+  assert.equal(anomaly.value_z_score, null);
+  assert.equal(anomaly.count_z_score, null);
+});
@@ -0,0 +1,210 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { simulateBacktest } from "../src/services/backtest-engine.js";
+import { BacktestError, normalizeStrategy } from "../src/services/backtest.js";
+
+// Daily bars on consecutive dates from 2024-01-01; opens default to 10
+function bars(closes, opens = closes.map(() => 10)) {
+  return closes.map((close, index) => ({
+    date: new Date(Date.UTC(2024, 0, 1 + index)).toISOString().slice(0, 10),
+    open: opens[index],
+    close,
+  }));
+}
+
+function rules(overrides = {}) {
+  return normalizeStrategy({
+    signal: "cluster_buy",
+    start_date: "2024-01-01",
+    end_date: "2024-01-31",
+    hold_days: 3,
+    ...overrides,
+  });
+}
+
+function signal(symbol, signalDate = "2024-01-01", extra = {}) {
+  return { signal_type: "cluster_buy", symbol, signal_date: signalDate, score: 50, ...extra };
+}
+
+test("enters at the next open and exits at the close after the holding period", () => {
+  const result = simulateBacktest({
+    signals: [signal("AAA")],
+    bars: new Map([["AAA", bars([10, 10, 11, 11, 12, 12, 12, 12])]]),
+    benchmarkBars: [],
+    rules: rules(),
+  });
+
+  assert.equal(result.trades.length, 1);
+  const [trade] = result.trades;
+  assert.equal(trade.side, "long");
+  assert.equal(trade.entry_date, "2024-01-02");
+  assert.equal(trade.entry_price, 10);
+  assert.equal(trade.exit_date, "2024-01-05");
+  assert.equal(trade.exit_price, 12);
+  assert.equal(trade.exit_reason, "hold_period");
+  assert.equal(trade.holding_days, 3);
+  assert.equal(trade.shares, 1000);
+  assert.equal(trade.pnl, 2000);
+  assert.equal(trade.return, 0.2);
+
+  assert.equal(result.summary.final_equity, 102000);
+  assert.equal(result.summary.total_return, 0.02);
+  assert.equal(result.summary.hit_rate, 1);
+  assert.equal(result.summary.end_date, "2024-01-05");
+  assert.deepEqual(result.skipped, {});
+});
+
+test("enters at the next close when asked", () => {
+  const result = simulateBacktest({
+    signals: [signal("AAA")],
+    bars: new Map([["AAA", bars([10, 8, 9, 10, 12])]]),
+    benchmarkBars: [],
+    rules: rules({ entry: "next_close" }),
+  });
+
+  assert.equal(result.trades[0].entry_price, 8);
+  assert.equal(result.trades[0].exit_price, 12);
+  assert.equal(result.trades[0].return, 0.5);
+});
+
+test("exits at a stop loss or take profit checked on closes", () => {
+  const stopped = simulateBacktest({
+    signals: [signal("AAA")],
+    bars: new Map([["AAA", bars([10, 10, 9.5, 8.9, 12, 12])]]),
+    benchmarkBars: [],
+    rules: rules({ stop_loss: 0.1 }),
+  });
+  assert.equal(stopped.trades[0].exit_reason, "stop_loss");
+  assert.equal(stopped.trades[0].exit_date, "2024-01-04");
+  assert.equal(stopped.trades[0].exit_price, 8.9);
+
+  const profited = simulateBacktest({
+    signals: [signal("AAA")],
+    bars: new Map([["AAA", bars([10, 10, 12, 9, 9, 9])]]),
+    benchmarkBars: [],
+    rules: rules({ take_profit: 0.15 }),
+  });
+  assert.equal(profited.trades[0].exit_reason, "take_profit");
+  assert.equal(profited.trades[0].exit_date, "2024-01-03");
+});
+
+test("profits from a falling price when short", () => {
+  const result = simulateBacktest({
+    signals: [signal("AAA", "2024-01-01", { signal_type: "cluster_sell" })],
+    bars: new Map([["AAA", bars([10, 10, 9, 9, 8])]]),
+    benchmarkBars: [],
+    rules: rules({ signal: "cluster_sell" }),
+  });
+
+  const [trade] = result.trades;
+  assert.equal(trade.side, "short");
+  assert.equal(trade.return, 0.2);
+  assert.equal(trade.pnl, 2000);
+  assert.equal(result.summary.final_equity, 102000);
+});
+
+test("closes a trade at the last bar when data runs out", () => {
+  const result = simulateBacktest({
+    signals: [signal("AAA")],
+    bars: new Map([["AAA", bars([10, 10, 11])]]),
+    benchmarkBars: [],
+    rules: rules(),
+  });
+
+  assert.equal(result.trades[0].exit_reason, "end_of_data");
+  assert.equal(result.trades[0].holding_days, 1);
+});
+
+test("counts the signals it cannot trade by reason", () => {
+  const result = simulateBacktest({
+    signals: [
+      signal("AAA", "2024-01-01", { score: 90 }),
+      signal("BBB", "2024-01-01", { score: 10 }),
+      signal("CCC"),
+      signal("AAA", "2024-02-01"),
+    ],
+    bars: new Map([
+      ["AAA", bars([10, 10, 10, 10, 10])],
+      ["BBB", bars([10, 10, 10, 10, 10])],
+    ]),
+    benchmarkBars: [],
+    rules: rules({ max_positions: 1 }),
+  });
+
+  assert.equal(result.trades.length, 1);
+  assert.equal(result.trades[0].symbol, "AAA");
+  assert.deepEqual(result.skipped, {
+    no_bars: 1,
+    no_bars_after_signal: 1,
+    max_positions: 1,
+  });
+});
+
+test("tracks drawdown and the benchmark over the same calendar", () => {
+  const result = simulateBacktest({
+    signals: [signal("AAA")],
+    bars: new Map([["AAA", bars([10, 10, 5, 10, 10])]]),
+    benchmarkBars: bars([100, 100, 100, 100, 110]),
+    rules: rules(),
+  });
+
+  // 1000 shares bought at 10 mark down to 5 on 2024-01-03: 5% of 100000
+  assert.equal(result.summary.max_drawdown, 0.05);
+  assert.equal(result.summary.max_drawdown_date, "2024-01-03");
+  assert.equal(result.summary.benchmark_return, 0.1);
+  assert.equal(result.equity_curve.length, 5);
+  assert.equal(result.equity_curve[4].benchmark_equity, 110000);
+});
+
+test("normalizeStrategy fills in defaults and infers the side", () => {
+  const buys = normalizeStrategy({ signal: "cluster_buy", start_date: "2024-01-01", end_date: "2024-06-30" });
+  assert.equal(buys.side, "long");
+  assert.equal(buys.hold_days, 60);
+  assert.equal(buys.entry, "next_open");
+  assert.equal(buys.benchmark, "SPY");
+  assert.equal(buys.stop_loss, null);
+
+  const clusterSells = normalizeStrategy({ signal: "cluster_sell", start_date: "2024-01-01", end_date: "2024-06-30" });
+  assert.equal(clusterSells.side, "short");
+
+  const sales = normalizeStrategy({
+    signal: "important_trade",
+    direction: "sell",
+    start_date: "2024-01-01",
+    end_date: "2024-06-30",
+  });
+  assert.equal(sales.side, "short");
+
+  const longSales = normalizeStrategy({
+    signal: "cluster_sell",
+    side: "long",
+    start_date: "2024-01-01",
+    end_date: "2024-06-30",
+  });
+  assert.equal(longSales.side, "long");
+});
+
+test("normalizeStrategy rejects invalid rules", () => {
+  const base = { signal: "cluster_buy", start_date: "2024-01-01", end_date: "2024-06-30" };
+  const invalid = [
+    null,
+    [],
+    { ...base, signal: "first_buy" },
+    { ...base, start_date: "2024-1-1" },
+    { ...base, end_date: "2023-12-31" },
+    { ...base, end_date: "2027-06-30" },
+    { ...base, direction: "hold" },
+    { ...base, side: "both" },
+    { ...base, entry: "same_close" },
+    { ...base, hold_days: 0 },
+    { ...base, hold_days: 2.5 },
+    { ...base, position_size: 2 },
+    { ...base, max_positions: "10" },
+    { ...base, stop_loss: 0 },
+    { ...base, benchmark: "spy" },
+  ];
+
+  for (const strategy of invalid) {
+    assert.throws(() => normalizeStrategy(strategy), BacktestError, JSON.stringify(strategy));
+  }
+});
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculateForwardReturns } from "../src/processors/forward-returns.js";
+
+// Consecutive calendar dates from 2024-01-01 with the given closes
+function bars(closes) {
+  return closes.map((close, index) => ({
+    date: new Date(Date.UTC(2024, 0, 1 + index)).toISOString().slice(0, 10),
+    close,
+  }));
+}
+
+function benchmarkOf(series) {
+  return new Map(series.map((bar) => [bar.date, bar.close]));
+}
+
+test("measures returns from the first close on or after the signal date", () => {
+  const closes = bars(Array.from({ length: 121 }, (_, i) => 100 + i));
+  const result = calculateForwardReturns({ signal_date: "2024-01-01" }, closes, new Map());
+
+  assert.equal(result.base_date, "2024-01-01");
+  assert.equal(result.base_price, 100);
+  assert.equal(result.return_5d, 0.05);
+  assert.equal(result.return_20d, 0.2);
+  assert.equal(result.return_60d, 0.6);
+  assert.equal(result.return_120d, 1.2);
+  assert.equal(result.bars_through, closes[120].date);
+});
+
+test("skips to the next trading day when the signal date has no bar", () => {
+  const closes = bars([10, 11, 12, 13, 14, 15, 16, 17]).filter((bar) => bar.date !== "2024-01-02");
+  const result = calculateForwardReturns({ signal_date: "2024-01-02" }, closes, new Map());
+
+  assert.equal(result.base_date, "2024-01-03");
+  assert.equal(result.base_price, 12);
+  assert.equal(result.return_5d, 0.416667);
+});
+
+test("leaves horizons without enough bars null", () => {
+  const closes = bars(Array.from({ length: 30 }, () => 50));
+  const result = calculateForwardReturns({ signal_date: "2024-01-01" }, closes, new Map());
+
+  assert.equal(result.return_5d, 0);
+  assert.equal(result.return_20d, 0);
+  assert.equal(result.return_60d, null);
+  assert.equal(result.return_120d, null);
+});
+
+test("subtracts the benchmark return over the same dates", () => {
+  const closes = bars([100, 101, 102, 103, 104, 110]);
+  const benchmark = benchmarkOf(bars([200, 200, 200, 200, 200, 204]));
+  const result = calculateForwardReturns({ signal_date: "2024-01-01" }, closes, benchmark);
+
+  assert.equal(result.return_5d, 0.1);
+  assert.equal(result.excess_5d, 0.08);
+});
+
+test("leaves excess returns null when the benchmark is missing a date", () => {
+  const closes = bars([100, 101, 102, 103, 104, 110]);
+  const benchmark = benchmarkOf(bars([200, 200, 200, 200, 200]));
+  const result = calculateForwardReturns({ signal_date: "2024-01-01" }, closes, benchmark);
+
+  assert.equal(result.return_5d, 0.1);
+  assert.equal(result.excess_5d, null);
+});
+
+test("returns an empty result when there are no usable closes", () => {
+  const empty = calculateForwardReturns({ signal_date: "2024-01-01" }, [], new Map());
+  assert.equal(empty.base_date, null);
+  assert.equal(empty.bars_through, null);
+  assert.equal(empty.return_5d, null);
+
+  const later = calculateForwardReturns({ signal_date: "2025-01-01" }, bars([1, 2, 3]), new Map());
+  assert.equal(later.base_date, null);
+  assert.equal(later.bars_through, "2024-01-03");
+
+  const zero = calculateForwardReturns({ signal_date: "2024-01-01" }, bars([0, 1, 2, 3, 4, 5]), new Map());
+  assert.equal(zero.base_price, null);
+  assert.equal(zero.return_5d, null);
+});